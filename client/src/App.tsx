@@ -8,11 +8,23 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Items from "@/pages/items";
 import Customers from "@/pages/customers";
+import CustomerStatement from "@/pages/customer-statement";
 import Vendors from "@/pages/vendors";
 import Inventory from "@/pages/inventory";
 import Purchases from "@/pages/purchases";
+import Quotations from "@/pages/quotations";
+import SalesOrders from "@/pages/sales-orders";
 import Billing from "@/pages/billing";
+import RecurringInvoices from "@/pages/recurring-invoices";
+import CreditNotes from "@/pages/credit-notes";
+import Receivables from "@/pages/receivables";
+import Payables from "@/pages/payables";
+import Ledger from "@/pages/ledger";
+import FinancialStatements from "@/pages/financial-statements";
+import GstReturns from "@/pages/gst-returns";
+import Reports from "@/pages/reports";
 import Analytics from "@/pages/analytics";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
@@ -44,11 +56,23 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/items" component={Items} />
           <Route path="/customers" component={Customers} />
+          <Route path="/customers/:id/statement" component={CustomerStatement} />
           <Route path="/vendors" component={Vendors} />
           <Route path="/inventory" component={Inventory} />
           <Route path="/purchases" component={Purchases} />
+          <Route path="/quotations" component={Quotations} />
+          <Route path="/sales-orders" component={SalesOrders} />
           <Route path="/billing" component={Billing} />
+          <Route path="/recurring-invoices" component={RecurringInvoices} />
+          <Route path="/credit-notes" component={CreditNotes} />
+          <Route path="/receivables" component={Receivables} />
+          <Route path="/payables" component={Payables} />
+          <Route path="/ledger" component={Ledger} />
+          <Route path="/financial-statements" component={FinancialStatements} />
+          <Route path="/gst-returns" component={GstReturns} />
+          <Route path="/reports" component={Reports} />
           <Route path="/analytics" component={Analytics} />
+          <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
       </div>
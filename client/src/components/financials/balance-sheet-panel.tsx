@@ -0,0 +1,102 @@
+import { Fragment } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { ReportActions, StatementGroupRows } from "@/components/financials/statement-table";
+import { AlertTriangle } from "lucide-react";
+import { formatCurrency } from "@shared/currency";
+import type { BalanceSheet, BalanceSheetSide } from "@shared/financialStatements";
+
+interface BalanceSheetPanelProps {
+  asOf: string;
+  onDrillDown: (accountId: string) => void;
+}
+
+export default function BalanceSheetPanel({ asOf, onDrillDown }: BalanceSheetPanelProps) {
+  const { data: report, isLoading } = useQuery<BalanceSheet>({
+    queryKey: ['/api/financial-statements/balance-sheet', asOf],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/financial-statements/balance-sheet?asOf=${asOf}`);
+      return response.json();
+    },
+    enabled: !!asOf,
+  });
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    const sideRows = (side: BalanceSheetSide) => [
+      ...side.headings.flatMap(heading => [
+        [side.label, heading.label, '', '', heading.total],
+        ...heading.groups.flatMap(group => [
+          [side.label, heading.label, group.label, '', group.total.current],
+          ...group.accounts.map(account => [
+            side.label, heading.label, group.label, `${account.code} ${account.name}`.trim(), account.amount.current,
+          ]),
+        ]),
+      ]),
+      [`Total ${side.label.toLowerCase()}`, '', '', '', side.total],
+    ];
+    downloadCsv([
+      ['Side', 'Heading', 'Group', 'Account', 'Amount'],
+      ...sideRows(report.equityAndLiabilities),
+      ...sideRows(report.assets),
+    ], `balance-sheet-${asOf}.csv`);
+  };
+
+  if (isLoading || !report) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const renderSide = (side: BalanceSheetSide, testId: string) => (
+    <Card data-testid={`card-${testId}`}>
+      <CardHeader>
+        <CardTitle>{side.label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <tbody className="divide-y divide-border">
+            {side.headings.map(heading => (
+              <Fragment key={heading.label}>
+                <tr className="bg-muted/30 font-semibold">
+                  <td className="p-2">{heading.label}</td>
+                  <td className="p-2 text-right">{formatCurrency(heading.total)}</td>
+                </tr>
+                <StatementGroupRows groups={heading.groups} onDrillDown={onDrillDown} />
+              </Fragment>
+            ))}
+          </tbody>
+          <tfoot className="border-t-2 border-border font-semibold">
+            <tr data-testid={`${testId}-total`}>
+              <td className="p-2">Total</td>
+              <td className="p-2 text-right">{formatCurrency(side.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6" data-testid="balance-sheet-panel">
+      <ReportActions
+        pdfUrl={`/api/financial-statements/balance-sheet/pdf?asOf=${asOf}`}
+        pdfFileName={`balance-sheet-${asOf}.pdf`}
+        onExportCsv={handleExportCsv}
+        testId="balance-sheet"
+      />
+
+      {report.difference !== 0 && (
+        <p className="flex items-center gap-2 text-sm text-red-600" data-testid="text-balance-sheet-difference">
+          <AlertTriangle className="w-4 h-4" />
+          Assets differ from equity and liabilities by {formatCurrency(report.difference)}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSide(report.equityAndLiabilities, "equity-and-liabilities")}
+        {renderSide(report.assets, "assets")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { ReportActions, StatementGroupRows } from "@/components/financials/statement-table";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency } from "@shared/currency";
+import type { ComparativeAmount, ProfitAndLoss, StatementGroup } from "@shared/financialStatements";
+
+interface ProfitLossPanelProps {
+  from: string;
+  to: string;
+  onDrillDown: (accountId: string) => void;
+}
+
+const formatDate = (date: string) => format(new Date(date), 'dd-MM-yyyy');
+
+function getChange(amount: ComparativeAmount) {
+  if (amount.prior === 0) return null;
+  return ((amount.current - amount.prior) / Math.abs(amount.prior)) * 100;
+}
+
+export default function ProfitLossPanel({ from, to, onDrillDown }: ProfitLossPanelProps) {
+  const { data: report, isLoading } = useQuery<ProfitAndLoss>({
+    queryKey: ['/api/financial-statements/profit-and-loss', from, to],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/financial-statements/profit-and-loss?${new URLSearchParams({ from, to })}`);
+      return response.json();
+    },
+    enabled: !!from && !!to,
+  });
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    const groupRows = (groups: StatementGroup[]) => groups.flatMap(group => [
+      [group.label, '', group.total.current, group.total.prior],
+      ...group.accounts.map(account => [group.label, `${account.code} ${account.name}`, account.amount.current, account.amount.prior]),
+    ]);
+    downloadCsv([
+      ['Group', 'Account', `${formatDate(report.from)} to ${formatDate(report.to)}`, `${formatDate(report.priorFrom)} to ${formatDate(report.priorTo)}`],
+      ...groupRows(report.income),
+      ['Total income', '', report.totalIncome.current, report.totalIncome.prior],
+      ...groupRows(report.expenses),
+      ['Total expenses', '', report.totalExpenses.current, report.totalExpenses.prior],
+      ['Net profit', '', report.netProfit.current, report.netProfit.prior],
+    ], `profit-and-loss-${from}-to-${to}.csv`);
+  };
+
+  if (isLoading || !report) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const isProfit = report.netProfit.current >= 0;
+  const change = getChange(report.netProfit);
+  const stats: { label: string; amount: ComparativeAmount; testId: string }[] = [
+    { label: "Total Income", amount: report.totalIncome, testId: "income" },
+    { label: "Total Expenses", amount: report.totalExpenses, testId: "expenses" },
+  ];
+
+  return (
+    <div className="space-y-6" data-testid="profit-loss-panel">
+      <ReportActions
+        pdfUrl={`/api/financial-statements/profit-and-loss/pdf?${new URLSearchParams({ from, to })}`}
+        pdfFileName={`profit-and-loss-${from}-to-${to}.pdf`}
+        onExportCsv={handleExportCsv}
+        testId="profit-loss"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.testId} data-testid={`stat-pl-${stat.testId}`}>
+            <CardContent className="p-4">
+              <p className="text-muted-foreground text-sm">{stat.label}</p>
+              <p className="text-2xl font-bold">{formatCurrency(stat.amount.current)}</p>
+              <p className="text-xs text-muted-foreground">Previous period {formatCurrency(stat.amount.prior)}</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card data-testid="stat-pl-net">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <p className="text-muted-foreground text-sm">{isProfit ? "Net Profit" : "Net Loss"}</p>
+              {isProfit ? <TrendingUp className="w-4 h-4 text-green-600" /> : <TrendingDown className="w-4 h-4 text-red-500" />}
+            </div>
+            <p className={`text-2xl font-bold ${isProfit ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(Math.abs(report.netProfit.current))}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Previous period {formatCurrency(report.netProfit.prior)}
+              {change !== null && ` (${change >= 0 ? '+' : ''}${change.toFixed(1)}%)`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement of Profit and Loss</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Compared with {formatDate(report.priorFrom)} to {formatDate(report.priorTo)}. Click an account to see its ledger.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm" data-testid="table-profit-loss">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Particulars</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Current Period</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Previous Period</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                <tr className="bg-muted/30">
+                  <td className="p-2 font-semibold" colSpan={3}>Income</td>
+                </tr>
+                <StatementGroupRows groups={report.income} showPrior onDrillDown={onDrillDown} />
+                <tr className="font-semibold" data-testid="pl-total-income">
+                  <td className="p-2">Total income</td>
+                  <td className="p-2 text-right">{formatCurrency(report.totalIncome.current)}</td>
+                  <td className="p-2 text-right">{formatCurrency(report.totalIncome.prior)}</td>
+                </tr>
+                <tr className="bg-muted/30">
+                  <td className="p-2 font-semibold" colSpan={3}>Expenses</td>
+                </tr>
+                <StatementGroupRows groups={report.expenses} showPrior onDrillDown={onDrillDown} />
+                <tr className="font-semibold" data-testid="pl-total-expenses">
+                  <td className="p-2">Total expenses</td>
+                  <td className="p-2 text-right">{formatCurrency(report.totalExpenses.current)}</td>
+                  <td className="p-2 text-right">{formatCurrency(report.totalExpenses.prior)}</td>
+                </tr>
+              </tbody>
+              <tfoot className="border-t-2 border-border font-semibold">
+                <tr data-testid="pl-net-profit">
+                  <td className="p-2">{isProfit ? "Profit for the period" : "Loss for the period"}</td>
+                  <td className={`p-2 text-right ${isProfit ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(report.netProfit.current)}</td>
+                  <td className="p-2 text-right">{formatCurrency(report.netProfit.prior)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
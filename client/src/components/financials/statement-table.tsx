@@ -0,0 +1,98 @@
+import { Fragment, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { Download, Printer } from "lucide-react";
+import { formatCurrency } from "@shared/currency";
+import type { ComparativeAmount, StatementGroup } from "@shared/financialStatements";
+
+interface ReportActionsProps {
+  pdfUrl: string;
+  pdfFileName: string;
+  onExportCsv: () => void;
+  testId: string;
+}
+
+export function ReportActions({ pdfUrl, pdfFileName, onExportCsv, testId }: ReportActionsProps) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const handlePrint = () => {
+    window.open(`${pdfUrl}&inline=1`, '_blank');
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(pdfUrl, pdfFileName);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-end gap-2">
+      <Button variant="outline" onClick={onExportCsv} data-testid={`button-export-${testId}-csv`}>
+        <Download className="w-4 h-4 mr-2" />
+        Export CSV
+      </Button>
+      <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading} data-testid={`button-download-${testId}-pdf`}>
+        <Download className="w-4 h-4 mr-2" />
+        {isDownloading ? "Preparing..." : "Download PDF"}
+      </Button>
+      <Button onClick={handlePrint} data-testid={`button-print-${testId}`}>
+        <Printer className="w-4 h-4 mr-2" />
+        Print
+      </Button>
+    </div>
+  );
+}
+
+interface StatementGroupRowsProps {
+  groups: StatementGroup[];
+  showPrior?: boolean;
+  onDrillDown: (accountId: string) => void;
+}
+
+// Group totals in bold with their accounts beneath; posted accounts open their ledger
+export function StatementGroupRows({ groups, showPrior = false, onDrillDown }: StatementGroupRowsProps) {
+  const amountCells = (amount: ComparativeAmount) => (
+    <>
+      <td className="p-2 text-right">{formatCurrency(amount.current)}</td>
+      {showPrior && <td className="p-2 text-right text-muted-foreground">{formatCurrency(amount.prior)}</td>}
+    </>
+  );
+
+  return (
+    <>
+      {groups.map(group => (
+        <Fragment key={group.group}>
+          <tr className="font-medium" data-testid={`statement-group-${group.group}`}>
+            <td className="p-2 pl-4">{group.label}</td>
+            {amountCells(group.total)}
+          </tr>
+          {group.accounts.map(account => (
+            <tr
+              key={account.accountId ?? account.name}
+              className={account.accountId ? 'cursor-pointer hover:bg-muted/30' : ''}
+              onClick={() => account.accountId && onDrillDown(account.accountId)}
+              data-testid={`statement-account-${account.code || 'surplus'}`}
+            >
+              <td className="p-2 pl-8 text-muted-foreground">
+                {account.code && <span className="font-mono mr-2">{account.code}</span>}
+                {account.name}
+              </td>
+              {amountCells(account.amount)}
+            </tr>
+          ))}
+        </Fragment>
+      ))}
+    </>
+  );
+}
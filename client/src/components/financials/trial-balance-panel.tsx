@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { ReportActions } from "@/components/financials/statement-table";
+import { AlertTriangle } from "lucide-react";
+import { formatCurrency } from "@shared/currency";
+import { ACCOUNT_GROUPS, ACCOUNT_TYPES } from "@shared/ledger";
+import type { TrialBalance } from "@shared/financialStatements";
+
+interface TrialBalancePanelProps {
+  asOf: string;
+  onDrillDown: (accountId: string) => void;
+}
+
+export default function TrialBalancePanel({ asOf, onDrillDown }: TrialBalancePanelProps) {
+  const { data: report, isLoading } = useQuery<TrialBalance>({
+    queryKey: ['/api/financial-statements/trial-balance', asOf],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/financial-statements/trial-balance?asOf=${asOf}`);
+      return response.json();
+    },
+    enabled: !!asOf,
+  });
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadCsv([
+      ['Code', 'Account', 'Type', 'Group', 'Debit', 'Credit'],
+      ...report.rows.map(row => [
+        row.code, row.name, ACCOUNT_TYPES[row.type], ACCOUNT_GROUPS[row.group].label, row.debit || '', row.credit || '',
+      ]),
+      ['', 'Total', '', '', report.totalDebit, report.totalCredit],
+    ], `trial-balance-${asOf}.csv`);
+  };
+
+  if (isLoading || !report) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const isBalanced = report.totalDebit === report.totalCredit;
+
+  return (
+    <div className="space-y-6" data-testid="trial-balance-panel">
+      <ReportActions
+        pdfUrl={`/api/financial-statements/trial-balance/pdf?asOf=${asOf}`}
+        pdfFileName={`trial-balance-${asOf}.pdf`}
+        onExportCsv={handleExportCsv}
+        testId="trial-balance"
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trial Balance</CardTitle>
+          <p className="text-sm text-muted-foreground">Closing balance of every account with postings. Click an account to see its ledger.</p>
+        </CardHeader>
+        <CardContent>
+          {report.rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8" data-testid="text-no-trial-balance">
+              Nothing has been posted to the ledger by this date
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm" data-testid="table-trial-balance">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Code</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Account</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Group</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Debit</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Credit</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {report.rows.map(row => (
+                    <tr
+                      key={row.accountId}
+                      className="cursor-pointer hover:bg-muted/30"
+                      onClick={() => onDrillDown(row.accountId)}
+                      data-testid={`trial-balance-row-${row.code}`}
+                    >
+                      <td className="p-2 font-mono">{row.code}</td>
+                      <td className="p-2">{row.name}</td>
+                      <td className="p-2 text-muted-foreground">{ACCOUNT_GROUPS[row.group].label}</td>
+                      <td className="p-2 text-right">{row.debit ? formatCurrency(row.debit) : ''}</td>
+                      <td className="p-2 text-right">{row.credit ? formatCurrency(row.credit) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t-2 border-border font-semibold">
+                  <tr data-testid="trial-balance-totals">
+                    <td className="p-2" colSpan={3}>Total</td>
+                    <td className="p-2 text-right">{formatCurrency(report.totalDebit)}</td>
+                    <td className="p-2 text-right">{formatCurrency(report.totalCredit)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+          {!isBalanced && (
+            <p className="flex items-center gap-2 text-sm text-red-600 mt-3" data-testid="text-trial-balance-difference">
+              <AlertTriangle className="w-4 h-4" />
+              Debits and credits differ by {formatCurrency(Math.abs(report.totalDebit - report.totalCredit))}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ export default function Header() {
 
   const getPageTitle = () => {
     const path = window.location.pathname;
+    if (/^\/customers\/[^/]+\/statement$/.test(path)) {
+      return { title: 'Customer Statement', subtitle: 'Statement of account for a period' };
+    }
     switch (path) {
       case '/':
         return { title: 'Dashboard', subtitle: 'Overview of your business metrics' };
@@ -26,8 +29,26 @@ export default function Header() {
         return { title: 'Vendor Management', subtitle: 'Manage your supplier network' };
       case '/inventory':
         return { title: 'Inventory Management', subtitle: 'Track and manage your stock levels' };
+      case '/quotations':
+        return { title: 'Quotations', subtitle: 'Price quotes that convert into bills' };
+      case '/sales-orders':
+        return { title: 'Sales Orders', subtitle: 'Orders, deliveries and challan invoicing' };
       case '/billing':
         return { title: 'GST Billing', subtitle: 'Generate GST compliant invoices' };
+      case '/credit-notes':
+        return { title: 'Credit Notes', subtitle: 'Sales returns and GST reversals' };
+      case '/receivables':
+        return { title: 'Receivables', subtitle: 'What customers owe and how long it has been due' };
+      case '/payables':
+        return { title: 'Payables', subtitle: 'What you owe vendors and when it falls due' };
+      case '/ledger':
+        return { title: 'General Ledger', subtitle: 'Journal entries and chart of accounts' };
+      case '/financial-statements':
+        return { title: 'Financial Statements', subtitle: 'Profit and loss, balance sheet and trial balance' };
+      case '/gst-returns':
+        return { title: 'GST Returns', subtitle: 'GSTR-1, GSTR-3B and GSTR-2B reconciliation for the tax period' };
+      case '/reports':
+        return { title: 'Reports', subtitle: 'GST returns and statutory summaries' };
       case '/analytics':
         return { title: 'Analytics & Reports', subtitle: 'Business insights and performance metrics' };
       default:
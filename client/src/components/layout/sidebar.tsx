@@ -7,7 +7,18 @@ import {
   Truck, 
   Warehouse, 
   FileText, 
+  Repeat,
+  FileSignature,
+  ClipboardList,
+  ReceiptText,
+  Hourglass,
+  Wallet,
+  BookOpen,
+  Scale,
+  Landmark,
+  FileBarChart,
   PieChart,
+  Settings,
   LogOut
 } from "lucide-react";
 
@@ -17,8 +28,19 @@ const navigation = [
   { name: "Customers", href: "/customers", icon: Users },
   { name: "Vendors", href: "/vendors", icon: Truck },
   { name: "Inventory", href: "/inventory", icon: Warehouse },
+  { name: "Quotations", href: "/quotations", icon: FileSignature },
+  { name: "Sales Orders", href: "/sales-orders", icon: ClipboardList },
   { name: "GST Billing", href: "/billing", icon: FileText },
+  { name: "Recurring Invoices", href: "/recurring-invoices", icon: Repeat },
+  { name: "Credit Notes", href: "/credit-notes", icon: ReceiptText },
+  { name: "Receivables", href: "/receivables", icon: Hourglass },
+  { name: "Payables", href: "/payables", icon: Wallet },
+  { name: "General Ledger", href: "/ledger", icon: BookOpen },
+  { name: "Financial Statements", href: "/financial-statements", icon: Scale },
+  { name: "GST Returns", href: "/gst-returns", icon: Landmark },
+  { name: "Reports", href: "/reports", icon: FileBarChart },
   { name: "Analytics", href: "/analytics", icon: PieChart },
+  { name: "Settings", href: "/settings", icon: Settings },
 ];
 
 export default function Sidebar() {
@@ -0,0 +1,136 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import type { AccountLedger } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { JOURNAL_SOURCES } from "@shared/ledger";
+import { formatBalanceSide } from "@shared/statement";
+
+interface AccountLedgerModalProps {
+  accountId: string | null;
+  from: string;
+  to: string;
+  onClose: () => void;
+}
+
+function formatBalance(balance: number) {
+  return `${formatCurrency(Math.abs(balance))} ${formatBalanceSide(balance)}`.trim();
+}
+
+const formatDate = (date: Date | string) => format(new Date(date), 'dd-MM-yyyy');
+
+// Postings behind a figure in the financial statements
+export default function AccountLedgerModal({ accountId, from, to, onClose }: AccountLedgerModalProps) {
+  const { data: ledger, isLoading } = useQuery<AccountLedger>({
+    queryKey: ['/api/ledger-accounts', accountId, 'ledger', from, to],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/ledger-accounts/${accountId}/ledger?${new URLSearchParams({ from, to })}`);
+      return response.json();
+    },
+    enabled: !!accountId && !!from && !!to,
+  });
+
+  const handleExportCsv = () => {
+    if (!ledger) return;
+    downloadCsv([
+      ['Date', 'Voucher', 'Type', 'Reference', 'Narration', 'Debit', 'Credit', 'Balance'],
+      [formatDate(ledger.from), '', '', '', 'Opening balance', '', '', formatBalance(ledger.openingBalance)],
+      ...ledger.lines.map(line => [
+        formatDate(line.entryDate),
+        line.entryNumber,
+        JOURNAL_SOURCES[line.sourceType],
+        line.sourceNumber ?? '',
+        line.narration,
+        line.debit || '',
+        line.credit || '',
+        formatBalance(line.balance),
+      ]),
+      ['', '', '', '', 'Closing balance', ledger.totalDebit, ledger.totalCredit, formatBalance(ledger.closingBalance)],
+    ], `ledger-${ledger.account.code}-${from}-to-${to}.csv`);
+  };
+
+  return (
+    <Dialog open={!!accountId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto" data-testid="account-ledger-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">
+            {ledger ? `${ledger.account.code} · ${ledger.account.name}` : "Account Ledger"}
+          </DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            {formatDate(from)} to {formatDate(to)}
+          </p>
+        </DialogHeader>
+
+        {isLoading || !ledger ? (
+          <div className="h-48 bg-muted rounded animate-pulse"></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={handleExportCsv} data-testid="button-export-ledger-csv">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Voucher</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Particulars</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Debit</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Credit</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  <tr className="bg-muted/20" data-testid="ledger-opening">
+                    <td className="p-2">{formatDate(ledger.from)}</td>
+                    <td className="p-2" colSpan={4}>Opening balance</td>
+                    <td className="p-2 text-right font-medium">{formatBalance(ledger.openingBalance)}</td>
+                  </tr>
+                  {ledger.lines.length === 0 && (
+                    <tr>
+                      <td className="p-6 text-center text-muted-foreground" colSpan={6} data-testid="text-no-ledger-lines">
+                        Nothing posted to this account in the period
+                      </td>
+                    </tr>
+                  )}
+                  {ledger.lines.map((line, index) => (
+                    <tr key={`${line.entryId}-${index}`} data-testid={`ledger-line-${index}`}>
+                      <td className="p-2 whitespace-nowrap">{formatDate(line.entryDate)}</td>
+                      <td className="p-2">
+                        <div className="font-mono">{line.entryNumber}</div>
+                        <Badge variant="secondary" className="text-xs mt-1">{JOURNAL_SOURCES[line.sourceType]}</Badge>
+                      </td>
+                      <td className="p-2 text-muted-foreground">
+                        {line.sourceNumber && <div className="font-medium text-foreground">{line.sourceNumber}</div>}
+                        {line.narration}
+                      </td>
+                      <td className="p-2 text-right">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                      <td className="p-2 text-right">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                      <td className="p-2 text-right">{formatBalance(line.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t-2 border-border font-semibold">
+                  <tr data-testid="ledger-totals">
+                    <td className="p-2" colSpan={3}>Closing balance</td>
+                    <td className="p-2 text-right">{formatCurrency(ledger.totalDebit)}</td>
+                    <td className="p-2 text-right">{formatCurrency(ledger.totalCredit)}</td>
+                    <td className="p-2 text-right">{formatBalance(ledger.closingBalance)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { Send } from "lucide-react";
+import type { BillReminderWithRule, BillWithDetails, ReminderRule } from "@shared/schema";
+import { OPEN_BILL_STATUSES, type BillStatus } from "@shared/billStatus";
+import { describeReminderTiming } from "@shared/reminders";
+import { formatCurrency } from "@shared/currency";
+
+interface BillRemindersModalProps {
+  bill: BillWithDetails | null;
+  onClose: () => void;
+}
+
+export default function BillRemindersModal({ bill, onClose }: BillRemindersModalProps) {
+  const [ruleId, setRuleId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setRuleId("");
+  }, [bill]);
+
+  const { data: reminders = [], isLoading } = useQuery<BillReminderWithRule[]>({
+    queryKey: ['/api/bills', bill?.id, 'reminders'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/bills/${bill!.id}/reminders`);
+      return response.json();
+    },
+    enabled: !!bill,
+  });
+
+  const { data: rules = [] } = useQuery<ReminderRule[]>({
+    queryKey: ['/api/settings/reminder-rules'],
+    enabled: !!bill,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/bills/${bill!.id}/reminders`, { ruleId });
+      return response.json() as Promise<BillReminderWithRule[]>;
+    },
+    onSuccess: (history) => {
+      queryClient.setQueryData(['/api/bills', bill!.id, 'reminders'], history);
+      const [latest] = history;
+      toast({
+        title: latest?.status === 'sent' ? "Reminder sent" : "Reminder not sent",
+        description: latest?.status === 'sent' ? `Emailed to ${latest.recipient}` : latest?.error ?? undefined,
+        variant: latest?.status === 'sent' ? undefined : "destructive",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to send reminder"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSend = !!bill && OPEN_BILL_STATUSES.includes(bill.status as BillStatus) && parseFloat(bill.balanceDue) > 0;
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'sent':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={() => !sendMutation.isPending && onClose()}>
+      <DialogContent className="sm:max-w-[720px]" data-testid="bill-reminders-modal">
+        <DialogHeader>
+          <DialogTitle>Payment Reminders — {bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+
+        {bill && (
+          <p className="text-sm text-muted-foreground">
+            {bill.customer.name} ({bill.customer.email || "no email address"}) ·
+            {" "}Due {bill.dueDate ? new Date(bill.dueDate).toLocaleDateString() : "—"} ·
+            {" "}Balance {formatCurrency(bill.balanceDue)}
+          </p>
+        )}
+
+        {canSend && (
+          <div className="flex items-center gap-2">
+            <Select value={ruleId} onValueChange={setRuleId}>
+              <SelectTrigger className="flex-1" data-testid="select-reminder-rule">
+                <SelectValue placeholder={rules.length ? "Choose a reminder to send now" : "Set up reminders in Settings first"} />
+              </SelectTrigger>
+              <SelectContent>
+                {rules.map(rule => (
+                  <SelectItem key={rule.id} value={rule.id}>
+                    {rule.name} ({describeReminderTiming(rule)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => sendMutation.mutate()}
+              disabled={!ruleId || sendMutation.isPending}
+              data-testid="button-send-reminder"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {sendMutation.isPending ? "Sending..." : "Send Now"}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No reminders have been sent for this bill</p>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Sent</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Reminder</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">To</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {reminders.map(reminder => (
+                  <tr key={reminder.id} data-testid={`bill-reminder-${reminder.id}`}>
+                    <td className="p-2 whitespace-nowrap">
+                      {new Date(reminder.createdAt!).toLocaleString()}
+                      <span className="block text-xs text-muted-foreground">
+                        {reminder.sentByName ? `By ${reminder.sentByName}` : "Automatic"} · {reminder.transport}
+                      </span>
+                    </td>
+                    <td className="p-2">
+                      {reminder.ruleName ?? "Deleted rule"}
+                      <span className="block text-xs text-muted-foreground">{reminder.subject}</span>
+                    </td>
+                    <td className="p-2">{reminder.recipient ?? "—"}</td>
+                    <td className="p-2">
+                      <Badge className={`text-xs ${getStatusColor(reminder.status)}`}>
+                        {reminder.status.charAt(0).toUpperCase() + reminder.status.slice(1)}
+                      </Badge>
+                      {reminder.error && <span className="block text-xs text-destructive mt-1">{reminder.error}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
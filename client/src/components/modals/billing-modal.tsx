@@ -5,40 +5,118 @@ import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
 import { Plus, Trash2, Calculator } from "lucide-react";
-import type { Customer, ItemWithInventory, InsertBill, InsertBillItem } from "@shared/schema";
+import type { Customer, ItemWithInventory, InsertBill, InsertBillItem, InsertQuotationItem, QuotationWithDetails, InsertSalesOrderItem, SalesOrderWithDetails, InsertRecurringInvoiceItem, RecurringInvoiceWithDetails, CompanySettings } from "@shared/schema";
+import { DISCOUNT_TYPES, getPlaceOfSupply, getStateName, getSupplyType, priceInvoice, round2, type DiscountType } from "@shared/gst";
+import { RECURRING_FREQUENCIES, getRecurringFrequencyLabel } from "@shared/recurringInvoices";
 import { z } from "zod";
+import { formatCurrency } from "@shared/currency";
+import { DEFAULT_CUSTOMER_CREDIT_DAYS } from "@shared/billStatus";
 
 const billItemSchema = z.object({
   itemId: z.string().min(1, "Item is required"),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   rate: z.coerce.number().min(0, "Rate must be positive"),
+  discountType: z.enum(DISCOUNT_TYPES),
+  discountValue: z.coerce.number().min(0, "Discount cannot be negative"),
   amount: z.coerce.number().min(0, "Amount must be positive"),
-});
+}).refine(
+  item => item.discountType === "flat" || item.discountValue <= 100,
+  { path: ["discountValue"], message: "Max 100%" },
+);
 
 const billFormSchema = z.object({
   customerId: z.string().min(1, "Customer is required"),
-  status: z.string().default("pending"),
   billItems: z.array(billItemSchema).min(1, "At least one item is required"),
+  discountType: z.enum(DISCOUNT_TYPES),
+  discountValue: z.coerce.number().min(0, "Discount cannot be negative"),
+  grossAmount: z.coerce.number().min(0),
+  lineDiscountAmount: z.coerce.number().min(0),
+  discountAmount: z.coerce.number().min(0),
+  roundOff: z.coerce.number(),
   subtotal: z.coerce.number().min(0),
+  cgstAmount: z.coerce.number().min(0),
+  sgstAmount: z.coerce.number().min(0),
+  igstAmount: z.coerce.number().min(0),
   gstAmount: z.coerce.number().min(0),
   total: z.coerce.number().min(0),
+  validUntil: z.string().optional(),
+  terms: z.string().optional(),
+  expectedDeliveryDate: z.string().optional(),
+  notes: z.string().optional(),
+  name: z.string().optional(),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  paymentTermsDays: z.coerce.number().int().min(0, "Payment terms cannot be negative"),
 });
 
+const discountedBillFormSchema = billFormSchema.refine(
+  data => data.discountType === "flat" || data.discountValue <= 100,
+  { path: ["discountValue"], message: "Percentage discount cannot exceed 100" },
+);
+
+const quotationFormSchema = discountedBillFormSchema.refine(
+  data => !!data.validUntil,
+  { path: ["validUntil"], message: "Validity date is required" },
+);
+
+const recurringInvoiceFormSchema = discountedBillFormSchema.refine(
+  data => !!data.name?.trim(),
+  { path: ["name"], message: "Give the schedule a name" },
+).refine(
+  data => !!data.startDate,
+  { path: ["startDate"], message: "Start date is required" },
+).refine(
+  data => !data.endDate || !data.startDate || data.endDate >= data.startDate,
+  { path: ["endDate"], message: "End date cannot be before the start date" },
+);
+
 type BillFormData = z.infer<typeof billFormSchema>;
 
 interface BillingModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Quotations use the same line editor but are saved without touching stock;
+  // sales orders only reserve it until a delivery challan ships the goods.
+  // Recurring invoices save the lines as a template the scheduler bills from.
+  documentType?: "bill" | "quotation" | "sales_order" | "recurring_invoice";
 }
 
-export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
+const DOCUMENT_LABELS = {
+  bill: { title: "Create New Bill", items: "Bill Items", submit: "Create Bill", testId: "button-create-bill" },
+  quotation: { title: "Create Quotation", items: "Quoted Items", submit: "Create Quotation", testId: "button-create-quotation" },
+  sales_order: { title: "Create Sales Order", items: "Ordered Items", submit: "Create Sales Order", testId: "button-create-sales-order" },
+  recurring_invoice: { title: "Create Recurring Invoice", items: "Items Billed Each Run", submit: "Create Schedule", testId: "button-create-recurring-invoice" },
+} as const;
+
+const emptyLine = { itemId: "", quantity: 1, rate: 0, discountType: "percent" as DiscountType, discountValue: 0, amount: 0 };
+
+const defaultValidUntil = () => new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const FORM_SCHEMAS = {
+  bill: discountedBillFormSchema,
+  quotation: quotationFormSchema,
+  sales_order: discountedBillFormSchema,
+  recurring_invoice: recurringInvoiceFormSchema,
+};
+
+export default function BillingModal({ isOpen, onClose, documentType = "bill" }: BillingModalProps) {
+  const isQuotation = documentType === "quotation";
+  const isSalesOrder = documentType === "sales_order";
+  const isRecurring = documentType === "recurring_invoice";
+  const labels = DOCUMENT_LABELS[documentType];
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isCalculating, setIsCalculating] = useState(false);
@@ -51,25 +129,51 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
     queryKey: ['/api/items'],
   });
 
+  const { data: company } = useQuery<CompanySettings | null>({
+    queryKey: ['/api/settings'],
+  });
+
   const form = useForm<BillFormData>({
-    resolver: zodResolver(billFormSchema),
+    resolver: zodResolver(FORM_SCHEMAS[documentType]),
     defaultValues: {
       customerId: "",
-      status: "pending",
-      billItems: [{ itemId: "", quantity: 1, rate: 0, amount: 0 }],
+      billItems: [{ ...emptyLine }],
+      discountType: "percent",
+      discountValue: 0,
+      grossAmount: 0,
+      lineDiscountAmount: 0,
+      discountAmount: 0,
+      roundOff: 0,
       subtotal: 0,
+      cgstAmount: 0,
+      sgstAmount: 0,
+      igstAmount: 0,
       gstAmount: 0,
       total: 0,
+      validUntil: defaultValidUntil(),
+      terms: "",
+      expectedDeliveryDate: "",
+      notes: "",
+      name: "",
+      frequency: "monthly",
+      startDate: today(),
+      endDate: "",
+      paymentTermsDays: DEFAULT_CUSTOMER_CREDIT_DAYS,
     },
   });
 
+  const companyStateCode = company?.stateCode;
+  const selectedCustomer = customers.find(c => c.id === form.watch("customerId"));
+  const placeOfSupply = selectedCustomer ? getPlaceOfSupply(selectedCustomer, companyStateCode) : undefined;
+  const supplyType = getSupplyType(companyStateCode, placeOfSupply);
+
   const { fields, append, remove } = useFieldArray({
     control: form.control,
     name: "billItems",
   });
 
   const createBillMutation = useMutation({
-    mutationFn: async (data: { bill: InsertBill; billItems: InsertBillItem[] }) => {
+    mutationFn: async (data: { bill: Omit<InsertBill, 'billNumber' | 'createdBy'>; billItems: InsertBillItem[] }) => {
       const response = await apiRequest('POST', '/api/bills', data);
       return response.json();
     },
@@ -78,6 +182,7 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
       toast({
         title: "Success",
         description: "Bill created successfully",
@@ -85,64 +190,135 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
       onClose();
       form.reset();
     },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+    onError: (error) => handleSaveError(error, "Failed to create bill"),
+  });
+
+  const createQuotationMutation = useMutation({
+    mutationFn: async (data: { quotation: Record<string, unknown>; quotationItems: InsertQuotationItem[] }) => {
+      const response = await apiRequest('POST', '/api/quotations', data);
+      return response.json() as Promise<QuotationWithDetails>;
+    },
+    onSuccess: (quotation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotations'] });
       toast({
-        title: "Error",
-        description: "Failed to create bill",
-        variant: "destructive",
+        title: "Success",
+        description: `Quotation ${quotation.quotationNumber} created`,
       });
+      onClose();
+      form.reset();
     },
+    onError: (error) => handleSaveError(error, "Failed to create quotation"),
   });
 
+  const createSalesOrderMutation = useMutation({
+    mutationFn: async (data: { salesOrder: Record<string, unknown>; salesOrderItems: InsertSalesOrderItem[] }) => {
+      const response = await apiRequest('POST', '/api/sales-orders', data);
+      return response.json() as Promise<SalesOrderWithDetails>;
+    },
+    onSuccess: (salesOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      toast({
+        title: "Success",
+        description: `Sales order ${salesOrder.orderNumber} created`,
+      });
+      onClose();
+      form.reset();
+    },
+    onError: (error) => handleSaveError(error, "Failed to create sales order"),
+  });
+
+  const createRecurringInvoiceMutation = useMutation({
+    mutationFn: async (data: { recurringInvoice: Record<string, unknown>; recurringInvoiceItems: InsertRecurringInvoiceItem[] }) => {
+      const response = await apiRequest('POST', '/api/recurring-invoices', data);
+      return response.json() as Promise<RecurringInvoiceWithDetails>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recurring-invoices'] });
+      toast({
+        title: "Success",
+        description: `Recurring invoice "${template.name}" scheduled`,
+      });
+      onClose();
+      form.reset();
+    },
+    onError: (error) => handleSaveError(error, "Failed to create recurring invoice"),
+  });
+
+  const isSaving = createBillMutation.isPending || createQuotationMutation.isPending || createSalesOrderMutation.isPending || createRecurringInvoiceMutation.isPending;
+
+  function handleSaveError(error: Error, fallback: string) {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  }
+
   const calculateTotals = () => {
     setIsCalculating(true);
     
     setTimeout(() => {
       const billItems = form.getValues("billItems");
-      
-      // Update individual item amounts and calculate subtotal
-      let subtotal = 0;
-      const updatedItems = billItems.map((item, index) => {
+      const customer = customers.find(c => c.id === form.getValues("customerId"));
+      const lineSupplyType = getSupplyType(
+        companyStateCode,
+        customer ? getPlaceOfSupply(customer, companyStateCode) : undefined,
+      );
+
+      // Price the lines at list price, apply line and bill discounts and tax each
+      // line at the item's own GST rate. The server repeats this when saving.
+      const pricedIndexes: number[] = [];
+      const invoiceLines = billItems.flatMap((item, index) => {
         const selectedItem = items.find(i => i.id === item.itemId);
         if (selectedItem && item.quantity > 0) {
           const rate = Number(selectedItem.price);
-          const amount = item.quantity * rate;
-          
           form.setValue(`billItems.${index}.rate`, rate);
-          form.setValue(`billItems.${index}.amount`, amount);
-          
-          subtotal += amount;
-          return { ...item, rate, amount };
+          pricedIndexes.push(index);
+          return [{ ...item, rate, gstRate: Number(selectedItem.gstRate) }];
         }
-        return item;
+        return [];
       });
 
-      // Calculate GST (assuming 18% for simplicity - in production this would be item-specific)
-      const gstAmount = subtotal * 0.18;
-      const total = subtotal + gstAmount;
+      const { lines, totals } = priceInvoice(
+        invoiceLines,
+        { discountType: form.getValues("discountType"), discountValue: form.getValues("discountValue") },
+        lineSupplyType,
+        company?.roundOffInvoices ?? true,
+      );
+      lines.forEach((line, i) => {
+        form.setValue(`billItems.${pricedIndexes[i]}.amount`, round2(line.amount - line.discountAmount));
+      });
 
       // Update form values
-      form.setValue("subtotal", subtotal);
-      form.setValue("gstAmount", gstAmount);
-      form.setValue("total", total);
+      form.setValue("grossAmount", totals.grossAmount);
+      form.setValue("lineDiscountAmount", totals.lineDiscountAmount);
+      form.setValue("discountAmount", totals.discountAmount);
+      form.setValue("roundOff", totals.roundOff);
+      form.setValue("subtotal", totals.taxableValue);
+      form.setValue("cgstAmount", totals.cgstAmount);
+      form.setValue("sgstAmount", totals.sgstAmount);
+      form.setValue("igstAmount", totals.igstAmount);
+      form.setValue("gstAmount", totals.taxAmount);
+      form.setValue("total", totals.total);
       
       setIsCalculating(false);
     }, 500);
   };
 
   const addItem = () => {
-    append({ itemId: "", quantity: 1, rate: 0, amount: 0 });
+    append({ ...emptyLine });
   };
 
   const removeItem = (index: number) => {
@@ -153,30 +329,72 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
   };
 
   const onSubmit = (data: BillFormData) => {
-    // Don't include billNumber and createdBy - these are added by the server
+    // Don't include billNumber, createdBy, status, due date or any amounts - these are set by the server
+    const discount = { discountType: data.discountType, discountValue: data.discountValue };
     const billData = {
       customerId: data.customerId,
-      subtotal: data.subtotal.toString(),
-      gstAmount: data.gstAmount.toString(),
-      total: data.total.toString(),
-      status: data.status,
       billDate: new Date(),
-      dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+      ...discount,
     };
 
     // Don't include billId - this is added by the server
     const billItemsData = data.billItems.map(item => ({
       itemId: item.itemId,
       quantity: item.quantity,
-      rate: item.rate.toString(),
-      amount: item.amount.toString(),
+      rate: item.rate,
+      discountType: item.discountType,
+      discountValue: item.discountValue,
     }));
 
+    if (isQuotation) {
+      createQuotationMutation.mutate({
+        quotation: {
+          customerId: data.customerId,
+          quotationDate: new Date(),
+          validUntil: data.validUntil,
+          terms: data.terms,
+          ...discount,
+        },
+        quotationItems: billItemsData,
+      });
+      return;
+    }
+
+    if (isSalesOrder) {
+      createSalesOrderMutation.mutate({
+        salesOrder: {
+          customerId: data.customerId,
+          orderDate: new Date(),
+          expectedDeliveryDate: data.expectedDeliveryDate,
+          notes: data.notes,
+          ...discount,
+        },
+        salesOrderItems: billItemsData,
+      });
+      return;
+    }
+
+    if (isRecurring) {
+      createRecurringInvoiceMutation.mutate({
+        recurringInvoice: {
+          name: data.name,
+          customerId: data.customerId,
+          frequency: data.frequency,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          paymentTermsDays: data.paymentTermsDays,
+          ...discount,
+        },
+        recurringInvoiceItems: billItemsData,
+      });
+      return;
+    }
+
     createBillMutation.mutate({ bill: billData, billItems: billItemsData });
   };
 
   const handleClose = () => {
-    if (!createBillMutation.isPending && !isCalculating) {
+    if (!isSaving && !isCalculating) {
       onClose();
       form.reset();
     }
@@ -186,7 +404,7 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[800px] max-h-[80vh] overflow-y-auto" data-testid="billing-modal">
         <DialogHeader>
-          <DialogTitle data-testid="modal-title">Create New Bill</DialogTitle>
+          <DialogTitle data-testid="modal-title">{labels.title}</DialogTitle>
         </DialogHeader>
         
         <Form {...form}>
@@ -198,7 +416,16 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Customer *</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      // Recurring bills fall due on the customer's credit terms unless changed
+                      const customer = customers.find(c => c.id === value);
+                      if (customer) form.setValue("paymentTermsDays", customer.creditDays);
+                      calculateTotals();
+                    }}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger data-testid="select-customer">
                         <SelectValue placeholder="Select a customer" />
@@ -212,15 +439,173 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                       ))}
                     </SelectContent>
                   </Select>
+                  {selectedCustomer && (
+                    <p className="text-xs text-muted-foreground" data-testid="place-of-supply">
+                      Place of supply: {getStateName(placeOfSupply) ?? "Not set"} ({supplyType === "inter" ? "IGST" : "CGST + SGST"})
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {isQuotation && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="validUntil"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid Until *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-valid-until" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="terms"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Terms</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={2}
+                          placeholder="Leave blank to use the invoice terms from settings"
+                          {...field}
+                          data-testid="textarea-quotation-terms"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {isSalesOrder && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="expectedDeliveryDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Delivery</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-expected-delivery" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={2}
+                          placeholder="Customer PO number, delivery instructions..."
+                          {...field}
+                          data-testid="textarea-sales-order-notes"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {isRecurring && (
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Schedule Name *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. AMC - Block A lifts" {...field} data-testid="input-recurring-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="frequency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Frequency *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurring-frequency">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {RECURRING_FREQUENCIES.map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>
+                              {getRecurringFrequencyLabel(frequency)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First Invoice On *</FormLabel>
+                      <FormControl>
+                        <Input type="date" min={today()} {...field} data-testid="input-recurring-start" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-recurring-end" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="paymentTermsDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Terms (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" {...field} data-testid="input-recurring-terms" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             {/* Bill Items */}
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold">Bill Items</h3>
+                <h3 className="text-lg font-semibold">{labels.items}</h3>
                 <Button 
                   type="button" 
                   variant="outline" 
@@ -237,14 +622,20 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                 <Card key={field.id} data-testid={`bill-item-${index}`}>
                   <CardContent className="p-4">
                     <div className="grid grid-cols-12 gap-4 items-end">
-                      <div className="col-span-5">
+                      <div className="col-span-4">
                         <FormField
                           control={form.control}
                           name={`billItems.${index}.itemId`}
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Item *</FormLabel>
-                              <Select onValueChange={field.onChange} value={field.value}>
+                              <Select
+                                onValueChange={(value) => {
+                                  field.onChange(value);
+                                  calculateTotals();
+                                }}
+                                value={field.value}
+                              >
                                 <FormControl>
                                   <SelectTrigger data-testid={`select-item-${index}`}>
                                     <SelectValue placeholder="Select item" />
@@ -253,7 +644,7 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                                 <SelectContent>
                                   {items.map((item) => (
                                     <SelectItem key={item.id} value={item.id}>
-                                      {item.name} (₹{item.price}) - Stock: {item.currentStock}
+                                      {item.name} ({formatCurrency(item.price)}, GST {Number(item.gstRate)}%) - Stock: {item.currentStock}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -264,7 +655,7 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                         />
                       </div>
                       
-                      <div className="col-span-2">
+                      <div className="col-span-1">
                         <FormField
                           control={form.control}
                           name={`billItems.${index}.quantity`}
@@ -311,6 +702,56 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                         />
                       </div>
                       
+                      <div className="col-span-2">
+                        <Label>Discount</Label>
+                        <div className="flex items-start mt-2">
+                          <FormField
+                            control={form.control}
+                            name={`billItems.${index}.discountType`}
+                            render={({ field }) => (
+                              <Select
+                                onValueChange={(value) => {
+                                  field.onChange(value);
+                                  calculateTotals();
+                                }}
+                                value={field.value}
+                              >
+                                <SelectTrigger className="w-14 rounded-r-none px-2" data-testid={`select-discount-type-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="percent">%</SelectItem>
+                                  <SelectItem value="flat">₹</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`billItems.${index}.discountValue`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1 space-y-1">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    className="rounded-l-none"
+                                    {...field}
+                                    onChange={(e) => {
+                                      field.onChange(parseFloat(e.target.value) || 0);
+                                      calculateTotals();
+                                    }}
+                                    data-testid={`input-discount-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      </div>
+
                       <div className="col-span-2">
                         <FormField
                           control={form.control}
@@ -363,21 +804,116 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
               </Button>
             </div>
 
+            {/* Bill discount */}
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bill Discount</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        calculateTotals();
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-bill-discount-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percent">Percent (%)</SelectItem>
+                        <SelectItem value="flat">Amount (₹)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="discountValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{form.watch("discountType") === "flat" ? "Discount (₹)" : "Discount (%)"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(parseFloat(e.target.value) || 0);
+                          calculateTotals();
+                        }}
+                        data-testid="input-bill-discount"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <p className="text-xs text-muted-foreground pb-3">
+                Applied after line discounts, before GST
+              </p>
+            </div>
+
             {/* Totals */}
             <Card>
               <CardContent className="p-4">
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span>Subtotal:</span>
-                    <span data-testid="subtotal">₹{form.watch("subtotal").toFixed(2)}</span>
+                    <span>Gross Amount:</span>
+                    <span data-testid="gross-amount">{formatCurrency(form.watch("grossAmount"))}</span>
+                  </div>
+                  {form.watch("lineDiscountAmount") > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Line Discounts:</span>
+                      <span data-testid="line-discount-amount">-{formatCurrency(form.watch("lineDiscountAmount"))}</span>
+                    </div>
+                  )}
+                  {form.watch("discountAmount") > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Bill Discount:</span>
+                      <span data-testid="bill-discount-amount">-{formatCurrency(form.watch("discountAmount"))}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Taxable Value:</span>
+                    <span data-testid="subtotal">{formatCurrency(form.watch("subtotal"))}</span>
                   </div>
+                  {supplyType === "inter" ? (
+                    <div className="flex justify-between">
+                      <span>IGST:</span>
+                      <span data-testid="igst-amount">{formatCurrency(form.watch("igstAmount"))}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between">
+                        <span>CGST:</span>
+                        <span data-testid="cgst-amount">{formatCurrency(form.watch("cgstAmount"))}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST:</span>
+                        <span data-testid="sgst-amount">{formatCurrency(form.watch("sgstAmount"))}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between">
-                    <span>GST (18%):</span>
-                    <span data-testid="gst-amount">₹{form.watch("gstAmount").toFixed(2)}</span>
+                    <span>Total GST:</span>
+                    <span data-testid="gst-amount">{formatCurrency(form.watch("gstAmount"))}</span>
                   </div>
+                  {form.watch("roundOff") !== 0 && (
+                    <div className="flex justify-between">
+                      <span>Round Off:</span>
+                      <span data-testid="round-off">{form.watch("roundOff") > 0 ? "+" : "-"}{formatCurrency(Math.abs(form.watch("roundOff")))}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between border-t pt-2 font-bold text-lg">
                     <span>Total:</span>
-                    <span data-testid="total">₹{form.watch("total").toFixed(2)}</span>
+                    <span data-testid="total">{formatCurrency(form.watch("total"))}</span>
                   </div>
                 </div>
               </CardContent>
@@ -388,17 +924,17 @@ export default function BillingModal({ isOpen, onClose }: BillingModalProps) {
                 type="button" 
                 variant="outline" 
                 onClick={handleClose}
-                disabled={createBillMutation.isPending}
+                disabled={isSaving}
                 data-testid="button-cancel"
               >
                 Cancel
               </Button>
               <Button 
                 type="submit" 
-                disabled={createBillMutation.isPending}
-                data-testid="button-create-bill"
+                disabled={isSaving}
+                data-testid={labels.testId}
               >
-                {createBillMutation.isPending ? "Creating..." : "Create Bill"}
+                {isSaving ? "Creating..." : labels.submit}
               </Button>
             </div>
           </form>
@@ -0,0 +1,130 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { cancelBillSchema, type BillWithDetails, type CancelBill } from "@shared/schema";
+
+interface CancelBillModalProps {
+  bill: BillWithDetails | null;
+  onClose: () => void;
+  onCancelled?: (bill: BillWithDetails) => void;
+}
+
+export default function CancelBillModal({ bill, onClose, onCancelled }: CancelBillModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<CancelBill>({
+    resolver: zodResolver(cancelBillSchema),
+    defaultValues: { reason: "" },
+  });
+
+  useEffect(() => {
+    form.reset({ reason: "" });
+  }, [bill, form]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async (data: CancelBill) => {
+      const response = await apiRequest('POST', `/api/bills/${bill!.id}/cancel`, data);
+      return response.json() as Promise<BillWithDetails>;
+    },
+    onSuccess: (cancelledBill) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/items'] });
+      toast({
+        title: "Bill cancelled",
+        description: `${cancelledBill.billNumber} was cancelled and its stock restored`,
+      });
+      onCancelled?.(cancelledBill);
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to cancel bill"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    if (!cancelMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[440px]" data-testid="cancel-bill-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">Cancel Bill {bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          The bill will be kept for your records and marked cancelled. Stock sold on it is added back to inventory.
+          This cannot be undone.
+        </p>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => cancelMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason *</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="e.g. Billed to the wrong customer"
+                      rows={3}
+                      {...field}
+                      data-testid="textarea-cancel-reason"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={handleClose} data-testid="button-keep-bill">
+                Keep Bill
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={cancelMutation.isPending}
+                data-testid="button-confirm-cancel-bill"
+              >
+                {cancelMutation.isPending ? "Cancelling..." : "Cancel Bill"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { calculateLineTax, getCreditNoteRoundOff, round2, sumTaxLines } from "@shared/gst";
+import type { BillWithDetails, CreditNoteWithDetails, InsertCreditNoteItem } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+interface CreditNoteModalProps {
+  bill: BillWithDetails | null;
+  onClose: () => void;
+}
+
+export default function CreditNoteModal({ bill, onClose }: CreditNoteModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [creditNoteDate, setCreditNoteDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const { data: existingCreditNotes = [] } = useQuery<CreditNoteWithDetails[]>({
+    queryKey: ['/api/bills', bill?.id, 'credit-notes'],
+    enabled: !!bill,
+  });
+
+  useEffect(() => {
+    setQuantities({});
+    setReason("");
+    setCreditNoteDate(new Date().toISOString().split('T')[0]);
+  }, [bill]);
+
+  const creditNoteMutation = useMutation({
+    mutationFn: async (data: { creditNote: { billId: string; creditNoteDate: string; reason: string }; creditNoteItems: InsertCreditNoteItem[] }) => {
+      const response = await apiRequest('POST', '/api/credit-notes', data);
+      return response.json() as Promise<CreditNoteWithDetails>;
+    },
+    onSuccess: (creditNote) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/credit-notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/items'] });
+      toast({
+        title: "Credit note created",
+        description: `${creditNote.creditNoteNumber} for ${formatCurrency(creditNote.total)}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create credit note"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!bill) return null;
+
+  const isInterState = parseFloat(bill.igstAmount) > 0;
+
+  const lines = bill.billItems.map(billItem => {
+    const credited = existingCreditNotes
+      .flatMap(cn => cn.creditNoteItems)
+      .filter(line => line.billItemId === billItem.id)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return { billItem, remaining: billItem.quantity - credited };
+  });
+
+  // Preview only; the server credits exactly what is left on a full return
+  const preview = sumTaxLines(
+    lines
+      .filter(({ billItem }) => (quantities[billItem.id] || 0) > 0)
+      .map(({ billItem }) => calculateLineTax({
+        taxableValue: parseFloat(billItem.taxableValue) * quantities[billItem.id] / billItem.quantity,
+        gstRate: parseFloat(billItem.gstRate),
+      }, isInterState ? "inter" : "intra"))
+  );
+
+  const roundOff = getCreditNoteRoundOff(
+    parseFloat(bill.total),
+    existingCreditNotes.reduce((sum, cn) => sum + parseFloat(cn.total), 0),
+    preview.total,
+    lines.every(({ billItem, remaining }) => (quantities[billItem.id] || 0) === remaining),
+  );
+
+  const selected = lines.filter(({ billItem }) => (quantities[billItem.id] || 0) > 0);
+
+  const setQuantity = (billItemId: string, value: number, max: number) => {
+    setQuantities({ ...quantities, [billItemId]: Math.max(0, Math.min(max, Math.floor(value) || 0)) });
+  };
+
+  const handleReturnAll = () => {
+    setQuantities(Object.fromEntries(lines.map(({ billItem, remaining }) => [billItem.id, remaining])));
+  };
+
+  const handleSubmit = () => {
+    if (selected.length === 0) {
+      toast({
+        title: "Nothing to return",
+        description: "Enter a quantity for at least one item",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (reason.trim().length < 3) {
+      toast({
+        title: "Reason required",
+        description: "Please give a reason for the credit note",
+        variant: "destructive",
+      });
+      return;
+    }
+    creditNoteMutation.mutate({
+      creditNote: { billId: bill.id, creditNoteDate, reason },
+      creditNoteItems: selected.map(({ billItem }) => ({
+        billItemId: billItem.id,
+        quantity: quantities[billItem.id],
+      })),
+    });
+  };
+
+  const handleClose = () => {
+    if (!creditNoteMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[720px]" data-testid="credit-note-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">Credit Note against {bill.billNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Customer</p>
+              <p className="font-medium">{bill.customer.name}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="credit-note-date">Credit Note Date</Label>
+              <Input
+                id="credit-note-date"
+                type="date"
+                value={creditNoteDate}
+                onChange={(e) => setCreditNoteDate(e.target.value)}
+                data-testid="input-credit-note-date"
+              />
+            </div>
+          </div>
+
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Item</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Billed</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Returnable</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Rate</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-28">Return Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {lines.map(({ billItem, remaining }) => (
+                  <tr key={billItem.id} data-testid={`credit-line-${billItem.item.code}`}>
+                    <td className="p-2">
+                      <p className="font-medium">{billItem.item.name}</p>
+                      <p className="text-xs text-muted-foreground">{billItem.item.code} · GST {parseFloat(billItem.gstRate)}%</p>
+                    </td>
+                    <td className="p-2 text-right">{billItem.quantity}</td>
+                    <td className="p-2 text-right">{remaining}</td>
+                    <td className="p-2 text-right">{formatCurrency(billItem.rate)}</td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={remaining}
+                        value={quantities[billItem.id] ?? 0}
+                        disabled={remaining === 0}
+                        onChange={(e) => setQuantity(billItem.id, parseInt(e.target.value), remaining)}
+                        className="h-8 text-right"
+                        data-testid={`input-return-qty-${billItem.item.code}`}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-start">
+            <Button type="button" variant="outline" size="sm" onClick={handleReturnAll} data-testid="button-return-all">
+              Return All Remaining
+            </Button>
+            <div className="text-sm space-y-1 min-w-[220px]" data-testid="credit-note-totals">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Taxable Value:</span>
+                <span>{formatCurrency(preview.taxableValue)}</span>
+              </div>
+              {isInterState ? (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">IGST:</span>
+                  <span>{formatCurrency(preview.igstAmount)}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">CGST:</span>
+                    <span>{formatCurrency(preview.cgstAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">SGST:</span>
+                    <span>{formatCurrency(preview.sgstAmount)}</span>
+                  </div>
+                </>
+              )}
+              {roundOff !== 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Round Off:</span>
+                  <span data-testid="credit-note-round-off">{roundOff > 0 ? "+" : "-"}{formatCurrency(Math.abs(roundOff))}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-semibold border-t border-border pt-1">
+                <span>Credit Total:</span>
+                <span>{formatCurrency(round2(preview.total + roundOff))}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="credit-note-reason">Reason *</Label>
+            <Textarea
+              id="credit-note-reason"
+              placeholder="e.g. Damaged in transit"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="textarea-credit-note-reason"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={creditNoteMutation.isPending} data-testid="button-create-credit-note">
+              {creditNoteMutation.isPending ? "Saving..." : "Create Credit Note"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
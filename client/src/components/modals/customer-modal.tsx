@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { insertCustomerSchema, type InsertCustomer, type Customer } from "@shared/schema";
+import { DEFAULT_CUSTOMER_CREDIT_DAYS } from "@shared/billStatus";
 
 interface CustomerModalProps {
   isOpen: boolean;
@@ -33,6 +34,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
       city: "",
       state: "",
       pinCode: "",
+      creditDays: DEFAULT_CUSTOMER_CREDIT_DAYS,
     },
   });
 
@@ -116,6 +118,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
         city: customer.city || "",
         state: customer.state || "",
         pinCode: customer.pinCode || "",
+        creditDays: customer.creditDays,
       });
     } else {
       form.reset({
@@ -127,6 +130,7 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
         city: "",
         state: "",
         pinCode: "",
+        creditDays: DEFAULT_CUSTOMER_CREDIT_DAYS,
       });
     }
   }, [customer, form]);
@@ -207,25 +211,41 @@ export default function CustomerModal({ isOpen, onClose, customer }: CustomerMod
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="gstin"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>GSTIN</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="29ABCDE1234F1Z5" 
-                      {...field}
-                      value={field.value || ""}
-                      className="font-mono"
-                      data-testid="input-customer-gstin"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="gstin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="29ABCDE1234F1Z5" 
+                        {...field}
+                        value={field.value || ""}
+                        className="font-mono"
+                        data-testid="input-customer-gstin"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="creditDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Credit Days</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={365} {...field} data-testid="input-customer-credit-days" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <FormField
               control={form.control}
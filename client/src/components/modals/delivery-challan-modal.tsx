@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import type { DeliveryChallanWithDetails, InsertDeliveryChallanItem, SalesOrderWithDetails } from "@shared/schema";
+
+interface DeliveryChallanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  salesOrder: SalesOrderWithDetails | null;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function DeliveryChallanModal({ isOpen, onClose, salesOrder }: DeliveryChallanModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [challanDate, setChallanDate] = useState(today());
+  const [vehicleNumber, setVehicleNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const pendingLines = (salesOrder?.salesOrderItems ?? [])
+    .map(line => ({ ...line, remaining: line.quantity - line.deliveredQuantity }))
+    .filter(line => line.remaining > 0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setChallanDate(today());
+    setVehicleNumber("");
+    setNotes("");
+    setQuantities({});
+  }, [isOpen, salesOrder]);
+
+  const deliverAllRemaining = () => {
+    setQuantities(Object.fromEntries(pendingLines.map(line => [line.id, String(line.remaining)])));
+  };
+
+  const challanMutation = useMutation({
+    mutationFn: async (data: { challan: Record<string, unknown>; challanItems: InsertDeliveryChallanItem[] }) => {
+      const response = await apiRequest('POST', '/api/delivery-challans', data);
+      return response.json() as Promise<DeliveryChallanWithDetails>;
+    },
+    onSuccess: (challan) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-challans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/items'] });
+      toast({
+        title: "Delivery challan created",
+        description: `${challan.challanNumber} for ${challan.customer.name}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to create delivery challan"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!salesOrder) return;
+
+    const challanItems = pendingLines
+      .map(line => ({ salesOrderItemId: line.id, quantity: parseInt(quantities[line.id]) || 0 }))
+      .filter(line => line.quantity > 0);
+    if (challanItems.length === 0) {
+      toast({
+        title: "Nothing to deliver",
+        description: "Enter a quantity for at least one item",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    challanMutation.mutate({
+      challan: {
+        salesOrderId: salesOrder.id,
+        challanDate,
+        vehicleNumber,
+        notes,
+      },
+      challanItems,
+    });
+  };
+
+  const handleClose = () => {
+    if (!challanMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[640px]" data-testid="delivery-challan-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">
+            Deliver {salesOrder?.orderNumber} to {salesOrder?.customer.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="challan-date">Challan Date</Label>
+              <Input
+                id="challan-date"
+                type="date"
+                value={challanDate}
+                onChange={(e) => setChallanDate(e.target.value)}
+                data-testid="input-challan-date"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vehicle-number">Vehicle Number</Label>
+              <Input
+                id="vehicle-number"
+                placeholder="Optional"
+                value={vehicleNumber}
+                onChange={(e) => setVehicleNumber(e.target.value.toUpperCase())}
+                data-testid="input-vehicle-number"
+              />
+            </div>
+          </div>
+
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Item</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Ordered</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Delivered</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-32">Deliver Now</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {pendingLines.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="p-4 text-center text-muted-foreground">
+                      Everything on this order has been delivered
+                    </td>
+                  </tr>
+                ) : (
+                  pendingLines.map(line => (
+                    <tr key={line.id} data-testid={`challan-line-${line.item.code}`}>
+                      <td className="p-2">{line.item.name}</td>
+                      <td className="p-2 text-right">{line.quantity}</td>
+                      <td className="p-2 text-right">{line.deliveredQuantity}</td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={line.remaining}
+                          value={quantities[line.id] ?? ""}
+                          placeholder={`max ${line.remaining}`}
+                          onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                          className="h-8 text-right"
+                          data-testid={`input-deliver-${line.item.code}`}
+                        />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={deliverAllRemaining}
+              disabled={pendingLines.length === 0}
+              data-testid="button-deliver-all"
+            >
+              Deliver all remaining
+            </Button>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="challan-notes">Notes</Label>
+            <Textarea
+              id="challan-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="textarea-challan-notes"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={challanMutation.isPending} data-testid="button-save-challan">
+              {challanMutation.isPending ? "Saving..." : "Create Challan"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { FileJson } from "lucide-react";
+import { recordBillIrnSchema, type BillWithDetails } from "@shared/schema";
+
+interface EInvoiceModalProps {
+  bill: BillWithDetails | null;
+  onClose: () => void;
+  onRecorded?: (bill: BillWithDetails) => void;
+}
+
+// The date input gives a string; the server coerces it
+const irnFormSchema = recordBillIrnSchema.extend({
+  ackDate: z.string().min(1, "Ack date is required"),
+});
+
+type IrnForm = z.infer<typeof irnFormSchema>;
+
+const emptyForm: IrnForm = { irn: "", ackNumber: "", ackDate: "", signedQrCode: "" };
+
+export default function EInvoiceModal({ bill, onClose, onRecorded }: EInvoiceModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const form = useForm<IrnForm>({
+    resolver: zodResolver(irnFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  useEffect(() => {
+    form.reset(emptyForm);
+  }, [bill, form]);
+
+  const handleDownloadJson = async () => {
+    if (!bill) return;
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(`/api/bills/${bill.id}/einvoice?download=1`, `${bill.billNumber}-einvoice.json`);
+    } catch (error) {
+      toast({
+        title: "E-invoice not ready",
+        description: getApiErrorMessage(error as Error, "Failed to generate e-invoice JSON"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const irnMutation = useMutation({
+    mutationFn: async (data: IrnForm) => {
+      // datetime-local has no zone, so send the instant as the browser reads it
+      const response = await apiRequest('POST', `/api/bills/${bill!.id}/irn`, {
+        ...data,
+        ackDate: new Date(data.ackDate).toISOString(),
+      });
+      return response.json() as Promise<BillWithDetails>;
+    },
+    onSuccess: (registeredBill) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      toast({
+        title: "IRN recorded",
+        description: `${registeredBill.billNumber} now prints with its e-invoice QR code`,
+      });
+      onRecorded?.(registeredBill);
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record IRN"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    if (!irnMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!bill} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[560px]" data-testid="einvoice-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">E-Invoice for {bill?.billNumber}</DialogTitle>
+        </DialogHeader>
+
+        {bill?.irn ? (
+          <div className="space-y-2 text-sm" data-testid="einvoice-registered">
+            <p>This bill is registered on the IRP.</p>
+            <p className="break-all"><span className="text-muted-foreground">IRN:</span> {bill.irn}</p>
+            <p><span className="text-muted-foreground">Ack No:</span> {bill.irnAckNumber}</p>
+            <p>
+              <span className="text-muted-foreground">Ack Date:</span>{" "}
+              {bill.irnAckDate && new Date(bill.irnAckDate).toLocaleString('en-IN')}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                1. Download the INV-01 JSON and upload it on the Invoice Registration Portal.
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleDownloadJson}
+                disabled={isDownloading}
+                className="flex items-center space-x-2"
+                data-testid="button-download-einvoice"
+              >
+                <FileJson className="w-4 h-4" />
+                <span>{isDownloading ? "Preparing..." : "Download E-Invoice JSON"}</span>
+              </Button>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              2. Enter the details the IRP returns so the invoice prints with its IRN and signed QR code.
+            </p>
+
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(data => irnMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="irn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>IRN *</FormLabel>
+                      <FormControl>
+                        <Input className="font-mono text-xs" {...field} data-testid="input-irn" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="ackNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ack No *</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-ack-number" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="ackDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Ack Date *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="datetime-local"
+                            {...field}
+                            data-testid="input-ack-date"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="signedQrCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Signed QR Code *</FormLabel>
+                      <FormControl>
+                        <Textarea rows={4} className="font-mono text-xs" {...field} data-testid="textarea-signed-qr" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={irnMutation.isPending} data-testid="button-save-irn">
+                    {irnMutation.isPending ? "Saving..." : "Save IRN"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { FileJson } from "lucide-react";
+import type { Bill } from "@shared/schema";
+import {
+  EWAY_BILL_THRESHOLD,
+  TRANSPORT_MODES,
+  getEWayBillValidUpto,
+  recordEWayBillSchema,
+  transportDetailsSchema,
+} from "@shared/ewaybill";
+import { formatCurrency } from "@shared/currency";
+
+// Bills and delivery challans carry the same transport and e-way bill columns
+type EWayBillFields = Pick<Bill,
+  | "id"
+  | "transportMode"
+  | "transportDistance"
+  | "transporterId"
+  | "transporterName"
+  | "vehicleNumber"
+  | "transportDocNumber"
+  | "transportDocDate"
+  | "ewbNumber"
+  | "ewbDate"
+  | "ewbValidUpto"
+>;
+
+export interface EWayBillDocument {
+  resource: "bills" | "delivery-challans";
+  documentNumber: string;
+  consignmentValue: number;
+  fields: EWayBillFields;
+}
+
+interface EWayBillModalProps {
+  document: EWayBillDocument | null;
+  onClose: () => void;
+}
+
+const toDateInput = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toISOString().split('T')[0] : "";
+
+// datetime-local wants local time without a zone
+const toDateTimeInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+function transportFormFrom(fields?: EWayBillFields) {
+  return {
+    transportMode: fields?.transportMode ?? "road",
+    transportDistance: fields?.transportDistance?.toString() ?? "",
+    transporterId: fields?.transporterId ?? "",
+    transporterName: fields?.transporterName ?? "",
+    vehicleNumber: fields?.vehicleNumber ?? "",
+    transportDocNumber: fields?.transportDocNumber ?? "",
+    transportDocDate: toDateInput(fields?.transportDocDate),
+  };
+}
+
+export default function EWayBillModal({ document, onClose }: EWayBillModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [current, setCurrent] = useState<EWayBillFields | undefined>(document?.fields);
+  const [transport, setTransport] = useState(transportFormFrom(document?.fields));
+  const [ewb, setEwb] = useState({ ewbNumber: "", ewbDate: "", ewbValidUpto: "" });
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!document) return;
+    setCurrent(document.fields);
+    setTransport(transportFormFrom(document.fields));
+    setEwb({ ewbNumber: "", ewbDate: toDateTimeInput(new Date()), ewbValidUpto: "" });
+  }, [document]);
+
+  // Suggest the validity the portal will give, from the saved distance
+  useEffect(() => {
+    if (!ewb.ewbDate || current?.transportDistance == null) return;
+    const validUpto = getEWayBillValidUpto(new Date(ewb.ewbDate), current.transportDistance);
+    setEwb(value => ({ ...value, ewbValidUpto: toDateTimeInput(validUpto) }));
+  }, [ewb.ewbDate, current?.transportDistance]);
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const onSaved = (saved: EWayBillFields) => {
+    setCurrent(saved);
+    queryClient.invalidateQueries({ queryKey: [`/api/${document!.resource}`] });
+  };
+
+  const transportMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = await apiRequest('PUT', `/api/${document!.resource}/${document!.fields.id}/transport`, data);
+      return response.json() as Promise<EWayBillFields>;
+    },
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({ title: "Transport details saved", description: "Download the JSON and upload it on the e-way bill portal" });
+    },
+    onError: (error) => handleError(error, "Failed to save transport details"),
+  });
+
+  const ewbMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = await apiRequest('POST', `/api/${document!.resource}/${document!.fields.id}/ewaybill`, data);
+      return response.json() as Promise<EWayBillFields>;
+    },
+    onSuccess: (saved) => {
+      onSaved(saved);
+      toast({ title: "E-way bill recorded", description: `EWB ${saved.ewbNumber} saved on ${document!.documentNumber}` });
+      onClose();
+    },
+    onError: (error) => handleError(error, "Failed to record e-way bill"),
+  });
+
+  const handleSaveTransport = () => {
+    const result = transportDetailsSchema.safeParse(transport);
+    if (!result.success) {
+      toast({ title: "Check transport details", description: result.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    transportMutation.mutate(transport);
+  };
+
+  const handleSaveEwb = () => {
+    const payload = {
+      ewbNumber: ewb.ewbNumber,
+      ewbDate: ewb.ewbDate && new Date(ewb.ewbDate).toISOString(),
+      ewbValidUpto: ewb.ewbValidUpto && new Date(ewb.ewbValidUpto).toISOString(),
+    };
+    const result = recordEWayBillSchema.safeParse(payload);
+    if (!result.success) {
+      toast({ title: "Check e-way bill details", description: result.error.issues[0].message, variant: "destructive" });
+      return;
+    }
+    ewbMutation.mutate(payload);
+  };
+
+  const handleDownloadJson = async () => {
+    if (!document) return;
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(
+        `/api/${document.resource}/${document.fields.id}/ewaybill?download=1`,
+        `${document.documentNumber}-ewaybill.json`,
+      );
+    } catch (error) {
+      toast({
+        title: "E-way bill not ready",
+        description: getApiErrorMessage(error as Error, "Failed to generate e-way bill JSON"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!transportMutation.isPending && !ewbMutation.isPending) {
+      onClose();
+    }
+  };
+
+  const isRoad = transport.transportMode === "road";
+
+  return (
+    <Dialog open={!!document} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto" data-testid="ewaybill-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">E-Way Bill for {document?.documentNumber}</DialogTitle>
+        </DialogHeader>
+
+        {document && document.consignmentValue <= EWAY_BILL_THRESHOLD && (
+          <p className="text-sm text-muted-foreground" data-testid="text-ewb-optional">
+            Consignment value {formatCurrency(document.consignmentValue)} is within {formatCurrency(EWAY_BILL_THRESHOLD)}, so an e-way bill is optional.
+          </p>
+        )}
+
+        {current?.ewbNumber ? (
+          <div className="space-y-2 text-sm" data-testid="ewb-recorded">
+            <p><span className="text-muted-foreground">EWB No:</span> <span className="font-mono">{current.ewbNumber}</span></p>
+            <p><span className="text-muted-foreground">Generated:</span> {current.ewbDate && new Date(current.ewbDate).toLocaleString('en-IN')}</p>
+            <p><span className="text-muted-foreground">Valid Upto:</span> {current.ewbValidUpto && new Date(current.ewbValidUpto).toLocaleString('en-IN')}</p>
+            {current.vehicleNumber && (
+              <p><span className="text-muted-foreground">Vehicle:</span> <span className="font-mono">{current.vehicleNumber}</span></p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-3">
+              <p className="text-sm font-medium">1. Transport details (Part B)</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Mode</Label>
+                  <Select
+                    value={transport.transportMode}
+                    onValueChange={(value) => setTransport({ ...transport, transportMode: value })}
+                  >
+                    <SelectTrigger data-testid="select-transport-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TRANSPORT_MODES).map(([mode, { label }]) => (
+                        <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="transport-distance">Distance (km)</Label>
+                  <Input
+                    id="transport-distance"
+                    type="number"
+                    min={0}
+                    value={transport.transportDistance}
+                    onChange={(e) => setTransport({ ...transport, transportDistance: e.target.value })}
+                    data-testid="input-transport-distance"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="transporter-id">Transporter ID</Label>
+                  <Input
+                    id="transporter-id"
+                    placeholder="GSTIN / TRANSIN"
+                    value={transport.transporterId}
+                    onChange={(e) => setTransport({ ...transport, transporterId: e.target.value.toUpperCase() })}
+                    data-testid="input-transporter-id"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="transporter-name">Transporter Name</Label>
+                  <Input
+                    id="transporter-name"
+                    value={transport.transporterName}
+                    onChange={(e) => setTransport({ ...transport, transporterName: e.target.value })}
+                    data-testid="input-transporter-name"
+                  />
+                </div>
+                {isRoad ? (
+                  <div className="space-y-1">
+                    <Label htmlFor="ewb-vehicle-number">Vehicle Number</Label>
+                    <Input
+                      id="ewb-vehicle-number"
+                      placeholder="KA01AB1234"
+                      value={transport.vehicleNumber}
+                      onChange={(e) => setTransport({ ...transport, vehicleNumber: e.target.value.toUpperCase() })}
+                      data-testid="input-ewb-vehicle-number"
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="transport-doc-number">Transport Doc No</Label>
+                      <Input
+                        id="transport-doc-number"
+                        placeholder="RR / AWB / B/L number"
+                        value={transport.transportDocNumber}
+                        onChange={(e) => setTransport({ ...transport, transportDocNumber: e.target.value })}
+                        data-testid="input-transport-doc-number"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="transport-doc-date">Transport Doc Date</Label>
+                      <Input
+                        id="transport-doc-date"
+                        type="date"
+                        value={transport.transportDocDate}
+                        onChange={(e) => setTransport({ ...transport, transportDocDate: e.target.value })}
+                        data-testid="input-transport-doc-date"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleDownloadJson}
+                  disabled={!current?.transportMode || isDownloading}
+                  className="flex items-center space-x-2"
+                  data-testid="button-download-ewaybill"
+                >
+                  <FileJson className="w-4 h-4" />
+                  <span>{isDownloading ? "Preparing..." : "Download JSON"}</span>
+                </Button>
+                <Button onClick={handleSaveTransport} disabled={transportMutation.isPending} data-testid="button-save-transport">
+                  {transportMutation.isPending ? "Saving..." : "Save Transport"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3 border-t border-border pt-4">
+              <p className="text-sm font-medium">2. E-way bill returned by the portal</p>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="ewb-number">EWB No</Label>
+                  <Input
+                    id="ewb-number"
+                    placeholder="12 digits"
+                    value={ewb.ewbNumber}
+                    onChange={(e) => setEwb({ ...ewb, ewbNumber: e.target.value.replace(/\D/g, '') })}
+                    data-testid="input-ewb-number"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ewb-date">Generated</Label>
+                  <Input
+                    id="ewb-date"
+                    type="datetime-local"
+                    value={ewb.ewbDate}
+                    onChange={(e) => setEwb({ ...ewb, ewbDate: e.target.value })}
+                    data-testid="input-ewb-date"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="ewb-valid-upto">Valid Upto</Label>
+                  <Input
+                    id="ewb-valid-upto"
+                    type="datetime-local"
+                    value={ewb.ewbValidUpto}
+                    onChange={(e) => setEwb({ ...ewb, ewbValidUpto: e.target.value })}
+                    data-testid="input-ewb-valid-upto"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+                  Close
+                </Button>
+                <Button onClick={handleSaveEwb} disabled={ewbMutation.isPending || !current?.transportMode} data-testid="button-save-ewb">
+                  {ewbMutation.isPending ? "Saving..." : "Save E-Way Bill"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
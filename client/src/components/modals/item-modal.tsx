@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,13 +11,16 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { insertItemSchema, type InsertItem, type ItemWithInventory } from "@shared/schema";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { insertItemSchema, type CompanySettings, type InsertItem, type ItemWithInventory } from "@shared/schema";
+import { getHsnCodeError, getMinimumHsnDigits } from "@shared/hsn";
 import { z } from "zod";
 
 const itemFormSchema = insertItemSchema.extend({
   price: z.string().min(1, "Price is required"),
   gstRate: z.string().min(1, "GST rate is required"),
   lowStockThreshold: z.string().min(1, "Low stock threshold is required"),
+  hsnCode: z.string().optional(),
 });
 
 type ItemFormData = z.infer<typeof itemFormSchema>;
@@ -49,6 +52,11 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: company } = useQuery<CompanySettings | null>({
+    queryKey: ['/api/settings'],
+    enabled: isOpen,
+  });
+
   const form = useForm<ItemFormData>({
     resolver: zodResolver(itemFormSchema),
     defaultValues: {
@@ -60,6 +68,7 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
       gstRate: "18.00",
       unit: "pcs",
       lowStockThreshold: "10",
+      hsnCode: "",
     },
   });
 
@@ -92,7 +101,7 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
       }
       toast({
         title: "Error",
-        description: "Failed to create item",
+        description: getApiErrorMessage(error, "Failed to create item"),
         variant: "destructive",
       });
     },
@@ -128,7 +137,7 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
       }
       toast({
         title: "Error",
-        description: "Failed to update item",
+        description: getApiErrorMessage(error, "Failed to update item"),
         variant: "destructive",
       });
     },
@@ -145,6 +154,7 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
         gstRate: item.gstRate.toString(),
         unit: item.unit,
         lowStockThreshold: item.lowStockThreshold.toString(),
+        hsnCode: item.hsnCode || "",
       });
     } else {
       form.reset({
@@ -156,16 +166,25 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
         gstRate: "18.00",
         unit: "pcs",
         lowStockThreshold: "10",
+        hsnCode: "",
       });
     }
   }, [item, form]);
 
   const onSubmit = (data: ItemFormData) => {
+    const hsnCode = data.hsnCode?.trim();
+    const hsnError = hsnCode ? getHsnCodeError(hsnCode, company?.turnoverBand) : undefined;
+    if (hsnError) {
+      form.setError("hsnCode", { message: hsnError });
+      return;
+    }
+
     const itemData: InsertItem = {
       ...data,
       price: parseFloat(data.price),
       gstRate: parseFloat(data.gstRate),
       lowStockThreshold: parseInt(data.lowStockThreshold),
+      hsnCode: hsnCode || null,
     };
 
     if (item) {
@@ -335,25 +354,51 @@ export default function ItemModal({ isOpen, onClose, item }: ItemModalProps) {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="lowStockThreshold"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Low Stock Threshold *</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      min="0" 
-                      placeholder="10" 
-                      {...field} 
-                      data-testid="input-low-stock-threshold"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="hsnCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>HSN/SAC Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="numeric"
+                        maxLength={8}
+                        placeholder={"8".padEnd(getMinimumHsnDigits(company?.turnoverBand), "0")}
+                        {...field}
+                        value={field.value || ""}
+                        data-testid="input-hsn-code"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      At least {getMinimumHsnDigits(company?.turnoverBand)} digits on B2B invoices
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lowStockThreshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Low Stock Threshold *</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="0" 
+                        placeholder="10" 
+                        {...field} 
+                        data-testid="input-low-stock-threshold"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <div className="flex justify-end space-x-2 pt-4">
               <Button 
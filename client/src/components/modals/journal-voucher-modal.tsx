@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { Plus, Trash2 } from "lucide-react";
+import type { InsertJournalLine, JournalEntryWithLines, LedgerAccountWithBalance } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { round2 } from "@shared/gst";
+import { getJournalError, getJournalTotals } from "@shared/ledger";
+
+interface JournalVoucherModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface LineDraft {
+  accountId: string;
+  debit: string;
+  credit: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+const emptyLine = (): LineDraft => ({ accountId: "", debit: "", credit: "" });
+
+export default function JournalVoucherModal({ isOpen, onClose }: JournalVoucherModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entryDate, setEntryDate] = useState(today());
+  const [narration, setNarration] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>([emptyLine(), emptyLine()]);
+
+  const { data: accounts = [] } = useQuery<LedgerAccountWithBalance[]>({
+    queryKey: ['/api/ledger-accounts'],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntryDate(today());
+    setNarration("");
+    setLines([emptyLine(), emptyLine()]);
+  }, [isOpen]);
+
+  const amounts = lines.map(line => ({ debit: parseFloat(line.debit) || 0, credit: parseFloat(line.credit) || 0 }));
+  const totals = getJournalTotals(amounts);
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const journalMutation = useMutation({
+    mutationFn: async (data: { entry: { entryDate: string; narration: string }; lines: InsertJournalLine[] }) => {
+      const response = await apiRequest('POST', '/api/journal-entries', data);
+      return response.json() as Promise<JournalEntryWithLines>;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journal-entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ledger-accounts'] });
+      toast({
+        title: "Journal voucher posted",
+        description: `${entry.entryNumber} for ${formatCurrency(totals.debit)}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to post journal voucher"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    const filled = lines
+      .map((line, index) => ({ accountId: line.accountId, ...amounts[index] }))
+      .filter(line => line.accountId || line.debit || line.credit);
+    const error = !narration.trim()
+      ? "Enter a narration"
+      : filled.some(line => !line.accountId)
+        ? "Choose an account on every line"
+        : getJournalError(filled);
+    if (error) {
+      toast({
+        title: "Cannot post",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+    journalMutation.mutate({
+      entry: { entryDate, narration: narration.trim() },
+      lines: filled,
+    });
+  };
+
+  const handleClose = () => {
+    if (!journalMutation.isPending) {
+      onClose();
+    }
+  };
+
+  const activeAccounts = accounts.filter(account => account.isActive);
+  const difference = round2(totals.debit - totals.credit);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[720px]" data-testid="journal-voucher-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">New Journal Voucher</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="journal-date">Date *</Label>
+              <Input
+                id="journal-date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                data-testid="input-journal-date"
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="journal-narration">Narration *</Label>
+              <Textarea
+                id="journal-narration"
+                rows={1}
+                placeholder="e.g. Rent for April paid by cheque"
+                value={narration}
+                onChange={(e) => setNarration(e.target.value)}
+                data-testid="textarea-journal-narration"
+              />
+            </div>
+          </div>
+
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Account</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-32">Debit</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-32">Credit</th>
+                  <th className="p-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {lines.map((line, index) => (
+                  <tr key={index} data-testid={`journal-line-${index}`}>
+                    <td className="p-2">
+                      <Select value={line.accountId} onValueChange={(accountId) => updateLine(index, { accountId })}>
+                        <SelectTrigger className="h-8" data-testid={`select-journal-account-${index}`}>
+                          <SelectValue placeholder="Select account" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {activeAccounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.code} · {account.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={line.debit}
+                        onChange={(e) => updateLine(index, { debit: e.target.value, credit: e.target.value ? "" : line.credit })}
+                        className="h-8 text-right"
+                        data-testid={`input-journal-debit-${index}`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={line.credit}
+                        onChange={(e) => updateLine(index, { credit: e.target.value, debit: e.target.value ? "" : line.debit })}
+                        className="h-8 text-right"
+                        data-testid={`input-journal-credit-${index}`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={lines.length <= 2}
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        data-testid={`button-remove-journal-line-${index}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t-2 border-border font-semibold">
+                <tr data-testid="journal-totals">
+                  <td className="p-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLines([...lines, emptyLine()])}
+                      data-testid="button-add-journal-line"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Line
+                    </Button>
+                  </td>
+                  <td className="p-2 text-right">{formatCurrency(totals.debit)}</td>
+                  <td className="p-2 text-right">{formatCurrency(totals.credit)}</td>
+                  <td className="p-2"></td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className={`text-sm text-right ${difference === 0 ? 'text-muted-foreground' : 'text-red-600'}`} data-testid="journal-difference">
+            {difference === 0
+              ? "Debits and credits balance"
+              : `Out of balance by ${formatCurrency(Math.abs(difference))} ${difference > 0 ? '(more debit)' : '(more credit)'}`}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={journalMutation.isPending} data-testid="button-post-journal">
+              {journalMutation.isPending ? "Posting..." : "Post Voucher"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import type { LedgerAccount, LedgerAccountWithBalance } from "@shared/schema";
+import { ACCOUNT_GROUPS, ACCOUNT_TYPES, type AccountGroup, type AccountType } from "@shared/ledger";
+
+interface LedgerAccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account?: LedgerAccountWithBalance | null;
+}
+
+const GROUP_KEYS = Object.keys(ACCOUNT_GROUPS) as AccountGroup[];
+
+export default function LedgerAccountModal({ isOpen, onClose, account }: LedgerAccountModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [group, setGroup] = useState<AccountGroup | "">("");
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCode(account?.code ?? "");
+    setName(account?.name ?? "");
+    setGroup(account?.group ?? "");
+    setIsActive(account?.isActive ?? true);
+  }, [isOpen, account]);
+
+  const accountMutation = useMutation({
+    mutationFn: async (data: { code: string; name: string; group: AccountGroup; isActive: boolean }) => {
+      const response = account
+        ? await apiRequest('PATCH', `/api/ledger-accounts/${account.id}`, data)
+        : await apiRequest('POST', '/api/ledger-accounts', data);
+      return response.json() as Promise<LedgerAccount>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ledger-accounts'] });
+      toast({
+        title: account ? "Account updated" : "Account created",
+        description: `${saved.code} · ${saved.name}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to save account"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!code.trim() || !name.trim() || !group) {
+      toast({
+        title: "Missing details",
+        description: "Enter a code and name and choose a group",
+        variant: "destructive",
+      });
+      return;
+    }
+    accountMutation.mutate({ code: code.trim(), name: name.trim(), group, isActive });
+  };
+
+  const handleClose = () => {
+    if (!accountMutation.isPending) {
+      onClose();
+    }
+  };
+
+  const isSystemAccount = !!account?.systemKey;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[480px]" data-testid="ledger-account-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">{account ? "Edit Account" : "New Account"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="account-code">Code *</Label>
+              <Input
+                id="account-code"
+                inputMode="numeric"
+                placeholder="e.g. 5409"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                data-testid="input-account-code"
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="account-name">Name *</Label>
+              <Input
+                id="account-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-account-name"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Group *</Label>
+            <Select value={group} onValueChange={(value) => setGroup(value as AccountGroup)} disabled={isSystemAccount}>
+              <SelectTrigger data-testid="select-account-group">
+                <SelectValue placeholder="Select group" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCOUNT_TYPES) as AccountType[]).map(type => (
+                  <SelectGroup key={type}>
+                    <SelectLabel>{ACCOUNT_TYPES[type]}</SelectLabel>
+                    {GROUP_KEYS.filter(key => ACCOUNT_GROUPS[key].type === type).map(key => (
+                      <SelectItem key={key} value={key}>{ACCOUNT_GROUPS[key].label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+            {isSystemAccount && (
+              <p className="text-xs text-muted-foreground">
+                Automatic postings use this account, so its group is fixed and it stays active.
+              </p>
+            )}
+          </div>
+
+          {account && !isSystemAccount && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="account-active">Active</Label>
+              <Switch
+                id="account-active"
+                checked={isActive}
+                onCheckedChange={setIsActive}
+                data-testid="switch-account-active"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={accountMutation.isPending} data-testid="button-save-account">
+              {accountMutation.isPending ? "Saving..." : "Save Account"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
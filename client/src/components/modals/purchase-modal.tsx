@@ -1,47 +1,81 @@
-import { useState } from "react";
+import { useEffect } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Plus, Trash2, Calculator } from "lucide-react";
-import type { Vendor, ItemWithInventory } from "@shared/schema";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { Plus, Trash2 } from "lucide-react";
+import type { Vendor, ItemWithInventory, CompanySettings, PurchaseWithDetails } from "@shared/schema";
+import { round2 } from "@shared/gst";
+import { getDefaultPurchaseTax, getPurchaseTaxError, getVendorSupplyType } from "@shared/purchases";
+import { getPurchaseDueDate } from "@shared/payables";
 import { z } from "zod";
+import { format } from "date-fns";
+import { formatCurrency } from "@shared/currency";
 
 const purchaseItemSchema = z.object({
   itemId: z.string().min(1, "Item is required"),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   rate: z.coerce.number().min(0, "Rate must be positive"),
-  amount: z.coerce.number().min(0, "Amount must be positive"),
+  taxableValue: z.coerce.number().min(0, "Taxable value cannot be negative"),
+  gstRate: z.coerce.number().min(0).max(100),
+  cgstAmount: z.coerce.number().min(0),
+  sgstAmount: z.coerce.number().min(0),
+  igstAmount: z.coerce.number().min(0),
+  itcEligible: z.boolean(),
 });
 
 const purchaseFormSchema = z.object({
   vendorId: z.string().min(1, "Vendor is required"),
-  status: z.string().default("pending"),
+  vendorInvoiceNumber: z.string().trim().min(1, "Vendor invoice number is required").max(16, "At most 16 characters"),
+  vendorInvoiceDate: z.string().min(1, "Vendor invoice date is required"),
+  purchaseDate: z.string().min(1, "Purchase date is required"),
+  dueDate: z.string(),
   purchaseItems: z.array(purchaseItemSchema).min(1, "At least one item is required"),
-  subtotal: z.coerce.number().min(0),
-  gstAmount: z.coerce.number().min(0),
-  total: z.coerce.number().min(0),
 });
 
 type PurchaseFormData = z.infer<typeof purchaseFormSchema>;
+type PurchaseLine = PurchaseFormData["purchaseItems"][number];
+
+type PurchaseDefaults = Pick<PurchaseFormData, "vendorId" | "vendorInvoiceNumber" | "vendorInvoiceDate">;
 
 interface PurchaseModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Prefills the vendor invoice, e.g. when booking an invoice found in GSTR-2B
+  defaults?: PurchaseDefaults;
+  onCreated?: (purchase: PurchaseWithDetails) => void;
 }
 
-export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
+const emptyLine: PurchaseLine = {
+  itemId: "", quantity: 1, rate: 0, taxableValue: 0, gstRate: 0,
+  cgstAmount: 0, sgstAmount: 0, igstAmount: 0, itcEligible: true,
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const defaultValues = (defaults?: PurchaseDefaults): PurchaseFormData => ({
+  vendorId: "",
+  vendorInvoiceNumber: "",
+  vendorInvoiceDate: "",
+  ...defaults,
+  purchaseDate: today(),
+  dueDate: "",
+  purchaseItems: [{ ...emptyLine }],
+});
+
+export default function PurchaseModal({ isOpen, onClose, defaults, onCreated }: PurchaseModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [isCalculating, setIsCalculating] = useState(false);
 
   const { data: vendors = [] } = useQuery<Vendor[]>({
     queryKey: ['/api/vendors'],
@@ -51,38 +85,63 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
     queryKey: ['/api/items'],
   });
 
+  const { data: company } = useQuery<CompanySettings | null>({
+    queryKey: ['/api/settings'],
+  });
+
   const form = useForm<PurchaseFormData>({
     resolver: zodResolver(purchaseFormSchema),
-    defaultValues: {
-      vendorId: "",
-      status: "pending",
-      purchaseItems: [{ itemId: "", quantity: 1, rate: 0, amount: 0 }],
-      subtotal: 0,
-      gstAmount: 0,
-      total: 0,
-    },
+    defaultValues: defaultValues(defaults),
   });
 
+  useEffect(() => {
+    if (isOpen && defaults) {
+      form.reset(defaultValues(defaults));
+    }
+  }, [isOpen, defaults]);
+
   const { fields, append, remove } = useFieldArray({
     control: form.control,
     name: "purchaseItems",
   });
 
+  const selectedVendor = vendors.find(v => v.id === form.watch("vendorId"));
+  const supplyType = selectedVendor ? getVendorSupplyType(selectedVendor, company?.stateCode) : "intra";
+  const isUnregistered = supplyType === "unregistered";
+  const vendorInvoiceDate = form.watch("vendorInvoiceDate");
+  const defaultDueDate = selectedVendor && vendorInvoiceDate
+    ? getPurchaseDueDate(vendorInvoiceDate, selectedVendor.creditDays)
+    : null;
+
   const createPurchaseMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await apiRequest('POST', '/api/purchases', data);
-      return response.json();
+    mutationFn: async (data: PurchaseFormData) => {
+      const response = await apiRequest('POST', '/api/purchases', {
+        purchase: {
+          vendorId: data.vendorId,
+          vendorInvoiceNumber: data.vendorInvoiceNumber,
+          vendorInvoiceDate: data.vendorInvoiceDate,
+          purchaseDate: data.purchaseDate,
+          dueDate: data.dueDate || undefined,
+        },
+        purchaseItems: data.purchaseItems,
+      });
+      return response.json() as Promise<PurchaseWithDetails>;
     },
-    onSuccess: () => {
+    onSuccess: (purchase) => {
       queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/itc-register'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/returns/gstr3b'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/payables-aging'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/payables-due'] });
       toast({
         title: "Success",
         description: "Purchase created successfully",
       });
+      onCreated?.(purchase);
       onClose();
-      form.reset();
+      form.reset(defaultValues());
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -98,82 +157,98 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
       }
       toast({
         title: "Error",
-        description: "Failed to create purchase",
+        description: getApiErrorMessage(error, "Failed to create purchase"),
         variant: "destructive",
       });
     },
   });
 
-  const calculateTotals = () => {
-    setIsCalculating(true);
-    const purchaseItems = form.getValues("purchaseItems");
-    const selectedVendor = vendors.find(v => v.id === form.getValues("vendorId"));
-    
-    let subtotal = 0;
-    purchaseItems.forEach((item, index) => {
-      const selectedItem = items.find(i => i.id === item.itemId);
-      if (selectedItem && item.quantity && item.rate) {
-        const amount = item.quantity * item.rate;
-        form.setValue(`purchaseItems.${index}.amount`, amount);
-        subtotal += amount;
-      }
-    });
-
-    // Calculate GST (simplified - using 18% for demonstration)
-    const gstRate = 0.18;
-    const gstAmount = subtotal * gstRate;
-    const total = subtotal + gstAmount;
-
-    form.setValue("subtotal", subtotal);
-    form.setValue("gstAmount", gstAmount);
-    form.setValue("total", total);
-    
-    setIsCalculating(false);
-  };
-
-  const addItem = () => {
-    append({ itemId: "", quantity: 1, rate: 0, amount: 0 });
-  };
-
-  const removeItem = (index: number) => {
-    if (fields.length > 1) {
-      remove(index);
-      calculateTotals();
+  // Fills the line's taxable value and tax from the item rate and the vendor's
+  // state; the figures can then be corrected to match the vendor's invoice
+  const applyDefaultTax = (index: number, vendor = selectedVendor) => {
+    const line = form.getValues(`purchaseItems.${index}`);
+    const item = items.find(i => i.id === line.itemId);
+    if (!item) return;
+    const lineSupplyType = vendor ? getVendorSupplyType(vendor, company?.stateCode) : "intra";
+    const taxableValue = round2(Number(line.quantity) * Number(line.rate));
+    const tax = getDefaultPurchaseTax(taxableValue, Number(item.gstRate), lineSupplyType);
+    form.setValue(`purchaseItems.${index}.taxableValue`, taxableValue);
+    form.setValue(`purchaseItems.${index}.gstRate`, lineSupplyType === "unregistered" ? 0 : Number(item.gstRate));
+    form.setValue(`purchaseItems.${index}.cgstAmount`, tax.cgstAmount);
+    form.setValue(`purchaseItems.${index}.sgstAmount`, tax.sgstAmount);
+    form.setValue(`purchaseItems.${index}.igstAmount`, tax.igstAmount);
+    if (lineSupplyType === "unregistered") {
+      form.setValue(`purchaseItems.${index}.itcEligible`, false);
     }
   };
 
+  const lines = form.watch("purchaseItems");
+  const totals = lines.reduce(
+    (sum, line) => ({
+      taxableValue: sum.taxableValue + Number(line.taxableValue || 0),
+      cgstAmount: sum.cgstAmount + Number(line.cgstAmount || 0),
+      sgstAmount: sum.sgstAmount + Number(line.sgstAmount || 0),
+      igstAmount: sum.igstAmount + Number(line.igstAmount || 0),
+      eligibleCredit: sum.eligibleCredit + (line.itcEligible
+        ? Number(line.cgstAmount || 0) + Number(line.sgstAmount || 0) + Number(line.igstAmount || 0)
+        : 0),
+    }),
+    { taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, eligibleCredit: 0 }
+  );
+  const total = totals.taxableValue + totals.cgstAmount + totals.sgstAmount + totals.igstAmount;
+
   const onSubmit = (data: PurchaseFormData) => {
-    const purchaseData = {
-      vendorId: data.vendorId,
-      status: data.status,
-      subtotal: data.subtotal,
-      gstAmount: data.gstAmount,
-      totalAmount: data.total,
-      items: data.purchaseItems.map(item => ({
-        itemId: item.itemId,
-        quantity: item.quantity,
-        rate: item.rate,
-        amount: item.amount,
-      })),
-    };
-
-    createPurchaseMutation.mutate(purchaseData);
+    // Same checks as the server, so a typo is caught on the line it is on
+    let valid = true;
+    data.purchaseItems.forEach((line, index) => {
+      const error = getPurchaseTaxError(line, supplyType);
+      if (error) {
+        form.setError(`purchaseItems.${index}.cgstAmount`, { message: error });
+        valid = false;
+      }
+    });
+    if (valid) {
+      createPurchaseMutation.mutate(data);
+    }
   };
 
   const handleClose = () => {
     if (!createPurchaseMutation.isPending) {
       onClose();
-      form.reset();
+      form.reset(defaultValues());
     }
   };
 
+  const amountField = (index: number, name: "taxableValue" | "gstRate" | "cgstAmount" | "sgstAmount" | "igstAmount", label: string, disabled = false) => (
+    <FormField
+      control={form.control}
+      name={`purchaseItems.${index}.${name}`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              disabled={disabled}
+              {...field}
+              data-testid={`input-${name}-${index}`}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto" data-testid="purchase-modal">
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto" data-testid="purchase-modal">
         <DialogHeader>
           <DialogTitle data-testid="modal-title">Create New Purchase</DialogTitle>
         </DialogHeader>
-        
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid grid-cols-2 gap-4">
@@ -183,7 +258,14 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel>Vendor *</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        const vendor = vendors.find(v => v.id === value);
+                        form.getValues("purchaseItems").forEach((_, index) => applyDefaultTax(index, vendor));
+                      }}
+                      value={field.value}
+                    >
                       <FormControl>
                         <SelectTrigger data-testid="select-vendor">
                           <SelectValue placeholder="Select a vendor" />
@@ -192,11 +274,18 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                       <SelectContent>
                         {vendors.map((vendor) => (
                           <SelectItem key={vendor.id} value={vendor.id}>
-                            {vendor.name} - {vendor.email}
+                            {vendor.name}{vendor.gstin ? ` - ${vendor.gstin}` : ""}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    {selectedVendor && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-vendor-supply-type">
+                        {isUnregistered
+                          ? "Unregistered vendor: no GST is charged and no credit can be claimed"
+                          : supplyType === "inter" ? "Inter-state purchase: IGST" : "Intra-state purchase: CGST + SGST"}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -204,22 +293,60 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
 
               <FormField
                 control={form.control}
-                name="status"
+                name="purchaseDate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger data-testid="select-status">
-                          <SelectValue />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="completed">Completed</SelectItem>
-                        <SelectItem value="cancelled">Cancelled</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Received On *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-purchase-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vendorInvoiceNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor Invoice No *</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-vendor-invoice-number" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vendorInvoiceDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vendor Invoice Date *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-vendor-invoice-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Due</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-purchase-due-date" />
+                    </FormControl>
+                    {!field.value && defaultDueDate && (
+                      <p className="text-xs text-muted-foreground" data-testid="text-default-due-date">
+                        {selectedVendor!.creditDays} days' credit: due {format(defaultDueDate, 'MMM dd, yyyy')}
+                      </p>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -229,7 +356,7 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold">Purchase Items</h3>
-                <Button type="button" onClick={addItem} variant="outline" size="sm">
+                <Button type="button" onClick={() => append({ ...emptyLine })} variant="outline" size="sm" data-testid="button-add-line">
                   <Plus className="h-4 w-4 mr-2" />
                   Add Item
                 </Button>
@@ -237,7 +364,7 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
 
               {fields.map((field, index) => (
                 <Card key={field.id}>
-                  <CardContent className="pt-6">
+                  <CardContent className="pt-6 space-y-4">
                     <div className="grid grid-cols-5 gap-4">
                       <div className="col-span-2">
                         <FormField
@@ -246,19 +373,19 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Item *</FormLabel>
-                              <Select 
+                              <Select
                                 onValueChange={(value) => {
                                   field.onChange(value);
                                   const selectedItem = items.find(i => i.id === value);
                                   if (selectedItem) {
                                     form.setValue(`purchaseItems.${index}.rate`, Number(selectedItem.price));
-                                    calculateTotals();
+                                    applyDefaultTax(index);
                                   }
-                                }} 
+                                }}
                                 value={field.value}
                               >
                                 <FormControl>
-                                  <SelectTrigger>
+                                  <SelectTrigger data-testid={`select-item-${index}`}>
                                     <SelectValue placeholder="Select item" />
                                   </SelectTrigger>
                                 </FormControl>
@@ -283,14 +410,15 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                           <FormItem>
                             <FormLabel>Quantity *</FormLabel>
                             <FormControl>
-                              <Input 
-                                type="number" 
-                                min="1" 
+                              <Input
+                                type="number"
+                                min="1"
                                 {...field}
                                 onChange={(e) => {
                                   field.onChange(e);
-                                  calculateTotals();
+                                  applyDefaultTax(index);
                                 }}
+                                data-testid={`input-quantity-${index}`}
                               />
                             </FormControl>
                             <FormMessage />
@@ -305,15 +433,16 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                           <FormItem>
                             <FormLabel>Rate *</FormLabel>
                             <FormControl>
-                              <Input 
-                                type="number" 
-                                step="0.01" 
-                                min="0" 
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
                                 {...field}
                                 onChange={(e) => {
                                   field.onChange(e);
-                                  calculateTotals();
+                                  applyDefaultTax(index);
                                 }}
+                                data-testid={`input-rate-${index}`}
                               />
                             </FormControl>
                             <FormMessage />
@@ -321,79 +450,98 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
                         )}
                       />
 
-                      <div className="flex items-end space-x-2">
-                        <FormField
-                          control={form.control}
-                          name={`purchaseItems.${index}.amount`}
-                          render={({ field }) => (
-                            <FormItem className="flex-1">
-                              <FormLabel>Amount</FormLabel>
-                              <FormControl>
-                                <Input {...field} readOnly className="bg-muted" />
-                              </FormControl>
-                            </FormItem>
-                          )}
-                        />
+                      <div className="flex items-end justify-end">
                         {fields.length > 1 && (
                           <Button
                             type="button"
                             variant="outline"
                             size="icon"
-                            onClick={() => removeItem(index)}
+                            onClick={() => remove(index)}
+                            data-testid={`button-remove-line-${index}`}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
                         )}
                       </div>
                     </div>
+
+                    <div className="grid grid-cols-6 gap-4 items-start">
+                      {amountField(index, "taxableValue", "Taxable Value")}
+                      {amountField(index, "gstRate", "GST %", isUnregistered)}
+                      {amountField(index, "cgstAmount", "CGST", isUnregistered || supplyType === "inter")}
+                      {amountField(index, "sgstAmount", "SGST", isUnregistered || supplyType === "inter")}
+                      {amountField(index, "igstAmount", "IGST", isUnregistered || supplyType === "intra")}
+                      <FormField
+                        control={form.control}
+                        name={`purchaseItems.${index}.itcEligible`}
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center space-x-2 space-y-0 pt-8">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) => field.onChange(checked === true)}
+                                disabled={isUnregistered}
+                                data-testid={`checkbox-itc-eligible-${index}`}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">ITC eligible</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
 
-            <div className="flex justify-center">
-              <Button 
-                type="button" 
-                onClick={calculateTotals} 
-                disabled={isCalculating}
-                variant="outline"
-              >
-                <Calculator className="h-4 w-4 mr-2" />
-                {isCalculating ? "Calculating..." : "Calculate Totals"}
-              </Button>
-            </div>
-
             <Card className="bg-muted/10">
               <CardContent className="pt-6">
                 <div className="space-y-2 text-right">
                   <div className="flex justify-between">
-                    <span>Subtotal:</span>
-                    <span>₹{form.watch("subtotal").toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>GST (18%):</span>
-                    <span>₹{form.watch("gstAmount").toFixed(2)}</span>
+                    <span>Taxable Value:</span>
+                    <span>{formatCurrency(totals.taxableValue)}</span>
                   </div>
+                  {supplyType === "inter" ? (
+                    <div className="flex justify-between">
+                      <span>IGST:</span>
+                      <span>{formatCurrency(totals.igstAmount)}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between">
+                        <span>CGST:</span>
+                        <span>{formatCurrency(totals.cgstAmount)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>SGST:</span>
+                        <span>{formatCurrency(totals.sgstAmount)}</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex justify-between text-lg font-semibold">
                     <span>Total:</span>
-                    <span>₹{form.watch("total").toFixed(2)}</span>
+                    <span data-testid="text-purchase-total">{formatCurrency(total)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Input tax credit claimable:</span>
+                    <span data-testid="text-eligible-credit">{formatCurrency(totals.eligibleCredit)}</span>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
             <div className="flex justify-end space-x-2 pt-4">
-              <Button 
-                type="button" 
-                variant="outline" 
+              <Button
+                type="button"
+                variant="outline"
                 onClick={handleClose}
                 disabled={createPurchaseMutation.isPending}
                 data-testid="button-cancel"
               >
                 Cancel
               </Button>
-              <Button 
-                type="submit" 
+              <Button
+                type="submit"
                 disabled={createPurchaseMutation.isPending}
                 data-testid="button-create-purchase"
               >
@@ -405,4 +553,4 @@ export default function PurchaseModal({ isOpen, onClose }: PurchaseModalProps) {
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,306 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { round2 } from "@shared/gst";
+import { PAYMENT_MODES, type PaymentMode } from "@shared/payments";
+import type { BillWithDetails, Customer, InsertPaymentAllocation, PaymentWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bill?: BillWithDetails | null;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function RecordPaymentModal({ isOpen, onClose, bill }: RecordPaymentModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [customerId, setCustomerId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [mode, setMode] = useState<PaymentMode>("cash");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+    enabled: isOpen,
+  });
+
+  const { data: bills = [] } = useQuery<BillWithDetails[]>({
+    queryKey: ['/api/bills'],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCustomerId(bill?.customerId ?? "");
+    setAmount(bill ? bill.balanceDue : "");
+    setPaymentDate(today());
+    setMode("cash");
+    setReferenceNumber("");
+    setNotes("");
+    setAllocations(bill ? { [bill.id]: bill.balanceDue } : {});
+  }, [isOpen, bill]);
+
+  // Oldest first, with the bill the dialog was opened from at the top
+  const openBills = bills
+    .filter(b => b.customerId === customerId && parseFloat(b.balanceDue) > 0)
+    .sort((a, b) => {
+      if (a.id === bill?.id) return -1;
+      if (b.id === bill?.id) return 1;
+      return new Date(a.billDate!).getTime() - new Date(b.billDate!).getTime();
+    });
+
+  const allocatedTotal = round2(openBills.reduce((sum, b) => sum + (parseFloat(allocations[b.id]) || 0), 0));
+  const paymentAmount = round2(parseFloat(amount) || 0);
+
+  const autoAllocate = (value: string) => {
+    let remaining = round2(parseFloat(value) || 0);
+    const next: Record<string, string> = {};
+    for (const openBill of openBills) {
+      if (remaining <= 0) break;
+      const share = Math.min(remaining, parseFloat(openBill.balanceDue));
+      next[openBill.id] = share.toFixed(2);
+      remaining = round2(remaining - share);
+    }
+    setAllocations(next);
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    autoAllocate(value);
+  };
+
+  const handleCustomerChange = (value: string) => {
+    setCustomerId(value);
+    setAmount("");
+    setAllocations({});
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async (data: { payment: Record<string, unknown>; allocations: InsertPaymentAllocation[] }) => {
+      const response = await apiRequest('POST', '/api/payments', data);
+      return response.json() as Promise<PaymentWithDetails>;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/payment-modes'] });
+      toast({
+        title: "Payment recorded",
+        description: `${payment.paymentNumber} for ${formatCurrency(payment.amount)}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record payment"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!customerId || paymentAmount <= 0) {
+      toast({
+        title: "Missing details",
+        description: "Choose a customer and enter the amount received",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (allocatedTotal !== paymentAmount) {
+      toast({
+        title: "Allocation mismatch",
+        description: `${formatCurrency(allocatedTotal)} allocated of ${formatCurrency(paymentAmount)} received`,
+        variant: "destructive",
+      });
+      return;
+    }
+    paymentMutation.mutate({
+      payment: {
+        customerId,
+        amount: paymentAmount,
+        paymentDate,
+        mode,
+        referenceNumber: referenceNumber || null,
+        notes: notes || null,
+      },
+      allocations: openBills
+        .filter(b => (parseFloat(allocations[b.id]) || 0) > 0)
+        .map(b => ({ billId: b.id, amount: parseFloat(allocations[b.id]) })),
+    });
+  };
+
+  const handleClose = () => {
+    if (!paymentMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[640px]" data-testid="record-payment-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">Record Payment</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Customer *</Label>
+              <Select value={customerId} onValueChange={handleCustomerChange} disabled={!!bill}>
+                <SelectTrigger data-testid="select-payment-customer">
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-amount">Amount Received *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                data-testid="input-payment-amount"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-date">Payment Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                data-testid="input-payment-date"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Mode *</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as PaymentMode)}>
+                <SelectTrigger data-testid="select-payment-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_MODES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="payment-reference">Reference Number</Label>
+              <Input
+                id="payment-reference"
+                placeholder={mode === 'cheque' ? "Cheque number" : mode === 'cash' ? "Optional" : "UPI / card / UTR reference"}
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                data-testid="input-payment-reference"
+              />
+            </div>
+          </div>
+
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Bill No.</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Balance Due</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-36">Allocate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {openBills.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="p-4 text-center text-muted-foreground">
+                      {customerId ? "No unpaid bills for this customer" : "Select a customer to see unpaid bills"}
+                    </td>
+                  </tr>
+                ) : (
+                  openBills.map(openBill => (
+                    <tr key={openBill.id} data-testid={`allocation-row-${openBill.billNumber}`}>
+                      <td className="p-2 font-mono">{openBill.billNumber}</td>
+                      <td className="p-2">{new Date(openBill.billDate!).toLocaleDateString()}</td>
+                      <td className="p-2 text-right">{formatCurrency(openBill.balanceDue)}</td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={openBill.balanceDue}
+                          step="0.01"
+                          value={allocations[openBill.id] ?? ""}
+                          onChange={(e) => setAllocations({ ...allocations, [openBill.id]: e.target.value })}
+                          className="h-8 text-right"
+                          data-testid={`input-allocation-${openBill.billNumber}`}
+                        />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`text-sm text-right ${allocatedTotal === paymentAmount ? 'text-muted-foreground' : 'text-red-600'}`} data-testid="allocation-summary">
+            Allocated {formatCurrency(allocatedTotal)} of {formatCurrency(paymentAmount)}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea
+              id="payment-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="textarea-payment-notes"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={paymentMutation.isPending} data-testid="button-save-payment">
+              {paymentMutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { insertVendorSchema, type InsertVendor, type Vendor } from "@shared/schema";
+import { DEFAULT_VENDOR_CREDIT_DAYS } from "@shared/payables";
 
 interface VendorModalProps {
   isOpen: boolean;
@@ -48,6 +49,7 @@ export default function VendorModal({ isOpen, onClose, vendor }: VendorModalProp
       state: "",
       pinCode: "",
       category: "",
+      creditDays: DEFAULT_VENDOR_CREDIT_DAYS,
     },
   });
 
@@ -132,6 +134,7 @@ export default function VendorModal({ isOpen, onClose, vendor }: VendorModalProp
         state: vendor.state || "",
         pinCode: vendor.pinCode || "",
         category: vendor.category || "",
+        creditDays: vendor.creditDays,
       });
     } else {
       form.reset({
@@ -144,6 +147,7 @@ export default function VendorModal({ isOpen, onClose, vendor }: VendorModalProp
         state: "",
         pinCode: "",
         category: "",
+        creditDays: DEFAULT_VENDOR_CREDIT_DAYS,
       });
     }
   }, [vendor, form]);
@@ -251,25 +255,41 @@ export default function VendorModal({ isOpen, onClose, vendor }: VendorModalProp
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="gstin"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>GSTIN</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="27XYZAB1234C1D2" 
-                      {...field}
-                      value={field.value || ""}
-                      className="font-mono"
-                      data-testid="input-vendor-gstin"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="gstin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>GSTIN</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="27XYZAB1234C1D2" 
+                        {...field}
+                        value={field.value || ""}
+                        className="font-mono"
+                        data-testid="input-vendor-gstin"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="creditDays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Credit Days</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={365} {...field} data-testid="input-vendor-credit-days" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             <FormField
               control={form.control}
@@ -0,0 +1,312 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { round2 } from "@shared/gst";
+import { PAYMENT_MODES, type PaymentMode } from "@shared/payments";
+import type { InsertVendorPaymentAllocation, PurchaseWithDetails, Vendor, VendorPaymentWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+interface VendorPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  purchase?: PurchaseWithDetails | null;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function VendorPaymentModal({ isOpen, onClose, purchase }: VendorPaymentModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [vendorId, setVendorId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [mode, setMode] = useState<PaymentMode>("bank_transfer");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+    enabled: isOpen,
+  });
+
+  const { data: purchases = [] } = useQuery<PurchaseWithDetails[]>({
+    queryKey: ['/api/purchases'],
+    enabled: isOpen,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setVendorId(purchase?.vendorId ?? "");
+    setAmount(purchase ? purchase.balanceDue : "");
+    setPaymentDate(today());
+    setMode("bank_transfer");
+    setReferenceNumber("");
+    setNotes("");
+    setAllocations(purchase ? { [purchase.id]: purchase.balanceDue } : {});
+  }, [isOpen, purchase]);
+
+  // Earliest due first, with the purchase the dialog was opened from at the top
+  const openPurchases = purchases
+    .filter(p => p.vendorId === vendorId && parseFloat(p.balanceDue) > 0)
+    .sort((a, b) => {
+      if (a.id === purchase?.id) return -1;
+      if (b.id === purchase?.id) return 1;
+      return new Date(a.dueDate ?? a.purchaseDate!).getTime() - new Date(b.dueDate ?? b.purchaseDate!).getTime();
+    });
+
+  const allocatedTotal = round2(openPurchases.reduce((sum, p) => sum + (parseFloat(allocations[p.id]) || 0), 0));
+  const paymentAmount = round2(parseFloat(amount) || 0);
+
+  const autoAllocate = (value: string) => {
+    let remaining = round2(parseFloat(value) || 0);
+    const next: Record<string, string> = {};
+    for (const openPurchase of openPurchases) {
+      if (remaining <= 0) break;
+      const share = Math.min(remaining, parseFloat(openPurchase.balanceDue));
+      next[openPurchase.id] = share.toFixed(2);
+      remaining = round2(remaining - share);
+    }
+    setAllocations(next);
+  };
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    autoAllocate(value);
+  };
+
+  const handleVendorChange = (value: string) => {
+    setVendorId(value);
+    setAmount("");
+    setAllocations({});
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async (data: { payment: Record<string, unknown>; allocations: InsertVendorPaymentAllocation[] }) => {
+      const response = await apiRequest('POST', '/api/vendor-payments', data);
+      return response.json() as Promise<VendorPaymentWithDetails>;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/payables-aging'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/payables-due'] });
+      toast({
+        title: "Payment recorded",
+        description: `${payment.paymentNumber} to ${payment.vendor.name} for ${formatCurrency(payment.amount)}`,
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to record vendor payment"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!vendorId || paymentAmount <= 0) {
+      toast({
+        title: "Missing details",
+        description: "Choose a vendor and enter the amount paid",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (allocatedTotal !== paymentAmount) {
+      toast({
+        title: "Allocation mismatch",
+        description: `${formatCurrency(allocatedTotal)} allocated of ${formatCurrency(paymentAmount)} paid`,
+        variant: "destructive",
+      });
+      return;
+    }
+    paymentMutation.mutate({
+      payment: {
+        vendorId,
+        amount: paymentAmount,
+        paymentDate,
+        mode,
+        referenceNumber: referenceNumber || null,
+        notes: notes || null,
+      },
+      allocations: openPurchases
+        .filter(p => (parseFloat(allocations[p.id]) || 0) > 0)
+        .map(p => ({ purchaseId: p.id, amount: parseFloat(allocations[p.id]) })),
+    });
+  };
+
+  const handleClose = () => {
+    if (!paymentMutation.isPending) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[640px]" data-testid="vendor-payment-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">Pay Vendor</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label>Vendor *</Label>
+              <Select value={vendorId} onValueChange={handleVendorChange} disabled={!!purchase}>
+                <SelectTrigger data-testid="select-vendor-payment-vendor">
+                  <SelectValue placeholder="Select vendor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {vendors.map(vendor => (
+                    <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vendor-payment-amount">Amount Paid *</Label>
+              <Input
+                id="vendor-payment-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                data-testid="input-vendor-payment-amount"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vendor-payment-date">Payment Date</Label>
+              <Input
+                id="vendor-payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                data-testid="input-vendor-payment-date"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Mode *</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as PaymentMode)}>
+                <SelectTrigger data-testid="select-vendor-payment-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_MODES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="vendor-payment-reference">Reference Number</Label>
+              <Input
+                id="vendor-payment-reference"
+                placeholder={mode === 'cheque' ? "Cheque number" : mode === 'cash' ? "Optional" : "UPI / card / UTR reference"}
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                data-testid="input-vendor-payment-reference"
+              />
+            </div>
+          </div>
+
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Purchase</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Due</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Balance Owed</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground w-36">Allocate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {openPurchases.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="p-4 text-center text-muted-foreground">
+                      {vendorId ? "Nothing is owed to this vendor" : "Select a vendor to see unpaid purchases"}
+                    </td>
+                  </tr>
+                ) : (
+                  openPurchases.map(openPurchase => (
+                    <tr key={openPurchase.id} data-testid={`vendor-allocation-row-${openPurchase.purchaseNumber}`}>
+                      <td className="p-2">
+                        <div className="font-mono">{openPurchase.purchaseNumber}</div>
+                        {openPurchase.vendorInvoiceNumber && (
+                          <div className="text-xs text-muted-foreground">Invoice {openPurchase.vendorInvoiceNumber}</div>
+                        )}
+                      </td>
+                      <td className={`p-2 ${openPurchase.status === 'overdue' ? 'text-red-600' : ''}`}>
+                        {openPurchase.dueDate ? new Date(openPurchase.dueDate).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="p-2 text-right">{formatCurrency(openPurchase.balanceDue)}</td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={openPurchase.balanceDue}
+                          step="0.01"
+                          value={allocations[openPurchase.id] ?? ""}
+                          onChange={(e) => setAllocations({ ...allocations, [openPurchase.id]: e.target.value })}
+                          className="h-8 text-right"
+                          data-testid={`input-vendor-allocation-${openPurchase.purchaseNumber}`}
+                        />
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`text-sm text-right ${allocatedTotal === paymentAmount ? 'text-muted-foreground' : 'text-red-600'}`} data-testid="vendor-allocation-summary">
+            Allocated {formatCurrency(allocatedTotal)} of {formatCurrency(paymentAmount)}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="vendor-payment-notes">Notes</Label>
+            <Textarea
+              id="vendor-payment-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="textarea-vendor-payment-notes"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={paymentMutation.isPending} data-testid="button-save-vendor-payment">
+              {paymentMutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
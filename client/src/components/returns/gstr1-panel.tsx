@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { ReturnTable, downloadCsv } from "@/components/returns/return-table";
+import { formatCurrency } from "@shared/currency";
+import { AlertTriangle, CheckCircle2, Download, FileJson } from "lucide-react";
+import {
+  GSTR1_SECTIONS,
+  formatPlaceOfSupply,
+  toGstr1Csv,
+  type Gstr1Invoice,
+  type Gstr1Note,
+  type Gstr1RateItem,
+  type Gstr1Report,
+  type Gstr1Section,
+} from "@shared/gstr1";
+
+function sumItems(items: Gstr1RateItem[]) {
+  return items.reduce(
+    (sum, item) => ({
+      taxableValue: sum.taxableValue + item.taxableValue,
+      tax: sum.tax + item.igstAmount + item.cgstAmount + item.sgstAmount,
+    }),
+    { taxableValue: 0, tax: 0 }
+  );
+}
+
+const taxColumns = [
+  { label: "Taxable Value", numeric: true },
+  { label: "IGST", numeric: true },
+  { label: "CGST", numeric: true },
+  { label: "SGST", numeric: true },
+];
+
+function taxCells(item: Gstr1RateItem) {
+  return [item.taxableValue, item.igstAmount, item.cgstAmount, item.sgstAmount].map(formatCurrency);
+}
+
+function invoiceTableRows(invoices: Gstr1Invoice[]) {
+  return invoices.flatMap(invoice => invoice.items.map(item => ({
+    key: `${invoice.billId}-${item.gstRate}`,
+    cells: [
+      invoice.number,
+      new Date(invoice.date).toLocaleDateString('en-IN'),
+      invoice.customerName,
+      invoice.gstin ?? "-",
+      formatPlaceOfSupply(invoice.placeOfSupply),
+      `${item.gstRate}%`,
+      ...taxCells(item),
+      formatCurrency(invoice.invoiceValue),
+    ],
+  })));
+}
+
+function noteTableRows(notes: Gstr1Note[]) {
+  return notes.flatMap(note => note.items.map(item => ({
+    key: `${note.creditNoteId}-${item.gstRate}`,
+    cells: [
+      note.number,
+      new Date(note.date).toLocaleDateString('en-IN'),
+      note.billNumber,
+      note.customerName,
+      note.gstin ?? "-",
+      formatPlaceOfSupply(note.placeOfSupply),
+      `${item.gstRate}%`,
+      ...taxCells(item),
+      formatCurrency(note.noteValue),
+    ],
+  })));
+}
+
+const invoiceColumns = [
+  { label: "Invoice" }, { label: "Date" }, { label: "Customer" }, { label: "GSTIN" }, { label: "Place of Supply" },
+  { label: "Rate", numeric: true }, ...taxColumns, { label: "Invoice Value", numeric: true },
+];
+
+const noteColumns = [
+  { label: "Note" }, { label: "Date" }, { label: "Against Bill" }, { label: "Customer" }, { label: "GSTIN" },
+  { label: "Place of Supply" }, { label: "Rate", numeric: true }, ...taxColumns, { label: "Note Value", numeric: true },
+];
+
+function getSectionSummary(report: Gstr1Report, section: Gstr1Section) {
+  const documents = (list: (Gstr1Invoice | Gstr1Note)[]) => ({
+    count: list.length,
+    ...list.reduce(
+      (sum, document) => {
+        const totals = sumItems(document.items);
+        return { taxableValue: sum.taxableValue + totals.taxableValue, tax: sum.tax + totals.tax };
+      },
+      { taxableValue: 0, tax: 0 }
+    ),
+  });
+  switch (section) {
+    case "b2b": return documents(report.b2b);
+    case "b2cl": return documents(report.b2cl);
+    case "cdnr": return documents(report.cdnr);
+    case "cdnur": return documents(report.cdnur);
+    case "b2cs": return { count: report.b2cs.length, ...sumItems(report.b2cs) };
+    case "hsn": return { count: report.hsn.length, ...sumItems(report.hsn) };
+    case "docs": return { count: report.docs.reduce((sum, row) => sum + row.total, 0), taxableValue: 0, tax: 0 };
+  }
+}
+
+export default function Gstr1Panel({ period }: { period: string }) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: report, isLoading } = useQuery<Gstr1Report>({
+    queryKey: ['/api/returns/gstr1', period],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/returns/gstr1?period=${period}`);
+      return response.json();
+    },
+    enabled: !!period,
+  });
+
+  const errorCount = report?.issues.filter(issue => issue.severity === "error").length ?? 0;
+  const sections = Object.keys(GSTR1_SECTIONS) as Gstr1Section[];
+
+  const handleDownloadJson = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(`/api/returns/gstr1/json?period=${period}&download=1`, `GSTR1_${period}.json`);
+    } catch (error) {
+      if (isUnauthorizedError(error as Error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      toast({
+        title: "GSTR-1 not ready",
+        description: getApiErrorMessage(error as Error, "Failed to export GSTR-1 JSON"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleExportCsv = (section: Gstr1Section) => {
+    if (!report) return;
+    downloadCsv(toGstr1Csv(report, section), `gstr1-${section}-${period}.csv`);
+  };
+
+  const renderSection = (section: Gstr1Section) => {
+    if (!report) return null;
+    switch (section) {
+      case "b2b":
+        return <ReturnTable columns={invoiceColumns} rows={invoiceTableRows(report.b2b)} testId="table-b2b" />;
+      case "b2cl":
+        return <ReturnTable columns={invoiceColumns} rows={invoiceTableRows(report.b2cl)} testId="table-b2cl" />;
+      case "cdnr":
+        return <ReturnTable columns={noteColumns} rows={noteTableRows(report.cdnr)} testId="table-cdnr" />;
+      case "cdnur":
+        return <ReturnTable columns={noteColumns} rows={noteTableRows(report.cdnur)} testId="table-cdnur" />;
+      case "b2cs":
+        return (
+          <ReturnTable
+            columns={[{ label: "Supply" }, { label: "Place of Supply" }, { label: "Rate", numeric: true }, ...taxColumns]}
+            rows={report.b2cs.map(row => ({
+              key: `${row.supplyType}-${row.placeOfSupply}-${row.gstRate}`,
+              cells: [
+                row.supplyType === "INTER" ? "Inter-state" : "Intra-state",
+                formatPlaceOfSupply(row.placeOfSupply),
+                `${row.gstRate}%`,
+                ...taxCells(row),
+              ],
+            }))}
+            testId="table-b2cs"
+          />
+        );
+      case "hsn":
+        return (
+          <ReturnTable
+            columns={[
+              { label: "Type" }, { label: "HSN/SAC" }, { label: "Description" }, { label: "UQC" },
+              { label: "Quantity", numeric: true }, { label: "Rate", numeric: true }, ...taxColumns,
+              { label: "Total Value", numeric: true },
+            ]}
+            rows={report.hsn.map(row => ({
+              key: `${row.section}-${row.hsnCode}-${row.uqc}-${row.gstRate}`,
+              cells: [
+                row.section.toUpperCase(),
+                row.hsnCode || "Not set",
+                row.description,
+                row.uqc,
+                row.quantity,
+                `${row.gstRate}%`,
+                ...taxCells(row),
+                formatCurrency(row.totalValue),
+              ],
+            }))}
+            testId="table-hsn"
+          />
+        );
+      case "docs":
+        return (
+          <ReturnTable
+            columns={[
+              { label: "Nature of Document" }, { label: "From" }, { label: "To" },
+              { label: "Total", numeric: true }, { label: "Cancelled", numeric: true }, { label: "Net Issued", numeric: true },
+            ]}
+            rows={report.docs.map(row => ({
+              key: `${row.docType}-${row.series}`,
+              cells: [
+                row.docType === "invoices" ? "Invoices for outward supply" : "Credit notes",
+                row.from,
+                row.to,
+                row.total,
+                row.cancelled,
+                row.total - row.cancelled,
+              ],
+            }))}
+            testId="table-docs"
+          />
+        );
+    }
+  };
+
+  if (isLoading || !report) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  return (
+    <div className="space-y-6" data-testid="gstr1-panel">
+      <div className="flex justify-end">
+        <Button
+          onClick={handleDownloadJson}
+          disabled={isDownloading}
+          data-testid="button-download-gstr1-json"
+        >
+          <FileJson className="w-4 h-4 mr-2" />
+          {isDownloading ? "Preparing..." : "Download JSON"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+        {sections.map(section => {
+          const summary = getSectionSummary(report, section);
+          return (
+            <Card key={section} data-testid={`stat-${section}`}>
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-xs">{GSTR1_SECTIONS[section]}</p>
+                <p className="text-xl font-bold">{summary.count}</p>
+                {section !== "docs" && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(summary.taxableValue)} + {formatCurrency(summary.tax)} tax
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card data-testid="card-gstr1-issues">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {report.issues.length === 0 ? (
+              <CheckCircle2 className="w-5 h-5 text-green-600" />
+            ) : (
+              <AlertTriangle className={`w-5 h-5 ${errorCount > 0 ? 'text-red-600' : 'text-amber-500'}`} />
+            )}
+            Validation
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {!report.gstin
+              ? "Add your company GSTIN in Settings before exporting."
+              : errorCount > 0
+                ? `${errorCount} error(s) must be fixed before the JSON can be exported.`
+                : report.issues.length > 0
+                  ? "Ready to export. Review the warnings below."
+                  : "Ready to export."}
+          </p>
+        </CardHeader>
+        {report.issues.length > 0 && (
+          <CardContent>
+            <div className="max-h-64 overflow-y-auto divide-y divide-border">
+              {report.issues.map((issue, index) => (
+                <div key={index} className="flex items-start gap-3 py-2 text-sm" data-testid={`gstr1-issue-${index}`}>
+                  <Badge variant={issue.severity === "error" ? "destructive" : "secondary"}>
+                    {issue.severity === "error" ? "Error" : "Warning"}
+                  </Badge>
+                  <span className="font-medium">{issue.documentNumber}</span>
+                  <span className="text-muted-foreground">{issue.customerName}</span>
+                  <span>{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card data-testid="card-gstr1-sections">
+        <CardContent className="p-4">
+          <Tabs defaultValue="b2b">
+            <TabsList className="flex-wrap h-auto">
+              {sections.map(section => (
+                <TabsTrigger key={section} value={section} data-testid={`tab-${section}`}>
+                  {GSTR1_SECTIONS[section]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {sections.map(section => (
+              <TabsContent key={section} value={section} className="space-y-3">
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExportCsv(section)}
+                    data-testid={`button-export-${section}`}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
+                {renderSection(section)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
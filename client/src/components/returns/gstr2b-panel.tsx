@@ -0,0 +1,430 @@
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { ReturnTable, downloadCsv } from "@/components/returns/return-table";
+import PurchaseModal from "@/components/modals/purchase-modal";
+import { Download, Flag, Link2, Plus, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { readSheet } from "read-excel-file/browser";
+import {
+  GSTR2B_ACTION_LABELS,
+  GSTR2B_MATCH_STATUSES,
+  GSTR2B_MATCH_STATUS_LABELS,
+  parseGstr2bJson,
+  parseGstr2bSheet,
+  type Gstr2bFile,
+  type Gstr2bMatchStatus,
+} from "@shared/gstr2b";
+import type { Gstr2bEntryWithPurchase, Gstr2bReconciliation, LinkGstr2bEntry, PurchaseWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+const statusVariants: Record<Gstr2bMatchStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  matched: "default",
+  mismatched: "secondary",
+  missing_in_books: "destructive",
+  missing_in_2b: "outline",
+};
+
+const formatDate = (date: Date | string | null) => date ? format(new Date(date), 'dd-MM-yyyy') : "-";
+
+function get2bTax(entry: Gstr2bEntryWithPurchase) {
+  if (entry.taxableValue == null) return null;
+  return Number(entry.igstAmount) + Number(entry.cgstAmount) + Number(entry.sgstAmount);
+}
+
+function getBooksTax(entry: Gstr2bEntryWithPurchase) {
+  if (!entry.purchase) return null;
+  return Number(entry.purchase.igstAmount) + Number(entry.purchase.cgstAmount) + Number(entry.purchase.sgstAmount);
+}
+
+async function readStatement(file: File): Promise<Gstr2bFile> {
+  if (file.name.toLowerCase().endsWith(".json")) {
+    return parseGstr2bJson(JSON.parse(await file.text()));
+  }
+  return parseGstr2bSheet(await readSheet(file, "B2B") as unknown[][]);
+}
+
+export default function Gstr2bPanel({ period }: { period: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [statusFilter, setStatusFilter] = useState<Gstr2bMatchStatus | "all">("all");
+  const [linking, setLinking] = useState<Gstr2bEntryWithPurchase | null>(null);
+  const [linkPurchaseId, setLinkPurchaseId] = useState("");
+  const [flagging, setFlagging] = useState<Gstr2bEntryWithPurchase | null>(null);
+  const [flagNote, setFlagNote] = useState("");
+  const [booking, setBooking] = useState<Gstr2bEntryWithPurchase | null>(null);
+
+  const bookingDefaults = useMemo(() => booking ? {
+    vendorId: booking.vendor?.id ?? "",
+    vendorInvoiceNumber: booking.invoiceNumber ?? "",
+    vendorInvoiceDate: booking.invoiceDate ? format(new Date(booking.invoiceDate), 'yyyy-MM-dd') : "",
+  } : undefined, [booking]);
+
+  const queryKey = ['/api/returns/gstr2b', period];
+  const { data: reconciliation, isLoading } = useQuery<Gstr2bReconciliation>({
+    queryKey,
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/returns/gstr2b?period=${period}`);
+      return response.json();
+    },
+    enabled: !!period,
+  });
+
+  const { data: purchases = [] } = useQuery<PurchaseWithDetails[]>({
+    queryKey: ['/api/purchases'],
+    enabled: !!linking,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const onReconciled = (data: Gstr2bReconciliation) => {
+    queryClient.setQueryData(queryKey, data);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ file, statement }: { file: File; statement: Gstr2bFile }) => {
+      const response = await apiRequest('POST', '/api/returns/gstr2b', {
+        period,
+        fileName: file.name,
+        gstin: statement.gstin,
+        invoices: statement.invoices,
+        skipped: statement.skipped,
+      });
+      return response.json() as Promise<Gstr2bReconciliation>;
+    },
+    onSuccess: (data) => {
+      onReconciled(data);
+      toast({
+        title: "GSTR-2B imported",
+        description: `${data.import?.invoiceCount ?? 0} invoice(s) reconciled against your purchases`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to import GSTR-2B"),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ id, link }: { id: string; link: LinkGstr2bEntry }) => {
+      const response = await apiRequest('POST', `/api/returns/gstr2b/entries/${id}/link`, link);
+      return response.json() as Promise<Gstr2bReconciliation>;
+    },
+    onSuccess: (data) => {
+      onReconciled(data);
+      setLinking(null);
+      toast({ title: "Success", description: "Invoice linked to the purchase" });
+    },
+    onError: (error) => handleError(error, "Failed to link invoice"),
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note: string }) => {
+      const response = await apiRequest('POST', `/api/returns/gstr2b/entries/${id}/flag-vendor`, { note });
+      return response.json() as Promise<Gstr2bReconciliation>;
+    },
+    onSuccess: (data) => {
+      onReconciled(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/vendors'] });
+      setFlagging(null);
+      toast({ title: "Success", description: "Vendor flagged for follow-up" });
+    },
+    onError: (error) => handleError(error, "Failed to flag vendor"),
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const statement = await readStatement(file);
+      if (statement.period && statement.period !== period) {
+        toast({
+          title: "Wrong tax period",
+          description: `This statement is for ${statement.period}, but ${period} is selected`,
+          variant: "destructive",
+        });
+        return;
+      }
+      importMutation.mutate({ file, statement });
+    } catch (error) {
+      toast({
+        title: "Could not read the file",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const entries = reconciliation?.entries ?? [];
+  const visibleEntries = statusFilter === "all" ? entries : entries.filter(entry => entry.status === statusFilter);
+  const linkCandidates = linking
+    ? purchases.filter(purchase => purchase.vendor.gstin?.toUpperCase() === linking.supplierGstin)
+    : [];
+
+  const handleExportCsv = () => {
+    downloadCsv([
+      ['Status', 'Supplier GSTIN', 'Supplier', 'Invoice No', 'Invoice Date', 'Taxable Value (2B)', 'Tax (2B)',
+        'ITC Available', 'Purchase', 'Tax (Books)', 'Differences', 'Action'],
+      ...entries.map(entry => [
+        GSTR2B_MATCH_STATUS_LABELS[entry.status],
+        entry.supplierGstin,
+        entry.supplierName ?? '',
+        entry.invoiceNumber ?? '',
+        formatDate(entry.invoiceDate),
+        entry.taxableValue ?? '',
+        get2bTax(entry)?.toFixed(2) ?? '',
+        entry.itcAvailable == null ? '' : entry.itcAvailable ? 'Yes' : 'No',
+        entry.purchase?.purchaseNumber ?? '',
+        getBooksTax(entry)?.toFixed(2) ?? '',
+        entry.differences.join('; '),
+        entry.action ? GSTR2B_ACTION_LABELS[entry.action] : '',
+      ]),
+    ], `gstr2b-reconciliation-${period}.csv`);
+  };
+
+  if (isLoading) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const countFor = (status: Gstr2bMatchStatus) => entries.filter(entry => entry.status === status).length;
+
+  return (
+    <div className="space-y-6" data-testid="gstr2b-panel">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <p className="text-sm text-muted-foreground" data-testid="text-gstr2b-import">
+          {reconciliation?.import
+            ? `${reconciliation.import.fileName}: ${reconciliation.import.invoiceCount} B2B invoice(s), imported ${formatDate(reconciliation.import.importedAt)}` +
+              (reconciliation.import.skippedCount ? `; ${reconciliation.import.skippedCount} credit note, amendment or import entries not matched` : "")
+            : "No GSTR-2B imported for this period. Download the JSON or Excel file from the GST portal and import it here."}
+        </p>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,.xlsx"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-gstr2b-file"
+          />
+          <Button variant="outline" onClick={handleExportCsv} disabled={entries.length === 0} data-testid="button-export-gstr2b-csv">
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button onClick={() => fileInput.current?.click()} disabled={importMutation.isPending} data-testid="button-import-gstr2b">
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : reconciliation?.import ? "Re-import GSTR-2B" : "Import GSTR-2B"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {GSTR2B_MATCH_STATUSES.map(status => (
+          <Card key={status} data-testid={`stat-gstr2b-${status}`}>
+            <CardContent className="p-4">
+              <p className="text-muted-foreground text-sm">{GSTR2B_MATCH_STATUS_LABELS[status]}</p>
+              <p className="text-2xl font-bold">{countFor(status)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Reconciliation</CardTitle>
+          <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as Gstr2bMatchStatus | "all")}>
+            <TabsList>
+              <TabsTrigger value="all" data-testid="filter-gstr2b-all">All</TabsTrigger>
+              {GSTR2B_MATCH_STATUSES.map(status => (
+                <TabsTrigger key={status} value={status} data-testid={`filter-gstr2b-${status}`}>
+                  {GSTR2B_MATCH_STATUS_LABELS[status]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          <ReturnTable
+            columns={[
+              { label: "Supplier" }, { label: "Invoice" }, { label: "Tax in 2B", numeric: true },
+              { label: "Purchase" }, { label: "Tax in Books", numeric: true }, { label: "Status" }, { label: "Actions" },
+            ]}
+            rows={visibleEntries.map(entry => {
+              const tax2b = get2bTax(entry);
+              const booksTax = getBooksTax(entry);
+              return {
+                key: entry.id,
+                cells: [
+                  <div>
+                    <div>{entry.supplierName || entry.vendor?.name || "-"}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{entry.supplierGstin}</div>
+                    {entry.vendor?.flaggedAt && <Badge variant="destructive" className="text-xs mt-1">Flagged</Badge>}
+                  </div>,
+                  <div>
+                    <div>{entry.invoiceNumber ?? "-"}</div>
+                    <div className="text-xs text-muted-foreground">{formatDate(entry.invoiceDate)}</div>
+                    {entry.itcAvailable === false && <div className="text-xs text-red-600">ITC not available</div>}
+                  </div>,
+                  tax2b == null ? "-" : formatCurrency(tax2b),
+                  entry.purchase?.purchaseNumber ?? "-",
+                  booksTax == null ? "-" : formatCurrency(booksTax),
+                  <div className="space-y-1" data-testid={`gstr2b-status-${entry.id}`}>
+                    <Badge variant={statusVariants[entry.status]}>{GSTR2B_MATCH_STATUS_LABELS[entry.status]}</Badge>
+                    {entry.differences.map(difference => (
+                      <div key={difference} className="text-xs text-muted-foreground">{difference}</div>
+                    ))}
+                    {entry.action && (
+                      <div className="text-xs text-muted-foreground">{GSTR2B_ACTION_LABELS[entry.action]}</div>
+                    )}
+                  </div>,
+                  <div className="flex gap-1">
+                    {entry.status !== "matched" && entry.status !== "missing_in_2b" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Link to a purchase"
+                        onClick={() => { setLinkPurchaseId(entry.purchaseId ?? ""); setLinking(entry); }}
+                        data-testid={`button-link-${entry.id}`}
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {entry.status === "missing_in_books" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title={entry.vendor ? "Record the purchase" : `Add a vendor with GSTIN ${entry.supplierGstin} first`}
+                        disabled={!entry.vendor}
+                        onClick={() => setBooking(entry)}
+                        data-testid={`button-create-purchase-${entry.id}`}
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {entry.status !== "matched" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title={entry.vendor ? "Flag the vendor" : `No vendor has GSTIN ${entry.supplierGstin}`}
+                        disabled={!entry.vendor}
+                        onClick={() => { setFlagNote(entry.vendor?.flagNote ?? ""); setFlagging(entry); }}
+                        data-testid={`button-flag-vendor-${entry.id}`}
+                      >
+                        <Flag className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>,
+                ],
+              };
+            })}
+            testId="table-gstr2b"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!linking} onOpenChange={(open) => !open && setLinking(null)}>
+        <DialogContent data-testid="dialog-link-gstr2b">
+          <DialogHeader>
+            <DialogTitle>Link {linking?.invoiceNumber} to a purchase</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Purchase from {linking?.supplierName || linking?.supplierGstin}</Label>
+            <Select value={linkPurchaseId} onValueChange={setLinkPurchaseId}>
+              <SelectTrigger data-testid="select-link-purchase">
+                <SelectValue placeholder={linkCandidates.length ? "Select a purchase" : "No purchases from this GSTIN"} />
+              </SelectTrigger>
+              <SelectContent>
+                {linkCandidates.map(purchase => (
+                  <SelectItem key={purchase.id} value={purchase.id}>
+                    {purchase.purchaseNumber} - {purchase.vendorInvoiceNumber ?? "no invoice no"} - {formatCurrency(purchase.total)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLinking(null)}>Cancel</Button>
+            <Button
+              onClick={() => linking && linkMutation.mutate({ id: linking.id, link: { purchaseId: linkPurchaseId, action: "linked" } })}
+              disabled={!linkPurchaseId || linkMutation.isPending}
+              data-testid="button-confirm-link"
+            >
+              {linkMutation.isPending ? "Linking..." : "Link"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!flagging} onOpenChange={(open) => !open && setFlagging(null)}>
+        <DialogContent data-testid="dialog-flag-vendor">
+          <DialogHeader>
+            <DialogTitle>Flag {flagging?.vendor?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="flag-note">What needs following up</Label>
+            <Textarea
+              id="flag-note"
+              value={flagNote}
+              onChange={(e) => setFlagNote(e.target.value)}
+              placeholder={flagging?.status === "missing_in_2b"
+                ? "e.g. invoice not reported in their GSTR-1"
+                : "e.g. tax reported differs from the invoice"}
+              data-testid="input-flag-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFlagging(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => flagging && flagMutation.mutate({ id: flagging.id, note: flagNote })}
+              disabled={!flagNote.trim() || flagMutation.isPending}
+              data-testid="button-confirm-flag"
+            >
+              {flagMutation.isPending ? "Flagging..." : "Flag Vendor"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <PurchaseModal
+        isOpen={!!booking}
+        onClose={() => setBooking(null)}
+        defaults={bookingDefaults}
+        onCreated={(purchase) => {
+          if (booking) {
+            linkMutation.mutate({ id: booking.id, link: { purchaseId: purchase.id, action: "purchase_created" } });
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { ReturnTable, downloadCsv } from "@/components/returns/return-table";
+import { formatCurrency } from "@shared/currency";
+import { Download, IndianRupee, Printer } from "lucide-react";
+import { formatPlaceOfSupply } from "@shared/gstr1";
+import { TAX_HEADS, type Gstr3bReport, type SupplyTotals, type TaxHead } from "@shared/gstr3b";
+
+const heads = Object.keys(TAX_HEADS) as TaxHead[];
+
+function supplyCells(label: string, totals: SupplyTotals) {
+  return [label, ...[totals.taxableValue, totals.igst, totals.cgst, totals.sgst].map(formatCurrency)];
+}
+
+export default function Gstr3bPanel({ period }: { period: string }) {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: report, isLoading } = useQuery<Gstr3bReport>({
+    queryKey: ['/api/returns/gstr3b', period],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/returns/gstr3b?period=${period}`);
+      return response.json();
+    },
+    enabled: !!period,
+  });
+
+  const handlePrint = () => {
+    window.open(`/api/returns/gstr3b/pdf?period=${period}&inline=1`, '_blank');
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(`/api/returns/gstr3b/pdf?period=${period}`, `GSTR3B_${period}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download GSTR-3B PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    const { outwardTaxable, outwardNilRated, itc, payment } = report;
+    downloadCsv([
+      ['Section', 'Description', 'Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax'],
+      ['3.1', '(a) Outward taxable supplies', outwardTaxable.taxableValue, outwardTaxable.igst, outwardTaxable.cgst, outwardTaxable.sgst],
+      ['3.1', '(c) Nil rated and exempted supplies', outwardNilRated.taxableValue, outwardNilRated.igst, outwardNilRated.cgst, outwardNilRated.sgst],
+      ...report.interStateUnregistered.map(row => [
+        '3.2', `Unregistered persons - ${formatPlaceOfSupply(row.placeOfSupply)}`, row.taxableValue, row.igst, '', '',
+      ]),
+      ['4', '(C) Net ITC available', itc.taxableValue, itc.available.igst, itc.available.cgst, itc.available.sgst],
+      ...payment.rows.flatMap(row => [
+        ['6.1', `${TAX_HEADS[row.head]} payable`, '', ...heads.map(head => head === row.head ? row.payable : '')],
+        ...heads.map(credit => [
+          '6.1', `${TAX_HEADS[row.head]} paid through ${TAX_HEADS[credit]} credit`, '',
+          ...heads.map(head => head === row.head ? row.paidThroughCredit[credit] : ''),
+        ]),
+        ['6.1', `${TAX_HEADS[row.head]} paid in cash`, '', ...heads.map(head => head === row.head ? row.paidInCash : '')],
+      ]),
+      ['', 'Credit carried forward', '', payment.creditCarriedForward.igst, payment.creditCarriedForward.cgst, payment.creditCarriedForward.sgst],
+    ], `gstr3b-${period}.csv`);
+  };
+
+  if (isLoading || !report) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const liability = report.payment.rows.reduce((sum, row) => sum + row.payable, 0);
+  const creditAvailable = heads.reduce((sum, head) => sum + report.itc.available[head], 0);
+
+  return (
+    <div className="space-y-6" data-testid="gstr3b-panel">
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={handleExportCsv} data-testid="button-export-gstr3b-csv">
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+        <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading} data-testid="button-download-gstr3b-pdf">
+          <Download className="w-4 h-4 mr-2" />
+          {isDownloading ? "Preparing..." : "Download PDF"}
+        </Button>
+        <Button onClick={handlePrint} data-testid="button-print-gstr3b">
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card data-testid="stat-gstr3b-liability">
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Output Tax</p>
+            <p className="text-2xl font-bold">{formatCurrency(liability)}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-gstr3b-itc">
+          <CardContent className="p-4">
+            <p className="text-muted-foreground text-sm">Input Tax Credit</p>
+            <p className="text-2xl font-bold">{formatCurrency(creditAvailable)}</p>
+            <p className="text-xs text-muted-foreground">From {report.itc.purchases} purchase(s) from registered vendors</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-gstr3b-cash">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <p className="text-muted-foreground text-sm">Payable in Cash</p>
+              <IndianRupee className="w-4 h-4 text-red-500" />
+            </div>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(report.payment.totalCash)}</p>
+            <p className="text-xs text-muted-foreground">Due by the 20th of the following month</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>3.1 Outward Supplies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReturnTable
+            columns={[
+              { label: "Nature of Supplies" }, { label: "Taxable Value", numeric: true },
+              { label: "IGST", numeric: true }, { label: "CGST", numeric: true }, { label: "SGST", numeric: true },
+            ]}
+            rows={[
+              { key: "taxable", cells: supplyCells("(a) Outward taxable supplies", report.outwardTaxable) },
+              { key: "nil", cells: supplyCells("(c) Nil rated and exempted supplies", report.outwardNilRated) },
+            ]}
+            testId="table-gstr3b-outward"
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>3.2 Inter-state Supplies to Unregistered Persons</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ReturnTable
+            columns={[{ label: "Place of Supply" }, { label: "Taxable Value", numeric: true }, { label: "IGST", numeric: true }]}
+            rows={report.interStateUnregistered.map(row => ({
+              key: row.placeOfSupply,
+              cells: [formatPlaceOfSupply(row.placeOfSupply), formatCurrency(row.taxableValue), formatCurrency(row.igst)],
+            }))}
+            testId="table-gstr3b-unregistered"
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>6.1 Payment of Tax</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            IGST credit is used first, then CGST and SGST credit. CGST and SGST credit never offset each other.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <ReturnTable
+            columns={[
+              { label: "Tax" }, { label: "Payable", numeric: true },
+              ...heads.map(head => ({ label: `Paid via ${head.toUpperCase()} ITC`, numeric: true })),
+              { label: "Paid in Cash", numeric: true },
+            ]}
+            rows={report.payment.rows.map(row => ({
+              key: row.head,
+              cells: [
+                TAX_HEADS[row.head],
+                formatCurrency(row.payable),
+                ...heads.map(head => formatCurrency(row.paidThroughCredit[head])),
+                <span className="font-semibold">{formatCurrency(row.paidInCash)}</span>,
+              ],
+            }))}
+            testId="table-gstr3b-payment"
+          />
+          <p className="text-sm text-muted-foreground" data-testid="text-credit-carried-forward">
+            Credit carried forward: IGST {formatCurrency(report.payment.creditCarriedForward.igst)},
+            CGST {formatCurrency(report.payment.creditCarriedForward.cgst)},
+            SGST {formatCurrency(report.payment.creditCarriedForward.sgst)}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { ReactNode } from "react";
+
+export function downloadCsv(rows: (string | number)[][], fileName: string) {
+  // Receiver names and descriptions can contain commas and quotes
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const csvContent = rows.map(row => row.map(escape).join(',')).join('\n');
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+interface ReturnTableProps {
+  columns: { label: string; numeric?: boolean }[];
+  rows: { key: string; cells: ReactNode[] }[];
+  testId: string;
+}
+
+export function ReturnTable({ columns, rows, testId }: ReturnTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8" data-testid={`${testId}-empty`}>
+        Nothing to report in this section
+      </p>
+    );
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid={testId}>
+        <thead className="bg-muted/50">
+          <tr>
+            {columns.map(column => (
+              <th
+                key={column.label}
+                className={`p-2 font-medium text-muted-foreground ${column.numeric ? 'text-right' : 'text-left'}`}
+              >
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {rows.map(row => (
+            <tr key={row.key}>
+              {row.cells.map((cell, index) => (
+                <td key={index} className={`p-2 ${columns[index].numeric ? 'text-right' : ''}`}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
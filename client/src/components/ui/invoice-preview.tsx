@@ -1,8 +1,18 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { X, Printer, Download, CheckCircle, Clock } from "lucide-react";
-import type { BillWithDetails } from "@shared/schema";
+import type { BillWithDetails, CompanySettings } from "@shared/schema";
+import { getStateName } from "@shared/gst";
+import { summariseByHsn } from "@shared/hsn";
+import { getBillStatusLabel } from "@shared/billStatus";
+import { amountInWords, formatCurrency } from "@shared/currency";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { getCompanyAddressLines, getCompanyBankLines, getCompanyName, getCompanyTaxLine } from "@/lib/companyUtils";
 
 interface InvoicePreviewProps {
   bill: BillWithDetails;
@@ -12,17 +22,45 @@ interface InvoicePreviewProps {
 }
 
 export default function InvoicePreview({ bill, onClose, onPrint, className }: InvoicePreviewProps) {
-  const handleDownload = () => {
-    // TODO: Implement PDF download functionality
-    console.log("Download PDF for bill:", bill.billNumber);
+  const { data: company } = useQuery<CompanySettings | null>({
+    queryKey: ['/api/settings'],
+  });
+
+  const bankLines = getCompanyBankLines(company);
+
+  const [qrImage, setQrImage] = useState<string | null>(null);
+  useEffect(() => {
+    setQrImage(null);
+    if (!bill.signedQrCode) return;
+    QRCode.toDataURL(bill.signedQrCode, { errorCorrectionLevel: "L", margin: 1 })
+      .then(setQrImage)
+      .catch(() => setQrImage(null));
+  }, [bill.signedQrCode]);
+
+  const { toast } = useToast();
+
+  const handleDownload = async () => {
+    try {
+      await downloadFromApi(`/api/bills/${bill.id}/pdf`, `${bill.billNumber}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download invoice PDF",
+        variant: "destructive",
+      });
+    }
   };
 
   const getStatusIcon = () => {
     switch (bill.status) {
       case 'paid':
         return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'partially_paid':
+        return <Clock className="w-4 h-4 text-blue-600" />;
       case 'pending':
         return <Clock className="w-4 h-4 text-yellow-600" />;
+      case 'overdue':
+        return <Clock className="w-4 h-4 text-orange-600" />;
       default:
         return null;
     }
@@ -32,8 +70,12 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
     switch (bill.status) {
       case 'paid':
         return 'bg-green-100 text-green-800';
+      case 'partially_paid':
+        return 'bg-blue-100 text-blue-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'overdue':
+        return 'bg-orange-100 text-orange-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
       default:
@@ -41,6 +83,14 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
     }
   };
 
+  const isInterState = parseFloat(bill.igstAmount) > 0;
+  const grossAmount = bill.billItems.reduce((sum, item) => sum + parseFloat(item.amount), 0);
+  const lineDiscount = bill.billItems.reduce((sum, item) => sum + parseFloat(item.discountAmount), 0);
+  const isCancelled = bill.status === 'cancelled';
+  const cancelledBy = bill.cancelledByUser
+    ? [bill.cancelledByUser.firstName, bill.cancelledByUser.lastName].filter(Boolean).join(" ") || bill.cancelledByUser.email
+    : null;
+
   const formatDate = (date: string | Date) => {
     return new Date(date).toLocaleDateString('en-IN', {
       day: '2-digit',
@@ -56,7 +106,7 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
           <span>Invoice Preview</span>
           <Badge className={`${getStatusColor()} flex items-center space-x-1`}>
             {getStatusIcon()}
-            <span>{bill.status.charAt(0).toUpperCase() + bill.status.slice(1)}</span>
+            <span>{getBillStatusLabel(bill.status)}</span>
           </Badge>
         </CardTitle>
         <div className="flex items-center space-x-2">
@@ -92,20 +142,45 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
       </CardHeader>
       
       <CardContent>
-        <div className="bg-white border-2 border-dashed border-border rounded-lg p-8 text-foreground font-mono">
+        <div className="relative overflow-hidden bg-white border-2 border-dashed border-border rounded-lg p-8 text-foreground font-mono">
+          {isCancelled && (
+            <div className="pointer-events-none absolute inset-0 flex items-center justify-center" data-testid="cancelled-watermark">
+              <span className="-rotate-45 select-none text-8xl font-bold tracking-widest text-red-600/10">CANCELLED</span>
+            </div>
+          )}
           {/* Invoice Header */}
           <div className="text-center mb-6">
-            <h2 className="text-xl font-bold mb-2" data-testid="company-name">YOUR COMPANY NAME</h2>
-            <div className="text-sm space-y-1">
-              <p>Address Line 1, Address Line 2</p>
-              <p>City, State - PIN CODE</p>
-              <p>GSTIN: 29ABCDE1234F1Z5 | Phone: +91 12345 67890</p>
+            {company?.logo && (
+              <img src={company.logo} alt="" className="h-16 w-auto mx-auto mb-2" data-testid="company-logo" />
+            )}
+            <h2 className="text-xl font-bold mb-2" data-testid="company-name">{getCompanyName(company)}</h2>
+            <div className="text-sm space-y-1" data-testid="company-details">
+              {company?.tradeName && <p>{company.legalName}</p>}
+              {getCompanyAddressLines(company).map(line => <p key={line}>{line}</p>)}
+              <p>{getCompanyTaxLine(company)}</p>
             </div>
           </div>
           
           <div className="border-b-2 border-gray-400 mb-4 pb-2">
             <h3 className="text-lg font-bold text-center">TAX INVOICE</h3>
           </div>
+
+          {bill.irn && (
+            <div className="flex items-start justify-between gap-4 mb-4 text-xs" data-testid="einvoice-details">
+              <div className="space-y-1 break-all">
+                <p><span className="font-bold">IRN:</span> {bill.irn}</p>
+                <p><span className="font-bold">Ack No:</span> {bill.irnAckNumber}</p>
+                {bill.irnAckDate && <p><span className="font-bold">Ack Date:</span> {formatDate(bill.irnAckDate)}</p>}
+              </div>
+              {qrImage && <img src={qrImage} alt="E-invoice QR code" className="h-32 w-32 shrink-0" data-testid="einvoice-qr" />}
+            </div>
+          )}
+
+          {isCancelled && (
+            <p className="mb-4 text-sm font-bold text-red-600" data-testid="cancellation-note">
+              Cancelled on {formatDate(bill.cancelledAt!)}{bill.cancellationReason && `: ${bill.cancellationReason}`}
+            </p>
+          )}
           
           {/* Bill Details */}
           <div className="grid grid-cols-2 gap-8 mb-6">
@@ -129,6 +204,15 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
                 {bill.dueDate && (
                   <p>Due Date: <span className="font-semibold">{formatDate(bill.dueDate)}</span></p>
                 )}
+                {bill.placeOfSupply && (
+                  <p>Place of Supply: <span className="font-semibold">{getStateName(bill.placeOfSupply)} ({bill.placeOfSupply})</span></p>
+                )}
+                {bill.ewbNumber && (
+                  <p>E-Way Bill No: <span className="font-semibold">{bill.ewbNumber}</span></p>
+                )}
+                {bill.vehicleNumber && (
+                  <p>Vehicle No: <span className="font-semibold">{bill.vehicleNumber}</span></p>
+                )}
               </div>
             </div>
           </div>
@@ -141,7 +225,9 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
                   <th className="border border-gray-400 p-3 text-left font-bold">Item</th>
                   <th className="border border-gray-400 p-3 text-right font-bold">Qty</th>
                   <th className="border border-gray-400 p-3 text-right font-bold">Rate</th>
-                  <th className="border border-gray-400 p-3 text-right font-bold">Amount</th>
+                  <th className="border border-gray-400 p-3 text-right font-bold">Discount</th>
+                  <th className="border border-gray-400 p-3 text-right font-bold">Taxable Value</th>
+                  <th className="border border-gray-400 p-3 text-right font-bold">GST</th>
                 </tr>
               </thead>
               <tbody>
@@ -150,54 +236,197 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
                     <td className="border border-gray-400 p-3">
                       <div>
                         <p className="font-medium">{item.item.name}</p>
-                        <p className="text-xs text-gray-600">Code: {item.item.code}</p>
+                        <p className="text-xs text-gray-600">
+                          Code: {item.item.code}{item.hsnCode && ` | HSN/SAC: ${item.hsnCode}`}
+                        </p>
                       </div>
                     </td>
                     <td className="border border-gray-400 p-3 text-right">
                       {item.quantity}
                     </td>
                     <td className="border border-gray-400 p-3 text-right">
-                      ₹{parseFloat(item.rate).toFixed(2)}
+                      {formatCurrency(item.rate)}
+                    </td>
+                    <td className="border border-gray-400 p-3 text-right" data-testid={`invoice-item-discount-${index}`}>
+                      {parseFloat(item.discountAmount) > 0 ? (
+                        <>
+                          <p>{formatCurrency(item.discountAmount)}</p>
+                          {item.discountType === "percent" && (
+                            <p className="text-xs text-gray-600">{parseFloat(item.discountValue)}%</p>
+                          )}
+                        </>
+                      ) : "—"}
                     </td>
                     <td className="border border-gray-400 p-3 text-right font-medium">
-                      ₹{parseFloat(item.amount).toFixed(2)}
+                      {formatCurrency(item.taxableValue)}
+                    </td>
+                    <td className="border border-gray-400 p-3 text-right">
+                      <p>{parseFloat(item.gstRate)}%</p>
+                      <p className="text-xs text-gray-600">
+                        {formatCurrency(parseFloat(item.cgstAmount) + parseFloat(item.sgstAmount) + parseFloat(item.igstAmount))}
+                      </p>
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
-          
+
+          {/* HSN/SAC Summary */}
+          <div className="mb-6" data-testid="invoice-hsn-summary">
+            <p className="font-bold mb-2">HSN/SAC Summary</p>
+            <table className="w-full border-collapse border border-gray-400 text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border border-gray-400 p-2 text-left">HSN/SAC</th>
+                  <th className="border border-gray-400 p-2 text-right">Rate</th>
+                  <th className="border border-gray-400 p-2 text-right">Taxable Value</th>
+                  {isInterState ? (
+                    <th className="border border-gray-400 p-2 text-right">IGST</th>
+                  ) : (
+                    <>
+                      <th className="border border-gray-400 p-2 text-right">CGST</th>
+                      <th className="border border-gray-400 p-2 text-right">SGST</th>
+                    </>
+                  )}
+                  <th className="border border-gray-400 p-2 text-right">Total Tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summariseByHsn(bill.billItems).map(row => (
+                  <tr key={`${row.hsnCode}-${row.gstRate}`} data-testid={`invoice-hsn-${row.hsnCode}-${row.gstRate}`}>
+                    <td className="border border-gray-400 p-2">{row.hsnCode}</td>
+                    <td className="border border-gray-400 p-2 text-right">{row.gstRate}%</td>
+                    <td className="border border-gray-400 p-2 text-right">{formatCurrency(row.taxableValue)}</td>
+                    {isInterState ? (
+                      <td className="border border-gray-400 p-2 text-right">{formatCurrency(row.igstAmount)}</td>
+                    ) : (
+                      <>
+                        <td className="border border-gray-400 p-2 text-right">{formatCurrency(row.cgstAmount)}</td>
+                        <td className="border border-gray-400 p-2 text-right">{formatCurrency(row.sgstAmount)}</td>
+                      </>
+                    )}
+                    <td className="border border-gray-400 p-2 text-right">
+                      {formatCurrency(row.cgstAmount + row.sgstAmount + row.igstAmount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
           {/* Totals */}
           <div className="text-right mb-6" data-testid="invoice-totals">
             <div className="space-y-2">
+              {(lineDiscount > 0 || parseFloat(bill.discountAmount) > 0) && (
+                <>
+                  <div className="flex justify-between">
+                    <span>Gross Amount:</span>
+                    <span>{formatCurrency(grossAmount)}</span>
+                  </div>
+                  {lineDiscount > 0 && (
+                    <div className="flex justify-between" data-testid="invoice-line-discount">
+                      <span>Less Line Discounts:</span>
+                      <span>-{formatCurrency(lineDiscount)}</span>
+                    </div>
+                  )}
+                  {parseFloat(bill.discountAmount) > 0 && (
+                    <div className="flex justify-between" data-testid="invoice-bill-discount">
+                      <span>
+                        Less Bill Discount{bill.discountType === "percent" && ` (${parseFloat(bill.discountValue)}%)`}:
+                      </span>
+                      <span>-{formatCurrency(bill.discountAmount)}</span>
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex justify-between">
-                <span>Subtotal:</span>
-                <span>₹{parseFloat(bill.subtotal).toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>CGST (9%):</span>
-                <span>₹{(parseFloat(bill.gstAmount) / 2).toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span>SGST (9%):</span>
-                <span>₹{(parseFloat(bill.gstAmount) / 2).toFixed(2)}</span>
+                <span>Taxable Value:</span>
+                <span>{formatCurrency(bill.subtotal)}</span>
               </div>
+              {isInterState ? (
+                <div className="flex justify-between">
+                  <span>IGST:</span>
+                  <span>{formatCurrency(bill.igstAmount)}</span>
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span>CGST:</span>
+                    <span>{formatCurrency(bill.cgstAmount)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>SGST:</span>
+                    <span>{formatCurrency(bill.sgstAmount)}</span>
+                  </div>
+                </>
+              )}
+              {parseFloat(bill.roundOff) !== 0 && (
+                <div className="flex justify-between" data-testid="invoice-round-off">
+                  <span>Round Off:</span>
+                  <span>{parseFloat(bill.roundOff) > 0 ? "+" : "-"}{formatCurrency(Math.abs(parseFloat(bill.roundOff)))}</span>
+                </div>
+              )}
               <div className="border-t border-gray-400 pt-2">
                 <div className="flex justify-between font-bold text-lg">
                   <span>Total:</span>
-                  <span>₹{parseFloat(bill.total).toFixed(2)}</span>
+                  <span>{formatCurrency(bill.total)}</span>
                 </div>
               </div>
+              {!isCancelled && (parseFloat(bill.amountCredited) > 0 || parseFloat(bill.amountPaid) > 0) && (
+                <div className="space-y-1 pt-1" data-testid="invoice-settlement">
+                  {parseFloat(bill.amountCredited) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Less Credit Notes:</span>
+                      <span>{formatCurrency(bill.amountCredited)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Amount Paid:</span>
+                    <span>{formatCurrency(bill.amountPaid)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Balance Due:</span>
+                    <span>{formatCurrency(bill.balanceDue)}</span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
+
+          <p className="text-sm mb-6" data-testid="invoice-amount-in-words">
+            <span className="font-bold">Amount in words: </span>
+            {amountInWords(parseFloat(bill.total))}
+          </p>
           
+          {/* Bank details, terms and signature */}
+          <div className="grid grid-cols-2 gap-8 border-t border-gray-400 pt-4 mb-6 text-sm">
+            <div className="space-y-3">
+              {bankLines.length > 0 && (
+                <div data-testid="company-bank-details">
+                  <p className="font-bold mb-1">Bank Details:</p>
+                  {bankLines.map(line => <p key={line}>{line}</p>)}
+                </div>
+              )}
+              {company?.invoiceTerms && (
+                <div data-testid="invoice-terms">
+                  <p className="font-bold mb-1">Terms & Conditions:</p>
+                  <p className="whitespace-pre-line text-xs">{company.invoiceTerms}</p>
+                </div>
+              )}
+            </div>
+            <div className="text-right flex flex-col justify-between" data-testid="signature-block">
+              <p className="font-bold">For {company?.legalName ?? getCompanyName(company)}</p>
+              <div className="mt-12">
+                {company?.signatoryName && <p>{company.signatoryName}</p>}
+                <p className="text-xs">{company?.signatoryDesignation || "Authorised Signatory"}</p>
+              </div>
+            </div>
+          </div>
+
           {/* Footer */}
           <div className="text-center border-t border-gray-400 pt-4">
             <p className="text-sm">Thank you for your business!</p>
-            <p className="text-xs text-gray-600 mt-2">
-              This is a computer generated invoice and does not require a signature.
-            </p>
           </div>
         </div>
         
@@ -208,7 +437,7 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
               <p className="font-medium mb-1">Payment Status:</p>
               <div className="flex items-center space-x-2">
                 {getStatusIcon()}
-                <span className="capitalize">{bill.status}</span>
+                <span>{getBillStatusLabel(bill.status)}</span>
               </div>
             </div>
             <div>
@@ -220,6 +449,15 @@ export default function InvoicePreview({ bill, onClose, onPrint, className }: In
               <p>{formatDate(bill.billDate!)}</p>
             </div>
           </div>
+          {isCancelled && (
+            <div className="mt-4" data-testid="cancellation-details">
+              <p className="font-medium mb-1">Cancellation:</p>
+              <p>
+                {formatDate(bill.cancelledAt!)}{cancelledBy && ` by ${cancelledBy}`}
+                {bill.cancellationReason && ` — ${bill.cancellationReason}`}
+              </p>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,33 @@
+import type { CompanySettings } from "@shared/schema";
+
+export function getCompanyName(company?: CompanySettings | null): string {
+  return company?.tradeName || company?.legalName || "Company details not configured";
+}
+
+export function getCompanyAddressLines(company?: CompanySettings | null): string[] {
+  if (!company) return ["Set up your company profile under Settings"];
+  return [
+    [company.addressLine1, company.addressLine2].filter(Boolean).join(", "),
+    `${company.city}, ${company.state} (${company.stateCode}) - ${company.pinCode}`,
+  ];
+}
+
+export function getCompanyTaxLine(company?: CompanySettings | null): string {
+  if (!company) return "";
+  return [
+    company.gstin && `GSTIN: ${company.gstin}`,
+    company.pan && `PAN: ${company.pan}`,
+    company.phone && `Phone: ${company.phone}`,
+    company.email && `Email: ${company.email}`,
+  ].filter(Boolean).join(" | ");
+}
+
+export function getCompanyBankLines(company?: CompanySettings | null): string[] {
+  if (!company?.bankAccountNumber) return [];
+  return [
+    company.bankAccountName && `A/c Name: ${company.bankAccountName}`,
+    company.bankName && `Bank: ${company.bankName}${company.bankBranch ? `, ${company.bankBranch}` : ""}`,
+    `A/c No: ${company.bankAccountNumber}`,
+    company.bankIfsc && `IFSC: ${company.bankIfsc}`,
+  ].filter((line): line is string => !!line);
+}
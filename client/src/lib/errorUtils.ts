@@ -0,0 +1,11 @@
+// apiRequest errors look like `409: {"message":"..."}`; pull out the server's
+// message so business-rule rejections can be shown to the user as-is.
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -4,6 +4,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import StatsCard from "@/components/ui/stats-card";
+import { apiRequest } from "@/lib/queryClient";
+import { getPaymentModeLabel } from "@shared/payments";
+import type { BillDiscountSummary, PaymentModeSummary } from "@shared/schema";
 import { 
   TrendingUp, 
   ShoppingCart, 
@@ -16,6 +19,7 @@ import {
   CreditCard,
   DollarSign
 } from "lucide-react";
+import { formatCurrency } from "@shared/currency";
 
 interface AnalyticsData {
   revenue: string;
@@ -46,6 +50,31 @@ interface TopSellingItem {
   totalRevenue: string;
 }
 
+const PERIOD_DAYS: Record<string, number> = {
+  "last-7-days": 7,
+  "last-30-days": 30,
+  "last-3-months": 91,
+  "last-year": 365,
+};
+
+const PAYMENT_MODE_COLORS: Record<string, string> = {
+  cash: "bg-primary",
+  upi: "bg-green-500",
+  card: "bg-blue-500",
+  cheque: "bg-orange-500",
+  bank_transfer: "bg-purple-500",
+};
+
+function getPeriodRange(period: string) {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(from.getDate() - (PERIOD_DAYS[period] ?? 30) + 1);
+  return {
+    from: from.toISOString().split('T')[0],
+    to: to.toISOString().split('T')[0],
+  };
+}
+
 export default function Analytics() {
   const [selectedPeriod, setSelectedPeriod] = useState("last-30-days");
 
@@ -65,19 +94,42 @@ export default function Analytics() {
     profitMargin: "23.4",
   };
 
-  const paymentMethods = [
-    { name: "Cash", percentage: 45, color: "bg-primary" },
-    { name: "UPI", percentage: 35, color: "bg-green-500" },
-    { name: "Card", percentage: 20, color: "bg-blue-500" },
-  ];
+  const periodRange = getPeriodRange(selectedPeriod);
+
+  const { data: paymentModes = [] } = useQuery<PaymentModeSummary[]>({
+    queryKey: ['/api/analytics/payment-modes', periodRange.from, periodRange.to],
+    queryFn: async () => {
+      const params = new URLSearchParams(periodRange);
+      const response = await apiRequest('GET', `/api/analytics/payment-modes?${params}`);
+      return response.json();
+    },
+  });
+
+  const { data: billDiscounts = [] } = useQuery<BillDiscountSummary[]>({
+    queryKey: ['/api/analytics/discounts', periodRange.from, periodRange.to],
+    queryFn: async () => {
+      const params = new URLSearchParams(periodRange);
+      const response = await apiRequest('GET', `/api/analytics/discounts?${params}`);
+      return response.json();
+    },
+  });
+
+  const totalProcessed = paymentModes.reduce((sum, mode) => sum + parseFloat(mode.total), 0);
+  const paymentMethods = paymentModes.map(mode => ({
+    name: getPaymentModeLabel(mode.mode),
+    count: mode.count,
+    total: parseFloat(mode.total),
+    percentage: totalProcessed > 0 ? Math.round(parseFloat(mode.total) / totalProcessed * 1000) / 10 : 0,
+    color: PAYMENT_MODE_COLORS[mode.mode] ?? "bg-gray-500",
+  }));
 
   const handleExportData = () => {
     // Create CSV data
     const csvData = [
       ['Metric', 'Value'],
-      ['Revenue', `₹${analyticsData.revenue}`],
+      ['Revenue', String(analyticsData.revenue)],
       ['Orders', analyticsData.orders.toString()],
-      ['Average Order Value', `₹${analyticsData.avgOrderValue}`],
+      ['Average Order Value', String(analyticsData.avgOrderValue)],
       ['Profit Margin', `${analyticsData.profitMargin}%`],
       [''],
       ['Top Selling Items', ''],
@@ -85,7 +137,31 @@ export default function Analytics() {
       ...topSellingItems.map(item => [
         item.item.name,
         item.totalSold.toString(),
-        `₹${item.totalRevenue}`
+        String(item.totalRevenue)
+      ]),
+      [''],
+      [`Payments Received (${periodRange.from} to ${periodRange.to})`, ''],
+      ['Mode', 'Payments', 'Amount', 'Share'],
+      ...paymentMethods.map(method => [
+        method.name,
+        method.count.toString(),
+        method.total.toFixed(2),
+        `${method.percentage}%`
+      ]),
+      [''],
+      [`Bill Discounts (${periodRange.from} to ${periodRange.to})`, ''],
+      ['Bill No.', 'Date', 'Customer', 'Gross Amount', 'Line Discount', 'Bill Discount', 'Taxable Value', 'GST', 'Round Off', 'Total'],
+      ...billDiscounts.map(bill => [
+        bill.billNumber,
+        bill.billDate ? new Date(bill.billDate).toISOString().split('T')[0] : '',
+        `"${bill.customerName.replace(/"/g, '""')}"`,
+        bill.grossAmount,
+        bill.lineDiscountAmount,
+        bill.discountAmount,
+        bill.taxableValue,
+        bill.gstAmount,
+        bill.roundOff,
+        bill.total,
       ])
     ];
 
@@ -136,7 +212,7 @@ export default function Analytics() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatsCard
           title="Revenue"
-          value={`₹${analyticsData.revenue}`}
+          value={formatCurrency(analyticsData.revenue)}
           icon={TrendingUp}
           trend="+15.3% vs last month"
           trendDirection="up"
@@ -158,7 +234,7 @@ export default function Analytics() {
         
         <StatsCard
           title="Avg Order Value"
-          value={`₹${analyticsData.avgOrderValue}`}
+          value={formatCurrency(analyticsData.avgOrderValue)}
           icon={Calculator}
           trend="+6.1% vs last month"
           trendDirection="up"
@@ -226,7 +302,7 @@ export default function Analytics() {
                     </div>
                     <div className="text-right">
                       <p className="font-medium text-sm" data-testid={`top-item-sold-${index}`}>{item.totalSold} sold</p>
-                      <p className="text-xs text-muted-foreground" data-testid={`top-item-revenue-${index}`}>₹{item.totalRevenue}</p>
+                      <p className="text-xs text-muted-foreground" data-testid={`top-item-revenue-${index}`}>{formatCurrency(item.totalRevenue)}</p>
                     </div>
                   </div>
                 ))
@@ -290,6 +366,11 @@ export default function Analytics() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {paymentMethods.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6" data-testid="payment-methods-empty">
+                  No payments recorded in this period
+                </p>
+              )}
               {paymentMethods.map((method, index) => (
                 <div key={method.name} className="space-y-2" data-testid={`payment-method-${index}`}>
                   <div className="flex justify-between items-center">
@@ -313,7 +394,7 @@ export default function Analytics() {
                   <DollarSign className="w-4 h-4" />
                   <span>Total Processed</span>
                 </span>
-                <span className="font-bold" data-testid="total-processed">₹{analyticsData.revenue}</span>
+                <span className="font-bold" data-testid="total-processed">{formatCurrency(totalProcessed)}</span>
               </div>
             </div>
           </CardContent>
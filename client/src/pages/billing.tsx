@@ -1,15 +1,26 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { isUnauthorizedError } from "@/lib/authUtils";
 import BillingModal from "@/components/modals/billing-modal";
+import CancelBillModal from "@/components/modals/cancel-bill-modal";
+import CreditNoteModal from "@/components/modals/credit-note-modal";
+import EInvoiceModal from "@/components/modals/einvoice-modal";
+import EWayBillModal, { type EWayBillDocument } from "@/components/modals/ewaybill-modal";
+import RecordPaymentModal from "@/components/modals/record-payment-modal";
+import BillRemindersModal from "@/components/modals/bill-reminders-modal";
 import InvoicePreview from "@/components/ui/invoice-preview";
-import { Plus, Eye, Printer, Download, IndianRupee, FileText, Clock, CheckCircle } from "lucide-react";
+import { Plus, Eye, Printer, Download, IndianRupee, FileText, Clock, CheckCircle, Ban, Undo2, Wallet, QrCode, Truck, BellRing, AlertTriangle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { downloadFromApi } from "@/lib/downloadUtils";
 import type { BillWithDetails } from "@shared/schema";
+import { canCancelBill, getBillStatusLabel } from "@shared/billStatus";
+import { billNeedsEWayBill } from "@shared/ewaybill";
+import { formatCurrency } from "@shared/currency";
 
 interface BillingStats {
   todaysSales: string;
@@ -21,8 +32,15 @@ interface BillingStats {
 export default function Billing() {
   const [isBillingModalOpen, setIsBillingModalOpen] = useState(false);
   const [previewBill, setPreviewBill] = useState<BillWithDetails | null>(null);
+  const [billToCancel, setBillToCancel] = useState<BillWithDetails | null>(null);
+  const [billToCredit, setBillToCredit] = useState<BillWithDetails | null>(null);
+  const [billForEInvoice, setBillForEInvoice] = useState<BillWithDetails | null>(null);
+  const [eWayBillFor, setEWayBillFor] = useState<EWayBillDocument | null>(null);
+  const [paymentFor, setPaymentFor] = useState<{ bill: BillWithDetails | null } | null>(null);
+  const [remindersFor, setRemindersFor] = useState<BillWithDetails | null>(null);
+  const [exportRange, setExportRange] = useState({ from: "", to: "" });
+  const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
 
   const { data: bills = [], isLoading: billsLoading } = useQuery<BillWithDetails[]>({
     queryKey: ['/api/bills'],
@@ -38,38 +56,6 @@ export default function Billing() {
     }),
   });
 
-  const updateBillStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      await apiRequest('PATCH', `/api/bills/${id}/status`, { status });
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
-      toast({
-        title: "Success",
-        description: "Bill status updated successfully",
-      });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to update bill status",
-        variant: "destructive",
-      });
-    },
-  });
-
   const handleCreateBill = () => {
     setIsBillingModalOpen(true);
   };
@@ -79,107 +65,58 @@ export default function Billing() {
   };
 
   const handlePrintBill = (bill: BillWithDetails) => {
-    // Open bill in new window for printing
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(`
-        <html>
-          <head>
-            <title>Invoice ${bill.billNumber}</title>
-            <style>
-              body { font-family: 'Courier New', monospace; margin: 0; padding: 20px; }
-              .invoice-header { text-align: center; margin-bottom: 20px; }
-              .invoice-details { margin-bottom: 20px; }
-              .invoice-table { width: 100%; border-collapse: collapse; }
-              .invoice-table th, .invoice-table td { border: 1px solid #000; padding: 8px; text-align: left; }
-              .invoice-table th { background-color: #f0f0f0; }
-              .totals { text-align: right; margin-top: 20px; }
-              @media print { 
-                body { margin: 0; }
-                .no-print { display: none; }
-              }
-            </style>
-          </head>
-          <body>
-            <div class="invoice-header">
-              <h2>YOUR COMPANY NAME</h2>
-              <p>Address Line 1, Address Line 2<br>
-                 City, State - PIN CODE<br>
-                 GSTIN: 29ABCDE1234F1Z5 | Phone: +91 12345 67890</p>
-              <h3>TAX INVOICE</h3>
-            </div>
-            
-            <div class="invoice-details">
-              <div style="display: flex; justify-content: space-between;">
-                <div>
-                  <strong>Bill To:</strong><br>
-                  ${bill.customer.name}<br>
-                  ${bill.customer.address || ''}<br>
-                  ${bill.customer.gstin ? `GSTIN: ${bill.customer.gstin}` : ''}
-                </div>
-                <div style="text-align: right;">
-                  Invoice No: ${bill.billNumber}<br>
-                  Date: ${new Date(bill.billDate!).toLocaleDateString()}<br>
-                  ${bill.dueDate ? `Due Date: ${new Date(bill.dueDate).toLocaleDateString()}` : ''}
-                </div>
-              </div>
-            </div>
-            
-            <table class="invoice-table">
-              <thead>
-                <tr>
-                  <th>Item</th>
-                  <th>Qty</th>
-                  <th>Rate</th>
-                  <th>Amount</th>
-                </tr>
-              </thead>
-              <tbody>
-                ${bill.billItems.map(item => `
-                  <tr>
-                    <td>${item.item.name}</td>
-                    <td>${item.quantity}</td>
-                    <td>₹${parseFloat(item.rate).toFixed(2)}</td>
-                    <td>₹${parseFloat(item.amount).toFixed(2)}</td>
-                  </tr>
-                `).join('')}
-              </tbody>
-            </table>
-            
-            <div class="totals">
-              <p>Subtotal: ₹${parseFloat(bill.subtotal).toFixed(2)}</p>
-              <p>GST: ₹${parseFloat(bill.gstAmount).toFixed(2)}</p>
-              <p><strong>Total: ₹${parseFloat(bill.total).toFixed(2)}</strong></p>
-            </div>
-            
-            <div style="text-align: center; margin-top: 30px;">
-              <p>Thank you for your business!</p>
-            </div>
-            
-            <div class="no-print" style="text-align: center; margin-top: 20px;">
-              <button onclick="window.print()">Print Invoice</button>
-              <button onclick="window.close()" style="margin-left: 10px;">Close</button>
-            </div>
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
+    // The browser's PDF viewer prints the same document the server renders for download
+    window.open(`/api/bills/${bill.id}/pdf?inline=1`, '_blank');
+  };
+
+  const handleDownloadBill = async (bill: BillWithDetails) => {
+    try {
+      await downloadFromApi(`/api/bills/${bill.id}/pdf`, `${bill.billNumber}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download invoice PDF",
+        variant: "destructive",
+      });
     }
   };
 
-  const handleDownloadBill = (bill: BillWithDetails) => {
-    toast({
-      title: "Download",
-      description: "PDF download functionality will be implemented soon",
-    });
+  const handleDownloadRange = async () => {
+    if (!exportRange.from || !exportRange.to) {
+      toast({
+        title: "Select dates",
+        description: "Choose both a start and an end date",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams(exportRange);
+      await downloadFromApi(`/api/bills/pdf-export?${params}`, `invoices-${exportRange.from}-to-${exportRange.to}.zip`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message.startsWith("404")
+          ? "No bills found in this date range"
+          : "Failed to download invoice PDFs",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'paid':
         return 'bg-green-100 text-green-800';
+      case 'partially_paid':
+        return 'bg-blue-100 text-blue-800';
       case 'pending':
         return 'bg-yellow-100 text-yellow-800';
+      case 'overdue':
+        return 'bg-orange-100 text-orange-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
       default:
@@ -213,10 +150,49 @@ export default function Billing() {
           <h2 className="text-2xl font-bold" data-testid="page-title">GST Billing</h2>
           <p className="text-muted-foreground">Generate GST compliant invoices</p>
         </div>
-        <Button onClick={handleCreateBill} className="flex items-center space-x-2" data-testid="button-create-bill">
-          <Plus className="w-4 h-4" />
-          <span>Create New Bill</span>
-        </Button>
+        <div className="flex space-x-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="secondary" className="flex items-center space-x-2" data-testid="button-download-range">
+                <Download className="w-4 h-4" />
+                <span>Download PDFs</span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3" align="end">
+              <div className="space-y-1">
+                <Label htmlFor="export-from">From</Label>
+                <Input
+                  id="export-from"
+                  type="date"
+                  value={exportRange.from}
+                  onChange={(e) => setExportRange({ ...exportRange, from: e.target.value })}
+                  data-testid="input-export-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="export-to">To</Label>
+                <Input
+                  id="export-to"
+                  type="date"
+                  value={exportRange.to}
+                  onChange={(e) => setExportRange({ ...exportRange, to: e.target.value })}
+                  data-testid="input-export-to"
+                />
+              </div>
+              <Button className="w-full" onClick={handleDownloadRange} disabled={isExporting} data-testid="button-export-zip">
+                {isExporting ? "Preparing..." : "Download ZIP"}
+              </Button>
+            </PopoverContent>
+          </Popover>
+          <Button variant="secondary" onClick={() => setPaymentFor({ bill: null })} className="flex items-center space-x-2" data-testid="button-record-payment">
+            <Wallet className="w-4 h-4" />
+            <span>Record Payment</span>
+          </Button>
+          <Button onClick={handleCreateBill} className="flex items-center space-x-2" data-testid="button-create-bill">
+            <Plus className="w-4 h-4" />
+            <span>Create New Bill</span>
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -227,7 +203,7 @@ export default function Billing() {
               <p className="text-muted-foreground text-sm">Today's Sales</p>
               <IndianRupee className="w-4 h-4 text-green-500" />
             </div>
-            <p className="text-xl font-bold">₹{stats?.todaysSales || "0"}</p>
+            <p className="text-xl font-bold">{formatCurrency(stats?.todaysSales || "0")}</p>
           </CardContent>
         </Card>
         
@@ -247,7 +223,7 @@ export default function Billing() {
               <p className="text-muted-foreground text-sm">Total GST</p>
               <IndianRupee className="w-4 h-4 text-purple-500" />
             </div>
-            <p className="text-xl font-bold">₹{stats?.totalGST || "0"}</p>
+            <p className="text-xl font-bold">{formatCurrency(stats?.totalGST || "0")}</p>
           </CardContent>
         </Card>
         
@@ -290,6 +266,7 @@ export default function Billing() {
                     <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">GST</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Balance</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
                   </tr>
@@ -301,6 +278,18 @@ export default function Billing() {
                         <span className="font-mono text-sm" data-testid={`bill-number-${bill.billNumber}`}>
                           {bill.billNumber}
                         </span>
+                        {bill.ewbNumber ? (
+                          <p
+                            className={`text-xs ${new Date(bill.ewbValidUpto!) < new Date() ? 'text-red-600' : 'text-muted-foreground'}`}
+                            data-testid={`bill-ewb-${bill.billNumber}`}
+                          >
+                            EWB {bill.ewbNumber} · valid till {new Date(bill.ewbValidUpto!).toLocaleDateString()}
+                          </p>
+                        ) : billNeedsEWayBill(bill) && (
+                          <Badge className="mt-1 text-xs bg-orange-100 text-orange-800" data-testid={`bill-ewb-due-${bill.billNumber}`}>
+                            E-way bill needed
+                          </Badge>
+                        )}
                       </td>
                       <td className="p-4" data-testid={`bill-customer-${bill.billNumber}`}>
                         {bill.customer.name}
@@ -310,11 +299,14 @@ export default function Billing() {
                       </td>
                       <td className="p-4">
                         <span className="font-medium" data-testid={`bill-amount-${bill.billNumber}`}>
-                          ₹{parseFloat(bill.total).toLocaleString()}
+                          {formatCurrency(bill.total)}
                         </span>
                       </td>
                       <td className="p-4" data-testid={`bill-gst-${bill.billNumber}`}>
-                        ₹{parseFloat(bill.gstAmount).toLocaleString()}
+                        {formatCurrency(bill.gstAmount)}
+                      </td>
+                      <td className="p-4" data-testid={`bill-balance-${bill.billNumber}`}>
+                        {bill.status === 'cancelled' ? '—' : formatCurrency(bill.balanceDue)}
                       </td>
                       <td className="p-4">
                         <Badge 
@@ -323,7 +315,8 @@ export default function Billing() {
                         >
                           {bill.status === 'paid' && <CheckCircle className="w-3 h-3 mr-1" />}
                           {bill.status === 'pending' && <Clock className="w-3 h-3 mr-1" />}
-                          {bill.status.charAt(0).toUpperCase() + bill.status.slice(1)}
+                          {bill.status === 'overdue' && <AlertTriangle className="w-3 h-3 mr-1" />}
+                          {getBillStatusLabel(bill.status)}
                         </Badge>
                       </td>
                       <td className="p-4">
@@ -358,6 +351,86 @@ export default function Billing() {
                           >
                             <Download className="w-4 h-4" />
                           </Button>
+                          {parseFloat(bill.balanceDue) > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPaymentFor({ bill })}
+                              className="h-8 w-8 p-0"
+                              title="Record Payment"
+                              data-testid={`button-record-payment-bill-${bill.billNumber}`}
+                            >
+                              <Wallet className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {bill.dueDate && bill.status !== 'cancelled' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRemindersFor(bill)}
+                              className="h-8 w-8 p-0"
+                              title="Payment Reminders"
+                              data-testid={`button-reminders-bill-${bill.billNumber}`}
+                            >
+                              <BellRing className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {bill.status !== 'cancelled' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEWayBillFor({
+                                resource: 'bills',
+                                documentNumber: bill.billNumber,
+                                consignmentValue: parseFloat(bill.total),
+                                fields: bill,
+                              })}
+                              className={`h-8 w-8 p-0 ${bill.ewbNumber ? 'text-green-600' : ''}`}
+                              title={bill.ewbNumber ? `E-Way Bill ${bill.ewbNumber}` : "E-Way Bill"}
+                              data-testid={`button-ewaybill-bill-${bill.billNumber}`}
+                            >
+                              <Truck className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {bill.status !== 'cancelled' && bill.customer.gstin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setBillForEInvoice(bill)}
+                              className={`h-8 w-8 p-0 ${bill.irn ? 'text-green-600' : ''}`}
+                              title={bill.irn ? "E-Invoice (IRN recorded)" : "E-Invoice"}
+                              data-testid={`button-einvoice-bill-${bill.billNumber}`}
+                            >
+                              <QrCode className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {bill.status !== 'cancelled' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setBillToCredit(bill)}
+                              className="h-8 w-8 p-0"
+                              title="Credit Note / Return"
+                              data-testid={`button-credit-note-bill-${bill.billNumber}`}
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {bill.status !== 'cancelled' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setBillToCancel(bill)}
+                              disabled={!canCancelBill(bill) || Number(bill.amountCredited) > 0}
+                              className="h-8 w-8 p-0 text-destructive"
+                              title={!canCancelBill(bill)
+                                ? "Paid bills need a credit note instead"
+                                : Number(bill.amountCredited) > 0 ? "Credited bills need a credit note for the rest instead" : "Cancel"}
+                              data-testid={`button-cancel-bill-${bill.billNumber}`}
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -382,6 +455,43 @@ export default function Billing() {
         isOpen={isBillingModalOpen}
         onClose={() => setIsBillingModalOpen(false)}
       />
+
+      <CreditNoteModal
+        bill={billToCredit}
+        onClose={() => setBillToCredit(null)}
+      />
+
+      <EInvoiceModal
+        bill={billForEInvoice}
+        onClose={() => setBillForEInvoice(null)}
+        onRecorded={(bill) => {
+          if (previewBill?.id === bill.id) setPreviewBill(bill);
+        }}
+      />
+
+      <EWayBillModal
+        document={eWayBillFor}
+        onClose={() => setEWayBillFor(null)}
+      />
+
+      <RecordPaymentModal
+        isOpen={!!paymentFor}
+        bill={paymentFor?.bill}
+        onClose={() => setPaymentFor(null)}
+      />
+
+      <BillRemindersModal
+        bill={remindersFor}
+        onClose={() => setRemindersFor(null)}
+      />
+
+      <CancelBillModal
+        bill={billToCancel}
+        onClose={() => setBillToCancel(null)}
+        onCancelled={(bill) => {
+          if (previewBill?.id === bill.id) setPreviewBill(bill);
+        }}
+      />
     </div>
   );
 }
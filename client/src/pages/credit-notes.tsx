@@ -0,0 +1,159 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { Printer, Download, ReceiptText, IndianRupee } from "lucide-react";
+import type { CreditNoteWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+export default function CreditNotes() {
+  const { toast } = useToast();
+
+  const { data: creditNotes = [], isLoading } = useQuery<CreditNoteWithDetails[]>({
+    queryKey: ['/api/credit-notes'],
+  });
+
+  const handlePrint = (creditNote: CreditNoteWithDetails) => {
+    window.open(`/api/credit-notes/${creditNote.id}/pdf?inline=1`, '_blank');
+  };
+
+  const handleDownload = async (creditNote: CreditNoteWithDetails) => {
+    try {
+      await downloadFromApi(`/api/credit-notes/${creditNote.id}/pdf`, `${creditNote.creditNoteNumber}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download credit note PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totalCredited = creditNotes.reduce((sum, cn) => sum + parseFloat(cn.total), 0);
+  const totalGstReversed = creditNotes.reduce((sum, cn) => sum + parseFloat(cn.gstAmount), 0);
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-64 mb-2"></div>
+          <div className="h-4 bg-muted rounded w-48 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="credit-notes-page">
+      <div>
+        <h2 className="text-2xl font-bold" data-testid="page-title">Credit Notes</h2>
+        <p className="text-muted-foreground">Sales returns issued against bills. Create one from the bill on the GST Billing page.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card data-testid="stat-credit-notes">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Credit Notes</p>
+              <ReceiptText className="w-4 h-4 text-blue-500" />
+            </div>
+            <p className="text-xl font-bold">{creditNotes.length}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-total-credited">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Total Credited</p>
+              <IndianRupee className="w-4 h-4 text-red-500" />
+            </div>
+            <p className="text-xl font-bold">{formatCurrency(totalCredited)}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-gst-reversed">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">GST Reversed</p>
+              <IndianRupee className="w-4 h-4 text-purple-500" />
+            </div>
+            <p className="text-xl font-bold">{formatCurrency(totalGstReversed)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="credit-notes-list">
+        <CardHeader>
+          <CardTitle>All Credit Notes</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {creditNotes.length === 0 ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="text-center">
+                <ReceiptText className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                <h3 className="text-lg font-semibold mb-2">No credit notes yet</h3>
+                <p className="text-muted-foreground">Returns recorded against bills will appear here</p>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Credit Note No.</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Against Bill</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Customer</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">GST</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Reason</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {creditNotes.map((creditNote) => (
+                    <tr key={creditNote.id} className="hover:bg-muted/20" data-testid={`credit-note-row-${creditNote.creditNoteNumber}`}>
+                      <td className="p-4 font-mono text-sm">{creditNote.creditNoteNumber}</td>
+                      <td className="p-4 font-mono text-sm">{creditNote.bill.billNumber}</td>
+                      <td className="p-4">{creditNote.customer.name}</td>
+                      <td className="p-4">{new Date(creditNote.creditNoteDate!).toLocaleDateString()}</td>
+                      <td className="p-4 font-medium">{formatCurrency(creditNote.total)}</td>
+                      <td className="p-4">{formatCurrency(creditNote.gstAmount)}</td>
+                      <td className="p-4 text-sm text-muted-foreground max-w-xs truncate" title={creditNote.reason}>
+                        {creditNote.reason}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePrint(creditNote)}
+                            className="h-8 w-8 p-0"
+                            title="Print"
+                            data-testid={`button-print-credit-note-${creditNote.creditNoteNumber}`}
+                          >
+                            <Printer className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownload(creditNote)}
+                            className="h-8 w-8 p-0"
+                            title="Download"
+                            data-testid={`button-download-credit-note-${creditNote.creditNoteNumber}`}
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
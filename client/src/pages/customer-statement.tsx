@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import { downloadCsv } from "@/components/returns/return-table";
+import { ArrowLeft, Download, FileText, Printer } from "lucide-react";
+import { format } from "date-fns";
+import type { CustomerStatement as CustomerStatementData } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { getFinancialYear, getFinancialYearRange } from "@shared/numbering";
+import { STATEMENT_ENTRY_TYPES, formatBalanceSide } from "@shared/statement";
+
+function toInputDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Defaults to the financial year so far
+function getDefaultRange() {
+  const today = new Date();
+  const { from } = getFinancialYearRange(getFinancialYear(today).startYear);
+  return { from: toInputDate(from), to: toInputDate(today) };
+}
+
+function formatBalance(balance: number) {
+  return `${formatCurrency(Math.abs(balance))} ${formatBalanceSide(balance)}`.trim();
+}
+
+export default function CustomerStatement() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const [range, setRange] = useState(getDefaultRange);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const { data: statement, isLoading, error } = useQuery<CustomerStatementData>({
+    queryKey: ['/api/customers', id, 'statement', range.from, range.to],
+    queryFn: async () => {
+      const params = new URLSearchParams(range);
+      const response = await apiRequest('GET', `/api/customers/${id}/statement?${params}`);
+      return response.json();
+    },
+    enabled: !!range.from && !!range.to,
+  });
+
+  const pdfUrl = `/api/customers/${id}/statement/pdf?${new URLSearchParams(range)}`;
+
+  const handlePrint = () => {
+    window.open(`${pdfUrl}&inline=1`, '_blank');
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadFromApi(pdfUrl, `statement-${range.from}-to-${range.to}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download statement PDF",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const formatDate = (date: Date | string) => format(new Date(date), 'dd-MM-yyyy');
+
+  const handleExportCsv = () => {
+    if (!statement) return;
+    downloadCsv([
+      ['Date', 'Type', 'Document', 'Particulars', 'Debit', 'Credit', 'Balance'],
+      [formatDate(statement.from), '', '', 'Opening balance', '', '', statement.openingBalance],
+      ...statement.lines.map(line => [
+        formatDate(line.date),
+        STATEMENT_ENTRY_TYPES[line.type],
+        line.documentNumber,
+        line.description,
+        line.debit || '',
+        line.credit || '',
+        line.balance,
+      ]),
+      ['', '', '', 'Closing balance', statement.totalDebits, statement.totalCredits, statement.closingBalance],
+    ], `statement-${statement.customer.name.replace(/[^\w-]+/g, '_')}-${range.from}-to-${range.to}.csv`);
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="customer-statement-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="-ml-2 mb-2" onClick={() => setLocation('/customers')} data-testid="button-back-customers">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Customers
+          </Button>
+          <h2 className="text-2xl font-bold" data-testid="page-title">
+            Statement of Account{statement ? ` — ${statement.customer.name}` : ''}
+          </h2>
+          <p className="text-muted-foreground">Bills, receipts, returns and adjustments with a running balance</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input
+              id="statement-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              data-testid="input-statement-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input
+              id="statement-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              data-testid="input-statement-to"
+            />
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-center text-muted-foreground py-8" data-testid="text-statement-error">
+          This statement could not be loaded
+        </p>
+      ) : isLoading || !statement ? (
+        <div className="h-64 bg-muted rounded animate-pulse"></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card data-testid="stat-opening-balance">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Opening Balance</p>
+                <p className="text-2xl font-bold">{formatBalance(statement.openingBalance)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="stat-total-debits">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Billed</p>
+                <p className="text-2xl font-bold">{formatCurrency(statement.totalDebits)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="stat-total-credits">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Received & Credited</p>
+                <p className="text-2xl font-bold">{formatCurrency(statement.totalCredits)}</p>
+              </CardContent>
+            </Card>
+            <Card data-testid="stat-closing-balance">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Closing Balance</p>
+                <p className={`text-2xl font-bold ${statement.closingBalance > 0 ? 'text-yellow-600' : ''}`}>
+                  {formatBalance(statement.closingBalance)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card data-testid="card-statement">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                {formatDate(statement.from)} to {formatDate(statement.to)}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={handleExportCsv} data-testid="button-export-statement-csv">
+                  <Download className="w-4 h-4 mr-2" />
+                  Export CSV
+                </Button>
+                <Button variant="outline" onClick={handleDownloadPdf} disabled={isDownloading} data-testid="button-download-statement-pdf">
+                  <Download className="w-4 h-4 mr-2" />
+                  {isDownloading ? "Preparing..." : "Download PDF"}
+                </Button>
+                <Button onClick={handlePrint} data-testid="button-print-statement">
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Type</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Document</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Particulars</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Debit</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Credit</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    <tr className="bg-muted/20" data-testid="statement-opening">
+                      <td className="p-2">{formatDate(statement.from)}</td>
+                      <td className="p-2" colSpan={5}>Opening balance</td>
+                      <td className="p-2 text-right font-medium">{formatBalance(statement.openingBalance)}</td>
+                    </tr>
+                    {statement.lines.length === 0 && (
+                      <tr>
+                        <td className="p-6 text-center text-muted-foreground" colSpan={7} data-testid="text-no-statement-lines">
+                          No transactions in this period
+                        </td>
+                      </tr>
+                    )}
+                    {statement.lines.map((line, index) => (
+                      <tr key={`${line.type}-${line.documentNumber}-${index}`} data-testid={`statement-line-${index}`}>
+                        <td className="p-2 whitespace-nowrap">{formatDate(line.date)}</td>
+                        <td className="p-2">{STATEMENT_ENTRY_TYPES[line.type]}</td>
+                        <td className="p-2 font-medium">{line.documentNumber}</td>
+                        <td className="p-2 text-muted-foreground">{line.description}</td>
+                        <td className="p-2 text-right">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                        <td className="p-2 text-right">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                        <td className="p-2 text-right">{formatBalance(line.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="border-t-2 border-border font-semibold">
+                    <tr data-testid="statement-totals">
+                      <td className="p-2" colSpan={4}>Closing balance</td>
+                      <td className="p-2 text-right">{formatCurrency(statement.totalDebits)}</td>
+                      <td className="p-2 text-right">{formatCurrency(statement.totalCredits)}</td>
+                      <td className="p-2 text-right">{formatBalance(statement.closingBalance)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,13 +8,15 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import CustomerModal from "@/components/modals/customer-modal";
-import { Plus, Search, Edit, Eye, Mail, Phone, MapPin, Users } from "lucide-react";
-import type { Customer } from "@shared/schema";
+import { Plus, Search, Edit, FileText, Mail, Phone, MapPin, Users } from "lucide-react";
+import type { Customer, CustomerBalance } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
 
 export default function Customers() {
   const [searchQuery, setSearchQuery] = useState("");
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -21,6 +24,10 @@ export default function Customers() {
     queryKey: ['/api/customers'],
   });
 
+  const { data: balances = [] } = useQuery<CustomerBalance[]>({
+    queryKey: ['/api/customers/balances'],
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest('DELETE', `/api/customers/${id}`);
@@ -142,82 +149,97 @@ export default function Customers() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredCustomers.map((customer) => (
-            <Card key={customer.id} className="hover:shadow-md transition-shadow" data-testid={`customer-card-${customer.id}`}>
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center space-x-3">
-                    <div className="bg-primary/10 text-primary w-12 h-12 rounded-full flex items-center justify-center font-semibold" data-testid={`customer-avatar-${customer.id}`}>
-                      {getInitials(customer.name)}
+          {filteredCustomers.map((customer) => {
+            const balance = balances.find(b => b.customerId === customer.id);
+            return (
+              <Card key={customer.id} className="hover:shadow-md transition-shadow" data-testid={`customer-card-${customer.id}`}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="bg-primary/10 text-primary w-12 h-12 rounded-full flex items-center justify-center font-semibold" data-testid={`customer-avatar-${customer.id}`}>
+                        {getInitials(customer.name)}
+                      </div>
+                      <div>
+                        <h3 className="font-semibold" data-testid={`customer-name-${customer.id}`}>{customer.name}</h3>
+                        {customer.gstin && (
+                          <p className="text-sm text-muted-foreground font-mono" data-testid={`customer-gstin-${customer.id}`}>
+                            GSTIN: {customer.gstin}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                    <div>
-                      <h3 className="font-semibold" data-testid={`customer-name-${customer.id}`}>{customer.name}</h3>
-                      {customer.gstin && (
-                        <p className="text-sm text-muted-foreground font-mono" data-testid={`customer-gstin-${customer.id}`}>
-                          GSTIN: {customer.gstin}
-                        </p>
-                      )}
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEditCustomer(customer)}
+                        className="h-8 w-8 p-0"
+                        title="Edit"
+                        data-testid={`button-edit-customer-${customer.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLocation(`/customers/${customer.id}/statement`)}
+                        className="h-8 w-8 p-0"
+                        title="Statement of account"
+                        data-testid={`button-statement-customer-${customer.id}`}
+                      >
+                        <FileText className="w-4 h-4" />
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex space-x-1">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEditCustomer(customer)}
-                      className="h-8 w-8 p-0"
-                      title="Edit"
-                      data-testid={`button-edit-customer-${customer.id}`}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 w-8 p-0"
-                      title="View"
-                      data-testid={`button-view-customer-${customer.id}`}
-                    >
-                      <Eye className="w-4 h-4" />
-                    </Button>
+
+                  <div className="space-y-2 text-sm">
+                    {customer.email && (
+                      <div className="flex items-center space-x-2" data-testid={`customer-email-${customer.id}`}>
+                        <Mail className="w-4 h-4 text-muted-foreground" />
+                        <span className="truncate">{customer.email}</span>
+                      </div>
+                    )}
+                    {customer.phone && (
+                      <div className="flex items-center space-x-2" data-testid={`customer-phone-${customer.id}`}>
+                        <Phone className="w-4 h-4 text-muted-foreground" />
+                        <span>{customer.phone}</span>
+                      </div>
+                    )}
+                    {(customer.city || customer.state) && (
+                      <div className="flex items-center space-x-2" data-testid={`customer-location-${customer.id}`}>
+                        <MapPin className="w-4 h-4 text-muted-foreground" />
+                        <span className="truncate">
+                          {[customer.city, customer.state].filter(Boolean).join(', ')}
+                        </span>
+                      </div>
+                    )}
                   </div>
-                </div>
 
-                <div className="space-y-2 text-sm">
-                  {customer.email && (
-                    <div className="flex items-center space-x-2" data-testid={`customer-email-${customer.id}`}>
-                      <Mail className="w-4 h-4 text-muted-foreground" />
-                      <span className="truncate">{customer.email}</span>
+                  <div className="mt-4 pt-4 border-t border-border">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Total Orders:</span>
+                      <span className="font-medium" data-testid={`customer-orders-${customer.id}`}>{balance?.billCount ?? 0}</span>
                     </div>
-                  )}
-                  {customer.phone && (
-                    <div className="flex items-center space-x-2" data-testid={`customer-phone-${customer.id}`}>
-                      <Phone className="w-4 h-4 text-muted-foreground" />
-                      <span>{customer.phone}</span>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Total Value:</span>
+                      <span className="font-medium" data-testid={`customer-value-${customer.id}`}>
+                        {formatCurrency(balance?.billedTotal ?? "0")}
+                      </span>
                     </div>
-                  )}
-                  {(customer.city || customer.state) && (
-                    <div className="flex items-center space-x-2" data-testid={`customer-location-${customer.id}`}>
-                      <MapPin className="w-4 h-4 text-muted-foreground" />
-                      <span className="truncate">
-                        {[customer.city, customer.state].filter(Boolean).join(', ')}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Outstanding:</span>
+                      <span
+                        className={`font-medium ${parseFloat(balance?.outstanding ?? "0") > 0 ? 'text-yellow-600' : ''}`}
+                        data-testid={`customer-outstanding-${customer.id}`}
+                      >
+                        {formatCurrency(balance?.outstanding ?? "0")}
                       </span>
                     </div>
-                  )}
-                </div>
-
-                <div className="mt-4 pt-4 border-t border-border">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Total Orders:</span>
-                    <span className="font-medium" data-testid={`customer-orders-${customer.id}`}>-</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Total Value:</span>
-                    <span className="font-medium" data-testid={`customer-value-${customer.id}`}>₹0</span>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
 
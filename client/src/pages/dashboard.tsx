@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import StatsCard from "@/components/ui/stats-card";
 import { 
@@ -8,8 +9,12 @@ import {
   AlertTriangle,
   TrendingUp,
   TrendingDown,
-  RotateCcw
+  RotateCcw,
+  Wallet
 } from "lucide-react";
+import { format } from "date-fns";
+import type { PayablesDueSummary } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
 
 interface DashboardStats {
   totalItems: number;
@@ -38,6 +43,12 @@ export default function Dashboard() {
     queryKey: ['/api/dashboard/recent-transactions'],
   });
 
+  const { data: payablesDue } = useQuery<PayablesDueSummary>({
+    queryKey: ['/api/dashboard/payables-due'],
+  });
+
+  const [, setLocation] = useLocation();
+
   if (statsLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -82,7 +93,7 @@ export default function Dashboard() {
         
         <StatsCard
           title="Monthly Sales"
-          value={`₹${stats?.monthlySales || "0"}`}
+          value={formatCurrency(stats?.monthlySales || "0")}
           icon={IndianRupee}
           trend="+18% from last month"
           trendDirection="up"
@@ -156,7 +167,7 @@ export default function Dashboard() {
                       </div>
                     </div>
                     <p className={`font-medium ${transaction.type === 'sale' ? 'text-green-600' : 'text-red-600'}`}>
-                      {transaction.type === 'sale' ? '+' : '-'}₹{transaction.amount}
+                      {transaction.type === 'sale' ? '+' : '-'}{formatCurrency(transaction.amount)}
                     </p>
                   </div>
                 ))
@@ -172,6 +183,69 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <Card data-testid="payables-due">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Payables Due This Week
+          </CardTitle>
+          <button
+            type="button"
+            className="text-sm text-primary hover:underline"
+            onClick={() => setLocation('/payables')}
+            data-testid="link-payables"
+          >
+            View payables
+          </button>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="p-3 bg-muted/20 rounded-lg" data-testid="payables-due-this-week">
+              <p className="text-sm text-muted-foreground">
+                Due by {payablesDue ? format(new Date(payablesDue.to), 'dd MMM') : '-'}
+              </p>
+              <p className="text-xl font-bold">{formatCurrency(payablesDue?.dueThisWeek.total ?? 0)}</p>
+              <p className="text-xs text-muted-foreground">{payablesDue?.dueThisWeek.count ?? 0} purchase(s)</p>
+            </div>
+            <div className="p-3 bg-muted/20 rounded-lg" data-testid="payables-overdue">
+              <p className="text-sm text-muted-foreground">Overdue</p>
+              <p className={`text-xl font-bold ${payablesDue?.overdue.total ? 'text-red-600' : ''}`}>
+                {formatCurrency(payablesDue?.overdue.total ?? 0)}
+              </p>
+              <p className="text-xs text-muted-foreground">{payablesDue?.overdue.count ?? 0} purchase(s)</p>
+            </div>
+          </div>
+          {payablesDue && payablesDue.purchases.length > 0 ? (
+            <div className="space-y-2">
+              {payablesDue.purchases.slice(0, 8).map(purchase => {
+                const isOverdue = new Date(purchase.dueDate) < new Date(payablesDue.from);
+                return (
+                  <div key={purchase.purchaseId} className="flex items-center justify-between text-sm" data-testid={`payable-due-${purchase.purchaseNumber}`}>
+                    <div>
+                      <p className="font-medium">{purchase.vendorName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {purchase.purchaseNumber}
+                        {purchase.vendorInvoiceNumber && ` · Invoice ${purchase.vendorInvoiceNumber}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium">{formatCurrency(purchase.balanceDue)}</p>
+                      <p className={`text-xs ${isOverdue ? 'text-red-600' : 'text-muted-foreground'}`}>
+                        {isOverdue ? 'Was due' : 'Due'} {format(new Date(purchase.dueDate), 'dd MMM')}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground py-4" data-testid="text-no-payables-due">
+              Nothing falls due this week
+            </p>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
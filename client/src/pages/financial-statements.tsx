@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import TrialBalancePanel from "@/components/financials/trial-balance-panel";
+import ProfitLossPanel from "@/components/financials/profit-loss-panel";
+import BalanceSheetPanel from "@/components/financials/balance-sheet-panel";
+import AccountLedgerModal from "@/components/modals/account-ledger-modal";
+import { getFinancialYear, getFinancialYearRange } from "@shared/numbering";
+
+function toInputDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Defaults to the financial year so far
+function getDefaultRange() {
+  const today = new Date();
+  const { from } = getFinancialYearRange(getFinancialYear(today).startYear);
+  return { from: toInputDate(from), to: toInputDate(today) };
+}
+
+export default function FinancialStatements() {
+  const [range, setRange] = useState(getDefaultRange);
+  const [drillDownAccountId, setDrillDownAccountId] = useState<string | null>(null);
+
+  return (
+    <div className="p-6 space-y-6" data-testid="financial-statements-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Financial Statements</h2>
+          <p className="text-muted-foreground">
+            Profit and loss covers the period; the trial balance and balance sheet are as at the end date
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statements-from">From</Label>
+            <Input
+              id="statements-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              data-testid="input-statements-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statements-to">To</Label>
+            <Input
+              id="statements-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              data-testid="input-statements-to"
+            />
+          </div>
+        </div>
+      </div>
+
+      <Tabs defaultValue="profit-loss">
+        <TabsList>
+          <TabsTrigger value="profit-loss" data-testid="tab-profit-loss">Profit &amp; Loss</TabsTrigger>
+          <TabsTrigger value="balance-sheet" data-testid="tab-balance-sheet">Balance Sheet</TabsTrigger>
+          <TabsTrigger value="trial-balance" data-testid="tab-trial-balance">Trial Balance</TabsTrigger>
+        </TabsList>
+        <TabsContent value="profit-loss">
+          <ProfitLossPanel from={range.from} to={range.to} onDrillDown={setDrillDownAccountId} />
+        </TabsContent>
+        <TabsContent value="balance-sheet">
+          <BalanceSheetPanel asOf={range.to} onDrillDown={setDrillDownAccountId} />
+        </TabsContent>
+        <TabsContent value="trial-balance">
+          <TrialBalancePanel asOf={range.to} onDrillDown={setDrillDownAccountId} />
+        </TabsContent>
+      </Tabs>
+
+      <AccountLedgerModal
+        accountId={drillDownAccountId}
+        from={range.from}
+        to={range.to}
+        onClose={() => setDrillDownAccountId(null)}
+      />
+    </div>
+  );
+}
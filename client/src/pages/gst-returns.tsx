@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import Gstr1Panel from "@/components/returns/gstr1-panel";
+import Gstr3bPanel from "@/components/returns/gstr3b-panel";
+import Gstr2bPanel from "@/components/returns/gstr2b-panel";
+
+function getPreviousMonth() {
+  const today = new Date();
+  const month = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export default function GstReturns() {
+  const [period, setPeriod] = useState(getPreviousMonth);
+
+  return (
+    <div className="p-6 space-y-6" data-testid="gst-returns-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">GST Returns</h2>
+          <p className="text-muted-foreground">Filing data for the tax period, worked out from your bills and purchases</p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="return-period">Tax Period</Label>
+          <Input
+            id="return-period"
+            type="month"
+            value={period}
+            onChange={(e) => setPeriod(e.target.value)}
+            data-testid="input-return-period"
+          />
+        </div>
+      </div>
+
+      <Tabs defaultValue="gstr1">
+        <TabsList>
+          <TabsTrigger value="gstr1" data-testid="tab-gstr1">GSTR-1</TabsTrigger>
+          <TabsTrigger value="gstr3b" data-testid="tab-gstr3b">GSTR-3B</TabsTrigger>
+          <TabsTrigger value="gstr2b" data-testid="tab-gstr2b">GSTR-2B Reconciliation</TabsTrigger>
+        </TabsList>
+        <TabsContent value="gstr1">
+          <Gstr1Panel period={period} />
+        </TabsContent>
+        <TabsContent value="gstr3b">
+          <Gstr3bPanel period={period} />
+        </TabsContent>
+        <TabsContent value="gstr2b">
+          <Gstr2bPanel period={period} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
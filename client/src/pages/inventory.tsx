@@ -22,11 +22,14 @@ import {
   RotateCcw
 } from "lucide-react";
 import type { ItemWithInventory, StockMovement } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
 
 interface InventoryWithItem {
   id: string;
   itemId: string;
   quantity: number;
+  reserved: number;
+  available: number;
   lastUpdated: string;
   item: {
     id: string;
@@ -137,8 +140,11 @@ export default function Inventory() {
   const getMovementIcon = (type: string) => {
     switch (type) {
       case 'purchase':
+      case 'cancellation':
+      case 'sales_return':
         return <TrendingUp className="w-4 h-4 text-green-500" />;
       case 'sale':
+      case 'delivery':
         return <TrendingDown className="w-4 h-4 text-red-500" />;
       case 'adjustment':
         return <RotateCcw className="w-4 h-4 text-blue-500" />;
@@ -150,8 +156,11 @@ export default function Inventory() {
   const getMovementColor = (type: string) => {
     switch (type) {
       case 'purchase':
+      case 'cancellation':
+      case 'sales_return':
         return 'bg-green-500/10';
       case 'sale':
+      case 'delivery':
         return 'bg-red-500/10';
       case 'adjustment':
         return 'bg-blue-500/10';
@@ -279,7 +288,7 @@ export default function Inventory() {
               <div className="flex justify-between items-center pt-2 border-t border-border">
                 <span className="font-medium">Total Inventory Value</span>
                 <span className="font-bold text-lg" data-testid="total-inventory-value">
-                  ₹{calculateTotalValue().toLocaleString()}
+                  {formatCurrency(calculateTotalValue())}
                 </span>
               </div>
             </div>
@@ -317,10 +326,13 @@ export default function Inventory() {
                       <div>
                         <p className="font-medium text-sm capitalize">
                           {movement.type === 'purchase' ? 'Stock Added' : 
-                           movement.type === 'sale' ? 'Sale' : 'Stock Adjustment'}
+                           movement.type === 'sale' ? 'Sale' :
+                           movement.type === 'delivery' ? 'Delivered' :
+                           movement.type === 'cancellation' ? 'Bill Cancelled' :
+                           movement.type === 'sales_return' ? 'Sales Return' : 'Stock Adjustment'}
                         </p>
                         <p className="text-xs text-muted-foreground">
-                          {movement.item.name} ({movement.type === 'sale' ? '-' : '+'}{movement.quantity})
+                          {movement.item.name} ({movement.type === 'sale' || movement.type === 'delivery' ? '-' : '+'}{movement.quantity})
                         </p>
                       </div>
                     </div>
@@ -365,7 +377,9 @@ export default function Inventory() {
                   <tr>
                     <th className="text-left p-4 font-medium text-muted-foreground">Item</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Category</th>
-                    <th className="text-left p-4 font-medium text-muted-foreground">Current Stock</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">On Hand</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Reserved</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Available</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Value</th>
                     <th className="text-left p-4 font-medium text-muted-foreground">Last Updated</th>
@@ -395,6 +409,16 @@ export default function Inventory() {
                             {inv.quantity}
                           </span>
                         </td>
+                        <td className="p-4">
+                          <span className={inv.reserved > 0 ? "font-medium text-orange-600" : "text-muted-foreground"} data-testid={`reserved-stock-${inv.item.code}`}>
+                            {inv.reserved}
+                          </span>
+                        </td>
+                        <td className="p-4">
+                          <span className="font-medium" data-testid={`available-stock-${inv.item.code}`}>
+                            {inv.available}
+                          </span>
+                        </td>
                         <td className="p-4">
                           <div className={`flex items-center space-x-2 px-2 py-1 rounded-lg ${stockStatus.bg}`}>
                             <StatusIcon className={`w-4 h-4 ${stockStatus.color}`} />
@@ -406,7 +430,7 @@ export default function Inventory() {
                         </td>
                         <td className="p-4">
                           <span className="font-medium" data-testid={`stock-value-${inv.item.code}`}>
-                            ₹{(inv.quantity * parseFloat(inv.item.price)).toLocaleString()}
+                            {formatCurrency(inv.quantity * parseFloat(inv.item.price))}
                           </span>
                         </td>
                         <td className="p-4">
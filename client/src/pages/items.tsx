@@ -11,6 +11,7 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import ItemModal from "@/components/modals/item-modal";
 import { Plus, Search, Edit, Eye, Trash2, Package } from "lucide-react";
 import type { ItemWithInventory } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
 
 export default function Items() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -210,7 +211,7 @@ export default function Items() {
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Price:</span>
-                    <span className="font-medium" data-testid={`item-price-${item.code}`}>₹{item.price}</span>
+                    <span className="font-medium" data-testid={`item-price-${item.code}`}>{formatCurrency(item.price)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Stock:</span>
@@ -226,6 +227,10 @@ export default function Items() {
                     <span className="text-muted-foreground">GST Rate:</span>
                     <span className="font-medium" data-testid={`item-gst-${item.code}`}>{item.gstRate}%</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">HSN/SAC:</span>
+                    <span className="font-mono" data-testid={`item-hsn-${item.code}`}>{item.hsnCode || "—"}</span>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,321 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import JournalVoucherModal from "@/components/modals/journal-voucher-modal";
+import LedgerAccountModal from "@/components/modals/ledger-account-modal";
+import { BookOpen, ChevronDown, ChevronRight, ListTree, Pencil, Plus } from "lucide-react";
+import { format } from "date-fns";
+import type { JournalEntryWithLines, LedgerAccountWithBalance, User } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { ACCOUNT_GROUPS, ACCOUNT_TYPES, JOURNAL_SOURCES, getJournalTotals, type AccountType, type JournalSource } from "@shared/ledger";
+
+const ALL = "all";
+
+function toInputDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// Defaults to the month so far
+function getDefaultRange() {
+  const today = new Date();
+  return { from: toInputDate(new Date(today.getFullYear(), today.getMonth(), 1)), to: toInputDate(today) };
+}
+
+function formatBalance(balance: number) {
+  if (balance === 0) return formatCurrency(0);
+  return `${formatCurrency(Math.abs(balance))} ${balance > 0 ? 'Dr' : 'Cr'}`;
+}
+
+export default function Ledger() {
+  const { user } = useAuth();
+  // Vouchers and the chart of accounts are kept by admins; everyone can read the books
+  const isAdmin = (user as User | undefined)?.role === "admin";
+  const [range, setRange] = useState(getDefaultRange);
+  const [sourceType, setSourceType] = useState<JournalSource | typeof ALL>(ALL);
+  const [accountId, setAccountId] = useState(ALL);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isVoucherModalOpen, setIsVoucherModalOpen] = useState(false);
+  const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [accountToEdit, setAccountToEdit] = useState<LedgerAccountWithBalance | null>(null);
+
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<LedgerAccountWithBalance[]>({
+    queryKey: ['/api/ledger-accounts'],
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery<JournalEntryWithLines[]>({
+    queryKey: ['/api/journal-entries', range.from, range.to, sourceType, accountId],
+    queryFn: async () => {
+      const params = new URLSearchParams(range);
+      if (sourceType !== ALL) params.set('sourceType', sourceType);
+      if (accountId !== ALL) params.set('accountId', accountId);
+      const response = await apiRequest('GET', `/api/journal-entries?${params}`);
+      return response.json();
+    },
+    enabled: !!range.from && !!range.to,
+  });
+
+  const toggleEntry = (entryId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const openAccountModal = (account: LedgerAccountWithBalance | null = null) => {
+    setAccountToEdit(account);
+    setIsAccountModalOpen(true);
+  };
+
+  const formatDate = (date: Date | string) => format(new Date(date), 'dd-MM-yyyy');
+
+  return (
+    <div className="p-6 space-y-6" data-testid="ledger-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">General Ledger</h2>
+          <p className="text-muted-foreground">Journal entries posted from sales, purchases, payments and vouchers</p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => setIsVoucherModalOpen(true)} data-testid="button-new-journal">
+            <Plus className="w-4 h-4 mr-2" />
+            New Journal Voucher
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="journal">
+        <TabsList>
+          <TabsTrigger value="journal" data-testid="tab-journal">Journal</TabsTrigger>
+          <TabsTrigger value="accounts" data-testid="tab-accounts">Chart of Accounts</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="journal">
+          <Card data-testid="card-journal">
+            <CardHeader>
+              <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="w-5 h-5" />
+                  Journal
+                </CardTitle>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="journal-from">From</Label>
+                    <Input
+                      id="journal-from"
+                      type="date"
+                      value={range.from}
+                      onChange={(e) => setRange({ ...range, from: e.target.value })}
+                      data-testid="input-journal-from"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="journal-to">To</Label>
+                    <Input
+                      id="journal-to"
+                      type="date"
+                      value={range.to}
+                      onChange={(e) => setRange({ ...range, to: e.target.value })}
+                      data-testid="input-journal-to"
+                    />
+                  </div>
+                  <Select value={sourceType} onValueChange={(value) => setSourceType(value as JournalSource | typeof ALL)}>
+                    <SelectTrigger className="w-44" data-testid="select-journal-source">
+                      <SelectValue placeholder="All vouchers" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All vouchers</SelectItem>
+                      {Object.entries(JOURNAL_SOURCES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={accountId} onValueChange={setAccountId}>
+                    <SelectTrigger className="w-52" data-testid="select-journal-account">
+                      <SelectValue placeholder="All accounts" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All accounts</SelectItem>
+                      {accounts.map(account => (
+                        <SelectItem key={account.id} value={account.id}>{account.code} · {account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {entriesLoading ? (
+                <div className="h-64 bg-muted rounded animate-pulse"></div>
+              ) : entries.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8" data-testid="text-no-journal-entries">
+                  No journal entries in this period
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Voucher</th>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Type</th>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Narration</th>
+                        <th className="text-right p-2 font-medium text-muted-foreground">Debit</th>
+                        <th className="text-right p-2 font-medium text-muted-foreground">Credit</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {entries.map(entry => {
+                        const isExpanded = expanded.has(entry.id);
+                        const totals = getJournalTotals(entry.lines.map(line => ({ debit: Number(line.debit), credit: Number(line.credit) })));
+                        return (
+                          <Fragment key={entry.id}>
+                            <tr
+                              className="cursor-pointer hover:bg-muted/30"
+                              onClick={() => toggleEntry(entry.id)}
+                              data-testid={`journal-entry-${entry.entryNumber}`}
+                            >
+                              <td className="p-2 whitespace-nowrap">{formatDate(entry.entryDate)}</td>
+                              <td className="p-2">
+                                <div className="flex items-center gap-1 font-mono">
+                                  {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                  {entry.entryNumber}
+                                </div>
+                              </td>
+                              <td className="p-2">
+                                <Badge variant={entry.sourceType === 'manual' ? 'default' : 'secondary'} className="text-xs">
+                                  {JOURNAL_SOURCES[entry.sourceType]}
+                                </Badge>
+                                {entry.sourceNumber && <div className="text-xs text-muted-foreground mt-1">{entry.sourceNumber}</div>}
+                              </td>
+                              <td className="p-2 text-muted-foreground">{entry.narration}</td>
+                              <td className="p-2 text-right">{formatCurrency(totals.debit)}</td>
+                              <td className="p-2 text-right">{formatCurrency(totals.credit)}</td>
+                            </tr>
+                            {isExpanded && entry.lines.map(line => (
+                              <tr key={line.id} className="bg-muted/20 text-xs" data-testid={`journal-line-${line.id}`}>
+                                <td className="p-2"></td>
+                                <td className="p-2 pl-8 font-mono">{line.accountCode}</td>
+                                <td className="p-2" colSpan={2}>
+                                  {Number(line.credit) > 0 && <span className="inline-block w-6 text-muted-foreground">To</span>}
+                                  {line.accountName}
+                                </td>
+                                <td className="p-2 text-right">{Number(line.debit) > 0 ? formatCurrency(line.debit) : ''}</td>
+                                <td className="p-2 text-right">{Number(line.credit) > 0 ? formatCurrency(line.credit) : ''}</td>
+                              </tr>
+                            ))}
+                            {isExpanded && entry.createdByName && (
+                              <tr className="bg-muted/20 text-xs">
+                                <td className="p-2 pl-8 text-muted-foreground" colSpan={6}>Entered by {entry.createdByName}</td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="accounts">
+          <Card data-testid="card-chart-of-accounts">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <ListTree className="w-5 h-5" />
+                Chart of Accounts
+              </CardTitle>
+              {isAdmin && (
+                <Button variant="outline" onClick={() => openAccountModal()} data-testid="button-add-account">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Account
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {accountsLoading ? (
+                <div className="h-64 bg-muted rounded animate-pulse"></div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Code</th>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Account</th>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Group</th>
+                        <th className="text-right p-2 font-medium text-muted-foreground">Balance</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    {(Object.keys(ACCOUNT_TYPES) as AccountType[]).map(type => {
+                      const typeAccounts = accounts.filter(account => account.type === type);
+                      if (typeAccounts.length === 0) return null;
+                      return (
+                        <tbody key={type} className="divide-y divide-border" data-testid={`accounts-${type}`}>
+                          <tr className="bg-muted/30">
+                            <td className="p-2 font-semibold" colSpan={5}>{ACCOUNT_TYPES[type]}</td>
+                          </tr>
+                          {typeAccounts.map(account => (
+                            <tr key={account.id} className={account.isActive ? '' : 'text-muted-foreground'} data-testid={`account-${account.code}`}>
+                              <td className="p-2 font-mono">{account.code}</td>
+                              <td className="p-2">
+                                {account.name}
+                                {account.systemKey && <Badge variant="outline" className="ml-2 text-xs">System</Badge>}
+                                {!account.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                              </td>
+                              <td className="p-2 text-muted-foreground">{ACCOUNT_GROUPS[account.group].label}</td>
+                              <td className="p-2 text-right">{formatBalance(account.balance)}</td>
+                              <td className="p-2 text-right">
+                                {isAdmin && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 w-8 p-0"
+                                    title="Edit account"
+                                    onClick={() => openAccountModal(account)}
+                                    data-testid={`button-edit-account-${account.code}`}
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      );
+                    })}
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <JournalVoucherModal
+        isOpen={isVoucherModalOpen}
+        onClose={() => setIsVoucherModalOpen(false)}
+      />
+
+      <LedgerAccountModal
+        isOpen={isAccountModalOpen}
+        onClose={() => setIsAccountModalOpen(false)}
+        account={accountToEdit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import VendorPaymentModal from "@/components/modals/vendor-payment-modal";
+import { ChevronDown, ChevronRight, Download, IndianRupee, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import type { PayablesAging, Vendor, VendorPaymentWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { AGING_BUCKETS, AGING_BUCKET_KEYS } from "@shared/aging";
+import { getPaymentModeLabel } from "@shared/payments";
+
+const ALL = "all";
+
+export default function Payables() {
+  const [vendorId, setVendorId] = useState(ALL);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: report, isLoading } = useQuery<PayablesAging>({
+    queryKey: ['/api/reports/payables-aging', vendorId],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (vendorId !== ALL) params.set('vendorId', vendorId);
+      const response = await apiRequest('GET', `/api/reports/payables-aging?${params}`);
+      return response.json();
+    },
+  });
+
+  const { data: payments = [] } = useQuery<VendorPaymentWithDetails[]>({
+    queryKey: ['/api/vendor-payments'],
+  });
+
+  const visiblePayments = payments.filter(payment => vendorId === ALL || payment.vendorId === vendorId);
+
+  const toggleVendor = (partyId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(partyId)) {
+        next.delete(partyId);
+      } else {
+        next.add(partyId);
+      }
+      return next;
+    });
+  };
+
+  const formatDate = (date: Date | string | null) => date ? format(new Date(date), 'dd-MM-yyyy') : '';
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadCsv([
+      ['Vendor', 'City', 'State', 'Purchase No', 'Vendor Invoice', 'Invoice Date', 'Due Date', 'Days Past Due', 'Purchase Total',
+        ...AGING_BUCKET_KEYS.map(bucket => AGING_BUCKETS[bucket]), 'Balance Owed'],
+      ...report.parties.flatMap(vendor => vendor.documents.map(purchase => [
+        vendor.partyName,
+        vendor.city ?? '',
+        vendor.state ?? '',
+        purchase.documentNumber,
+        purchase.vendorInvoiceNumber ?? '',
+        formatDate(purchase.documentDate),
+        formatDate(purchase.dueDate),
+        Math.max(0, purchase.daysPastDue),
+        purchase.total,
+        ...AGING_BUCKET_KEYS.map(bucket => bucket === purchase.bucket ? purchase.balanceDue : ''),
+        purchase.balanceDue,
+      ])),
+      ['Total', '', '', '', '', '', '', '', '', ...AGING_BUCKET_KEYS.map(bucket => report.totals[bucket]), report.totals.total],
+    ], `payables-aging-${format(new Date(report.asOf), 'yyyy-MM-dd')}.csv`);
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="payables-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Payables Aging</h2>
+          <p className="text-muted-foreground">Unpaid vendor purchases by days past their due date</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={vendorId} onValueChange={setVendorId}>
+            <SelectTrigger className="w-48" data-testid="select-payables-vendor">
+              <SelectValue placeholder="All vendors" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All vendors</SelectItem>
+              {vendors.map(vendor => (
+                <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleExportCsv}
+            disabled={!report || report.parties.length === 0}
+            data-testid="button-export-payables"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button onClick={() => setIsPaymentModalOpen(true)} data-testid="button-pay-vendor">
+            <IndianRupee className="w-4 h-4 mr-2" />
+            Pay Vendor
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="h-64 bg-muted rounded animate-pulse"></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {AGING_BUCKET_KEYS.map(bucket => (
+              <Card key={bucket} data-testid={`stat-payables-${bucket}`}>
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">{AGING_BUCKETS[bucket]}</p>
+                  <p className={`text-xl font-bold ${bucket === 'days_over_90' && report.totals[bucket] > 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(report.totals[bucket])}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card data-testid="stat-payables-total">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Total Owed</p>
+                <p className="text-xl font-bold">{formatCurrency(report.totals.total)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card data-testid="card-payables-aging">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="w-5 h-5" />
+                By Vendor
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                As of {formatDate(report.asOf)}, net of payments made. Click a vendor to see their purchases.
+              </p>
+            </CardHeader>
+            <CardContent>
+              {report.parties.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8" data-testid="text-no-payables">
+                  Nothing is owed to vendors
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Vendor</th>
+                        {AGING_BUCKET_KEYS.map(bucket => (
+                          <th key={bucket} className="text-right p-2 font-medium text-muted-foreground">{AGING_BUCKETS[bucket]}</th>
+                        ))}
+                        <th className="text-right p-2 font-medium text-muted-foreground">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.parties.map(vendor => {
+                        const isExpanded = expanded.has(vendor.partyId);
+                        return (
+                          <Fragment key={vendor.partyId}>
+                            <tr
+                              className="cursor-pointer hover:bg-muted/30"
+                              onClick={() => toggleVendor(vendor.partyId)}
+                              data-testid={`payables-vendor-${vendor.partyId}`}
+                            >
+                              <td className="p-2">
+                                <div className="flex items-center gap-1 font-medium">
+                                  {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                  {vendor.partyName}
+                                </div>
+                                <div className="text-xs text-muted-foreground ml-5">
+                                  {[vendor.city, vendor.state].filter(Boolean).join(', ')}
+                                  {` · ${vendor.documents.length} purchase${vendor.documents.length === 1 ? '' : 's'}`}
+                                </div>
+                              </td>
+                              {AGING_BUCKET_KEYS.map(bucket => (
+                                <td key={bucket} className="p-2 text-right">
+                                  {vendor.totals[bucket] ? formatCurrency(vendor.totals[bucket]) : '-'}
+                                </td>
+                              ))}
+                              <td className="p-2 text-right font-semibold">{formatCurrency(vendor.totals.total)}</td>
+                            </tr>
+                            {isExpanded && vendor.documents.map(purchase => (
+                              <tr key={purchase.documentId} className="bg-muted/20 text-xs" data-testid={`payables-purchase-${purchase.documentId}`}>
+                                <td className="p-2 pl-8">
+                                  <div className="font-medium">
+                                    {purchase.documentNumber}
+                                    {purchase.vendorInvoiceNumber && ` · Invoice ${purchase.vendorInvoiceNumber}`}
+                                  </div>
+                                  <div className="text-muted-foreground">
+                                    {formatDate(purchase.documentDate)} · due {formatDate(purchase.dueDate) || 'on receipt'}
+                                    {purchase.daysPastDue > 0 && ` · ${purchase.daysPastDue} days late`}
+                                  </div>
+                                </td>
+                                {AGING_BUCKET_KEYS.map(bucket => (
+                                  <td key={bucket} className="p-2 text-right">
+                                    {bucket === purchase.bucket ? formatCurrency(purchase.balanceDue) : ''}
+                                  </td>
+                                ))}
+                                <td className="p-2 text-right text-muted-foreground">of {formatCurrency(purchase.total)}</td>
+                              </tr>
+                            ))}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                    <tfoot className="border-t-2 border-border font-semibold">
+                      <tr data-testid="payables-totals">
+                        <td className="p-2">Total</td>
+                        {AGING_BUCKET_KEYS.map(bucket => (
+                          <td key={bucket} className="p-2 text-right">{formatCurrency(report.totals[bucket])}</td>
+                        ))}
+                        <td className="p-2 text-right">{formatCurrency(report.totals.total)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card data-testid="card-vendor-payments">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <IndianRupee className="w-5 h-5" />
+            Vendor Payments
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {visiblePayments.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8" data-testid="text-no-vendor-payments">
+              No payments recorded yet
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Payment</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Vendor</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Mode</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Against</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {visiblePayments.map(payment => (
+                    <tr key={payment.id} data-testid={`vendor-payment-${payment.paymentNumber}`}>
+                      <td className="p-2 font-mono">{payment.paymentNumber}</td>
+                      <td className="p-2">{formatDate(payment.paymentDate)}</td>
+                      <td className="p-2">{payment.vendor.name}</td>
+                      <td className="p-2">
+                        {getPaymentModeLabel(payment.mode)}
+                        {payment.referenceNumber && <span className="text-muted-foreground"> · {payment.referenceNumber}</span>}
+                      </td>
+                      <td className="p-2 text-muted-foreground">
+                        {payment.allocations.map(allocation => allocation.purchaseNumber).join(', ')}
+                      </td>
+                      <td className="p-2 text-right font-medium">{formatCurrency(payment.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <VendorPaymentModal
+        isOpen={isPaymentModalOpen}
+        onClose={() => setIsPaymentModalOpen(false)}
+      />
+    </div>
+  );
+}
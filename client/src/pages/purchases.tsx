@@ -1,38 +1,52 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { isUnauthorizedError } from "@/lib/authUtils";
-import { Plus, Package, Truck, Calendar } from "lucide-react";
+import { Plus, Package, Truck, Calendar, Receipt, Clock, IndianRupee } from "lucide-react";
 import { format } from "date-fns";
 import PurchaseModal from "@/components/modals/purchase-modal";
+import VendorPaymentModal from "@/components/modals/vendor-payment-modal";
+import type { PurchaseWithDetails } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { OPEN_PAYABLE_STATUSES, getPayableStatusLabel } from "@shared/payables";
 
-interface Purchase {
-  id: string;
-  vendorId: string;
-  vendor_name: string;
-  vendor_email: string;
-  totalAmount: number;
-  status: string;
-  createdAt: string;
-  items?: any[];
+function getEligibleCredit(purchase: PurchaseWithDetails) {
+  return purchase.purchaseItems
+    .filter(line => line.itcEligible)
+    .reduce((sum, line) => sum + Number(line.cgstAmount) + Number(line.sgstAmount) + Number(line.igstAmount), 0);
+}
+
+function getPayableStatusColor(status: string) {
+  switch (status) {
+    case 'paid':
+      return 'bg-green-100 text-green-800';
+    case 'partially_paid':
+      return 'bg-blue-100 text-blue-800';
+    case 'overdue':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-yellow-100 text-yellow-800';
+  }
 }
 
 export default function Purchases() {
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+  const [purchaseToPay, setPurchaseToPay] = useState<PurchaseWithDetails | null>(null);
 
-  const { data: purchases = [], isLoading } = useQuery<Purchase[]>({
+  const { data: purchases = [], isLoading } = useQuery<PurchaseWithDetails[]>({
     queryKey: ['/api/purchases'],
   });
 
   const openModal = () => setIsModalOpen(true);
   const closeModal = () => setIsModalOpen(false);
 
+  const openPaymentModal = (purchase: PurchaseWithDetails | null = null) => {
+    setPurchaseToPay(purchase);
+    setIsPaymentModalOpen(true);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen p-6 bg-background">
@@ -62,14 +76,24 @@ export default function Purchases() {
               Track and manage your vendor purchases
             </p>
           </div>
-          <Button 
-            onClick={openModal}
-            className="bg-primary hover:bg-primary/90"
-            data-testid="button-add-purchase"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add New Purchase
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => openPaymentModal()}
+              data-testid="button-pay-vendor"
+            >
+              <IndianRupee className="h-4 w-4 mr-2" />
+              Pay Vendor
+            </Button>
+            <Button 
+              onClick={openModal}
+              className="bg-primary hover:bg-primary/90"
+              data-testid="button-add-purchase"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add New Purchase
+            </Button>
+          </div>
         </div>
 
         {purchases.length === 0 ? (
@@ -88,65 +112,125 @@ export default function Purchases() {
           </Card>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {purchases.map((purchase) => (
+            {purchases.map((purchase) => {
+              const gstAmount = Number(purchase.cgstAmount) + Number(purchase.sgstAmount) + Number(purchase.igstAmount);
+              const eligibleCredit = getEligibleCredit(purchase);
+              const isOpen = OPEN_PAYABLE_STATUSES.includes(purchase.status);
+              return (
               <Card key={purchase.id} className="hover:shadow-md transition-shadow">
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-lg" data-testid={`purchase-title-${purchase.id}`}>
-                      {purchase.vendor_name}
+                      {purchase.vendor.name}
                     </CardTitle>
-                    <Badge 
-                      variant={purchase.status === 'completed' ? 'default' : 'secondary'}
-                      data-testid={`purchase-status-${purchase.id}`}
+                    <Badge
+                      variant={eligibleCredit > 0 ? 'default' : 'secondary'}
+                      data-testid={`purchase-itc-${purchase.id}`}
                     >
-                      {purchase.status}
+                      {eligibleCredit > 0 ? `ITC ${formatCurrency(eligibleCredit)}` : 'No ITC'}
                     </Badge>
                   </div>
-                  <CardDescription data-testid={`purchase-email-${purchase.id}`}>
-                    {purchase.vendor_email}
+                  <CardDescription data-testid={`purchase-number-${purchase.id}`}>
+                    {purchase.purchaseNumber}
+                    {purchase.vendor.gstin ? ` · ${purchase.vendor.gstin}` : ' · Unregistered vendor'}
                   </CardDescription>
+                  <div>
+                    <Badge
+                      variant="secondary"
+                      className={`text-xs ${getPayableStatusColor(purchase.status)}`}
+                      data-testid={`purchase-status-${purchase.id}`}
+                    >
+                      {getPayableStatusLabel(purchase.status)}
+                    </Badge>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground flex items-center">
+                        <Receipt className="h-4 w-4 mr-1" />
+                        Vendor Invoice
+                      </span>
+                      <span className="text-sm" data-testid={`purchase-vendor-invoice-${purchase.id}`}>
+                        {purchase.vendorInvoiceNumber
+                          ? `${purchase.vendorInvoiceNumber}${purchase.vendorInvoiceDate ? ` (${format(new Date(purchase.vendorInvoiceDate), 'MMM dd, yyyy')})` : ''}`
+                          : '-'}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground flex items-center">
+                        <Truck className="h-4 w-4 mr-1" />
+                        Taxable Value
+                      </span>
+                      <span className="text-sm" data-testid={`purchase-taxable-${purchase.id}`}>
+                        {formatCurrency(purchase.subtotal)}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">GST</span>
+                      <span className="text-sm" data-testid={`purchase-gst-${purchase.id}`}>
+                        {formatCurrency(gstAmount)}
+                      </span>
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground flex items-center">
                         <Package className="h-4 w-4 mr-1" />
                         Total Amount
                       </span>
                       <span className="font-semibold" data-testid={`purchase-amount-${purchase.id}`}>
-                        ₹{purchase.totalAmount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                        {formatCurrency(purchase.total)}
                       </span>
                     </div>
-                    
+
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground flex items-center">
                         <Calendar className="h-4 w-4 mr-1" />
-                        Purchase Date
+                        Received On
                       </span>
                       <span className="text-sm" data-testid={`purchase-date-${purchase.id}`}>
-                        {format(new Date(purchase.createdAt), 'MMM dd, yyyy')}
+                        {purchase.purchaseDate ? format(new Date(purchase.purchaseDate), 'MMM dd, yyyy') : '-'}
                       </span>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground flex items-center">
-                        <Truck className="h-4 w-4 mr-1" />
-                        Vendor ID
+                        <Clock className="h-4 w-4 mr-1" />
+                        Payment Due
                       </span>
-                      <span className="text-sm font-mono text-xs bg-muted px-2 py-1 rounded">
-                        {purchase.vendorId.slice(0, 8)}...
+                      <span
+                        className={`text-sm ${purchase.status === 'overdue' ? 'text-red-600 font-medium' : ''}`}
+                        data-testid={`purchase-due-date-${purchase.id}`}
+                      >
+                        {purchase.dueDate ? format(new Date(purchase.dueDate), 'MMM dd, yyyy') : '-'}
                       </span>
                     </div>
-                  </div>
 
-                  <div className="mt-4 pt-3 border-t">
-                    <Button variant="outline" size="sm" className="w-full">
-                      View Details
-                    </Button>
+                    {isOpen && (
+                      <div className="flex items-center justify-between pt-2 border-t border-border">
+                        <span className="text-sm">
+                          Balance owed{' '}
+                          <span className="font-semibold" data-testid={`purchase-balance-${purchase.id}`}>
+                            {formatCurrency(purchase.balanceDue)}
+                          </span>
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openPaymentModal(purchase)}
+                          data-testid={`button-pay-purchase-${purchase.id}`}
+                        >
+                          Record Payment
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
         )}
 
@@ -154,6 +238,12 @@ export default function Purchases() {
           isOpen={isModalOpen}
           onClose={closeModal}
         />
+
+        <VendorPaymentModal
+          isOpen={isPaymentModalOpen}
+          onClose={() => setIsPaymentModalOpen(false)}
+          purchase={purchaseToPay}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { downloadFromApi } from "@/lib/downloadUtils";
+import BillingModal from "@/components/modals/billing-modal";
+import { Plus, Printer, Download, Send, ThumbsUp, FileInput, FileSignature, IndianRupee, Clock } from "lucide-react";
+import type { BillWithDetails, QuotationWithDetails } from "@shared/schema";
+import { canConvertQuotation, canTransitionQuotation, getQuotationStatusLabel } from "@shared/quotationStatus";
+import { formatCurrency } from "@shared/currency";
+
+export default function Quotations() {
+  const [isQuotationModalOpen, setIsQuotationModalOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quotations = [], isLoading } = useQuery<QuotationWithDetails[]>({
+    queryKey: ['/api/quotations'],
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      await apiRequest('PATCH', `/api/quotations/${id}/status`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotations'] });
+      toast({
+        title: "Success",
+        description: "Quotation status updated",
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to update quotation status"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/quotations/${id}/convert`);
+      return response.json() as Promise<BillWithDetails>;
+    },
+    onSuccess: (bill) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
+      toast({
+        title: "Bill created",
+        description: `${bill.billNumber} for ${formatCurrency(bill.total)}`,
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to convert quotation to a bill"),
+  });
+
+  const handlePrint = (quotation: QuotationWithDetails) => {
+    window.open(`/api/quotations/${quotation.id}/pdf?inline=1`, '_blank');
+  };
+
+  const handleDownload = async (quotation: QuotationWithDetails) => {
+    try {
+      await downloadFromApi(`/api/quotations/${quotation.id}/pdf`, `${quotation.quotationNumber}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download quotation PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConvert = (quotation: QuotationWithDetails) => {
+    if (window.confirm(`Create a bill from ${quotation.quotationNumber}? Stock will be deducted now.`)) {
+      convertMutation.mutate(quotation.id);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'expired':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const openQuotations = quotations.filter(q => q.status === 'draft' || q.status === 'sent');
+  const openValue = openQuotations.reduce((sum, q) => sum + parseFloat(q.total), 0);
+  const convertedCount = quotations.filter(q => q.convertedBillId).length;
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-64 mb-2"></div>
+          <div className="h-4 bg-muted rounded w-48 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="quotations-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Quotations</h2>
+          <p className="text-muted-foreground">Send price quotes and turn accepted ones into bills</p>
+        </div>
+        <Button onClick={() => setIsQuotationModalOpen(true)} className="flex items-center space-x-2" data-testid="button-create-quotation">
+          <Plus className="w-4 h-4" />
+          <span>New Quotation</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card data-testid="stat-open-quotations">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Open Quotations</p>
+              <Clock className="w-4 h-4 text-yellow-500" />
+            </div>
+            <p className="text-xl font-bold">{openQuotations.length}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-open-value">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Open Value</p>
+              <IndianRupee className="w-4 h-4 text-blue-500" />
+            </div>
+            <p className="text-xl font-bold">{formatCurrency(openValue)}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-converted">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Converted to Bills</p>
+              <FileInput className="w-4 h-4 text-green-500" />
+            </div>
+            <p className="text-xl font-bold">{convertedCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="quotations-list">
+        <CardHeader>
+          <CardTitle>All Quotations</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {quotations.length === 0 ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="text-center">
+                <FileSignature className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                <h3 className="text-lg font-semibold mb-2">No quotations yet</h3>
+                <p className="text-muted-foreground mb-4">Create a quotation to send prices to a customer</p>
+                <Button onClick={() => setIsQuotationModalOpen(true)} data-testid="button-create-first-quotation">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Your First Quotation
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Quotation No.</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Customer</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Valid Until</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Bill</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {quotations.map((quotation) => (
+                    <tr key={quotation.id} className="hover:bg-muted/20" data-testid={`quotation-row-${quotation.quotationNumber}`}>
+                      <td className="p-4 font-mono text-sm">{quotation.quotationNumber}</td>
+                      <td className="p-4">{quotation.customer.name}</td>
+                      <td className="p-4">{new Date(quotation.quotationDate!).toLocaleDateString()}</td>
+                      <td className="p-4">{new Date(quotation.validUntil).toLocaleDateString()}</td>
+                      <td className="p-4 font-medium">{formatCurrency(quotation.total)}</td>
+                      <td className="p-4">
+                        <Badge
+                          className={`text-xs ${getStatusColor(quotation.status)}`}
+                          data-testid={`quotation-status-${quotation.quotationNumber}`}
+                        >
+                          {getQuotationStatusLabel(quotation.status)}
+                        </Badge>
+                      </td>
+                      <td className="p-4 font-mono text-sm" data-testid={`quotation-bill-${quotation.quotationNumber}`}>
+                        {quotation.convertedBillNumber ?? '—'}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePrint(quotation)}
+                            className="h-8 w-8 p-0"
+                            title="Print"
+                            data-testid={`button-print-quotation-${quotation.quotationNumber}`}
+                          >
+                            <Printer className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDownload(quotation)}
+                            className="h-8 w-8 p-0"
+                            title="Download"
+                            data-testid={`button-download-quotation-${quotation.quotationNumber}`}
+                          >
+                            <Download className="w-4 h-4" />
+                          </Button>
+                          {canTransitionQuotation(quotation.status, 'sent') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateStatusMutation.mutate({ id: quotation.id, status: 'sent' })}
+                              disabled={updateStatusMutation.isPending}
+                              className="h-8 w-8 p-0"
+                              title="Mark as sent"
+                              data-testid={`button-send-quotation-${quotation.quotationNumber}`}
+                            >
+                              <Send className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canTransitionQuotation(quotation.status, 'accepted') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updateStatusMutation.mutate({ id: quotation.id, status: 'accepted' })}
+                              disabled={updateStatusMutation.isPending}
+                              className="h-8 w-8 p-0"
+                              title="Mark as accepted"
+                              data-testid={`button-accept-quotation-${quotation.quotationNumber}`}
+                            >
+                              <ThumbsUp className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canConvertQuotation(quotation) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleConvert(quotation)}
+                              disabled={convertMutation.isPending}
+                              className="h-8 w-8 p-0 text-primary"
+                              title="Convert to bill"
+                              data-testid={`button-convert-quotation-${quotation.quotationNumber}`}
+                            >
+                              <FileInput className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BillingModal
+        documentType="quotation"
+        isOpen={isQuotationModalOpen}
+        onClose={() => setIsQuotationModalOpen(false)}
+      />
+    </div>
+  );
+}
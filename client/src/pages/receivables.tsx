@@ -0,0 +1,270 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { ChevronDown, ChevronRight, Download, FileText, Hourglass } from "lucide-react";
+import { format } from "date-fns";
+import type { Customer, ReceivablesAging } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+import { AGING_BUCKETS, AGING_BUCKET_KEYS } from "@shared/aging";
+
+const ALL = "all";
+
+function distinctValues(values: (string | null)[]) {
+  return Array.from(new Set(values.map(value => value?.trim()).filter((value): value is string => !!value)))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export default function Receivables() {
+  const [filters, setFilters] = useState({ createdBy: ALL, city: ALL, state: ALL });
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [, setLocation] = useLocation();
+
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ['/api/customers'],
+  });
+
+  const { data: report, isLoading } = useQuery<ReceivablesAging>({
+    queryKey: ['/api/reports/receivables-aging', filters.createdBy, filters.city, filters.state],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== ALL) params.set(key, value);
+      }
+      const response = await apiRequest('GET', `/api/reports/receivables-aging?${params}`);
+      return response.json();
+    },
+  });
+
+  const cities = useMemo(() => distinctValues(customers.map(customer => customer.city)), [customers]);
+  const states = useMemo(() => distinctValues(customers.map(customer => customer.state)), [customers]);
+
+  const toggleCustomer = (customerId: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(customerId)) {
+        next.delete(customerId);
+      } else {
+        next.add(customerId);
+      }
+      return next;
+    });
+  };
+
+  const formatDate = (date: Date | string | null) => date ? format(new Date(date), 'dd-MM-yyyy') : '';
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadCsv([
+      ['Customer', 'City', 'State', 'Bill No', 'Bill Date', 'Due Date', 'Salesperson', 'Days Past Due', 'Bill Total',
+        ...AGING_BUCKET_KEYS.map(bucket => AGING_BUCKETS[bucket]), 'Balance Due'],
+      ...report.parties.flatMap(customer => customer.documents.map(bill => [
+        customer.partyName,
+        customer.city ?? '',
+        customer.state ?? '',
+        bill.documentNumber,
+        formatDate(bill.documentDate),
+        formatDate(bill.dueDate),
+        bill.salespersonName ?? '',
+        Math.max(0, bill.daysPastDue),
+        bill.total,
+        ...AGING_BUCKET_KEYS.map(bucket => bucket === bill.bucket ? bill.balanceDue : ''),
+        bill.balanceDue,
+      ])),
+      ['Total', '', '', '', '', '', '', '', '', ...AGING_BUCKET_KEYS.map(bucket => report.totals[bucket]), report.totals.total],
+    ], `receivables-aging-${format(new Date(report.asOf), 'yyyy-MM-dd')}.csv`);
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="receivables-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Receivables Aging</h2>
+          <p className="text-muted-foreground">Unpaid bills by days past their due date</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={filters.createdBy} onValueChange={(createdBy) => setFilters({ ...filters, createdBy })}>
+            <SelectTrigger className="w-44" data-testid="select-aging-salesperson">
+              <SelectValue placeholder="All salespeople" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All salespeople</SelectItem>
+              {report?.salespeople.map(person => (
+                <SelectItem key={person.id} value={person.id}>{person.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.city} onValueChange={(city) => setFilters({ ...filters, city })}>
+            <SelectTrigger className="w-36" data-testid="select-aging-city">
+              <SelectValue placeholder="All cities" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All cities</SelectItem>
+              {cities.map(city => (
+                <SelectItem key={city} value={city}>{city}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.state} onValueChange={(state) => setFilters({ ...filters, state })}>
+            <SelectTrigger className="w-36" data-testid="select-aging-state">
+              <SelectValue placeholder="All states" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All states</SelectItem>
+              {states.map(state => (
+                <SelectItem key={state} value={state}>{state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleExportCsv}
+            disabled={!report || report.parties.length === 0}
+            data-testid="button-export-aging"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="h-64 bg-muted rounded animate-pulse"></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {AGING_BUCKET_KEYS.map(bucket => (
+              <Card key={bucket} data-testid={`stat-aging-${bucket}`}>
+                <CardContent className="p-4">
+                  <p className="text-muted-foreground text-sm">{AGING_BUCKETS[bucket]}</p>
+                  <p className={`text-xl font-bold ${bucket === 'days_over_90' && report.totals[bucket] > 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(report.totals[bucket])}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card data-testid="stat-aging-total">
+              <CardContent className="p-4">
+                <p className="text-muted-foreground text-sm">Total Outstanding</p>
+                <p className="text-xl font-bold">{formatCurrency(report.totals.total)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card data-testid="card-receivables-aging">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Hourglass className="w-5 h-5" />
+                By Customer
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                As of {formatDate(report.asOf)}, net of credit notes and payments. Click a customer to see their bills.
+              </p>
+            </CardHeader>
+            <CardContent>
+              {report.parties.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8" data-testid="text-no-receivables">
+                  Nothing is outstanding
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-muted-foreground">Customer</th>
+                        {AGING_BUCKET_KEYS.map(bucket => (
+                          <th key={bucket} className="text-right p-2 font-medium text-muted-foreground">{AGING_BUCKETS[bucket]}</th>
+                        ))}
+                        <th className="text-right p-2 font-medium text-muted-foreground">Total</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.parties.map(customer => {
+                        const isExpanded = expanded.has(customer.partyId);
+                        return (
+                          <Fragment key={customer.partyId}>
+                            <tr
+                              className="cursor-pointer hover:bg-muted/30"
+                              onClick={() => toggleCustomer(customer.partyId)}
+                              data-testid={`aging-customer-${customer.partyId}`}
+                            >
+                              <td className="p-2">
+                                <div className="flex items-center gap-1 font-medium">
+                                  {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                  {customer.partyName}
+                                </div>
+                                <div className="text-xs text-muted-foreground ml-5">
+                                  {[customer.city, customer.state].filter(Boolean).join(', ')}
+                                  {` · ${customer.documents.length} bill${customer.documents.length === 1 ? '' : 's'}`}
+                                </div>
+                              </td>
+                              {AGING_BUCKET_KEYS.map(bucket => (
+                                <td key={bucket} className="p-2 text-right">
+                                  {customer.totals[bucket] ? formatCurrency(customer.totals[bucket]) : '-'}
+                                </td>
+                              ))}
+                              <td className="p-2 text-right font-semibold">{formatCurrency(customer.totals.total)}</td>
+                              <td className="p-2 text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0"
+                                  title="Statement of account"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setLocation(`/customers/${customer.partyId}/statement`);
+                                  }}
+                                  data-testid={`button-aging-statement-${customer.partyId}`}
+                                >
+                                  <FileText className="w-4 h-4" />
+                                </Button>
+                              </td>
+                            </tr>
+                            {isExpanded && customer.documents.map(bill => (
+                              <tr key={bill.documentId} className="bg-muted/20 text-xs" data-testid={`aging-bill-${bill.documentId}`}>
+                                <td className="p-2 pl-8">
+                                  <div className="font-medium">{bill.documentNumber}</div>
+                                  <div className="text-muted-foreground">
+                                    {formatDate(bill.documentDate)} · due {formatDate(bill.dueDate) || 'on receipt'}
+                                    {bill.daysPastDue > 0 && ` · ${bill.daysPastDue} days late`}
+                                    {bill.salespersonName && ` · ${bill.salespersonName}`}
+                                  </div>
+                                </td>
+                                {AGING_BUCKET_KEYS.map(bucket => (
+                                  <td key={bucket} className="p-2 text-right">
+                                    {bucket === bill.bucket ? formatCurrency(bill.balanceDue) : ''}
+                                  </td>
+                                ))}
+                                <td className="p-2 text-right text-muted-foreground">of {formatCurrency(bill.total)}</td>
+                                <td className="p-2"></td>
+                              </tr>
+                            ))}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                    <tfoot className="border-t-2 border-border font-semibold">
+                      <tr data-testid="aging-totals">
+                        <td className="p-2">Total</td>
+                        {AGING_BUCKET_KEYS.map(bucket => (
+                          <td key={bucket} className="p-2 text-right">{formatCurrency(report.totals[bucket])}</td>
+                        ))}
+                        <td className="p-2 text-right">{formatCurrency(report.totals.total)}</td>
+                        <td className="p-2"></td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import BillingModal from "@/components/modals/billing-modal";
+import { Plus, Pause, Play, History, Repeat, CalendarClock, FileText, AlertTriangle } from "lucide-react";
+import type { RecurringInvoiceRunWithBill, RecurringInvoiceWithDetails } from "@shared/schema";
+import { getRecurringFrequencyLabel, getRecurringInvoiceStatusLabel } from "@shared/recurringInvoices";
+import { formatCurrency } from "@shared/currency";
+
+export default function RecurringInvoices() {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [logTemplate, setLogTemplate] = useState<RecurringInvoiceWithDetails | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery<RecurringInvoiceWithDetails[]>({
+    queryKey: ['/api/recurring-invoices'],
+  });
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery<RecurringInvoiceRunWithBill[]>({
+    queryKey: ['/api/recurring-invoices', logTemplate?.id, 'runs'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/recurring-invoices/${logTemplate!.id}/runs`);
+      return response.json();
+    },
+    enabled: !!logTemplate,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'pause' | 'resume' }) => {
+      const response = await apiRequest('POST', `/api/recurring-invoices/${id}/${action}`);
+      return response.json() as Promise<RecurringInvoiceWithDetails>;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recurring-invoices'] });
+      toast({
+        title: "Success",
+        description: template.status === 'paused'
+          ? `"${template.name}" paused`
+          : template.nextRunDate
+            ? `"${template.name}" resumed, next invoice on ${new Date(template.nextRunDate).toLocaleDateString()}`
+            : `"${template.name}" has no runs left before its end date`,
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to update the schedule"),
+  });
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'bg-green-100 text-green-800';
+      case 'paused':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const activeCount = templates.filter(t => t.status === 'active').length;
+  const pausedCount = templates.filter(t => t.status === 'paused').length;
+  const generatedCount = templates.reduce((sum, t) => sum + t.generatedCount, 0);
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-64 mb-2"></div>
+          <div className="h-4 bg-muted rounded w-48 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="recurring-invoices-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Recurring Invoices</h2>
+          <p className="text-muted-foreground">Bill AMC and rental customers automatically on a fixed schedule</p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)} className="flex items-center space-x-2" data-testid="button-create-recurring-invoice">
+          <Plus className="w-4 h-4" />
+          <span>New Schedule</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card data-testid="stat-active-schedules">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Active Schedules</p>
+              <Repeat className="w-4 h-4 text-green-500" />
+            </div>
+            <p className="text-xl font-bold">{activeCount}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-paused-schedules">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Paused</p>
+              <Pause className="w-4 h-4 text-yellow-500" />
+            </div>
+            <p className="text-xl font-bold">{pausedCount}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-generated-bills">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Bills Generated</p>
+              <FileText className="w-4 h-4 text-blue-500" />
+            </div>
+            <p className="text-xl font-bold">{generatedCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="recurring-invoices-list">
+        <CardHeader>
+          <CardTitle>All Schedules</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {templates.length === 0 ? (
+            <div className="flex items-center justify-center p-12">
+              <div className="text-center">
+                <CalendarClock className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                <h3 className="text-lg font-semibold mb-2">No recurring invoices yet</h3>
+                <p className="text-muted-foreground mb-4">Set up a schedule for customers you bill the same amount every period</p>
+                <Button onClick={() => setIsModalOpen(true)} data-testid="button-create-first-recurring-invoice">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Your First Schedule
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Schedule</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Customer</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Frequency</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Period</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Next Invoice</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Last Bill</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                    <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {templates.map((template) => (
+                    <tr key={template.id} className="hover:bg-muted/20" data-testid={`recurring-row-${template.id}`}>
+                      <td className="p-4">
+                        <p className="font-medium">{template.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {template.recurringInvoiceItems.map(line => `${line.item.name} × ${line.quantity} @ ${formatCurrency(line.rate)}`).join(", ")}
+                        </p>
+                      </td>
+                      <td className="p-4">{template.customer.name}</td>
+                      <td className="p-4">{getRecurringFrequencyLabel(template.frequency)}</td>
+                      <td className="p-4 text-sm">
+                        {new Date(template.startDate).toLocaleDateString()} – {template.endDate ? new Date(template.endDate).toLocaleDateString() : "No end date"}
+                      </td>
+                      <td className="p-4" data-testid={`recurring-next-run-${template.id}`}>
+                        {template.nextRunDate && template.status !== 'completed' ? new Date(template.nextRunDate).toLocaleDateString() : '—'}
+                      </td>
+                      <td className="p-4 font-mono text-sm">
+                        {template.lastBillNumber ?? '—'}
+                        {template.generatedCount > 1 && (
+                          <span className="block text-xs text-muted-foreground font-sans">{template.generatedCount} bills so far</span>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        <Badge className={`text-xs ${getStatusColor(template.status)}`} data-testid={`recurring-status-${template.id}`}>
+                          {getRecurringInvoiceStatusLabel(template.status)}
+                        </Badge>
+                        {template.lastError && (
+                          <p className="flex items-start gap-1 text-xs text-destructive mt-1 max-w-[220px]" data-testid={`recurring-error-${template.id}`}>
+                            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                            {template.lastError}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLogTemplate(template)}
+                            className="h-8 w-8 p-0"
+                            title="Generated invoices"
+                            data-testid={`button-recurring-log-${template.id}`}
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
+                          {template.status === 'active' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleMutation.mutate({ id: template.id, action: 'pause' })}
+                              disabled={toggleMutation.isPending}
+                              className="h-8 w-8 p-0"
+                              title="Pause"
+                              data-testid={`button-pause-recurring-${template.id}`}
+                            >
+                              <Pause className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {template.status === 'paused' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleMutation.mutate({ id: template.id, action: 'resume' })}
+                              disabled={toggleMutation.isPending}
+                              className="h-8 w-8 p-0 text-primary"
+                              title="Resume"
+                              data-testid={`button-resume-recurring-${template.id}`}
+                            >
+                              <Play className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!logTemplate} onOpenChange={(open) => !open && setLogTemplate(null)}>
+        <DialogContent className="sm:max-w-[640px]" data-testid="recurring-log-dialog">
+          <DialogHeader>
+            <DialogTitle>Generated Invoices — {logTemplate?.name}</DialogTitle>
+          </DialogHeader>
+          {runsLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse" />
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">No invoices have been generated from this schedule yet</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Run Date</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Bill No.</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Amount</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {runs.map((run) => (
+                    <tr key={run.id} data-testid={`recurring-run-${run.id}`}>
+                      <td className="p-2">{new Date(run.runDate).toLocaleDateString()}</td>
+                      <td className="p-2 font-mono">{run.billNumber ?? '—'}</td>
+                      <td className="p-2 text-right">{run.billTotal ? formatCurrency(run.billTotal) : '—'}</td>
+                      <td className="p-2">
+                        {run.status === 'generated' ? (
+                          <Badge className="text-xs bg-green-100 text-green-800">Generated</Badge>
+                        ) : (
+                          <span className="text-destructive">{run.error}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <BillingModal
+        documentType="recurring_invoice"
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+      />
+    </div>
+  );
+}
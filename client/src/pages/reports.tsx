@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/components/returns/return-table";
+import { Download, FileBarChart, ShoppingCart } from "lucide-react";
+import { format } from "date-fns";
+import type { HsnSummaryRow, ItcRegisterRow, Vendor } from "@shared/schema";
+import { formatCurrency } from "@shared/currency";
+
+function getCurrentMonthRange() {
+  const today = new Date();
+  const from = new Date(today.getFullYear(), today.getMonth(), 1);
+  const format = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  return { from: format(from), to: format(today) };
+}
+
+export default function Reports() {
+  const [range, setRange] = useState(getCurrentMonthRange);
+  const [itcVendorId, setItcVendorId] = useState("all");
+
+  const { data: hsnSummary = [], isLoading } = useQuery<HsnSummaryRow[]>({
+    queryKey: ['/api/reports/hsn-summary', range.from, range.to],
+    queryFn: async () => {
+      const params = new URLSearchParams(range);
+      const response = await apiRequest('GET', `/api/reports/hsn-summary?${params}`);
+      return response.json();
+    },
+    enabled: !!range.from && !!range.to,
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ['/api/vendors'],
+  });
+
+  const { data: itcRegister = [], isLoading: isItcLoading } = useQuery<ItcRegisterRow[]>({
+    queryKey: ['/api/reports/itc-register', range.from, range.to, itcVendorId],
+    queryFn: async () => {
+      const params = new URLSearchParams(range);
+      if (itcVendorId !== "all") params.set('vendorId', itcVendorId);
+      const response = await apiRequest('GET', `/api/reports/itc-register?${params}`);
+      return response.json();
+    },
+    enabled: !!range.from && !!range.to,
+  });
+
+  const totals = hsnSummary.reduce(
+    (sum, row) => ({
+      quantity: sum.quantity + row.quantity,
+      taxableValue: sum.taxableValue + parseFloat(row.taxableValue),
+      cgstAmount: sum.cgstAmount + parseFloat(row.cgstAmount),
+      sgstAmount: sum.sgstAmount + parseFloat(row.sgstAmount),
+      igstAmount: sum.igstAmount + parseFloat(row.igstAmount),
+      totalValue: sum.totalValue + parseFloat(row.totalValue),
+    }),
+    { quantity: 0, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, totalValue: 0 }
+  );
+
+  const itcTotals = itcRegister.reduce(
+    (sum, row) => ({
+      taxableValue: sum.taxableValue + parseFloat(row.taxableValue),
+      cgstAmount: sum.cgstAmount + parseFloat(row.cgstAmount),
+      sgstAmount: sum.sgstAmount + parseFloat(row.sgstAmount),
+      igstAmount: sum.igstAmount + parseFloat(row.igstAmount),
+      eligibleCredit: sum.eligibleCredit + parseFloat(row.eligibleCredit),
+      ineligibleCredit: sum.ineligibleCredit + parseFloat(row.ineligibleCredit),
+    }),
+    { taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, eligibleCredit: 0, ineligibleCredit: 0 }
+  );
+
+  const formatDate = (date: Date | string | null) => date ? format(new Date(date), 'dd-MM-yyyy') : '';
+
+  const handleExportItc = () => {
+    downloadCsv([
+      ['Purchase No', 'Received On', 'Vendor', 'Vendor GSTIN', 'Vendor Invoice No', 'Vendor Invoice Date',
+        'Taxable Value', 'IGST', 'CGST', 'SGST', 'Eligible ITC', 'Ineligible ITC'],
+      ...itcRegister.map(row => [
+        row.purchaseNumber,
+        formatDate(row.purchaseDate),
+        row.vendorName,
+        row.vendorGstin ?? '',
+        row.vendorInvoiceNumber ?? '',
+        formatDate(row.vendorInvoiceDate),
+        row.taxableValue,
+        row.igstAmount,
+        row.cgstAmount,
+        row.sgstAmount,
+        row.eligibleCredit,
+        row.ineligibleCredit,
+      ]),
+    ], `itc-register-${range.from}-to-${range.to}.csv`);
+  };
+
+  const handleExportHsn = () => {
+    const csvData = [
+      ['HSN/SAC', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST'],
+      ...hsnSummary.map(row => [
+        row.hsnCode ?? '',
+        row.unit,
+        row.quantity.toString(),
+        row.totalValue,
+        row.gstRate,
+        row.taxableValue,
+        row.igstAmount,
+        row.cgstAmount,
+        row.sgstAmount,
+      ]),
+    ];
+
+    const csvContent = csvData.map(row => row.join(',')).join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `hsn-summary-${range.from}-to-${range.to}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="reports-page">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Reports</h2>
+          <p className="text-muted-foreground">Statutory summaries and registers for GST filing</p>
+        </div>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              data-testid="input-report-from"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              data-testid="input-report-to"
+            />
+          </div>
+        </div>
+      </div>
+
+      <Card data-testid="card-hsn-summary">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileBarChart className="w-5 h-5" />
+              HSN-wise Summary of Outward Supplies
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">Net of credit notes, excluding cancelled bills</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExportHsn}
+            disabled={hsnSummary.length === 0}
+            data-testid="button-export-hsn"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : hsnSummary.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8" data-testid="text-no-hsn-data">
+              No sales in this period
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">HSN/SAC</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">UQC</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Quantity</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Rate</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Taxable Value</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">IGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">CGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">SGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Total Value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {hsnSummary.map(row => (
+                    <tr key={`${row.hsnCode}-${row.unit}-${row.gstRate}`} data-testid={`hsn-row-${row.hsnCode}-${row.gstRate}`}>
+                      <td className="p-2 font-medium">{row.hsnCode ?? "Not set"}</td>
+                      <td className="p-2">{row.unit}</td>
+                      <td className="p-2 text-right">{row.quantity}</td>
+                      <td className="p-2 text-right">{parseFloat(row.gstRate)}%</td>
+                      <td className="p-2 text-right">{formatCurrency(row.taxableValue)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.igstAmount)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.cgstAmount)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.sgstAmount)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.totalValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t-2 border-border font-semibold">
+                  <tr data-testid="hsn-totals">
+                    <td className="p-2" colSpan={2}>Total</td>
+                    <td className="p-2 text-right">{totals.quantity}</td>
+                    <td className="p-2"></td>
+                    <td className="p-2 text-right">{formatCurrency(totals.taxableValue)}</td>
+                    <td className="p-2 text-right">{formatCurrency(totals.igstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(totals.cgstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(totals.sgstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(totals.totalValue)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card data-testid="card-itc-register">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              Input Tax Credit Register
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Purchases received in the period; credit is only claimable on vendor invoices with a valid GSTIN
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={itcVendorId} onValueChange={setItcVendorId}>
+              <SelectTrigger className="w-48" data-testid="select-itc-vendor">
+                <SelectValue placeholder="All vendors" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All vendors</SelectItem>
+                {vendors.map(vendor => (
+                  <SelectItem key={vendor.id} value={vendor.id}>{vendor.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleExportItc}
+              disabled={itcRegister.length === 0}
+              data-testid="button-export-itc"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isItcLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse"></div>
+          ) : itcRegister.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8" data-testid="text-no-itc-data">
+              No purchases in this period
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Purchase</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Vendor</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Vendor Invoice</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Taxable Value</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">IGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">CGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">SGST</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Eligible ITC</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Ineligible</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {itcRegister.map(row => (
+                    <tr key={row.purchaseId} data-testid={`itc-row-${row.purchaseId}`}>
+                      <td className="p-2">
+                        <div className="font-medium">{row.purchaseNumber}</div>
+                        <div className="text-xs text-muted-foreground">{formatDate(row.purchaseDate)}</div>
+                      </td>
+                      <td className="p-2">
+                        <div>{row.vendorName}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{row.vendorGstin || "Unregistered"}</div>
+                      </td>
+                      <td className="p-2">
+                        <div>{row.vendorInvoiceNumber ?? "-"}</div>
+                        <div className="text-xs text-muted-foreground">{formatDate(row.vendorInvoiceDate)}</div>
+                      </td>
+                      <td className="p-2 text-right">{formatCurrency(row.taxableValue)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.igstAmount)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.cgstAmount)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.sgstAmount)}</td>
+                      <td className="p-2 text-right font-medium">{formatCurrency(row.eligibleCredit)}</td>
+                      <td className="p-2 text-right text-muted-foreground">{formatCurrency(row.ineligibleCredit)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="border-t-2 border-border font-semibold">
+                  <tr data-testid="itc-totals">
+                    <td className="p-2" colSpan={3}>Total</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.taxableValue)}</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.igstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.cgstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.sgstAmount)}</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.eligibleCredit)}</td>
+                    <td className="p-2 text-right">{formatCurrency(itcTotals.ineligibleCredit)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import BillingModal from "@/components/modals/billing-modal";
+import DeliveryChallanModal from "@/components/modals/delivery-challan-modal";
+import EWayBillModal, { type EWayBillDocument } from "@/components/modals/ewaybill-modal";
+import { Plus, Truck, XCircle, FileText, ClipboardList, PackageCheck, Clock } from "lucide-react";
+import type { BillWithDetails, DeliveryChallanWithDetails, SalesOrderWithDetails } from "@shared/schema";
+import { getSalesOrderStatusLabel, isSalesOrderOpen } from "@shared/salesOrders";
+import { getChallanConsignmentLines, getConsignmentValue, needsEWayBill } from "@shared/ewaybill";
+import { formatCurrency } from "@shared/currency";
+
+export default function SalesOrders() {
+  const [isOrderModalOpen, setIsOrderModalOpen] = useState(false);
+  const [deliverFor, setDeliverFor] = useState<SalesOrderWithDetails | null>(null);
+  const [selectedChallanIds, setSelectedChallanIds] = useState<string[]>([]);
+  const [eWayBillFor, setEWayBillFor] = useState<EWayBillDocument | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: salesOrders = [], isLoading } = useQuery<SalesOrderWithDetails[]>({
+    queryKey: ['/api/sales-orders'],
+  });
+
+  const { data: challans = [] } = useQuery<DeliveryChallanWithDetails[]>({
+    queryKey: ['/api/delivery-challans'],
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const closeOrderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/sales-orders/${id}/close`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
+      toast({
+        title: "Success",
+        description: "Sales order closed and its reservation released",
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to close sales order"),
+  });
+
+  const invoiceMutation = useMutation({
+    mutationFn: async (challanIds: string[]) => {
+      const response = await apiRequest('POST', '/api/delivery-challans/invoice', { challanIds });
+      return response.json() as Promise<BillWithDetails>;
+    },
+    onSuccess: (bill) => {
+      setSelectedChallanIds([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/delivery-challans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bills'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/customers/balances'] });
+      toast({
+        title: "Invoice created",
+        description: `${bill.billNumber} for ${formatCurrency(bill.total)}`,
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to create invoice from delivery challans"),
+  });
+
+  const handleClose = (salesOrder: SalesOrderWithDetails) => {
+    if (window.confirm(`Close ${salesOrder.orderNumber}? Undelivered quantities will no longer be reserved.`)) {
+      closeOrderMutation.mutate(salesOrder.id);
+    }
+  };
+
+  const toggleChallan = (challanId: string, checked: boolean) => {
+    setSelectedChallanIds(checked
+      ? [...selectedChallanIds, challanId]
+      : selectedChallanIds.filter(id => id !== challanId));
+  };
+
+  const selectedChallans = challans.filter(c => selectedChallanIds.includes(c.id));
+  const selectedCustomerIds = new Set(selectedChallans.map(c => c.customerId));
+  const canInvoiceSelection = selectedChallans.length > 0 && selectedCustomerIds.size === 1;
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-100 text-green-800';
+      case 'partially_delivered':
+        return 'bg-blue-100 text-blue-800';
+      case 'closed':
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const openOrders = salesOrders.filter(isSalesOrderOpen);
+  const openValue = openOrders.reduce((sum, o) => sum + parseFloat(o.total), 0);
+  const uninvoicedCount = challans.filter(c => !c.billId).length;
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-64 mb-2"></div>
+          <div className="h-4 bg-muted rounded w-48 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="sales-orders-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Sales Orders</h2>
+          <p className="text-muted-foreground">Reserve stock for orders, deliver in parts and invoice the challans</p>
+        </div>
+        <Button onClick={() => setIsOrderModalOpen(true)} className="flex items-center space-x-2" data-testid="button-create-sales-order">
+          <Plus className="w-4 h-4" />
+          <span>New Sales Order</span>
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card data-testid="stat-open-orders">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Open Orders</p>
+              <Clock className="w-4 h-4 text-yellow-500" />
+            </div>
+            <p className="text-xl font-bold">{openOrders.length}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-open-order-value">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Open Order Value</p>
+              <ClipboardList className="w-4 h-4 text-blue-500" />
+            </div>
+            <p className="text-xl font-bold">{formatCurrency(openValue)}</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="stat-uninvoiced-challans">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-muted-foreground text-sm">Challans to Invoice</p>
+              <PackageCheck className="w-4 h-4 text-green-500" />
+            </div>
+            <p className="text-xl font-bold">{uninvoicedCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList>
+          <TabsTrigger value="orders" data-testid="tab-orders">Orders</TabsTrigger>
+          <TabsTrigger value="challans" data-testid="tab-challans">Delivery Challans</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card data-testid="sales-orders-list">
+            <CardHeader>
+              <CardTitle>All Sales Orders</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {salesOrders.length === 0 ? (
+                <div className="flex items-center justify-center p-12">
+                  <div className="text-center">
+                    <ClipboardList className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                    <h3 className="text-lg font-semibold mb-2">No sales orders yet</h3>
+                    <p className="text-muted-foreground mb-4">Book an order to reserve stock for a customer</p>
+                    <Button onClick={() => setIsOrderModalOpen(true)} data-testid="button-create-first-sales-order">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Create Your First Sales Order
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Order No.</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Customer</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Expected</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Delivered</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Amount</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {salesOrders.map((salesOrder) => {
+                        const ordered = salesOrder.salesOrderItems.reduce((sum, line) => sum + line.quantity, 0);
+                        const delivered = salesOrder.salesOrderItems.reduce((sum, line) => sum + line.deliveredQuantity, 0);
+
+                        return (
+                          <tr key={salesOrder.id} className="hover:bg-muted/20" data-testid={`sales-order-row-${salesOrder.orderNumber}`}>
+                            <td className="p-4 font-mono text-sm">{salesOrder.orderNumber}</td>
+                            <td className="p-4">{salesOrder.customer.name}</td>
+                            <td className="p-4">{new Date(salesOrder.orderDate!).toLocaleDateString()}</td>
+                            <td className="p-4">
+                              {salesOrder.expectedDeliveryDate ? new Date(salesOrder.expectedDeliveryDate).toLocaleDateString() : '—'}
+                            </td>
+                            <td className="p-4" data-testid={`sales-order-delivered-${salesOrder.orderNumber}`}>
+                              {delivered} / {ordered}
+                            </td>
+                            <td className="p-4 font-medium">{formatCurrency(salesOrder.total)}</td>
+                            <td className="p-4">
+                              <Badge
+                                className={`text-xs ${getStatusColor(salesOrder.status)}`}
+                                data-testid={`sales-order-status-${salesOrder.orderNumber}`}
+                              >
+                                {getSalesOrderStatusLabel(salesOrder.status)}
+                              </Badge>
+                            </td>
+                            <td className="p-4">
+                              {isSalesOrderOpen(salesOrder) && (
+                                <div className="flex space-x-2">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setDeliverFor(salesOrder)}
+                                    className="h-8 w-8 p-0 text-primary"
+                                    title="Create delivery challan"
+                                    data-testid={`button-deliver-${salesOrder.orderNumber}`}
+                                  >
+                                    <Truck className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleClose(salesOrder)}
+                                    disabled={closeOrderMutation.isPending}
+                                    className="h-8 w-8 p-0 text-destructive"
+                                    title="Close order"
+                                    data-testid={`button-close-${salesOrder.orderNumber}`}
+                                  >
+                                    <XCircle className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="challans">
+          <Card data-testid="delivery-challans-list">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Delivery Challans</CardTitle>
+              <div className="flex items-center space-x-3">
+                {selectedCustomerIds.size > 1 && (
+                  <span className="text-sm text-red-600" data-testid="challan-selection-warning">
+                    Pick challans for one customer
+                  </span>
+                )}
+                <Button
+                  onClick={() => invoiceMutation.mutate(selectedChallanIds)}
+                  disabled={!canInvoiceSelection || invoiceMutation.isPending}
+                  data-testid="button-invoice-challans"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  {invoiceMutation.isPending ? "Creating..." : `Create Invoice${selectedChallans.length ? ` (${selectedChallans.length})` : ""}`}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {challans.length === 0 ? (
+                <div className="p-12 text-center text-muted-foreground">
+                  <Truck className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No deliveries yet. Create a challan from an open sales order.</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted/50">
+                      <tr>
+                        <th className="p-4 w-10"></th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Challan No.</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Order No.</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Customer</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Items</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Vehicle</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">E-Way Bill</th>
+                        <th className="text-left p-4 font-medium text-muted-foreground">Invoice</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {challans.map((challan) => {
+                        const consignmentValue = getConsignmentValue(getChallanConsignmentLines(challan));
+                        return (
+                          <tr key={challan.id} className="hover:bg-muted/20" data-testid={`challan-row-${challan.challanNumber}`}>
+                            <td className="p-4">
+                              {!challan.billId && (
+                                <Checkbox
+                                  checked={selectedChallanIds.includes(challan.id)}
+                                  onCheckedChange={(checked) => toggleChallan(challan.id, checked === true)}
+                                  data-testid={`checkbox-challan-${challan.challanNumber}`}
+                                />
+                              )}
+                            </td>
+                            <td className="p-4 font-mono text-sm">{challan.challanNumber}</td>
+                            <td className="p-4 font-mono text-sm">{challan.orderNumber}</td>
+                            <td className="p-4">{challan.customer.name}</td>
+                            <td className="p-4">{new Date(challan.challanDate!).toLocaleDateString()}</td>
+                            <td className="p-4 text-sm">
+                              {challan.challanItems.map(line => `${line.item.name} × ${line.quantity}`).join(', ')}
+                            </td>
+                            <td className="p-4 font-mono text-sm">{challan.vehicleNumber || '—'}</td>
+                            <td className="p-4 text-sm" data-testid={`challan-ewb-${challan.challanNumber}`}>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEWayBillFor({
+                                  resource: 'delivery-challans',
+                                  documentNumber: challan.challanNumber,
+                                  consignmentValue,
+                                  fields: challan,
+                                })}
+                                className="h-auto p-0 font-normal"
+                                data-testid={`button-ewaybill-challan-${challan.challanNumber}`}
+                              >
+                                {challan.ewbNumber ? (
+                                  <span className={`font-mono ${new Date(challan.ewbValidUpto!) < new Date() ? 'text-red-600' : ''}`}>
+                                    {challan.ewbNumber}
+                                  </span>
+                                ) : needsEWayBill(consignmentValue) ? (
+                                  <Badge className="text-xs bg-orange-100 text-orange-800">Needed</Badge>
+                                ) : (
+                                  <span className="text-muted-foreground">Add</span>
+                                )}
+                              </Button>
+                            </td>
+                            <td className="p-4 font-mono text-sm" data-testid={`challan-bill-${challan.challanNumber}`}>
+                              {challan.billNumber ?? <Badge className="text-xs bg-yellow-100 text-yellow-800">Pending</Badge>}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <BillingModal
+        documentType="sales_order"
+        isOpen={isOrderModalOpen}
+        onClose={() => setIsOrderModalOpen(false)}
+      />
+
+      <DeliveryChallanModal
+        isOpen={!!deliverFor}
+        onClose={() => setDeliverFor(null)}
+        salesOrder={deliverFor}
+      />
+
+      <EWayBillModal
+        document={eWayBillFor}
+        onClose={() => setEWayBillFor(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,792 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getApiErrorMessage } from "@/lib/errorUtils";
+import { Building2, Landmark, FileSignature, Hash, Save, Trash2, BellRing, Plus } from "lucide-react";
+import {
+  insertCompanySettingsSchema,
+  insertDocumentSeriesSchema,
+  insertReminderRuleSchema,
+  type CompanySettings,
+  type DocumentSeriesWithPreview,
+  type InsertCompanySettings,
+  type InsertDocumentSeries,
+  type InsertReminderRule,
+  type ReminderRule,
+  type User,
+} from "@shared/schema";
+import { INDIAN_STATES } from "@shared/gst";
+import { TURNOVER_BANDS } from "@shared/hsn";
+import { DOCUMENT_TYPES, formatDocumentNumber } from "@shared/numbering";
+import { DEFAULT_REMINDER_BODY, DEFAULT_REMINDER_SUBJECT, REMINDER_PLACEHOLDERS, describeReminderTiming } from "@shared/reminders";
+
+const MAX_LOGO_BYTES = 500 * 1024;
+
+const emptySettings: InsertCompanySettings = {
+  legalName: "",
+  tradeName: "",
+  addressLine1: "",
+  addressLine2: "",
+  city: "",
+  state: "",
+  pinCode: "",
+  gstin: "",
+  pan: "",
+  turnoverBand: "up_to_5_crore",
+  phone: "",
+  email: "",
+  logo: null,
+  bankName: "",
+  bankAccountName: "",
+  bankAccountNumber: "",
+  bankIfsc: "",
+  bankBranch: "",
+  invoiceTerms: "",
+  roundOffInvoices: true,
+  signatoryName: "",
+  signatoryDesignation: "",
+};
+
+type TextField = Exclude<keyof InsertCompanySettings, "logo" | "state" | "invoiceTerms" | "roundOffInvoices" | "turnoverBand">;
+
+function NumberingSeriesForm({ series, isAdmin }: { series: DocumentSeriesWithPreview; isAdmin: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertDocumentSeries>({
+    resolver: zodResolver(insertDocumentSeriesSchema),
+    defaultValues: {
+      documentType: series.documentType,
+      prefix: series.prefix,
+      suffix: series.suffix,
+      padding: series.padding,
+      resetEveryFinancialYear: series.resetEveryFinancialYear,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertDocumentSeries) => {
+      const response = await apiRequest('PUT', `/api/settings/numbering/${series.documentType}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/numbering'] });
+      toast({
+        title: "Success",
+        description: `${DOCUMENT_TYPES[series.documentType].label} numbering saved`,
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save numbering series",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const values = form.watch();
+  const sample = formatDocumentNumber(
+    { prefix: values.prefix ?? "", suffix: values.suffix ?? "", padding: Number(values.padding) || 1, resetEveryFinancialYear: true },
+    1,
+    new Date(),
+  );
+  const testId = series.documentType.replace(/_/g, "-");
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveMutation.mutate(data))}
+        className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end border-b border-border pb-4 last:border-0 last:pb-0"
+        data-testid={`numbering-${testId}`}
+      >
+        <div className="md:col-span-1">
+          <p className="font-medium">{DOCUMENT_TYPES[series.documentType].label}</p>
+          <p className="text-xs text-muted-foreground" data-testid={`text-next-number-${testId}`}>
+            Next: {series.nextNumber}
+          </p>
+        </div>
+        <FormField
+          control={form.control}
+          name="prefix"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Prefix</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={!isAdmin} data-testid={`input-prefix-${testId}`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="suffix"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Suffix</FormLabel>
+              <FormControl>
+                <Input {...field} value={field.value ?? ""} disabled={!isAdmin} data-testid={`input-suffix-${testId}`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="padding"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Digits</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} max={8} {...field} disabled={!isAdmin} data-testid={`input-padding-${testId}`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="resetEveryFinancialYear"
+          render={({ field }) => (
+            <FormItem className="flex flex-col space-y-2">
+              <FormLabel>Reset every FY</FormLabel>
+              <FormControl>
+                <Switch
+                  checked={field.value ?? true}
+                  onCheckedChange={field.onChange}
+                  disabled={!isAdmin}
+                  data-testid={`switch-reset-${testId}`}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground" data-testid={`text-sample-${testId}`}>e.g. {sample}</p>
+          {isAdmin && (
+            <Button type="submit" size="sm" disabled={saveMutation.isPending} data-testid={`button-save-numbering-${testId}`}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function DocumentNumberingCard({ isAdmin }: { isAdmin: boolean }) {
+  const { data: series = [] } = useQuery<DocumentSeriesWithPreview[]>({
+    queryKey: ['/api/settings/numbering'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Hash className="w-5 h-5" />
+          <span>Document Numbering</span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Use {"{FY}"} (25-26), {"{FYYY}"} (2025-26), {"{YYYY}"}, {"{YY}"} or {"{MM}"} in the prefix or suffix.
+          Numbers are limited to 16 characters.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {series.map(s => (
+          <NumberingSeriesForm key={`${s.documentType}-${s.updatedAt ?? ""}`} series={s} isAdmin={isAdmin} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+const newReminderRule: InsertReminderRule = {
+  name: "",
+  daysFromDue: 0,
+  repeatEveryDays: null,
+  subject: DEFAULT_REMINDER_SUBJECT,
+  body: DEFAULT_REMINDER_BODY,
+  active: true,
+};
+
+// Saves an existing rule, or creates one when no rule is given
+function ReminderRuleForm({ rule, isAdmin, onDone }: { rule?: ReminderRule; isAdmin: boolean; onDone?: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<InsertReminderRule>({
+    resolver: zodResolver(insertReminderRuleSchema),
+    defaultValues: rule
+      ? { name: rule.name, daysFromDue: rule.daysFromDue, repeatEveryDays: rule.repeatEveryDays, subject: rule.subject, body: rule.body, active: rule.active }
+      : newReminderRule,
+  });
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertReminderRule) => {
+      const response = rule
+        ? await apiRequest('PATCH', `/api/settings/reminder-rules/${rule.id}`, data)
+        : await apiRequest('POST', '/api/settings/reminder-rules', data);
+      return response.json() as Promise<ReminderRule>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/reminder-rules'] });
+      toast({
+        title: "Success",
+        description: `Reminder "${saved.name}" saved`,
+      });
+      onDone?.();
+    },
+    onError: (error) => handleError(error, "Failed to save reminder rule"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/settings/reminder-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/reminder-rules'] });
+      toast({
+        title: "Success",
+        description: "Reminder rule deleted",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to delete reminder rule"),
+  });
+
+  const values = form.watch();
+  const testId = rule?.id ?? "new";
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(data => saveMutation.mutate(data))}
+        className="space-y-4 border-b border-border pb-4 last:border-0 last:pb-0"
+        data-testid={`reminder-rule-${testId}`}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Gentle nudge" {...field} disabled={!isAdmin} data-testid={`input-reminder-name-${testId}`} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="daysFromDue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Days from due</FormLabel>
+                <FormControl>
+                  <Input type="number" min={-90} max={365} {...field} disabled={!isAdmin} data-testid={`input-reminder-days-${testId}`} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="repeatEveryDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repeat every (days)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Once"
+                    {...field}
+                    value={field.value ?? ""}
+                    disabled={!isAdmin}
+                    data-testid={`input-reminder-repeat-${testId}`}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="active"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0 pb-2">
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} disabled={!isAdmin} data-testid={`switch-reminder-active-${testId}`} />
+                </FormControl>
+                <FormLabel>Active</FormLabel>
+              </FormItem>
+            )}
+          />
+          <p className="text-xs text-muted-foreground pb-3" data-testid={`text-reminder-timing-${testId}`}>
+            {describeReminderTiming({
+              daysFromDue: Number(values.daysFromDue) || 0,
+              repeatEveryDays: Number(values.repeatEveryDays) || null,
+            })}
+          </p>
+        </div>
+        <FormField
+          control={form.control}
+          name="subject"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Subject</FormLabel>
+              <FormControl>
+                <Input {...field} disabled={!isAdmin} data-testid={`input-reminder-subject-${testId}`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Message</FormLabel>
+              <FormControl>
+                <Textarea rows={6} {...field} disabled={!isAdmin} data-testid={`textarea-reminder-body-${testId}`} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {isAdmin && (
+          <div className="flex justify-end space-x-2">
+            {rule ? (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => window.confirm(`Delete the "${rule.name}" reminder?`) && deleteMutation.mutate(rule.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-reminder-${testId}`}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            ) : (
+              <Button type="button" variant="outline" size="sm" onClick={onDone} data-testid="button-cancel-reminder">
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" disabled={saveMutation.isPending} data-testid={`button-save-reminder-${testId}`}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        )}
+      </form>
+    </Form>
+  );
+}
+
+function ReminderRulesCard({ isAdmin }: { isAdmin: boolean }) {
+  const [isAdding, setIsAdding] = useState(false);
+  const { data: rules = [] } = useQuery<ReminderRule[]>({
+    queryKey: ['/api/settings/reminder-rules'],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <BellRing className="w-5 h-5" />
+            <span>Payment Reminders</span>
+          </CardTitle>
+          {isAdmin && !isAdding && (
+            <Button variant="outline" size="sm" onClick={() => setIsAdding(true)} data-testid="button-add-reminder-rule">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Reminder
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Emailed to customers with an unpaid balance. Use a negative number of days to remind before the due date.
+          Templates can use {Object.keys(REMINDER_PLACEHOLDERS).map(key => `{{${key}}}`).join(", ")}.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && !isAdding && (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-reminder-rules">No reminders set up yet</p>
+        )}
+        {rules.map(rule => (
+          <ReminderRuleForm key={`${rule.id}-${rule.updatedAt ?? ""}`} rule={rule} isAdmin={isAdmin} />
+        ))}
+        {isAdding && <ReminderRuleForm isAdmin={isAdmin} onDone={() => setIsAdding(false)} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Settings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isAdmin = (user as User | undefined)?.role === "admin";
+
+  const { data: settings, isLoading } = useQuery<CompanySettings | null>({
+    queryKey: ['/api/settings'],
+  });
+
+  const form = useForm<InsertCompanySettings>({
+    resolver: zodResolver(insertCompanySettingsSchema),
+    defaultValues: emptySettings,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      const { id, stateCode, updatedBy, updatedAt, ...values } = settings;
+      form.reset({ ...emptySettings, ...values });
+    }
+  }, [settings, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertCompanySettings) => {
+      const response = await apiRequest('PUT', '/api/settings', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      toast({
+        title: "Success",
+        description: "Company settings saved successfully",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save company settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({
+        title: "Logo too large",
+        description: "Please choose an image smaller than 500 KB",
+        variant: "destructive",
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => form.setValue("logo", reader.result as string, { shouldDirty: true });
+    reader.readAsDataURL(file);
+  };
+
+  const renderInput = (name: TextField, label: string, placeholder?: string, className?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              placeholder={placeholder}
+              {...field}
+              value={field.value || ""}
+              disabled={!isAdmin}
+              data-testid={`input-${name}`}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-64 mb-2"></div>
+          <div className="h-4 bg-muted rounded w-48 mb-6"></div>
+          <div className="h-96 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const logo = form.watch("logo");
+
+  return (
+    <div className="p-6 space-y-6" data-testid="settings-page">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="page-title">Company Settings</h2>
+          <p className="text-muted-foreground">
+            {isAdmin
+              ? "These details are printed on every invoice and document"
+              : "Only administrators can change company settings"}
+          </p>
+        </div>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Building2 className="w-5 h-5" />
+                <span>Business Details</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderInput("legalName", "Legal Name *", "As registered under GST")}
+                {renderInput("tradeName", "Trade Name")}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderInput("addressLine1", "Address Line 1 *")}
+                {renderInput("addressLine2", "Address Line 2")}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {renderInput("city", "City *")}
+                <FormField
+                  control={form.control}
+                  name="state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>State *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!isAdmin}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-state">
+                            <SelectValue placeholder="Select state" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {INDIAN_STATES.map((state) => (
+                            <SelectItem key={state.code} value={state.name}>
+                              {state.code} - {state.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {renderInput("pinCode", "PIN Code *", "560001")}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {renderInput("gstin", "GSTIN", "29ABCDE1234F1Z5")}
+                {renderInput("pan", "PAN", "ABCDE1234F")}
+                {renderInput("phone", "Phone", "+91 98765 43210")}
+                {renderInput("email", "Email", "accounts@example.com")}
+              </div>
+              <FormField
+                control={form.control}
+                name="turnoverBand"
+                render={({ field }) => (
+                  <FormItem className="md:w-1/2">
+                    <FormLabel>Aggregate Turnover (previous FY)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!isAdmin}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-turnover-band">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(TURNOVER_BANDS).map(([value, band]) => (
+                          <SelectItem key={value} value={value}>
+                            {band.label} ({band.minimumHsnDigits}-digit HSN on invoices)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormLabel>Logo</FormLabel>
+                <div className="flex items-center space-x-4">
+                  {logo ? (
+                    <img src={logo} alt="Company logo" className="h-16 w-auto border border-border rounded" data-testid="logo-preview" />
+                  ) : (
+                    <div className="h-16 w-16 bg-muted rounded flex items-center justify-center">
+                      <Building2 className="w-6 h-6 text-muted-foreground" />
+                    </div>
+                  )}
+                  <Input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="max-w-xs"
+                    disabled={!isAdmin}
+                    onChange={(e) => handleLogoChange(e.target.files?.[0])}
+                    data-testid="input-logo"
+                  />
+                  {logo && isAdmin && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => form.setValue("logo", null, { shouldDirty: true })}
+                      data-testid="button-remove-logo"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Landmark className="w-5 h-5" />
+                <span>Bank Details</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderInput("bankName", "Bank Name")}
+                {renderInput("bankAccountName", "Account Name")}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {renderInput("bankAccountNumber", "Account Number")}
+                {renderInput("bankIfsc", "IFSC", "HDFC0001234")}
+                {renderInput("bankBranch", "Branch")}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileSignature className="w-5 h-5" />
+                <span>Invoice Terms & Signatory</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="invoiceTerms"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Terms & Conditions</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="1. Goods once sold will not be taken back."
+                        rows={4}
+                        {...field}
+                        value={field.value || ""}
+                        disabled={!isAdmin}
+                        data-testid="textarea-invoice-terms"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="roundOffInvoices"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Round off invoice totals</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Round bills, quotations and sales orders to the nearest rupee and show the difference as a round-off line
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value ?? true}
+                        onCheckedChange={field.onChange}
+                        disabled={!isAdmin}
+                        data-testid="switch-round-off-invoices"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {renderInput("signatoryName", "Authorised Signatory")}
+                {renderInput("signatoryDesignation", "Designation", "Proprietor")}
+              </div>
+            </CardContent>
+          </Card>
+
+          {isAdmin && (
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-settings">
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          )}
+        </form>
+      </Form>
+
+      <DocumentNumberingCard isAdmin={isAdmin} />
+
+      <ReminderRulesCard isAdmin={isAdmin} />
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import VendorModal from "@/components/modals/vendor-modal";
-import { Plus, Search, Edit, Eye, Trash2, Mail, Phone, Truck } from "lucide-react";
+import { Plus, Search, Edit, Eye, Trash2, Mail, Phone, Truck, FlagOff } from "lucide-react";
 import type { Vendor } from "@shared/schema";
 
 export default function Vendors() {
@@ -53,6 +53,37 @@ export default function Vendors() {
     },
   });
 
+  const clearFlagMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/vendors/${id}/flag`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vendors'] });
+      toast({
+        title: "Success",
+        description: "Vendor flag cleared",
+      });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to clear vendor flag",
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredVendors = vendors.filter(vendor =>
     vendor.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     (vendor.email && vendor.email.toLowerCase().includes(searchQuery.toLowerCase())) ||
@@ -218,6 +249,18 @@ export default function Vendors() {
                         {vendor.gstin && (
                           <span className="font-mono text-sm" data-testid={`vendor-gstin-${vendor.id}`}>{vendor.gstin}</span>
                         )}
+                        {vendor.flaggedAt && (
+                          <div>
+                            <Badge
+                              variant="destructive"
+                              className="text-xs mt-1"
+                              title={vendor.flagNote ?? undefined}
+                              data-testid={`vendor-flag-${vendor.id}`}
+                            >
+                              Flagged
+                            </Badge>
+                          </div>
+                        )}
                       </td>
                       <td className="p-4">
                         {vendor.category && (
@@ -250,6 +293,19 @@ export default function Vendors() {
                           >
                             <Eye className="w-4 h-4" />
                           </Button>
+                          {vendor.flaggedAt && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => clearFlagMutation.mutate(vendor.id)}
+                              disabled={clearFlagMutation.isPending}
+                              className="h-8 w-8 p-0"
+                              title="Clear flag"
+                              data-testid={`button-clear-flag-${vendor.id}`}
+                            >
+                              <FlagOff className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
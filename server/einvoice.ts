@@ -0,0 +1,122 @@
+import type { BillWithDetails, CompanySettings } from "@shared/schema";
+import { getPlaceOfSupply, getStateCode, round2 } from "@shared/gst";
+import { isServiceCode } from "@shared/hsn";
+import { EINVOICE_SCHEMA_VERSION, getUqc, type EInvoice } from "@shared/einvoice";
+import { BusinessRuleError } from "./errors";
+
+// Empty strings become undefined so optional fields are left out of the JSON
+function optional(value?: string | null): string | undefined {
+  return value?.trim() || undefined;
+}
+
+function digits(value?: string | null): string | undefined {
+  return optional(value?.replace(/\D/g, ""));
+}
+
+function pin(value?: string | null): number | undefined {
+  return value ? Number(value.trim()) : undefined;
+}
+
+// Customer addresses are free text; the IRP takes two lines of up to 100 characters
+function splitAddress(address?: string | null): { Addr1: string; Addr2?: string } {
+  const flat = (address ?? "").replace(/\s+/g, " ").trim();
+  return { Addr1: flat.slice(0, 100), Addr2: optional(flat.slice(100, 200)) };
+}
+
+function formatDate(date: Date | string | null): string {
+  return new Date(date ?? Date.now()).toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+// Builds the INV-01 payload for a B2B bill. The result still has to pass
+// eInvoiceSchema; missing master data (addresses, PIN codes, HSN) shows up
+// there as field-level issues rather than being guessed here.
+export function buildEInvoice(bill: BillWithDetails, company: CompanySettings | undefined): EInvoice {
+  if (!company?.gstin) {
+    throw new BusinessRuleError("Add your company GSTIN in Settings before generating e-invoices", 400);
+  }
+  if (bill.status === "cancelled") {
+    throw new BusinessRuleError("Cancelled bills cannot be e-invoiced");
+  }
+  const customer = bill.customer;
+  if (!customer.gstin) {
+    throw new BusinessRuleError(`${customer.name} has no GSTIN. E-invoices are only issued for B2B supplies.`, 400);
+  }
+
+  const placeOfSupply = bill.placeOfSupply ?? getPlaceOfSupply(customer, company.stateCode);
+
+  return {
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: "GST",
+      SupTyp: "B2B",
+      RegRev: "N",
+      EcmGstin: null,
+      IgstOnIntra: "N",
+    },
+    DocDtls: {
+      Typ: "INV",
+      No: bill.billNumber,
+      Dt: formatDate(bill.billDate),
+    },
+    SellerDtls: {
+      Gstin: company.gstin,
+      LglNm: company.legalName,
+      TrdNm: optional(company.tradeName),
+      Addr1: company.addressLine1,
+      Addr2: optional(company.addressLine2),
+      Loc: company.city,
+      Pin: Number(company.pinCode),
+      Stcd: company.stateCode,
+      Ph: digits(company.phone),
+      Em: optional(company.email),
+    },
+    BuyerDtls: {
+      Gstin: customer.gstin.trim().toUpperCase(),
+      LglNm: customer.name,
+      Pos: placeOfSupply ?? "",
+      ...splitAddress(customer.address),
+      Loc: customer.city ?? "",
+      Pin: pin(customer.pinCode) as number,
+      Stcd: getStateCode(customer.state) ?? getStateCode(customer.gstin.trim().slice(0, 2)) ?? "",
+      Ph: digits(customer.phone),
+      Em: optional(customer.email),
+    },
+    ItemList: bill.billItems.map((line, index) => {
+      const taxableValue = Number(line.taxableValue);
+      const cgst = Number(line.cgstAmount);
+      const sgst = Number(line.sgstAmount);
+      const igst = Number(line.igstAmount);
+      return {
+        SlNo: String(index + 1),
+        PrdDesc: line.item.name,
+        IsServc: isServiceCode(line.hsnCode) ? "Y" : "N",
+        HsnCd: line.hsnCode ?? "",
+        Qty: line.quantity,
+        Unit: getUqc(line.item.unit),
+        UnitPrice: Number(line.rate),
+        TotAmt: Number(line.amount),
+        // Line and bill discounts are both taken before tax, so both belong here
+        Discount: round2(Number(line.amount) - taxableValue),
+        AssAmt: taxableValue,
+        GstRt: Number(line.gstRate),
+        IgstAmt: igst,
+        CgstAmt: cgst,
+        SgstAmt: sgst,
+        TotItemVal: round2(taxableValue + cgst + sgst + igst),
+      };
+    }),
+    ValDtls: {
+      AssVal: Number(bill.subtotal),
+      CgstVal: Number(bill.cgstAmount),
+      SgstVal: Number(bill.sgstAmount),
+      IgstVal: Number(bill.igstAmount),
+      Discount: 0,
+      RndOffAmt: Number(bill.roundOff),
+      TotInvVal: Number(bill.total),
+    },
+  };
+}
+
+export function eInvoiceFileName(billNumber: string): string {
+  return `${billNumber.replace(/[^A-Za-z0-9._-]+/g, "_")}-einvoice.json`;
+}
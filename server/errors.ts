@@ -0,0 +1,9 @@
+// Thrown by storage when a request is well-formed but breaks a business rule
+// (e.g. cancelling a paid bill). Routes send the message back with the status
+// code instead of a generic 500.
+export class BusinessRuleError extends Error {
+  constructor(message: string, public readonly statusCode: number = 409) {
+    super(message);
+    this.name = "BusinessRuleError";
+  }
+}
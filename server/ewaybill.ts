@@ -0,0 +1,167 @@
+import type { BillWithDetails, CompanySettings, Customer, DeliveryChallanWithDetails } from "@shared/schema";
+import { getPlaceOfSupply, getStateCode, round2 } from "@shared/gst";
+import { getUqc } from "@shared/einvoice";
+import {
+  EWAY_BILL_JSON_VERSION,
+  TRANSPORT_MODES,
+  getBillConsignmentLines,
+  getChallanConsignmentLines,
+  getConsignmentValue,
+  type ConsignmentLine,
+  type EWayBillEntry,
+  type EWayBillUpload,
+  type TransportMode,
+} from "@shared/ewaybill";
+import { BusinessRuleError } from "./errors";
+
+// What the bulk upload needs from either a bill or a delivery challan
+interface Consignment {
+  docType: "INV" | "CHL";
+  docNo: string;
+  docDate: Date | null;
+  customer: Customer;
+  placeOfSupply?: string | null;
+  lines: ConsignmentLine[];
+  otherValue: number; // round off on bills
+  transportMode: string | null;
+  transportDistance: number | null;
+  transporterId: string | null;
+  transporterName: string | null;
+  vehicleNumber: string | null;
+  transportDocNumber: string | null;
+  transportDocDate: Date | null;
+  ewbNumber: string | null;
+}
+
+function formatDate(date: Date | string | null): string {
+  return date
+    ? new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" })
+    : "";
+}
+
+function splitAddress(address?: string | null): [string, string] {
+  const flat = (address ?? "").replace(/\s+/g, " ").trim();
+  return [flat.slice(0, 120), flat.slice(120, 240)];
+}
+
+function sum(lines: ConsignmentLine[], pick: (line: ConsignmentLine) => number): number {
+  return round2(lines.reduce((total, line) => total + pick(line), 0));
+}
+
+function buildEntry(consignment: Consignment, company: CompanySettings | undefined): EWayBillEntry {
+  if (!company?.gstin) {
+    throw new BusinessRuleError("Add your company GSTIN in Settings before generating e-way bills", 400);
+  }
+  if (consignment.ewbNumber) {
+    throw new BusinessRuleError(`E-way bill ${consignment.ewbNumber} is already generated for ${consignment.docNo}`);
+  }
+  if (!consignment.transportMode || consignment.transportDistance == null) {
+    throw new BusinessRuleError(`Enter the transport details for ${consignment.docNo} first`, 400);
+  }
+
+  const { customer, lines } = consignment;
+  const [toAddr1, toAddr2] = splitAddress(customer.address);
+  const toStateCode = consignment.placeOfSupply ?? getPlaceOfSupply(customer, company.stateCode) ?? "";
+  const shipToStateCode = getStateCode(customer.state) ?? toStateCode;
+
+  // The portal asks for the HSN carrying the most value as the main one
+  const mainLine = [...lines].sort((a, b) => b.taxableValue - a.taxableValue)[0];
+  const totalValue = sum(lines, line => line.taxableValue);
+  const taxValue = getConsignmentValue(lines) - totalValue;
+
+  return {
+    userGstin: company.gstin,
+    supplyType: "O",
+    subSupplyType: 1, // supply
+    subSupplyDesc: "",
+    docType: consignment.docType,
+    docNo: consignment.docNo,
+    docDate: formatDate(consignment.docDate),
+    transType: 1, // regular: billed-to and shipped-to are the same party
+    fromGstin: company.gstin,
+    fromTrdName: company.tradeName || company.legalName,
+    fromAddr1: company.addressLine1,
+    fromAddr2: company.addressLine2 ?? "",
+    fromPlace: company.city,
+    fromPincode: Number(company.pinCode),
+    fromStateCode: Number(company.stateCode),
+    actualFromStateCode: Number(company.stateCode),
+    toGstin: customer.gstin?.trim().toUpperCase() || "URP",
+    toTrdName: customer.name,
+    toAddr1,
+    toAddr2,
+    toPlace: customer.city ?? "",
+    toPincode: Number(customer.pinCode ?? 0),
+    toStateCode: Number(toStateCode),
+    actualToStateCode: Number(shipToStateCode),
+    totalValue,
+    cgstValue: sum(lines, line => line.cgstAmount),
+    sgstValue: sum(lines, line => line.sgstAmount),
+    igstValue: sum(lines, line => line.igstAmount),
+    cessValue: 0,
+    TotNonAdvolVal: 0,
+    OthValue: consignment.otherValue,
+    totInvValue: round2(totalValue + taxValue + consignment.otherValue),
+    transMode: Number(TRANSPORT_MODES[consignment.transportMode as TransportMode]?.code ?? 0),
+    transDistance: consignment.transportDistance,
+    transporterName: consignment.transporterName ?? "",
+    transporterId: consignment.transporterId ?? "",
+    transDocNo: consignment.transportDocNumber ?? "",
+    transDocDate: formatDate(consignment.transportDocDate),
+    vehicleNo: consignment.vehicleNumber ?? "",
+    vehicleType: "R",
+    mainHsnCode: Number(mainLine?.hsnCode ?? 0),
+    itemList: lines.map((line, index) => {
+      const isInterState = line.igstAmount > 0;
+      return {
+        itemNo: index + 1,
+        productName: line.name.slice(0, 100),
+        productDesc: line.name.slice(0, 100),
+        hsnCode: Number(line.hsnCode ?? 0),
+        quantity: line.quantity,
+        qtyUnit: getUqc(line.unit),
+        taxableAmount: line.taxableValue,
+        sgstRate: isInterState ? 0 : line.gstRate / 2,
+        cgstRate: isInterState ? 0 : line.gstRate / 2,
+        igstRate: isInterState ? line.gstRate : 0,
+        cessRate: 0,
+        cessNonAdvol: 0,
+      };
+    }),
+  };
+}
+
+// The bulk format takes a list; each document is exported as a list of one
+// so the file can be uploaded straight away
+function wrap(entry: EWayBillEntry): EWayBillUpload {
+  return { version: EWAY_BILL_JSON_VERSION, billLists: [entry] };
+}
+
+export function buildBillEWayBill(bill: BillWithDetails, company: CompanySettings | undefined): EWayBillUpload {
+  if (bill.status === "cancelled") {
+    throw new BusinessRuleError("Goods on a cancelled bill cannot be dispatched");
+  }
+  return wrap(buildEntry({
+    ...bill,
+    docType: "INV",
+    docNo: bill.billNumber,
+    docDate: bill.billDate,
+    lines: getBillConsignmentLines(bill),
+    otherValue: Number(bill.roundOff),
+  }, company));
+}
+
+export function buildChallanEWayBill(challan: DeliveryChallanWithDetails, company: CompanySettings | undefined): EWayBillUpload {
+  return wrap(buildEntry({
+    ...challan,
+    docType: "CHL",
+    docNo: challan.challanNumber,
+    docDate: challan.challanDate,
+    lines: getChallanConsignmentLines(challan),
+    otherValue: 0,
+  }, company));
+}
+
+export function eWayBillFileName(documentNumber: string): string {
+  return `${documentNumber.replace(/[^A-Za-z0-9._-]+/g, "_")}-ewaybill.json`;
+}
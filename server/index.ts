@@ -1,9 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./scheduler";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "5mb" })); // company logo data URLs and imported GSTR-2B statements
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,5 +68,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
@@ -0,0 +1,784 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { createRequire } from "module";
+import type { BillWithDetails, CompanySettings, CreditNoteWithDetails, Customer, CustomerStatement, Item, QuotationWithDetails } from "@shared/schema";
+import { getStateName, round2 } from "@shared/gst";
+import { amountInWords, formatCurrency } from "@shared/currency";
+import { summariseByHsn } from "@shared/hsn";
+import { TAX_HEADS, type Gstr3bReport, type TaxHead } from "@shared/gstr3b";
+import { STATEMENT_ENTRY_TYPES, formatBalanceSide } from "@shared/statement";
+import { ACCOUNT_GROUPS } from "@shared/ledger";
+import type { BalanceSheet, ProfitAndLoss, StatementGroup, TrialBalance } from "@shared/financialStatements";
+
+// DejaVu Sans ships with the app and has the ₹ glyph, unlike the PDF base fonts
+const require = createRequire(import.meta.url);
+const FONT_REGULAR = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf");
+const FONT_BOLD = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf");
+
+const MARGIN = 36;
+const CELL_PADDING = 4;
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+interface Column {
+  header: string;
+  width: number;
+  align: "left" | "right" | "center";
+}
+
+// The line and total fields shared by bills, credit notes and quotations
+interface TaxLine {
+  item: Item;
+  hsnCode?: string | null;
+  quantity: number;
+  rate: string;
+  gstRate: string;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  // Bill and quotation lines only; credit notes carry the net taxable value
+  amount?: string;
+  discountType?: string;
+  discountValue?: string;
+  discountAmount?: string;
+}
+
+interface TaxTotals {
+  subtotal: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  total: string;
+  discountAmount?: string;
+  roundOff?: string;
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return "";
+  return new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+function logoBuffer(logo?: string | null): Buffer | undefined {
+  const match = logo?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], "base64") : undefined;
+}
+
+function ensureSpace(doc: Doc, height: number): boolean {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+    return true;
+  }
+  return false;
+}
+
+// Stamped over every page once the content is laid out; drawing text from a
+// pageAdded handler would interfere with text that is mid-way through wrapping.
+function drawWatermark(doc: Doc, text: string) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const { width, height } = doc.page;
+    doc.save();
+    doc.rotate(-45, { origin: [width / 2, height / 2] });
+    doc.font("Bold").fontSize(90).fillColor("#dc2626").fillOpacity(0.15);
+    doc.text(text, 0, height / 2 - 45, { width, align: "center", lineBreak: false });
+    doc.restore();
+  }
+}
+
+function drawCancellationNote(doc: Doc, bill: BillWithDetails) {
+  const width = contentWidth(doc);
+  const note = [`Cancelled on ${formatDate(bill.cancelledAt)}`, bill.cancellationReason].filter(Boolean).join(": ");
+  doc.font("Bold").fontSize(9).fillColor("#dc2626").text(note, MARGIN, doc.y, { width });
+  doc.fillColor("black");
+  doc.y += 6;
+}
+
+function drawHeader(doc: Doc, company: CompanySettings | undefined, title: string) {
+  const width = contentWidth(doc);
+  const top = doc.y;
+  let textX = MARGIN;
+
+  const logo = logoBuffer(company?.logo);
+  if (logo) {
+    try {
+      doc.image(logo, MARGIN, top, { fit: [70, 70] });
+      textX = MARGIN + 80;
+    } catch {
+      // An unreadable logo should not stop the invoice from rendering
+    }
+  }
+
+  const textWidth = width - (textX - MARGIN) - 150;
+  doc.font("Bold").fontSize(14).text(company?.tradeName || company?.legalName || "Company details not configured", textX, top, { width: textWidth });
+  doc.font("Regular").fontSize(8);
+  if (company) {
+    if (company.tradeName) doc.text(company.legalName, { width: textWidth });
+    doc.text([company.addressLine1, company.addressLine2].filter(Boolean).join(", "), { width: textWidth });
+    doc.text(`${company.city}, ${company.state} (${company.stateCode}) - ${company.pinCode}`, { width: textWidth });
+    const taxLine = [company.gstin && `GSTIN: ${company.gstin}`, company.pan && `PAN: ${company.pan}`].filter(Boolean).join("   ");
+    if (taxLine) doc.text(taxLine, { width: textWidth });
+    const contactLine = [company.phone && `Phone: ${company.phone}`, company.email && `Email: ${company.email}`].filter(Boolean).join("   ");
+    if (contactLine) doc.text(contactLine, { width: textWidth });
+  }
+  const bottom = Math.max(doc.y, top + (logo ? 70 : 0));
+
+  doc.font("Bold").fontSize(16).text(title, MARGIN + width - 150, top, { width: 150, align: "right" });
+
+  doc.y = bottom + 8;
+  doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + width, doc.y).lineWidth(1).stroke();
+  doc.y += 8;
+}
+
+// Modules drawn as vector squares so the QR stays sharp at any print resolution
+function drawQrCode(doc: Doc, data: string, x: number, y: number, size: number) {
+  const qr = QRCode.create(data, { errorCorrectionLevel: "L" });
+  const count = qr.modules.size;
+  const cell = size / count;
+  doc.save().fillColor("black");
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.modules.get(row, col)) doc.rect(x + col * cell, y + row * cell, cell, cell);
+    }
+  }
+  doc.fill().restore();
+}
+
+function drawEInvoiceDetails(doc: Doc, bill: BillWithDetails) {
+  const width = contentWidth(doc);
+  const qrSize = 110;
+  const top = doc.y;
+  const textWidth = width - qrSize - 10;
+
+  doc.font("Bold").fontSize(8).text("IRN: ", MARGIN, top, { width: textWidth, continued: true });
+  doc.font("Regular").text(bill.irn ?? "");
+  doc.font("Bold").text("Ack No: ", MARGIN, doc.y, { width: textWidth, continued: true });
+  doc.font("Regular").text(bill.irnAckNumber ?? "");
+  doc.font("Bold").text("Ack Date: ", MARGIN, doc.y, { width: textWidth, continued: true });
+  doc.font("Regular").text(formatDate(bill.irnAckDate));
+
+  if (bill.signedQrCode) {
+    try {
+      drawQrCode(doc, bill.signedQrCode, MARGIN + width - qrSize, top, qrSize);
+    } catch {
+      // A QR payload too long to encode should not stop the invoice from rendering
+    }
+  }
+
+  doc.y = Math.max(doc.y, top + (bill.signedQrCode ? qrSize : 0)) + 8;
+}
+
+function drawPartyAndMeta(doc: Doc, heading: string, party: Customer, meta: [string, string][]) {
+  const width = contentWidth(doc);
+  const half = width / 2 - 10;
+  const top = doc.y;
+
+  doc.font("Bold").fontSize(9).text(heading, MARGIN, top, { width: half });
+  doc.font("Bold").fontSize(10).text(party.name, { width: half });
+  doc.font("Regular").fontSize(8);
+  if (party.address) doc.text(party.address, { width: half });
+  const cityLine = [party.city, party.state, party.pinCode].filter(Boolean).join(", ");
+  if (cityLine) doc.text(cityLine, { width: half });
+  if (party.gstin) doc.text(`GSTIN: ${party.gstin}`, { width: half });
+  if (party.phone) doc.text(`Phone: ${party.phone}`, { width: half });
+  const leftBottom = doc.y;
+
+  doc.y = top;
+  for (const [label, value] of meta) {
+    const y = doc.y;
+    doc.font("Regular").fontSize(8).text(label, MARGIN + width / 2, y, { width: half / 2 });
+    doc.font("Bold").text(value, MARGIN + width / 2 + half / 2, y, { width: half / 2 + 10, align: "right" });
+  }
+
+  doc.y = Math.max(leftBottom, doc.y) + 10;
+}
+
+function drawRow(doc: Doc, columns: Column[], cells: string[], options: { bold?: boolean; fill?: string } = {}) {
+  doc.font(options.bold ? "Bold" : "Regular").fontSize(8);
+  const height = Math.max(
+    ...cells.map((cell, i) => doc.heightOfString(cell, { width: columns[i].width - CELL_PADDING * 2 })),
+  ) + CELL_PADDING * 2;
+
+  const y = doc.y;
+  let x = MARGIN;
+  if (options.fill) {
+    doc.rect(MARGIN, y, columns.reduce((sum, c) => sum + c.width, 0), height).fill(options.fill).fillColor("black");
+  }
+  columns.forEach((column, i) => {
+    doc.rect(x, y, column.width, height).lineWidth(0.5).stroke();
+    doc.text(cells[i], x + CELL_PADDING, y + CELL_PADDING, { width: column.width - CELL_PADDING * 2, align: column.align });
+    x += column.width;
+  });
+  doc.x = MARGIN;
+  doc.y = y + height;
+}
+
+// Fixed widths for the numeric columns; the description column takes the rest
+function buildColumns(doc: Doc, fixed: Omit<Column, "width">[], widths: number[], flexIndex: number): Column[] {
+  const used = widths.reduce((sum, w) => sum + w, 0);
+  return fixed.map((column, i) => ({
+    ...column,
+    width: i === flexIndex ? contentWidth(doc) - used : widths[i],
+  }));
+}
+
+function hasDiscountColumns(lines: TaxLine[]): boolean {
+  return lines.some(line => line.discountAmount !== undefined);
+}
+
+function drawItemsTable(doc: Doc, lines: TaxLine[], isInterState: boolean) {
+  const showDiscount = hasDiscountColumns(lines);
+  const discountColumn = showDiscount ? [{ header: "Discount", align: "right" as const }] : [];
+  const discountWidth = showDiscount ? [55] : [];
+  const columns = isInterState
+    ? buildColumns(doc, [
+        { header: "#", align: "center" },
+        { header: "Item", align: "left" },
+        { header: "Qty", align: "right" },
+        { header: "Rate", align: "right" },
+        ...discountColumn,
+        { header: "Taxable Value", align: "right" },
+        { header: "GST %", align: "right" },
+        { header: "IGST", align: "right" },
+        { header: "Total", align: "right" },
+      ], [20, 0, 35, 60, ...discountWidth, 70, 35, 60, 70], 1)
+    : buildColumns(doc, [
+        { header: "#", align: "center" },
+        { header: "Item", align: "left" },
+        { header: "Qty", align: "right" },
+        { header: "Rate", align: "right" },
+        ...discountColumn,
+        { header: "Taxable Value", align: "right" },
+        { header: "GST %", align: "right" },
+        { header: "CGST", align: "right" },
+        { header: "SGST", align: "right" },
+        { header: "Total", align: "right" },
+      ], [20, 0, 35, 55, ...discountWidth, 65, 35, 55, 55, 65], 1);
+
+  const headerCells = columns.map(c => c.header);
+  drawRow(doc, columns, headerCells, { bold: true, fill: "#eeeeee" });
+
+  lines.forEach((line, index) => {
+    const tax = Number(line.cgstAmount) + Number(line.sgstAmount) + Number(line.igstAmount);
+    const cells = [
+      String(index + 1),
+      `${line.item.name}\nCode: ${line.item.code}${line.hsnCode ? ` | HSN/SAC: ${line.hsnCode}` : ""}`,
+      `${line.quantity} ${line.item.unit}`,
+      formatCurrency(line.rate),
+      ...(showDiscount ? [formatLineDiscount(line)] : []),
+      formatCurrency(line.taxableValue),
+      `${Number(line.gstRate)}%`,
+      ...(isInterState
+        ? [formatCurrency(line.igstAmount)]
+        : [formatCurrency(line.cgstAmount), formatCurrency(line.sgstAmount)]),
+      formatCurrency(round2(Number(line.taxableValue) + tax)),
+    ];
+    if (ensureSpace(doc, 30)) {
+      drawRow(doc, columns, headerCells, { bold: true, fill: "#eeeeee" });
+    }
+    drawRow(doc, columns, cells);
+  });
+  doc.y += 10;
+}
+
+function formatLineDiscount(line: TaxLine): string {
+  const amount = Number(line.discountAmount ?? 0);
+  if (amount <= 0) return "-";
+  return line.discountType === "percent"
+    ? `${formatCurrency(amount)}\n(${Number(line.discountValue)}%)`
+    : formatCurrency(amount);
+}
+
+function drawTaxSummary(doc: Doc, lines: TaxLine[], isInterState: boolean) {
+  const rows = summariseByHsn(lines);
+
+  const width = contentWidth(doc) * 0.55;
+  const columns: Column[] = isInterState
+    ? [
+        { header: "HSN/SAC", width: width * 0.18, align: "left" },
+        { header: "Rate", width: width * 0.12, align: "right" },
+        { header: "Taxable Value", width: width * 0.25, align: "right" },
+        { header: "IGST", width: width * 0.22, align: "right" },
+        { header: "Total Tax", width: width * 0.23, align: "right" },
+      ]
+    : [
+        { header: "HSN/SAC", width: width * 0.16, align: "left" },
+        { header: "Rate", width: width * 0.1, align: "right" },
+        { header: "Taxable Value", width: width * 0.2, align: "right" },
+        { header: "CGST", width: width * 0.18, align: "right" },
+        { header: "SGST", width: width * 0.18, align: "right" },
+        { header: "Total Tax", width: width * 0.18, align: "right" },
+      ];
+
+  ensureSpace(doc, 20 * (rows.length + 2));
+  const top = doc.y;
+  doc.font("Bold").fontSize(9).text("HSN/SAC Summary", MARGIN, top);
+  drawRow(doc, columns, columns.map(c => c.header), { bold: true, fill: "#eeeeee" });
+  for (const row of rows) {
+    drawRow(doc, columns, [
+      row.hsnCode,
+      `${row.gstRate}%`,
+      formatCurrency(row.taxableValue),
+      ...(isInterState ? [formatCurrency(row.igstAmount)] : [formatCurrency(row.cgstAmount), formatCurrency(row.sgstAmount)]),
+      formatCurrency(row.cgstAmount + row.sgstAmount + row.igstAmount),
+    ]);
+  }
+  return top;
+}
+
+function drawTotals(doc: Doc, totals: TaxTotals, lines: TaxLine[], isInterState: boolean, top: number) {
+  const width = contentWidth(doc) * 0.4;
+  const x = MARGIN + contentWidth(doc) - width;
+  const lineDiscount = round2(lines.reduce((sum, line) => sum + Number(line.discountAmount ?? 0), 0));
+  const billDiscount = Number(totals.discountAmount ?? 0);
+  const roundOff = Number(totals.roundOff ?? 0);
+  const rows: [string, string][] = [];
+  if (lineDiscount > 0 || billDiscount > 0) {
+    rows.push(["Gross Amount", formatCurrency(lines.reduce((sum, line) => sum + Number(line.amount ?? line.taxableValue), 0))]);
+    if (lineDiscount > 0) rows.push(["Less: Line Discounts", `-${formatCurrency(lineDiscount)}`]);
+    if (billDiscount > 0) rows.push(["Less: Bill Discount", `-${formatCurrency(billDiscount)}`]);
+  }
+  rows.push(["Taxable Value", formatCurrency(totals.subtotal)]);
+  if (isInterState) {
+    rows.push(["IGST", formatCurrency(totals.igstAmount)]);
+  } else {
+    rows.push(["CGST", formatCurrency(totals.cgstAmount)], ["SGST", formatCurrency(totals.sgstAmount)]);
+  }
+  if (roundOff !== 0) rows.push(["Round Off", `${roundOff > 0 ? "+" : "-"}${formatCurrency(Math.abs(roundOff))}`]);
+
+  const summaryBottom = doc.y;
+  doc.y = top;
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font("Regular").fontSize(9).text(label, x, y, { width: width / 2 });
+    doc.text(value, x + width / 2, y, { width: width / 2, align: "right" });
+  }
+  const y = doc.y + 4;
+  doc.moveTo(x, y).lineTo(x + width, y).lineWidth(1).stroke();
+  doc.font("Bold").fontSize(11).text("Total", x, y + 4, { width: width / 2 });
+  doc.text(formatCurrency(totals.total), x + width / 2, y + 4, { width: width / 2, align: "right" });
+
+  doc.x = MARGIN;
+  doc.y = Math.max(summaryBottom, doc.y) + 10;
+  doc.font("Bold").fontSize(9).text("Amount in words: ", MARGIN, doc.y, { continued: true });
+  doc.font("Regular").text(amountInWords(Number(totals.total)));
+  doc.y += 10;
+}
+
+function drawFooter(doc: Doc, company: CompanySettings | undefined, documentName: string, terms = company?.invoiceTerms) {
+  const width = contentWidth(doc);
+  const half = width / 2 - 10;
+  ensureSpace(doc, 110);
+  const top = doc.y;
+
+  doc.moveTo(MARGIN, top).lineTo(MARGIN + width, top).lineWidth(0.5).stroke();
+  doc.y = top + 6;
+  if (company?.bankAccountNumber) {
+    doc.font("Bold").fontSize(8).text("Bank Details", MARGIN, doc.y, { width: half });
+    doc.font("Regular");
+    if (company.bankAccountName) doc.text(`A/c Name: ${company.bankAccountName}`, { width: half });
+    if (company.bankName) doc.text(`Bank: ${company.bankName}${company.bankBranch ? `, ${company.bankBranch}` : ""}`, { width: half });
+    doc.text(`A/c No: ${company.bankAccountNumber}`, { width: half });
+    if (company.bankIfsc) doc.text(`IFSC: ${company.bankIfsc}`, { width: half });
+    doc.moveDown(0.5);
+  }
+  if (terms) {
+    doc.font("Bold").fontSize(8).text("Terms & Conditions", MARGIN, doc.y, { width: half });
+    doc.font("Regular").fontSize(7).text(terms, { width: half });
+  }
+  const leftBottom = doc.y;
+
+  const signX = MARGIN + width / 2 + 10;
+  doc.font("Bold").fontSize(9).text(`For ${company?.legalName ?? "the supplier"}`, signX, top + 6, { width: half, align: "right" });
+  doc.font("Regular").fontSize(8);
+  doc.text(company?.signatoryName ?? "", signX, top + 70, { width: half, align: "right" });
+  doc.text(company?.signatoryDesignation || "Authorised Signatory", { width: half, align: "right" });
+
+  doc.x = MARGIN;
+  doc.y = Math.max(leftBottom, doc.y) + 10;
+  doc.font("Regular").fontSize(7).text(`This is a computer generated ${documentName}.`, MARGIN, doc.y, { width, align: "center" });
+}
+
+function startDocument(title: string, company: CompanySettings | undefined) {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: title, Author: company?.legalName ?? "" },
+  });
+  doc.registerFont("Regular", FONT_REGULAR);
+  doc.registerFont("Bold", FONT_BOLD);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+  return { doc, done };
+}
+
+function placeOfSupplyLabel(code: string): string {
+  return `${getStateName(code)} (${code})`;
+}
+
+export function renderInvoicePdf(bill: BillWithDetails, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Tax Invoice ${bill.billNumber}`, company);
+
+  const isCancelled = bill.status === "cancelled";
+  const isInterState = Number(bill.igstAmount) > 0;
+  const meta: [string, string][] = [
+    ["Invoice No", bill.billNumber],
+    ["Invoice Date", formatDate(bill.billDate)],
+  ];
+  if (bill.dueDate) meta.push(["Due Date", formatDate(bill.dueDate)]);
+  if (bill.placeOfSupply) meta.push(["Place of Supply", placeOfSupplyLabel(bill.placeOfSupply)]);
+  if (bill.ewbNumber) meta.push(["E-Way Bill No", bill.ewbNumber]);
+  if (bill.vehicleNumber) meta.push(["Vehicle No", bill.vehicleNumber]);
+
+  drawHeader(doc, company, "TAX INVOICE");
+  if (bill.irn) drawEInvoiceDetails(doc, bill);
+  if (isCancelled) drawCancellationNote(doc, bill);
+  drawPartyAndMeta(doc, "Bill To", bill.customer, meta);
+  drawItemsTable(doc, bill.billItems, isInterState);
+  const summaryTop = drawTaxSummary(doc, bill.billItems, isInterState);
+  drawTotals(doc, bill, bill.billItems, isInterState, summaryTop);
+  drawFooter(doc, company, "invoice");
+  if (isCancelled) drawWatermark(doc, "CANCELLED");
+
+  doc.end();
+  return done;
+}
+
+export function renderCreditNotePdf(creditNote: CreditNoteWithDetails, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Credit Note ${creditNote.creditNoteNumber}`, company);
+
+  const isInterState = Number(creditNote.igstAmount) > 0;
+  const meta: [string, string][] = [
+    ["Credit Note No", creditNote.creditNoteNumber],
+    ["Credit Note Date", formatDate(creditNote.creditNoteDate)],
+    ["Against Invoice", creditNote.bill.billNumber],
+    ["Invoice Date", formatDate(creditNote.bill.billDate)],
+  ];
+  if (creditNote.placeOfSupply) meta.push(["Place of Supply", placeOfSupplyLabel(creditNote.placeOfSupply)]);
+
+  drawHeader(doc, company, "CREDIT NOTE");
+  drawPartyAndMeta(doc, "Credit To", creditNote.customer, meta);
+  doc.font("Bold").fontSize(9).text("Reason: ", MARGIN, doc.y, { continued: true });
+  doc.font("Regular").text(creditNote.reason);
+  doc.y += 8;
+  drawItemsTable(doc, creditNote.creditNoteItems, isInterState);
+  const summaryTop = drawTaxSummary(doc, creditNote.creditNoteItems, isInterState);
+  drawTotals(doc, creditNote, creditNote.creditNoteItems, isInterState, summaryTop);
+  drawFooter(doc, company, "credit note");
+
+  doc.end();
+  return done;
+}
+
+// Quotations carry their own terms, falling back to the invoice terms
+export function renderQuotationPdf(quotation: QuotationWithDetails, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Quotation ${quotation.quotationNumber}`, company);
+
+  const isInterState = Number(quotation.igstAmount) > 0;
+  const meta: [string, string][] = [
+    ["Quotation No", quotation.quotationNumber],
+    ["Quotation Date", formatDate(quotation.quotationDate)],
+    ["Valid Until", formatDate(quotation.validUntil)],
+  ];
+  if (quotation.placeOfSupply) meta.push(["Place of Supply", placeOfSupplyLabel(quotation.placeOfSupply)]);
+
+  drawHeader(doc, company, "QUOTATION");
+  drawPartyAndMeta(doc, "Quoted To", quotation.customer, meta);
+  drawItemsTable(doc, quotation.quotationItems, isInterState);
+  const summaryTop = drawTaxSummary(doc, quotation.quotationItems, isInterState);
+  drawTotals(doc, quotation, quotation.quotationItems, isInterState, summaryTop);
+  drawFooter(doc, company, "quotation", quotation.terms || company?.invoiceTerms);
+  if (quotation.status === "expired") drawWatermark(doc, "EXPIRED");
+
+  doc.end();
+  return done;
+}
+
+function drawSectionTable(doc: Doc, title: string, headers: string[], widths: number[], rows: string[][]) {
+  const columns = buildColumns(
+    doc,
+    headers.map((header, i) => ({ header, align: i === 0 ? "left" as const : "right" as const })),
+    widths,
+    0,
+  );
+  ensureSpace(doc, 20 * (rows.length + 2) + 14);
+  doc.font("Bold").fontSize(9).text(title, MARGIN, doc.y);
+  doc.y += 2;
+  drawRow(doc, columns, headers, { bold: true, fill: "#eeeeee" });
+  rows.forEach(row => drawRow(doc, columns, row));
+  doc.y += 12;
+}
+
+export function renderGstr3bPdf(report: Gstr3bReport, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`GSTR-3B ${report.period}`, company);
+  const width = contentWidth(doc);
+  const [year, month] = report.period.split("-").map(Number);
+  const periodLabel = new Date(year, month - 1, 1).toLocaleDateString("en-IN", { month: "long", year: "numeric" });
+  const heads = Object.keys(TAX_HEADS) as TaxHead[];
+
+  drawHeader(doc, company, "GSTR-3B");
+  doc.font("Regular").fontSize(9).text(`Tax period: ${periodLabel}    GSTIN: ${report.gstin || "not configured"}`, MARGIN, doc.y, { width });
+  doc.y += 10;
+
+  const supplyRow = (label: string, totals: Gstr3bReport["outwardTaxable"]) =>
+    [label, formatCurrency(totals.taxableValue), formatCurrency(totals.igst), formatCurrency(totals.cgst), formatCurrency(totals.sgst), formatCurrency(0)];
+  drawSectionTable(doc, "3.1 Outward supplies and inward supplies liable to reverse charge",
+    ["Nature of supplies", "Taxable Value", "Integrated Tax", "Central Tax", "State/UT Tax", "Cess"],
+    [0, 75, 70, 70, 70, 45],
+    [
+      supplyRow("(a) Outward taxable supplies (other than zero rated, nil rated and exempted)", report.outwardTaxable),
+      supplyRow("(c) Other outward supplies (nil rated, exempted)", report.outwardNilRated),
+    ]);
+
+  drawSectionTable(doc, "3.2 Inter-state supplies made to unregistered persons",
+    ["Place of Supply", "Taxable Value", "Integrated Tax"],
+    [0, 100, 100],
+    report.interStateUnregistered.length > 0
+      ? report.interStateUnregistered.map(row => [placeOfSupplyLabel(row.placeOfSupply), formatCurrency(row.taxableValue), formatCurrency(row.igst)])
+      : [["None", formatCurrency(0), formatCurrency(0)]]);
+
+  const available = report.itc.available;
+  const itcRow = (label: string) => [label, ...heads.map(head => formatCurrency(available[head])), formatCurrency(0)];
+  drawSectionTable(doc, "4. Eligible ITC",
+    ["Details", "Integrated Tax", "Central Tax", "State/UT Tax", "Cess"],
+    [0, 80, 80, 80, 50],
+    [
+      itcRow(`(A)(5) All other ITC (${report.itc.purchases} purchase${report.itc.purchases === 1 ? "" : "s"})`),
+      itcRow("(C) Net ITC available"),
+    ]);
+
+  drawSectionTable(doc, "6.1 Payment of tax",
+    ["Description", "Tax Payable", "Paid via IGST ITC", "Paid via CGST ITC", "Paid via SGST ITC", "Paid in Cash"],
+    [0, 70, 75, 75, 75, 70],
+    report.payment.rows.map(row => [
+      TAX_HEADS[row.head],
+      formatCurrency(row.payable),
+      ...heads.map(head => formatCurrency(row.paidThroughCredit[head])),
+      formatCurrency(row.paidInCash),
+    ]));
+
+  ensureSpace(doc, 40);
+  const carried = report.payment.creditCarriedForward;
+  doc.font("Regular").fontSize(9).text(
+    `Credit carried forward: IGST ${formatCurrency(carried.igst)}, CGST ${formatCurrency(carried.cgst)}, SGST ${formatCurrency(carried.sgst)}`,
+    MARGIN, doc.y, { width },
+  );
+  doc.font("Bold").fontSize(11).text(`Tax payable in cash: ${formatCurrency(report.payment.totalCash)}`, MARGIN, doc.y + 4, { width });
+  doc.font("Regular").fontSize(7).text(
+    "Computed from the bills, credit notes and purchases recorded for the period. Verify against the return on the GST portal before filing.",
+    MARGIN, doc.y + 10, { width, align: "center" },
+  );
+
+  doc.end();
+  return done;
+}
+
+function formatBalance(balance: number): string {
+  return `${formatCurrency(Math.abs(balance))} ${formatBalanceSide(balance)}`.trim();
+}
+
+export function renderCustomerStatementPdf(statement: CustomerStatement, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Statement of Account - ${statement.customer.name}`, company);
+  const width = contentWidth(doc);
+
+  drawHeader(doc, company, "STATEMENT OF ACCOUNT");
+  drawPartyAndMeta(doc, "Statement for", statement.customer, [
+    ["Period", `${formatDate(statement.from)} to ${formatDate(statement.to)}`],
+    ["Opening Balance", formatBalance(statement.openingBalance)],
+    ["Closing Balance", formatBalance(statement.closingBalance)],
+  ]);
+
+  const columns = buildColumns(doc, [
+    { header: "Date", align: "left" },
+    { header: "Type", align: "left" },
+    { header: "Document", align: "left" },
+    { header: "Particulars", align: "left" },
+    { header: "Debit", align: "right" },
+    { header: "Credit", align: "right" },
+    { header: "Balance", align: "right" },
+  ], [58, 62, 80, 0, 65, 65, 75], 3);
+  const drawHeadings = () => drawRow(doc, columns, columns.map(column => column.header), { bold: true, fill: "#eeeeee" });
+
+  drawHeadings();
+  drawRow(doc, columns, [formatDate(statement.from), "", "", "Opening balance", "", "", formatBalance(statement.openingBalance)]);
+  for (const line of statement.lines) {
+    if (ensureSpace(doc, 30)) drawHeadings();
+    drawRow(doc, columns, [
+      formatDate(line.date),
+      STATEMENT_ENTRY_TYPES[line.type],
+      line.documentNumber,
+      line.description,
+      line.debit ? formatCurrency(line.debit) : "",
+      line.credit ? formatCurrency(line.credit) : "",
+      formatBalance(line.balance),
+    ]);
+  }
+  drawRow(doc, columns, [
+    "", "", "", "Total for the period",
+    formatCurrency(statement.totalDebits),
+    formatCurrency(statement.totalCredits),
+    formatBalance(statement.closingBalance),
+  ], { bold: true });
+
+  ensureSpace(doc, 40);
+  doc.y += 10;
+  doc.font("Bold").fontSize(10).text(
+    statement.closingBalance > 0
+      ? `Amount due: ${formatCurrency(statement.closingBalance)}`
+      : statement.closingBalance < 0 ? `Advance held: ${formatCurrency(-statement.closingBalance)}` : "Nothing is due",
+    MARGIN, doc.y, { width, align: "right" },
+  );
+  doc.font("Regular").fontSize(7).text(
+    "Please report any difference within 15 days of receiving this statement. This is a computer generated statement.",
+    MARGIN, doc.y + 10, { width, align: "center" },
+  );
+
+  doc.end();
+  return done;
+}
+
+interface StatementRow {
+  cells: string[];
+  bold?: boolean;
+  fill?: string;
+}
+
+// Column headings are repeated at the top of every page the table runs onto
+function drawStatementTable(doc: Doc, columns: Column[], rows: StatementRow[]) {
+  const drawHeadings = () => drawRow(doc, columns, columns.map(column => column.header), { bold: true, fill: "#eeeeee" });
+  drawHeadings();
+  for (const row of rows) {
+    if (ensureSpace(doc, 30)) drawHeadings();
+    drawRow(doc, columns, row.cells, { bold: row.bold, fill: row.fill });
+  }
+}
+
+// A group heading with its total, then its accounts indented beneath it
+function statementGroupRows(groups: StatementGroup[], amounts: (amount: StatementGroup["total"]) => string[]): StatementRow[] {
+  return groups.flatMap(group => [
+    { cells: [group.label, ...amounts(group.total)], bold: true },
+    ...group.accounts.map(account => ({
+      cells: [`    ${account.code ? `${account.code} ` : ""}${account.name}`, ...amounts(account.amount)],
+    })),
+  ]);
+}
+
+function drawStatementFooter(doc: Doc, note: string) {
+  ensureSpace(doc, 30);
+  doc.font("Regular").fontSize(7).text(note, MARGIN, doc.y + 10, { width: contentWidth(doc), align: "center" });
+}
+
+export function renderTrialBalancePdf(report: TrialBalance, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Trial Balance as at ${formatDate(report.asOf)}`, company);
+
+  drawHeader(doc, company, "TRIAL BALANCE");
+  doc.font("Regular").fontSize(9).text(`As at ${formatDate(report.asOf)}`, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.y += 10;
+
+  const columns = buildColumns(doc, [
+    { header: "Code", align: "left" },
+    { header: "Account", align: "left" },
+    { header: "Group", align: "left" },
+    { header: "Debit", align: "right" },
+    { header: "Credit", align: "right" },
+  ], [45, 0, 130, 80, 80], 1);
+  drawStatementTable(doc, columns, [
+    ...report.rows.map(row => ({
+      cells: [
+        row.code,
+        row.name,
+        ACCOUNT_GROUPS[row.group].label,
+        row.debit ? formatCurrency(row.debit) : "",
+        row.credit ? formatCurrency(row.credit) : "",
+      ],
+    })),
+    { cells: ["", "Total", "", formatCurrency(report.totalDebit), formatCurrency(report.totalCredit)], bold: true, fill: "#f5f5f5" },
+  ]);
+
+  drawStatementFooter(doc, "Closing balances of every account with postings up to the date shown. This is a computer generated statement.");
+  doc.end();
+  return done;
+}
+
+export function renderProfitAndLossPdf(report: ProfitAndLoss, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Profit and Loss ${formatDate(report.from)} to ${formatDate(report.to)}`, company);
+
+  drawHeader(doc, company, "STATEMENT OF PROFIT AND LOSS");
+  doc.font("Regular").fontSize(9).text(
+    `For the period ${formatDate(report.from)} to ${formatDate(report.to)}, compared with ${formatDate(report.priorFrom)} to ${formatDate(report.priorTo)}`,
+    MARGIN, doc.y, { width: contentWidth(doc) },
+  );
+  doc.y += 10;
+
+  const amounts = (amount: StatementGroup["total"]) => [formatCurrency(amount.current), formatCurrency(amount.prior)];
+  const columns = buildColumns(doc, [
+    { header: "Particulars", align: "left" },
+    { header: "Current Period", align: "right" },
+    { header: "Previous Period", align: "right" },
+  ], [0, 100, 100], 0);
+  const profitLabel = report.netProfit.current >= 0 ? "Profit for the period" : "Loss for the period";
+  drawStatementTable(doc, columns, [
+    { cells: ["Income", "", ""], bold: true, fill: "#f5f5f5" },
+    ...statementGroupRows(report.income, amounts),
+    { cells: ["Total income", ...amounts(report.totalIncome)], bold: true },
+    { cells: ["Expenses", "", ""], bold: true, fill: "#f5f5f5" },
+    ...statementGroupRows(report.expenses, amounts),
+    { cells: ["Total expenses", ...amounts(report.totalExpenses)], bold: true },
+    { cells: [profitLabel, ...amounts(report.netProfit)], bold: true, fill: "#eeeeee" },
+  ]);
+
+  drawStatementFooter(doc, "Drawn up from the general ledger. Figures are before income tax unless a provision has been posted.");
+  doc.end();
+  return done;
+}
+
+export function renderBalanceSheetPdf(report: BalanceSheet, company: CompanySettings | undefined): Promise<Buffer> {
+  const { doc, done } = startDocument(`Balance Sheet as at ${formatDate(report.asOf)}`, company);
+
+  drawHeader(doc, company, "BALANCE SHEET");
+  doc.font("Regular").fontSize(9).text(`As at ${formatDate(report.asOf)}`, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.y += 10;
+
+  const amount = (value: StatementGroup["total"]) => [formatCurrency(value.current)];
+  const columns = buildColumns(doc, [
+    { header: "Particulars", align: "left" },
+    { header: "Amount", align: "right" },
+  ], [0, 110], 0);
+  const rows = [report.equityAndLiabilities, report.assets].flatMap((side): StatementRow[] => [
+    { cells: [side.label, ""], bold: true, fill: "#f5f5f5" },
+    ...side.headings.flatMap(heading => [
+      { cells: [heading.label, formatCurrency(heading.total)], bold: true },
+      ...statementGroupRows(heading.groups, amount).map(row => ({ ...row, cells: [`  ${row.cells[0]}`, ...row.cells.slice(1)] })),
+    ]),
+    { cells: [`Total ${side.label.toLowerCase()}`, formatCurrency(side.total)], bold: true, fill: "#eeeeee" },
+  ]);
+  drawStatementTable(doc, columns, rows);
+
+  if (report.difference !== 0) {
+    ensureSpace(doc, 20);
+    doc.font("Bold").fontSize(9).fillColor("#dc2626").text(
+      `Assets differ from equity and liabilities by ${formatCurrency(report.difference)}`,
+      MARGIN, doc.y + 8, { width: contentWidth(doc) },
+    );
+    doc.fillColor("black");
+  }
+  drawStatementFooter(doc, "Prepared in the Schedule III format from the general ledger. This is a computer generated statement.");
+  doc.end();
+  return done;
+}
+
+// Document numbers may contain "/" once numbering series are configured
+export function pdfFileName(documentNumber: string): string {
+  return `${documentNumber.replace(/[^A-Za-z0-9._-]+/g, "_")}.pdf`;
+}
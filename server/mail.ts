@@ -0,0 +1,87 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { log } from "./vite";
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: { filename: string; content: Buffer }[];
+}
+
+// Anything that can deliver a message. Picked once from the environment by
+// getMailTransport().
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(env: NodeJS.ProcessEnv) {
+    const port = parseInt(env.SMTP_PORT || "587", 10);
+    this.transporter = nodemailer.createTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+      auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message as an .eml file that any mail client can open
+class FileTransport implements MailTransport {
+  readonly name = "file";
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail(message);
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+    await writeFile(path.join(this.directory, fileName), info.message as Buffer);
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    const attachments = message.attachments?.map(attachment => attachment.filename).join(", ");
+    log(`to ${message.to}: ${message.subject}${attachments ? ` [${attachments}]` : ""}\n${message.text}`, "mail");
+  }
+}
+
+// MAIL_TRANSPORT chooses explicitly; otherwise SMTP is used once a host is set
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? "smtp" : "console");
+  switch (kind) {
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set to send mail over SMTP");
+      }
+      return new SmtpTransport(env);
+    case "file":
+      return new FileTransport(env.MAIL_DIR || path.resolve("mail-outbox"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; use smtp, file or console`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
@@ -0,0 +1,102 @@
+import { storage } from "./storage";
+import { getMailTransport } from "./mail";
+import { renderInvoicePdf, pdfFileName } from "./invoicePdf";
+import { BusinessRuleError } from "./errors";
+import type { BillReminderWithRule, BillWithDetails, CompanySettings, ReminderRule } from "@shared/schema";
+import { OPEN_BILL_STATUSES, type BillStatus } from "@shared/billStatus";
+import { getDaysFromDue, renderReminderTemplate, type ReminderValues } from "@shared/reminders";
+import { formatCurrency } from "@shared/currency";
+
+function formatDate(date: Date | string | null) {
+  return date ? new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" }) : "";
+}
+
+export function getReminderValues(bill: BillWithDetails, company: CompanySettings | undefined, now = new Date()): ReminderValues {
+  return {
+    customerName: bill.customer.name,
+    billNumber: bill.billNumber,
+    billDate: formatDate(bill.billDate),
+    dueDate: formatDate(bill.dueDate),
+    total: formatCurrency(bill.total),
+    amountDue: formatCurrency(bill.balanceDue),
+    daysOverdue: String(bill.dueDate ? Math.max(0, getDaysFromDue(bill.dueDate, now)) : 0),
+    companyName: company?.tradeName || company?.legalName || "",
+  };
+}
+
+// Records the reminder before sending it; when the row is already there the
+// reminder has been handled and nothing is sent
+async function deliverReminder(
+  bill: BillWithDetails,
+  rule: ReminderRule,
+  scheduledFor: Date,
+  sentBy?: string,
+): Promise<"sent" | "failed" | "skipped"> {
+  const company = await storage.getCompanySettings();
+  const values = getReminderValues(bill, company);
+  const subject = renderReminderTemplate(rule.subject, values);
+  const body = renderReminderTemplate(rule.body, values);
+  const transport = getMailTransport();
+
+  const reminder = await storage.claimBillReminder({
+    billId: bill.id,
+    ruleId: rule.id,
+    scheduledFor,
+    recipient: bill.customer.email || null,
+    subject,
+    body,
+    transport: transport.name,
+    sentBy,
+  });
+  if (!reminder) return "skipped";
+
+  const from = process.env.MAIL_FROM || company?.email;
+  let error: string | undefined;
+  if (!bill.customer.email) {
+    error = `${bill.customer.name} has no email address`;
+  } else if (!from) {
+    error = "Set a company email in Settings (or MAIL_FROM) to send reminders from";
+  } else {
+    try {
+      await transport.send({
+        from,
+        to: bill.customer.email,
+        subject,
+        text: body,
+        attachments: [{ filename: pdfFileName(bill.billNumber), content: await renderInvoicePdf(bill, company) }],
+      });
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+  }
+
+  await storage.recordBillReminderResult(reminder.id, error ? "failed" : "sent", error);
+  return error ? "failed" : "sent";
+}
+
+export async function sendDueReminders(now = new Date()): Promise<{ sent: number; failed: number }> {
+  const counts = { sent: 0, failed: 0 };
+  for (const { bill, rule, scheduledFor } of await storage.getRemindersDue(now)) {
+    const result = await deliverReminder(bill, rule, scheduledFor);
+    if (result !== "skipped") counts[result]++;
+  }
+  return counts;
+}
+
+// Sends a rule's reminder straight away, whatever its timing
+export async function sendBillReminderNow(billId: string, ruleId: string, userId: string): Promise<BillReminderWithRule[]> {
+  const bill = await storage.getBill(billId);
+  if (!bill) {
+    throw new BusinessRuleError("Bill not found", 404);
+  }
+  if (!OPEN_BILL_STATUSES.includes(bill.status as BillStatus) || Number(bill.balanceDue) <= 0) {
+    throw new BusinessRuleError("Reminders can only be sent for bills with a balance due");
+  }
+  const rule = await storage.getReminderRule(ruleId);
+  if (!rule) {
+    throw new BusinessRuleError("Reminder rule not found", 404);
+  }
+
+  await deliverReminder(bill, rule, new Date(), userId);
+  return storage.getBillReminders(billId);
+}
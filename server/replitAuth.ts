@@ -155,3 +155,22 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return;
   }
 };
+
+// Must run after isAuthenticated
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  let dbUser;
+  try {
+    dbUser = await storage.getUser(user.claims.sub);
+  } catch (error) {
+    console.error("Error checking admin role:", error);
+    return res.status(500).json({ message: "Failed to check permissions" });
+  }
+
+  if (dbUser?.role !== "admin") {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  return next();
+};
@@ -1,7 +1,21 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import { renderInvoicePdf, renderCreditNotePdf, renderQuotationPdf, renderGstr3bPdf, renderCustomerStatementPdf,
+  renderTrialBalancePdf, renderProfitAndLossPdf, renderBalanceSheetPdf, pdfFileName } from "./invoicePdf";
+import { buildEInvoice, eInvoiceFileName } from "./einvoice";
+import { buildBillEWayBill, buildChallanEWayBill, eWayBillFileName } from "./ewaybill";
+import { BusinessRuleError } from "./errors";
+import { sendBillReminderNow } from "./reminders";
+import archiver from "archiver";
+import { z } from "zod";
+import { eInvoiceSchema } from "@shared/einvoice";
+import { eWayBillUploadSchema, recordEWayBillSchema, transportDetailsSchema } from "@shared/ewaybill";
+import { GSTR1_PERIOD_REGEX, buildGstr1, getFilingPeriod, getPeriodRange, toGstr1Json } from "@shared/gstr1";
+import { buildGstr3b } from "@shared/gstr3b";
+import { JOURNAL_SOURCES, type JournalSource } from "@shared/ledger";
+import { buildBalanceSheet, buildProfitAndLoss, buildTrialBalance, getPriorPeriod } from "@shared/financialStatements";
 import {
   insertItemSchema,
   insertCustomerSchema,
@@ -11,6 +25,35 @@ import {
   insertBillItemSchema,
   insertPurchaseSchema,
   insertPurchaseItemSchema,
+  insertCompanySettingsSchema,
+  insertDocumentSeriesSchema,
+  insertPaymentSchema,
+  insertPaymentAllocationSchema,
+  insertVendorPaymentSchema,
+  insertVendorPaymentAllocationSchema,
+  cancelBillSchema,
+  recordBillIrnSchema,
+  insertCreditNoteSchema,
+  insertCreditNoteItemSchema,
+  insertQuotationSchema,
+  insertQuotationItemSchema,
+  updateQuotationStatusSchema,
+  insertSalesOrderSchema,
+  insertSalesOrderItemSchema,
+  insertDeliveryChallanSchema,
+  insertDeliveryChallanItemSchema,
+  invoiceChallansSchema,
+  importGstr2bSchema,
+  linkGstr2bEntrySchema,
+  flagVendorSchema,
+  insertRecurringInvoiceSchema,
+  insertRecurringInvoiceItemSchema,
+  insertReminderRuleSchema,
+  sendBillReminderSchema,
+  insertLedgerAccountSchema,
+  updateLedgerAccountSchema,
+  insertJournalEntrySchema,
+  insertJournalLineSchema,
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -50,6 +93,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/dashboard/payables-due', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getPayablesDue());
+    } catch (error) {
+      console.error("Error fetching payables due:", error);
+      res.status(500).json({ message: "Failed to fetch payables due" });
+    }
+  });
+
   app.get('/api/dashboard/top-selling-items', isAuthenticated, async (req, res) => {
     try {
       const items = await storage.getTopSellingItems();
@@ -60,6 +112,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/analytics/payment-modes', isAuthenticated, async (req, res) => {
+    const range = z.object({ from: z.coerce.date(), to: z.coerce.date() }).safeParse(req.query);
+    if (!range.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(range.data.to);
+      to.setHours(23, 59, 59, 999);
+      const summary = await storage.getPaymentModeSummary(range.data.from, to);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching payment mode summary:", error);
+      res.status(500).json({ message: "Failed to fetch payment mode summary" });
+    }
+  });
+
+  app.get('/api/analytics/discounts', isAuthenticated, async (req, res) => {
+    const range = z.object({ from: z.coerce.date(), to: z.coerce.date() }).safeParse(req.query);
+    if (!range.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(range.data.to);
+      to.setHours(23, 59, 59, 999);
+      const summary = await storage.getBillDiscountSummary(range.data.from, to);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching discount summary:", error);
+      res.status(500).json({ message: "Failed to fetch discount summary" });
+    }
+  });
+
+  // Reports routes
+  app.get('/api/reports/hsn-summary', isAuthenticated, async (req, res) => {
+    const range = z.object({ from: z.coerce.date(), to: z.coerce.date() }).safeParse(req.query);
+    if (!range.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(range.data.to);
+      to.setHours(23, 59, 59, 999);
+      const summary = await storage.getHsnSummary(range.data.from, to);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching HSN summary:", error);
+      res.status(500).json({ message: "Failed to fetch HSN summary" });
+    }
+  });
+
+  app.get('/api/reports/itc-register', isAuthenticated, async (req, res) => {
+    const query = z.object({
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+      vendorId: z.string().min(1).optional(),
+    }).safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(query.data.to);
+      to.setHours(23, 59, 59, 999);
+      const register = await storage.getItcRegister(query.data.from, to, query.data.vendorId);
+      res.json(register);
+    } catch (error) {
+      console.error("Error fetching ITC register:", error);
+      res.status(500).json({ message: "Failed to fetch ITC register" });
+    }
+  });
+
+  // Open bills aged by days past due, as of today unless asOf is given
+  app.get('/api/reports/receivables-aging', isAuthenticated, async (req, res) => {
+    const query = z.object({
+      asOf: z.coerce.date().optional(),
+      createdBy: z.string().min(1).optional(),
+      city: z.string().min(1).optional(),
+      state: z.string().min(1).optional(),
+    }).safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid aging report filters" });
+    }
+    try {
+      const { asOf, ...filters } = query.data;
+      res.json(await storage.getReceivablesAging(asOf ?? new Date(), filters));
+    } catch (error) {
+      console.error("Error fetching receivables aging:", error);
+      res.status(500).json({ message: "Failed to fetch receivables aging" });
+    }
+  });
+
+  app.get('/api/reports/payables-aging', isAuthenticated, async (req, res) => {
+    const query = z.object({
+      asOf: z.coerce.date().optional(),
+      vendorId: z.string().min(1).optional(),
+    }).safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid aging report filters" });
+    }
+    try {
+      res.json(await storage.getPayablesAging(query.data.asOf ?? new Date(), query.data.vendorId));
+    } catch (error) {
+      console.error("Error fetching payables aging:", error);
+      res.status(500).json({ message: "Failed to fetch payables aging" });
+    }
+  });
+
+  // GST return routes. The period is a calendar month, YYYY-MM.
+  const loadGstr1 = async (period: string) => {
+    const { from, to } = getPeriodRange(period);
+    const [bills, creditNotes, company] = await Promise.all([
+      storage.getBillsByDateRange(from, to),
+      storage.getCreditNotesByDateRange(from, to),
+      storage.getCompanySettings(),
+    ]);
+    return buildGstr1(period, bills, creditNotes, company);
+  };
+
+  const periodQuerySchema = z.object({ period: z.string().regex(GSTR1_PERIOD_REGEX) });
+
+  app.get('/api/returns/gstr1', isAuthenticated, async (req, res) => {
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "period must be a month in YYYY-MM format" });
+    }
+    try {
+      res.json(await loadGstr1(query.data.period));
+    } catch (error) {
+      console.error("Error building GSTR-1:", error);
+      res.status(500).json({ message: "Failed to build GSTR-1" });
+    }
+  });
+
+  // Offline tool JSON; ?download=1 sends it as a file
+  app.get('/api/returns/gstr1/json', isAuthenticated, async (req, res) => {
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "period must be a month in YYYY-MM format" });
+    }
+    try {
+      const report = await loadGstr1(query.data.period);
+      if (!report.gstin) {
+        return res.status(400).json({ message: "Add your company GSTIN in Settings before exporting GSTR-1" });
+      }
+      const errors = report.issues.filter(issue => issue.severity === "error");
+      if (errors.length > 0) {
+        return res.status(422).json({
+          message: `Fix ${errors.length} issue(s) before exporting: ` +
+            errors.map(issue => `${issue.documentNumber}: ${issue.message}`).join("; "),
+          validationErrors: errors,
+        });
+      }
+      if (req.query.download) {
+        res.attachment(`GSTR1_${report.gstin}_${getFilingPeriod(report.period)}.json`);
+      }
+      res.json(toGstr1Json(report));
+    } catch (error) {
+      console.error("Error exporting GSTR-1:", error);
+      res.status(500).json({ message: "Failed to export GSTR-1" });
+    }
+  });
+
+  const loadGstr3b = async (period: string) => {
+    const { from, to } = getPeriodRange(period);
+    const [bills, creditNotes, inputTaxCredit, company] = await Promise.all([
+      storage.getBillsByDateRange(from, to),
+      storage.getCreditNotesByDateRange(from, to),
+      storage.getInputTaxCredit(from, to),
+      storage.getCompanySettings(),
+    ]);
+    return { report: buildGstr3b(period, bills, creditNotes, inputTaxCredit, company), company };
+  };
+
+  app.get('/api/returns/gstr3b', isAuthenticated, async (req, res) => {
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "period must be a month in YYYY-MM format" });
+    }
+    try {
+      const { report } = await loadGstr3b(query.data.period);
+      res.json(report);
+    } catch (error) {
+      console.error("Error building GSTR-3B:", error);
+      res.status(500).json({ message: "Failed to build GSTR-3B" });
+    }
+  });
+
+  app.get('/api/returns/gstr3b/pdf', isAuthenticated, async (req, res) => {
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "period must be a month in YYYY-MM format" });
+    }
+    try {
+      const { report, company } = await loadGstr3b(query.data.period);
+      const pdf = await renderGstr3bPdf(report, company);
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="GSTR3B_${getFilingPeriod(report.period)}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating GSTR-3B PDF:", error);
+      res.status(500).json({ message: "Failed to generate GSTR-3B PDF" });
+    }
+  });
+
+  app.get('/api/returns/gstr2b', isAuthenticated, async (req, res) => {
+    const query = periodQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "period must be a month in YYYY-MM format" });
+    }
+    try {
+      res.json(await storage.getGstr2bReconciliation(query.data.period));
+    } catch (error) {
+      console.error("Error fetching GSTR-2B reconciliation:", error);
+      res.status(500).json({ message: "Failed to fetch GSTR-2B reconciliation" });
+    }
+  });
+
+  // The browser parses the portal's JSON or Excel file and sends the invoices
+  app.post('/api/returns/gstr2b', isAuthenticated, async (req: any, res) => {
+    try {
+      const statement = importGstr2bSchema.parse(req.body);
+      const reconciliation = await storage.importGstr2b(statement, req.user.claims.sub);
+      res.status(201).json(reconciliation);
+    } catch (error) {
+      console.error("Error importing GSTR-2B:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid GSTR-2B data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to import GSTR-2B" });
+      }
+    }
+  });
+
+  app.post('/api/returns/gstr2b/entries/:id/link', isAuthenticated, async (req: any, res) => {
+    try {
+      const link = linkGstr2bEntrySchema.parse(req.body);
+      res.json(await storage.linkGstr2bEntry(req.params.id, link, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error linking GSTR-2B entry:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid link", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to link GSTR-2B entry" });
+      }
+    }
+  });
+
+  app.post('/api/returns/gstr2b/entries/:id/flag-vendor', isAuthenticated, async (req: any, res) => {
+    try {
+      const { note } = flagVendorSchema.parse(req.body);
+      res.json(await storage.flagGstr2bVendor(req.params.id, note, req.user.claims.sub));
+    } catch (error) {
+      console.error("Error flagging vendor:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid flag", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to flag vendor" });
+      }
+    }
+  });
+
   // Items routes
   app.get('/api/items', isAuthenticated, async (req, res) => {
     try {
@@ -97,7 +415,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(item);
     } catch (error) {
       console.error("Error creating item:", error);
-      if (error && typeof error === 'object' && 'issues' in error) {
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error && typeof error === 'object' && 'issues' in error) {
         console.error("Validation issues:", error.issues);
         res.status(400).json({ 
           message: "Invalid item data",
@@ -111,11 +431,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch('/api/items/:id', isAuthenticated, async (req, res) => {
     try {
-      const item = await storage.updateItem(req.params.id, req.body);
+      const validatedData = insertItemSchema.partial().parse(req.body);
+      const item = await storage.updateItem(req.params.id, validatedData);
       res.json(item);
     } catch (error) {
       console.error("Error updating item:", error);
-      res.status(500).json({ message: "Failed to update item" });
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid item data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to update item" });
+      }
     }
   });
 
@@ -140,6 +467,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/customers/balances', isAuthenticated, async (req, res) => {
+    try {
+      const balances = await storage.getCustomerBalances();
+      res.json(balances);
+    } catch (error) {
+      console.error("Error fetching customer balances:", error);
+      res.status(500).json({ message: "Failed to fetch customer balances" });
+    }
+  });
+
+  const statementQuerySchema = z.object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  });
+
+  const loadCustomerStatement = (customerId: string, range: z.infer<typeof statementQuerySchema>) => {
+    const to = new Date(range.to);
+    to.setHours(23, 59, 59, 999);
+    return storage.getCustomerStatement(customerId, range.from, to);
+  };
+
+  app.get('/api/customers/:id/statement', isAuthenticated, async (req, res) => {
+    const query = statementQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const statement = await loadCustomerStatement(req.params.id, query.data);
+      if (!statement) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(statement);
+    } catch (error) {
+      console.error("Error fetching customer statement:", error);
+      res.status(500).json({ message: "Failed to fetch customer statement" });
+    }
+  });
+
+  app.get('/api/customers/:id/statement/pdf', isAuthenticated, async (req, res) => {
+    const query = statementQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const statement = await loadCustomerStatement(req.params.id, query.data);
+      if (!statement) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const pdf = await renderCustomerStatementPdf(statement, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(`Statement_${statement.customer.name}`)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating customer statement PDF:", error);
+      res.status(500).json({ message: "Failed to generate customer statement PDF" });
+    }
+  });
+
   app.get('/api/customers/:id', isAuthenticated, async (req, res) => {
     try {
       const customer = await storage.getCustomer(req.params.id);
@@ -239,6 +625,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete('/api/vendors/:id/flag', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.setVendorFlag(req.params.id, null));
+    } catch (error) {
+      console.error("Error clearing vendor flag:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to clear vendor flag" });
+      }
+    }
+  });
+
   // Inventory routes
   app.get('/api/inventory', isAuthenticated, async (req, res) => {
     try {
@@ -307,6 +706,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Zip of invoice PDFs for bills dated between from and to (inclusive)
+  app.get('/api/bills/pdf-export', isAuthenticated, async (req, res) => {
+    const range = z.object({ from: z.coerce.date(), to: z.coerce.date() }).safeParse(req.query);
+    if (!range.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+
+    try {
+      const to = new Date(range.data.to);
+      to.setHours(23, 59, 59, 999);
+      const [bills, company] = await Promise.all([
+        storage.getBillsByDateRange(range.data.from, to),
+        storage.getCompanySettings(),
+      ]);
+      if (bills.length === 0) {
+        return res.status(404).json({ message: "No bills found in this date range" });
+      }
+
+      const archive = archiver("zip");
+      archive.on("error", (error) => {
+        console.error("Error writing invoice archive:", error);
+        res.destroy(error);
+      });
+      res.attachment(`invoices-${req.query.from}-to-${req.query.to}.zip`);
+      archive.pipe(res);
+
+      // Rendered one at a time to keep memory flat for long ranges
+      for (const bill of bills) {
+        archive.append(await renderInvoicePdf(bill, company), { name: pdfFileName(bill.billNumber) });
+      }
+      await archive.finalize();
+    } catch (error) {
+      console.error("Error exporting invoice PDFs:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to export invoice PDFs" });
+      }
+    }
+  });
+
   app.get('/api/bills/:id', isAuthenticated, async (req, res) => {
     try {
       const bill = await storage.getBill(req.params.id);
@@ -320,39 +758,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/bills/:id/reminders', isAuthenticated, async (req, res) => {
+    try {
+      const reminders = await storage.getBillReminders(req.params.id);
+      res.json(reminders);
+    } catch (error) {
+      console.error("Error fetching bill reminders:", error);
+      res.status(500).json({ message: "Failed to fetch reminder history" });
+    }
+  });
+
+  app.post('/api/bills/:id/reminders', isAuthenticated, async (req: any, res) => {
+    try {
+      const { ruleId } = sendBillReminderSchema.parse(req.body);
+      const reminders = await sendBillReminderNow(req.params.id, ruleId, req.user.claims.sub);
+      res.status(201).json(reminders);
+    } catch (error) {
+      console.error("Error sending bill reminder:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reminder request", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to send reminder" });
+      }
+    }
+  });
+
+  app.get('/api/bills/:id/pdf', isAuthenticated, async (req, res) => {
+    try {
+      const bill = await storage.getBill(req.params.id);
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      const pdf = await renderInvoicePdf(bill, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(bill.billNumber)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating bill PDF:", error);
+      res.status(500).json({ message: "Failed to generate bill PDF" });
+    }
+  });
+
+  // INV-01 JSON for upload to the IRP; ?download=1 sends it as a file
+  app.get('/api/bills/:id/einvoice', isAuthenticated, async (req, res) => {
+    try {
+      const bill = await storage.getBill(req.params.id);
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      const result = eInvoiceSchema.safeParse(buildEInvoice(bill, await storage.getCompanySettings()));
+      if (!result.success) {
+        return res.status(422).json({
+          message: "The bill does not meet the e-invoice schema: " +
+            result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+          validationErrors: result.error.issues,
+        });
+      }
+      if (req.query.download) {
+        res.attachment(eInvoiceFileName(bill.billNumber));
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error generating e-invoice:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to generate e-invoice" });
+      }
+    }
+  });
+
+  app.post('/api/bills/:id/irn', isAuthenticated, async (req, res) => {
+    try {
+      const registration = recordBillIrnSchema.parse(req.body);
+      const bill = await storage.recordBillIrn(req.params.id, registration);
+      res.json(bill);
+    } catch (error) {
+      console.error("Error recording IRN:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid IRN details", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to record IRN" });
+      }
+    }
+  });
+
+  app.put('/api/bills/:id/transport', isAuthenticated, async (req, res) => {
+    try {
+      const details = transportDetailsSchema.parse(req.body);
+      const bill = await storage.updateBillTransport(req.params.id, details);
+      res.json(bill);
+    } catch (error) {
+      console.error("Error saving bill transport details:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid transport details", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to save transport details" });
+      }
+    }
+  });
+
+  // Bulk-upload JSON for the e-way bill portal; ?download=1 sends it as a file
+  app.get('/api/bills/:id/ewaybill', isAuthenticated, async (req, res) => {
+    try {
+      const bill = await storage.getBill(req.params.id);
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      const result = eWayBillUploadSchema.safeParse(buildBillEWayBill(bill, await storage.getCompanySettings()));
+      if (!result.success) {
+        return res.status(422).json({
+          message: "The bill does not meet the e-way bill format: " +
+            result.error.issues.map(issue => `${issue.path.slice(2).join(".")}: ${issue.message}`).join("; "),
+          validationErrors: result.error.issues,
+        });
+      }
+      if (req.query.download) {
+        res.attachment(eWayBillFileName(bill.billNumber));
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error generating bill e-way bill:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to generate e-way bill" });
+      }
+    }
+  });
+
+  app.post('/api/bills/:id/ewaybill', isAuthenticated, async (req, res) => {
+    try {
+      const ewb = recordEWayBillSchema.parse(req.body);
+      const bill = await storage.recordBillEWayBill(req.params.id, ewb);
+      res.json(bill);
+    } catch (error) {
+      console.error("Error recording bill e-way bill:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid e-way bill details", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to record e-way bill" });
+      }
+    }
+  });
+
   app.post('/api/bills', isAuthenticated, async (req: any, res) => {
     try {
       const { bill: billData, billItems: billItemsData } = req.body;
-      
-      // Get next bill number
-      const billNumber = await storage.getNextBillNumber();
-      
+
+      // The bill number is allocated from the numbering series when the bill is saved
       const validatedBill = insertBillSchema.parse({
         ...billData,
-        billNumber,
         createdBy: req.user.claims.sub,
       });
 
-      const validatedBillItems = billItemsData.map((item: any) =>
-        insertBillItemSchema.parse(item)
-      );
+      const validatedBillItems = z.array(insertBillItemSchema).parse(billItemsData);
 
       const bill = await storage.createBill(validatedBill, validatedBillItems);
       res.status(201).json(bill);
     } catch (error) {
       console.error("Error creating bill:", error);
-      res.status(400).json({ message: "Invalid bill data" });
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid bill data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create bill" });
+      }
     }
   });
 
-  app.patch('/api/bills/:id/status', isAuthenticated, async (req, res) => {
+  app.post('/api/bills/:id/cancel', isAuthenticated, async (req: any, res) => {
     try {
-      const { status } = req.body;
-      const bill = await storage.updateBillStatus(req.params.id, status);
+      const { reason } = cancelBillSchema.parse(req.body);
+      const bill = await storage.cancelBill(req.params.id, reason, req.user.claims.sub);
       res.json(bill);
     } catch (error) {
-      console.error("Error updating bill status:", error);
-      res.status(500).json({ message: "Failed to update bill status" });
+      console.error("Error cancelling bill:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid cancellation data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to cancel bill" });
+      }
     }
   });
 
@@ -366,62 +964,950 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Purchases routes
-  app.get('/api/purchases', isAuthenticated, async (req, res) => {
+  app.get('/api/bills/:id/credit-notes', isAuthenticated, async (req, res) => {
     try {
-      const purchases = await storage.getPurchases();
-      res.json(purchases);
+      const creditNotes = await storage.getCreditNotesByBill(req.params.id);
+      res.json(creditNotes);
     } catch (error) {
-      console.error("Error fetching purchases:", error);
-      res.status(500).json({ message: "Failed to fetch purchases" });
+      console.error("Error fetching bill credit notes:", error);
+      res.status(500).json({ message: "Failed to fetch credit notes" });
     }
   });
 
-  app.get('/api/purchases/:id', isAuthenticated, async (req, res) => {
+  // Credit notes routes
+  app.get('/api/credit-notes', isAuthenticated, async (req, res) => {
     try {
-      const purchase = await storage.getPurchase(req.params.id);
-      if (!purchase) {
-        return res.status(404).json({ message: "Purchase not found" });
-      }
-      res.json(purchase);
+      const creditNotes = await storage.getCreditNotes();
+      res.json(creditNotes);
     } catch (error) {
-      console.error("Error fetching purchase:", error);
-      res.status(500).json({ message: "Failed to fetch purchase" });
+      console.error("Error fetching credit notes:", error);
+      res.status(500).json({ message: "Failed to fetch credit notes" });
     }
   });
 
-  app.post('/api/purchases', isAuthenticated, async (req: any, res) => {
+  app.get('/api/credit-notes/:id', isAuthenticated, async (req, res) => {
     try {
-      const { purchase: purchaseData, purchaseItems: purchaseItemsData } = req.body;
-      
-      // Get next purchase number
-      const purchaseNumber = await storage.getNextPurchaseNumber();
-      
-      const validatedPurchase = insertPurchaseSchema.parse({
-        ...purchaseData,
-        purchaseNumber,
-        createdBy: req.user.claims.sub,
-      });
-
-      const validatedPurchaseItems = purchaseItemsData.map((item: any) =>
-        insertPurchaseItemSchema.parse(item)
-      );
-
-      const purchase = await storage.createPurchase(validatedPurchase, validatedPurchaseItems);
-      res.status(201).json(purchase);
+      const creditNote = await storage.getCreditNote(req.params.id);
+      if (!creditNote) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+      res.json(creditNote);
     } catch (error) {
-      console.error("Error creating purchase:", error);
-      res.status(400).json({ message: "Invalid purchase data" });
+      console.error("Error fetching credit note:", error);
+      res.status(500).json({ message: "Failed to fetch credit note" });
     }
   });
 
-  app.get('/api/purchases/next-number', isAuthenticated, async (req, res) => {
+  app.get('/api/credit-notes/:id/pdf', isAuthenticated, async (req, res) => {
     try {
-      const nextNumber = await storage.getNextPurchaseNumber();
-      res.json({ purchaseNumber: nextNumber });
+      const creditNote = await storage.getCreditNote(req.params.id);
+      if (!creditNote) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+      const pdf = await renderCreditNotePdf(creditNote, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(creditNote.creditNoteNumber)}"`);
+      res.send(pdf);
     } catch (error) {
-      console.error("Error getting next purchase number:", error);
-      res.status(500).json({ message: "Failed to get next purchase number" });
+      console.error("Error generating credit note PDF:", error);
+      res.status(500).json({ message: "Failed to generate credit note PDF" });
+    }
+  });
+
+  app.post('/api/credit-notes', isAuthenticated, async (req: any, res) => {
+    try {
+      const { creditNote: creditNoteData, creditNoteItems: creditNoteItemsData } = req.body;
+
+      const validatedCreditNote = insertCreditNoteSchema.parse({
+        ...creditNoteData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedItems = z.array(insertCreditNoteItemSchema).parse(creditNoteItemsData);
+
+      const creditNote = await storage.createCreditNote(validatedCreditNote, validatedItems);
+      res.status(201).json(creditNote);
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid credit note data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create credit note" });
+      }
+    }
+  });
+
+  // Payments routes
+  app.get('/api/payments', isAuthenticated, async (req, res) => {
+    try {
+      const payments = await storage.getPayments();
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.get('/api/payments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.json(payment);
+    } catch (error) {
+      console.error("Error fetching payment:", error);
+      res.status(500).json({ message: "Failed to fetch payment" });
+    }
+  });
+
+  app.post('/api/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const { payment: paymentData, allocations: allocationsData } = req.body;
+
+      const validatedPayment = insertPaymentSchema.parse({
+        ...paymentData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedAllocations = z.array(insertPaymentAllocationSchema).parse(allocationsData);
+
+      const payment = await storage.createPayment(validatedPayment, validatedAllocations);
+      res.status(201).json(payment);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid payment data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to record payment" });
+      }
+    }
+  });
+
+  // Vendor payments routes
+  app.get('/api/vendor-payments', isAuthenticated, async (req, res) => {
+    try {
+      const payments = await storage.getVendorPayments();
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching vendor payments:", error);
+      res.status(500).json({ message: "Failed to fetch vendor payments" });
+    }
+  });
+
+  app.get('/api/vendor-payments/:id', isAuthenticated, async (req, res) => {
+    try {
+      const payment = await storage.getVendorPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Vendor payment not found" });
+      }
+      res.json(payment);
+    } catch (error) {
+      console.error("Error fetching vendor payment:", error);
+      res.status(500).json({ message: "Failed to fetch vendor payment" });
+    }
+  });
+
+  app.post('/api/vendor-payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const { payment: paymentData, allocations: allocationsData } = req.body;
+
+      const validatedPayment = insertVendorPaymentSchema.parse({
+        ...paymentData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedAllocations = z.array(insertVendorPaymentAllocationSchema).parse(allocationsData);
+
+      const payment = await storage.createVendorPayment(validatedPayment, validatedAllocations);
+      res.status(201).json(payment);
+    } catch (error) {
+      console.error("Error recording vendor payment:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid vendor payment data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to record vendor payment" });
+      }
+    }
+  });
+
+  // General ledger routes
+  app.get('/api/ledger-accounts', isAuthenticated, async (req, res) => {
+    try {
+      const accounts = await storage.getLedgerAccounts();
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching ledger accounts:", error);
+      res.status(500).json({ message: "Failed to fetch chart of accounts" });
+    }
+  });
+
+  app.post('/api/ledger-accounts', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const validatedData = insertLedgerAccountSchema.parse(req.body);
+      const account = await storage.createLedgerAccount(validatedData);
+      res.status(201).json(account);
+    } catch (error) {
+      console.error("Error creating ledger account:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.patch('/api/ledger-accounts/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const validatedData = updateLedgerAccountSchema.parse(req.body);
+      const account = await storage.updateLedgerAccount(req.params.id, validatedData);
+      res.json(account);
+    } catch (error) {
+      console.error("Error updating ledger account:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to update account" });
+      }
+    }
+  });
+
+  app.get('/api/ledger-accounts/:id/ledger', isAuthenticated, async (req, res) => {
+    const query = z.object({ from: z.coerce.date(), to: z.coerce.date() }).safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(query.data.to);
+      to.setHours(23, 59, 59, 999);
+      const ledger = await storage.getAccountLedger(req.params.id, query.data.from, to);
+      if (!ledger) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching account ledger:", error);
+      res.status(500).json({ message: "Failed to fetch account ledger" });
+    }
+  });
+
+  app.get('/api/journal-entries', isAuthenticated, async (req, res) => {
+    const query = z.object({
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+      sourceType: z.enum(Object.keys(JOURNAL_SOURCES) as [JournalSource]).optional(),
+      accountId: z.string().optional(),
+    }).safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const to = new Date(query.data.to);
+      to.setHours(23, 59, 59, 999);
+      const entries = await storage.getJournalEntries({ ...query.data, to });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching journal entries:", error);
+      res.status(500).json({ message: "Failed to fetch journal entries" });
+    }
+  });
+
+  app.get('/api/journal-entries/:id', isAuthenticated, async (req, res) => {
+    try {
+      const entry = await storage.getJournalEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error fetching journal entry:", error);
+      res.status(500).json({ message: "Failed to fetch journal entry" });
+    }
+  });
+
+  app.post('/api/journal-entries', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const { entry: entryData, lines: linesData } = req.body;
+
+      const validatedEntry = insertJournalEntrySchema.parse(entryData);
+      const validatedLines = z.array(insertJournalLineSchema).parse(linesData);
+
+      const entry = await storage.createJournalEntry(validatedEntry, validatedLines, req.user.claims.sub);
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error posting journal entry:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid journal entry", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to post journal entry" });
+      }
+    }
+  });
+
+  // Financial statements routes
+  const asOfQuerySchema = z.object({ asOf: z.coerce.date() });
+  const profitAndLossQuerySchema = z.object({ from: z.coerce.date(), to: z.coerce.date() });
+  const endOfDay = (date: Date) => {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  };
+  const fileDate = (date: Date) => date.toISOString().split('T')[0];
+
+  const loadTrialBalance = async (asOf: Date) => {
+    const end = endOfDay(asOf);
+    return buildTrialBalance(await storage.getAccountMovements(end), end);
+  };
+
+  const loadProfitAndLoss = async (range: z.infer<typeof profitAndLossQuerySchema>) => {
+    const to = endOfDay(range.to);
+    const prior = getPriorPeriod(range.from, to);
+    const [current, previous] = await Promise.all([
+      storage.getAccountMovements(to, range.from),
+      storage.getAccountMovements(prior.to, prior.from),
+    ]);
+    return buildProfitAndLoss(current, previous, { from: range.from, to, priorFrom: prior.from, priorTo: prior.to });
+  };
+
+  const loadBalanceSheet = async (asOf: Date) => {
+    const end = endOfDay(asOf);
+    return buildBalanceSheet(await storage.getAccountMovements(end), end);
+  };
+
+  app.get('/api/financial-statements/trial-balance', isAuthenticated, async (req, res) => {
+    const query = asOfQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "asOf date is required" });
+    }
+    try {
+      res.json(await loadTrialBalance(query.data.asOf));
+    } catch (error) {
+      console.error("Error building trial balance:", error);
+      res.status(500).json({ message: "Failed to build trial balance" });
+    }
+  });
+
+  app.get('/api/financial-statements/trial-balance/pdf', isAuthenticated, async (req, res) => {
+    const query = asOfQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "asOf date is required" });
+    }
+    try {
+      const report = await loadTrialBalance(query.data.asOf);
+      const pdf = await renderTrialBalancePdf(report, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(`Trial_Balance_${fileDate(query.data.asOf)}`)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating trial balance PDF:", error);
+      res.status(500).json({ message: "Failed to generate trial balance PDF" });
+    }
+  });
+
+  app.get('/api/financial-statements/profit-and-loss', isAuthenticated, async (req, res) => {
+    const query = profitAndLossQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      res.json(await loadProfitAndLoss(query.data));
+    } catch (error) {
+      console.error("Error building profit and loss:", error);
+      res.status(500).json({ message: "Failed to build profit and loss" });
+    }
+  });
+
+  app.get('/api/financial-statements/profit-and-loss/pdf', isAuthenticated, async (req, res) => {
+    const query = profitAndLossQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "from and to dates are required" });
+    }
+    try {
+      const report = await loadProfitAndLoss(query.data);
+      const pdf = await renderProfitAndLossPdf(report, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(`Profit_and_Loss_${fileDate(query.data.from)}_${fileDate(query.data.to)}`)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating profit and loss PDF:", error);
+      res.status(500).json({ message: "Failed to generate profit and loss PDF" });
+    }
+  });
+
+  app.get('/api/financial-statements/balance-sheet', isAuthenticated, async (req, res) => {
+    const query = asOfQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "asOf date is required" });
+    }
+    try {
+      res.json(await loadBalanceSheet(query.data.asOf));
+    } catch (error) {
+      console.error("Error building balance sheet:", error);
+      res.status(500).json({ message: "Failed to build balance sheet" });
+    }
+  });
+
+  app.get('/api/financial-statements/balance-sheet/pdf', isAuthenticated, async (req, res) => {
+    const query = asOfQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "asOf date is required" });
+    }
+    try {
+      const report = await loadBalanceSheet(query.data.asOf);
+      const pdf = await renderBalanceSheetPdf(report, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(`Balance_Sheet_${fileDate(query.data.asOf)}`)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating balance sheet PDF:", error);
+      res.status(500).json({ message: "Failed to generate balance sheet PDF" });
+    }
+  });
+
+  // Quotations routes
+  app.get('/api/quotations', isAuthenticated, async (req, res) => {
+    try {
+      const quotations = await storage.getQuotations();
+      res.json(quotations);
+    } catch (error) {
+      console.error("Error fetching quotations:", error);
+      res.status(500).json({ message: "Failed to fetch quotations" });
+    }
+  });
+
+  app.get('/api/quotations/:id', isAuthenticated, async (req, res) => {
+    try {
+      const quotation = await storage.getQuotation(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Quotation not found" });
+      }
+      res.json(quotation);
+    } catch (error) {
+      console.error("Error fetching quotation:", error);
+      res.status(500).json({ message: "Failed to fetch quotation" });
+    }
+  });
+
+  app.get('/api/quotations/:id/pdf', isAuthenticated, async (req, res) => {
+    try {
+      const quotation = await storage.getQuotation(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Quotation not found" });
+      }
+      const pdf = await renderQuotationPdf(quotation, await storage.getCompanySettings());
+      const disposition = req.query.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${disposition}; filename="${pdfFileName(quotation.quotationNumber)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating quotation PDF:", error);
+      res.status(500).json({ message: "Failed to generate quotation PDF" });
+    }
+  });
+
+  app.post('/api/quotations', isAuthenticated, async (req: any, res) => {
+    try {
+      const { quotation: quotationData, quotationItems: quotationItemsData } = req.body;
+
+      const validatedQuotation = insertQuotationSchema.parse({
+        ...quotationData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedItems = z.array(insertQuotationItemSchema).min(1, "At least one item is required").parse(quotationItemsData);
+
+      const quotation = await storage.createQuotation(validatedQuotation, validatedItems);
+      res.status(201).json(quotation);
+    } catch (error) {
+      console.error("Error creating quotation:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid quotation data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create quotation" });
+      }
+    }
+  });
+
+  app.patch('/api/quotations/:id/status', isAuthenticated, async (req, res) => {
+    try {
+      const { status } = updateQuotationStatusSchema.parse(req.body);
+      const quotation = await storage.updateQuotationStatus(req.params.id, status);
+      res.json(quotation);
+    } catch (error) {
+      console.error("Error updating quotation status:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid quotation status", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to update quotation status" });
+      }
+    }
+  });
+
+  app.post('/api/quotations/:id/convert', isAuthenticated, async (req: any, res) => {
+    try {
+      const bill = await storage.convertQuotationToBill(req.params.id, req.user.claims.sub);
+      res.status(201).json(bill);
+    } catch (error) {
+      console.error("Error converting quotation:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to convert quotation to a bill" });
+      }
+    }
+  });
+
+  // Recurring invoice routes. Bills are raised by the scheduler, not here.
+  app.get('/api/recurring-invoices', isAuthenticated, async (req, res) => {
+    try {
+      const templates = await storage.getRecurringInvoices();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching recurring invoices:", error);
+      res.status(500).json({ message: "Failed to fetch recurring invoices" });
+    }
+  });
+
+  app.post('/api/recurring-invoices', isAuthenticated, async (req: any, res) => {
+    try {
+      const { recurringInvoice: templateData, recurringInvoiceItems: templateItemsData } = req.body;
+
+      const validatedTemplate = insertRecurringInvoiceSchema.parse({
+        ...templateData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedItems = z.array(insertRecurringInvoiceItemSchema).min(1, "At least one item is required").parse(templateItemsData);
+
+      const template = await storage.createRecurringInvoice(validatedTemplate, validatedItems);
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating recurring invoice:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid recurring invoice data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create recurring invoice" });
+      }
+    }
+  });
+
+  app.post('/api/recurring-invoices/:id/pause', isAuthenticated, async (req, res) => {
+    try {
+      const template = await storage.pauseRecurringInvoice(req.params.id);
+      res.json(template);
+    } catch (error) {
+      console.error("Error pausing recurring invoice:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to pause recurring invoice" });
+      }
+    }
+  });
+
+  app.post('/api/recurring-invoices/:id/resume', isAuthenticated, async (req, res) => {
+    try {
+      const template = await storage.resumeRecurringInvoice(req.params.id);
+      res.json(template);
+    } catch (error) {
+      console.error("Error resuming recurring invoice:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to resume recurring invoice" });
+      }
+    }
+  });
+
+  app.get('/api/recurring-invoices/:id/runs', isAuthenticated, async (req, res) => {
+    try {
+      const runs = await storage.getRecurringInvoiceRuns(req.params.id);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching recurring invoice runs:", error);
+      res.status(500).json({ message: "Failed to fetch recurring invoice runs" });
+    }
+  });
+
+  // Sales order routes
+  app.get('/api/sales-orders', isAuthenticated, async (req, res) => {
+    try {
+      const salesOrders = await storage.getSalesOrders();
+      res.json(salesOrders);
+    } catch (error) {
+      console.error("Error fetching sales orders:", error);
+      res.status(500).json({ message: "Failed to fetch sales orders" });
+    }
+  });
+
+  app.get('/api/sales-orders/:id', isAuthenticated, async (req, res) => {
+    try {
+      const salesOrder = await storage.getSalesOrder(req.params.id);
+      if (!salesOrder) {
+        return res.status(404).json({ message: "Sales order not found" });
+      }
+      res.json(salesOrder);
+    } catch (error) {
+      console.error("Error fetching sales order:", error);
+      res.status(500).json({ message: "Failed to fetch sales order" });
+    }
+  });
+
+  app.post('/api/sales-orders', isAuthenticated, async (req: any, res) => {
+    try {
+      const { salesOrder: salesOrderData, salesOrderItems: salesOrderItemsData } = req.body;
+
+      const validatedOrder = insertSalesOrderSchema.parse({
+        ...salesOrderData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedItems = z.array(insertSalesOrderItemSchema).min(1, "At least one item is required").parse(salesOrderItemsData);
+
+      const salesOrder = await storage.createSalesOrder(validatedOrder, validatedItems);
+      res.status(201).json(salesOrder);
+    } catch (error) {
+      console.error("Error creating sales order:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid sales order data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create sales order" });
+      }
+    }
+  });
+
+  app.post('/api/sales-orders/:id/close', isAuthenticated, async (req, res) => {
+    try {
+      const salesOrder = await storage.closeSalesOrder(req.params.id);
+      res.json(salesOrder);
+    } catch (error) {
+      console.error("Error closing sales order:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to close sales order" });
+      }
+    }
+  });
+
+  // Delivery challan routes
+  app.get('/api/delivery-challans', isAuthenticated, async (req, res) => {
+    try {
+      const challans = await storage.getDeliveryChallans();
+      res.json(challans);
+    } catch (error) {
+      console.error("Error fetching delivery challans:", error);
+      res.status(500).json({ message: "Failed to fetch delivery challans" });
+    }
+  });
+
+  app.post('/api/delivery-challans/invoice', isAuthenticated, async (req: any, res) => {
+    try {
+      const { challanIds } = invoiceChallansSchema.parse(req.body);
+      const bill = await storage.createBillFromChallans(challanIds, req.user.claims.sub);
+      res.status(201).json(bill);
+    } catch (error) {
+      console.error("Error invoicing delivery challans:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid challan selection", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create invoice from delivery challans" });
+      }
+    }
+  });
+
+  app.get('/api/delivery-challans/:id', isAuthenticated, async (req, res) => {
+    try {
+      const challan = await storage.getDeliveryChallan(req.params.id);
+      if (!challan) {
+        return res.status(404).json({ message: "Delivery challan not found" });
+      }
+      res.json(challan);
+    } catch (error) {
+      console.error("Error fetching delivery challan:", error);
+      res.status(500).json({ message: "Failed to fetch delivery challan" });
+    }
+  });
+
+  app.put('/api/delivery-challans/:id/transport', isAuthenticated, async (req, res) => {
+    try {
+      const details = transportDetailsSchema.parse(req.body);
+      const challan = await storage.updateChallanTransport(req.params.id, details);
+      res.json(challan);
+    } catch (error) {
+      console.error("Error saving challan transport details:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid transport details", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to save transport details" });
+      }
+    }
+  });
+
+  // Bulk-upload JSON for the e-way bill portal; ?download=1 sends it as a file
+  app.get('/api/delivery-challans/:id/ewaybill', isAuthenticated, async (req, res) => {
+    try {
+      const challan = await storage.getDeliveryChallan(req.params.id);
+      if (!challan) {
+        return res.status(404).json({ message: "Delivery challan not found" });
+      }
+      const result = eWayBillUploadSchema.safeParse(buildChallanEWayBill(challan, await storage.getCompanySettings()));
+      if (!result.success) {
+        return res.status(422).json({
+          message: "The challan does not meet the e-way bill format: " +
+            result.error.issues.map(issue => `${issue.path.slice(2).join(".")}: ${issue.message}`).join("; "),
+          validationErrors: result.error.issues,
+        });
+      }
+      if (req.query.download) {
+        res.attachment(eWayBillFileName(challan.challanNumber));
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error generating challan e-way bill:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to generate e-way bill" });
+      }
+    }
+  });
+
+  app.post('/api/delivery-challans/:id/ewaybill', isAuthenticated, async (req, res) => {
+    try {
+      const ewb = recordEWayBillSchema.parse(req.body);
+      const challan = await storage.recordChallanEWayBill(req.params.id, ewb);
+      res.json(challan);
+    } catch (error) {
+      console.error("Error recording challan e-way bill:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid e-way bill details", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to record e-way bill" });
+      }
+    }
+  });
+
+  app.post('/api/delivery-challans', isAuthenticated, async (req: any, res) => {
+    try {
+      const { challan: challanData, challanItems: challanItemsData } = req.body;
+
+      const validatedChallan = insertDeliveryChallanSchema.parse({
+        ...challanData,
+        createdBy: req.user.claims.sub,
+      });
+      const validatedItems = z.array(insertDeliveryChallanItemSchema).min(1, "At least one item is required").parse(challanItemsData);
+
+      const challan = await storage.createDeliveryChallan(validatedChallan, validatedItems);
+      res.status(201).json(challan);
+    } catch (error) {
+      console.error("Error creating delivery challan:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid delivery challan data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create delivery challan" });
+      }
+    }
+  });
+
+  // Purchases routes
+  app.get('/api/purchases', isAuthenticated, async (req, res) => {
+    try {
+      const purchases = await storage.getPurchases();
+      res.json(purchases);
+    } catch (error) {
+      console.error("Error fetching purchases:", error);
+      res.status(500).json({ message: "Failed to fetch purchases" });
+    }
+  });
+
+  app.get('/api/purchases/:id', isAuthenticated, async (req, res) => {
+    try {
+      const purchase = await storage.getPurchase(req.params.id);
+      if (!purchase) {
+        return res.status(404).json({ message: "Purchase not found" });
+      }
+      res.json(purchase);
+    } catch (error) {
+      console.error("Error fetching purchase:", error);
+      res.status(500).json({ message: "Failed to fetch purchase" });
+    }
+  });
+
+  app.post('/api/purchases', isAuthenticated, async (req: any, res) => {
+    try {
+      const { purchase: purchaseData, purchaseItems: purchaseItemsData } = req.body;
+
+      const validatedPurchase = insertPurchaseSchema.parse({
+        ...purchaseData,
+        createdBy: req.user.claims.sub,
+      });
+
+      const validatedPurchaseItems = z.array(insertPurchaseItemSchema)
+        .min(1, "At least one item is required")
+        .parse(purchaseItemsData);
+
+      const purchase = await storage.createPurchase(validatedPurchase, validatedPurchaseItems);
+      res.status(201).json(purchase);
+    } catch (error) {
+      console.error("Error creating purchase:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid purchase data", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create purchase" });
+      }
+    }
+  });
+
+  app.get('/api/purchases/next-number', isAuthenticated, async (req, res) => {
+    try {
+      const nextNumber = await storage.getNextPurchaseNumber();
+      res.json({ purchaseNumber: nextNumber });
+    } catch (error) {
+      console.error("Error getting next purchase number:", error);
+      res.status(500).json({ message: "Failed to get next purchase number" });
+    }
+  });
+
+  // Company settings routes
+  app.get('/api/settings', isAuthenticated, async (req, res) => {
+    try {
+      const settings = await storage.getCompanySettings();
+      res.json(settings ?? null);
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put('/api/settings', isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const validatedData = insertCompanySettingsSchema.parse(req.body);
+      const settings = await storage.upsertCompanySettings(validatedData, req.user.claims.sub);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        res.status(400).json({
+          message: "Invalid settings data",
+          validationErrors: error.issues
+        });
+      } else {
+        res.status(400).json({ message: "Invalid settings data" });
+      }
+    }
+  });
+
+  // Document numbering routes
+  app.get('/api/settings/numbering', isAuthenticated, async (req, res) => {
+    try {
+      const series = await storage.getDocumentSeries();
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching numbering series:", error);
+      res.status(500).json({ message: "Failed to fetch numbering series" });
+    }
+  });
+
+  app.put('/api/settings/numbering/:documentType', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const validatedData = insertDocumentSeriesSchema.parse({
+        ...req.body,
+        documentType: req.params.documentType,
+      });
+      const series = await storage.upsertDocumentSeries(validatedData);
+      res.json(series);
+    } catch (error) {
+      console.error("Error saving numbering series:", error);
+      if (error && typeof error === 'object' && 'issues' in error) {
+        res.status(400).json({
+          message: "Invalid numbering series data",
+          validationErrors: error.issues
+        });
+      } else {
+        res.status(400).json({ message: "Invalid numbering series data" });
+      }
+    }
+  });
+
+  // Payment reminder rules
+  app.get('/api/settings/reminder-rules', isAuthenticated, async (req, res) => {
+    try {
+      const rules = await storage.getReminderRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching reminder rules:", error);
+      res.status(500).json({ message: "Failed to fetch reminder rules" });
+    }
+  });
+
+  app.post('/api/settings/reminder-rules', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const validatedData = insertReminderRuleSchema.parse(req.body);
+      const rule = await storage.createReminderRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating reminder rule:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reminder rule", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to create reminder rule" });
+      }
+    }
+  });
+
+  app.patch('/api/settings/reminder-rules/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const validatedData = insertReminderRuleSchema.partial().parse(req.body);
+      const rule = await storage.updateReminderRule(req.params.id, validatedData);
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating reminder rule:", error);
+      if (error instanceof BusinessRuleError) {
+        res.status(error.statusCode).json({ message: error.message });
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid reminder rule", validationErrors: error.issues });
+      } else {
+        res.status(500).json({ message: "Failed to update reminder rule" });
+      }
+    }
+  });
+
+  app.delete('/api/settings/reminder-rules/:id', isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      await storage.deleteReminderRule(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting reminder rule:", error);
+      res.status(500).json({ message: "Failed to delete reminder rule" });
     }
   });
 
@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { sendDueReminders } from "./reminders";
+import { log } from "./vite";
+
+// Everything here works in whole days, so checking hourly is enough to act on
+// the day something falls due
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface ScheduledJob {
+  name: string;
+  run: (now: Date) => Promise<string | undefined>; // a summary to log, if anything happened
+}
+
+// Run in order: bills raised by a recurring schedule can already be overdue
+// when catching up, and reminders go out on the statuses as they now stand
+const jobs: ScheduledJob[] = [
+  {
+    name: "recurring invoices",
+    run: async (now) => {
+      const runs = await storage.runDueRecurringInvoices(now);
+      const failed = runs.filter(run => run.status === "failed").length;
+      return runs.length > 0 ? `${runs.length - failed} recurring invoice(s) generated, ${failed} failed` : undefined;
+    },
+  },
+  {
+    name: "overdue bills",
+    run: async (now) => {
+      const marked = await storage.markOverdueBills(now);
+      return marked > 0 ? `${marked} bill(s) marked overdue` : undefined;
+    },
+  },
+  {
+    name: "overdue purchases",
+    run: async (now) => {
+      const marked = await storage.markOverduePurchases(now);
+      return marked > 0 ? `${marked} purchase(s) marked overdue` : undefined;
+    },
+  },
+  {
+    name: "payment reminders",
+    run: async (now) => {
+      const { sent, failed } = await sendDueReminders(now);
+      return sent + failed > 0 ? `${sent} payment reminder(s) sent, ${failed} failed` : undefined;
+    },
+  },
+];
+
+export function startScheduler() {
+  let running = false;
+
+  const tick = async () => {
+    // A slow catch-up must not overlap the next check
+    if (running) return;
+    running = true;
+    try {
+      for (const job of jobs) {
+        try {
+          const summary = await job.run(new Date());
+          if (summary) log(summary, "scheduler");
+        } catch (error) {
+          console.error(`Error running ${job.name}:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  setInterval(tick, CHECK_INTERVAL_MS);
+}
@@ -9,6 +9,33 @@ import {
   billItems,
   purchases,
   purchaseItems,
+  creditNotes,
+  creditNoteItems,
+  payments,
+  paymentAllocations,
+  quotations,
+  quotationItems,
+  salesOrders,
+  salesOrderItems,
+  deliveryChallans,
+  deliveryChallanItems,
+  companySettings,
+  documentSeries,
+  documentSeriesCounters,
+  gstr2bImports,
+  gstr2bEntries,
+  recurringInvoices,
+  recurringInvoiceItems,
+  recurringInvoiceRuns,
+  reminderRules,
+  billReminders,
+  vendorPayments,
+  vendorPaymentAllocations,
+  ledgerAccounts,
+  journalEntries,
+  journalLines,
+  insertBillSchema,
+  insertBillItemSchema,
   type User,
   type UpsertUser,
   type Item,
@@ -26,15 +53,165 @@ import {
   type InsertBill,
   type BillItem,
   type InsertBillItem,
+  type RecordBillIrn,
   type BillWithDetails,
+  type CreditNote,
+  type InsertCreditNote,
+  type InsertCreditNoteItem,
+  type CreditNoteWithDetails,
+  type CustomerBalance,
+  type CustomerStatement,
+  type ReceivableAgingBill,
+  type ReceivablesAging,
+  type ReceivablesAgingFilters,
+  type InsertPayment,
+  type InsertPaymentAllocation,
+  type Payment,
+  type PaymentWithDetails,
+  type InsertVendorPayment,
+  type InsertVendorPaymentAllocation,
+  type VendorPayment,
+  type VendorPaymentWithDetails,
+  type PaymentModeSummary,
+  type BillDiscountSummary,
+  type HsnSummaryRow,
+  type InputTaxCreditSummary,
+  type ItcRegisterRow,
+  type Quotation,
+  type InsertQuotation,
+  type InsertQuotationItem,
+  type QuotationWithDetails,
+  type SalesOrder,
+  type SalesOrderItem,
+  type InsertSalesOrder,
+  type InsertSalesOrderItem,
+  type SalesOrderWithDetails,
+  type DeliveryChallan,
+  type InsertDeliveryChallan,
+  type InsertDeliveryChallanItem,
+  type DeliveryChallanWithDetails,
+  type InventoryWithReservation,
   type Purchase,
   type InsertPurchase,
   type PurchaseItem,
   type InsertPurchaseItem,
   type PurchaseWithDetails,
+  type PayableAgingPurchase,
+  type PayablesAging,
+  type PayablesDueSummary,
+  type Gstr2bEntryWithPurchase,
+  type Gstr2bReconciliation,
+  type ImportGstr2b,
+  type LinkGstr2bEntry,
+  type RecurringInvoice,
+  type InsertRecurringInvoice,
+  type InsertRecurringInvoiceItem,
+  type RecurringInvoiceRun,
+  type RecurringInvoiceWithDetails,
+  type RecurringInvoiceRunWithBill,
+  type ReminderRule,
+  type InsertReminderRule,
+  type BillReminder,
+  type BillReminderWithRule,
+  type CompanySettings,
+  type InsertCompanySettings,
+  type DocumentSeries,
+  type DocumentSeriesWithPreview,
+  type InsertDocumentSeries,
+  type LedgerAccount,
+  type LedgerAccountWithBalance,
+  type InsertLedgerAccount,
+  type UpdateLedgerAccount,
+  type JournalEntry,
+  type JournalEntryWithLines,
+  type JournalEntryFilters,
+  type InsertJournalEntry,
+  type InsertJournalLine,
+  type AccountLedger,
 } from "@shared/schema";
+import { z } from "zod";
 import { db } from "./db";
-import { eq, desc, asc, like, sql, and, lt } from "drizzle-orm";
+import { eq, desc, asc, like, sql, and, or, lt, gt, gte, lte, inArray, ne, isNotNull, type AnyColumn, type SQL } from "drizzle-orm";
+import {
+  calculateLineTax,
+  getCreditNoteRoundOff,
+  getPlaceOfSupply,
+  isValidGstin,
+  getStateCode,
+  getSupplyType,
+  round2,
+  sumTaxLines,
+  type SupplyType,
+  type TaxLineResult,
+  priceInvoice,
+  type Discount,
+  type DiscountType,
+  type InvoiceTotals,
+  type PricedInvoiceLine,
+} from "@shared/gst";
+import {
+  DOCUMENT_TYPES,
+  defaultNumberingPattern,
+  formatDocumentNumber,
+  getCounterPeriod,
+  type DocumentType,
+  type NumberingPattern,
+} from "@shared/numbering";
+import { OPEN_BILL_STATUSES, canCancelBill, deriveBillPaymentStatus, getBillDueDate } from "@shared/billStatus";
+import { canConvertQuotation, canTransitionQuotation, type QuotationStatus } from "@shared/quotationStatus";
+import { getHsnCodeError, isServiceCode } from "@shared/hsn";
+import { buildCustomerStatement, type StatementTransaction } from "@shared/statement";
+import { getPaymentModeLabel } from "@shared/payments";
+import { buildAgingReport } from "@shared/aging";
+import { OPEN_PAYABLE_STATUSES, derivePayableStatus, getPurchaseDueDate, type PayableStatus } from "@shared/payables";
+import type { RecordEWayBill, TransportDetails } from "@shared/ewaybill";
+import { RESERVING_SALES_ORDER_STATUSES, deriveSalesOrderStatus, isSalesOrderOpen } from "@shared/salesOrders";
+import { getDefaultPurchaseTax, getPurchaseTaxError, getVendorSupplyType } from "@shared/purchases";
+import { getPeriodRange } from "@shared/gstr1";
+import {
+  GSTR2B_MATCH_STATUSES,
+  compareWithBooks,
+  getGstr2bInvoiceKey,
+  reconcileGstr2b,
+  type Gstr2bAction,
+  type Gstr2bBookEntry,
+  type Gstr2bMatchStatus,
+} from "@shared/gstr2b";
+import { getNextRunDate, type RecurringInvoiceStatus, type RecurringRunStatus } from "@shared/recurringInvoices";
+import { getDaysFromDue, isReminderDue, type ReminderStatus } from "@shared/reminders";
+import {
+  DEFAULT_ACCOUNTS,
+  SYSTEM_ACCOUNT_KEYS,
+  getAccountType,
+  getJournalError,
+  type AccountGroup,
+  type AccountType,
+  type JournalSource,
+  type SystemAccountKey,
+} from "@shared/ledger";
+import {
+  getBillPostings,
+  getCreditNotePostings,
+  getDeliveryPostings,
+  getPurchaseLineCost,
+  getPurchasePostings,
+  getReceiptPostings,
+  getStockWriteOffPostings,
+  getVendorPaymentPostings,
+  type PostingLine,
+} from "@shared/postings";
+import type { AccountMovement } from "@shared/financialStatements";
+import { BusinessRuleError } from "./errors";
+
+// Either the pool-backed db or an open transaction, so helpers can take part
+// in the caller's transaction
+type DbExecutor = Pick<typeof db, "select" | "selectDistinctOn" | "insert" | "update" | "delete">;
+
+interface PricedLines {
+  placeOfSupply: string | undefined;
+  lines: ({ line: InsertBillItem; hsnCode: string | null } & PricedInvoiceLine)[];
+  totals: InvoiceTotals;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -55,6 +232,9 @@ export interface IStorage {
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer>;
   deleteCustomer(id: string): Promise<void>;
+  getCustomerBalances(): Promise<CustomerBalance[]>;
+  getCustomerStatement(customerId: string, from: Date, to: Date): Promise<CustomerStatement | undefined>;
+  getReceivablesAging(asOf: Date, filters?: ReceivablesAgingFilters): Promise<ReceivablesAging>;
 
   // Vendor operations
   getVendors(): Promise<Vendor[]>;
@@ -62,29 +242,124 @@ export interface IStorage {
   createVendor(vendor: InsertVendor): Promise<Vendor>;
   updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor>;
   deleteVendor(id: string): Promise<void>;
+  setVendorFlag(id: string, note: string | null): Promise<Vendor>;
 
   // Inventory operations
-  getInventory(): Promise<(Inventory & { item: Item })[]>;
+  getInventory(): Promise<InventoryWithReservation[]>;
   getInventoryByItem(itemId: string): Promise<Inventory | undefined>;
   updateInventory(itemId: string, quantity: number): Promise<Inventory>;
   getLowStockItems(): Promise<ItemWithInventory[]>;
 
   // Stock movement operations
   getStockMovements(): Promise<(StockMovement & { item: Item })[]>;
-  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+  createStockMovement(movement: InsertStockMovement, executor?: DbExecutor): Promise<StockMovement>;
 
   // Bill operations
   getBills(): Promise<BillWithDetails[]>;
+  getBillsByDateRange(from: Date, to: Date): Promise<BillWithDetails[]>;
   getBill(id: string): Promise<BillWithDetails | undefined>;
   createBill(bill: InsertBill, billItems: InsertBillItem[]): Promise<BillWithDetails>;
-  updateBillStatus(id: string, status: string): Promise<Bill>;
+  cancelBill(id: string, reason: string, userId: string): Promise<BillWithDetails>;
+  recordBillIrn(id: string, registration: RecordBillIrn): Promise<BillWithDetails>;
+  updateBillTransport(id: string, details: TransportDetails): Promise<BillWithDetails>;
+  recordBillEWayBill(id: string, ewb: RecordEWayBill): Promise<BillWithDetails>;
   getNextBillNumber(): Promise<string>;
+  markOverdueBills(now?: Date): Promise<number>;
+
+  // Credit note operations
+  getCreditNotes(): Promise<CreditNoteWithDetails[]>;
+  getCreditNote(id: string): Promise<CreditNoteWithDetails | undefined>;
+  getCreditNotesByBill(billId: string): Promise<CreditNoteWithDetails[]>;
+  getCreditNotesByDateRange(from: Date, to: Date): Promise<CreditNoteWithDetails[]>;
+  createCreditNote(creditNote: InsertCreditNote, creditNoteItems: InsertCreditNoteItem[]): Promise<CreditNoteWithDetails>;
+
+  // Payment operations
+  getPayments(): Promise<PaymentWithDetails[]>;
+  getPayment(id: string): Promise<PaymentWithDetails | undefined>;
+  createPayment(payment: InsertPayment, allocations: InsertPaymentAllocation[]): Promise<PaymentWithDetails>;
+  getPaymentModeSummary(from: Date, to: Date): Promise<PaymentModeSummary[]>;
+  getBillDiscountSummary(from: Date, to: Date): Promise<BillDiscountSummary[]>;
+  getHsnSummary(from: Date, to: Date): Promise<HsnSummaryRow[]>;
+
+  // Quotation operations
+  getQuotations(): Promise<QuotationWithDetails[]>;
+  getQuotation(id: string): Promise<QuotationWithDetails | undefined>;
+  createQuotation(quotation: InsertQuotation, quotationItems: InsertQuotationItem[]): Promise<QuotationWithDetails>;
+  updateQuotationStatus(id: string, status: QuotationStatus): Promise<QuotationWithDetails>;
+  convertQuotationToBill(id: string, userId: string): Promise<BillWithDetails>;
+
+  // Sales order and delivery challan operations
+  getSalesOrders(): Promise<SalesOrderWithDetails[]>;
+  getSalesOrder(id: string): Promise<SalesOrderWithDetails | undefined>;
+  createSalesOrder(salesOrder: InsertSalesOrder, salesOrderItems: InsertSalesOrderItem[]): Promise<SalesOrderWithDetails>;
+  closeSalesOrder(id: string): Promise<SalesOrderWithDetails>;
+  getDeliveryChallans(): Promise<DeliveryChallanWithDetails[]>;
+  getDeliveryChallan(id: string): Promise<DeliveryChallanWithDetails | undefined>;
+  updateChallanTransport(id: string, details: TransportDetails): Promise<DeliveryChallanWithDetails>;
+  recordChallanEWayBill(id: string, ewb: RecordEWayBill): Promise<DeliveryChallanWithDetails>;
+  createDeliveryChallan(challan: InsertDeliveryChallan, challanItems: InsertDeliveryChallanItem[]): Promise<DeliveryChallanWithDetails>;
+  createBillFromChallans(challanIds: string[], userId: string): Promise<BillWithDetails>;
+
+  // Recurring invoice operations
+  getRecurringInvoices(): Promise<RecurringInvoiceWithDetails[]>;
+  getRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails | undefined>;
+  createRecurringInvoice(template: InsertRecurringInvoice, templateItems: InsertRecurringInvoiceItem[]): Promise<RecurringInvoiceWithDetails>;
+  pauseRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails>;
+  resumeRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails>;
+  getRecurringInvoiceRuns(id: string): Promise<RecurringInvoiceRunWithBill[]>;
+  runDueRecurringInvoices(now?: Date): Promise<RecurringInvoiceRun[]>;
 
   // Purchase operations
   getPurchases(): Promise<PurchaseWithDetails[]>;
   getPurchase(id: string): Promise<PurchaseWithDetails | undefined>;
   createPurchase(purchase: InsertPurchase, purchaseItems: InsertPurchaseItem[]): Promise<PurchaseWithDetails>;
   getNextPurchaseNumber(): Promise<string>;
+  markOverduePurchases(now?: Date): Promise<number>;
+
+  // Vendor payment and payables operations
+  getVendorPayments(): Promise<VendorPaymentWithDetails[]>;
+  getVendorPayment(id: string): Promise<VendorPaymentWithDetails | undefined>;
+  createVendorPayment(payment: InsertVendorPayment, allocations: InsertVendorPaymentAllocation[]): Promise<VendorPaymentWithDetails>;
+  getPayablesAging(asOf: Date, vendorId?: string): Promise<PayablesAging>;
+  getPayablesDue(now?: Date): Promise<PayablesDueSummary>;
+  getInputTaxCredit(from: Date, to: Date): Promise<InputTaxCreditSummary>;
+  getItcRegister(from: Date, to: Date, vendorId?: string): Promise<ItcRegisterRow[]>;
+
+  // GSTR-2B reconciliation operations
+  getGstr2bReconciliation(period: string): Promise<Gstr2bReconciliation>;
+  importGstr2b(statement: ImportGstr2b, userId: string): Promise<Gstr2bReconciliation>;
+  linkGstr2bEntry(id: string, link: LinkGstr2bEntry, userId: string): Promise<Gstr2bReconciliation>;
+  flagGstr2bVendor(id: string, note: string, userId: string): Promise<Gstr2bReconciliation>;
+
+  // Payment reminder operations
+  getReminderRules(): Promise<ReminderRule[]>;
+  getReminderRule(id: string): Promise<ReminderRule | undefined>;
+  createReminderRule(rule: InsertReminderRule): Promise<ReminderRule>;
+  updateReminderRule(id: string, rule: Partial<InsertReminderRule>): Promise<ReminderRule>;
+  deleteReminderRule(id: string): Promise<void>;
+  getBillReminders(billId: string): Promise<BillReminderWithRule[]>;
+  getRemindersDue(now?: Date): Promise<{ bill: BillWithDetails; rule: ReminderRule; scheduledFor: Date }[]>;
+  claimBillReminder(reminder: typeof billReminders.$inferInsert): Promise<BillReminder | undefined>;
+  recordBillReminderResult(id: string, status: ReminderStatus, error?: string): Promise<void>;
+
+  // Company settings operations
+  getCompanySettings(): Promise<CompanySettings | undefined>;
+  upsertCompanySettings(settings: InsertCompanySettings, userId: string): Promise<CompanySettings>;
+
+  // Numbering series operations
+  getDocumentSeries(): Promise<DocumentSeriesWithPreview[]>;
+  upsertDocumentSeries(series: InsertDocumentSeries): Promise<DocumentSeries>;
+  peekDocumentNumber(documentType: DocumentType, date: Date): Promise<string>;
+
+  // General ledger operations
+  getLedgerAccounts(): Promise<LedgerAccountWithBalance[]>;
+  createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount>;
+  updateLedgerAccount(id: string, account: UpdateLedgerAccount): Promise<LedgerAccount>;
+  getJournalEntries(filters?: JournalEntryFilters): Promise<JournalEntryWithLines[]>;
+  getJournalEntry(id: string): Promise<JournalEntryWithLines | undefined>;
+  createJournalEntry(entry: InsertJournalEntry, lines: InsertJournalLine[], userId: string): Promise<JournalEntryWithLines>;
+  getAccountMovements(to: Date, from?: Date): Promise<AccountMovement[]>;
+  getAccountLedger(accountId: string, from: Date, to: Date): Promise<AccountLedger | undefined>;
 
   // Analytics operations
   getDashboardStats(): Promise<{
@@ -153,12 +428,23 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // The item master may leave HSN blank, but a code that is there has to be
+  // long enough for the turnover band
+  private async checkItemHsnCode(hsnCode?: string | null) {
+    if (!hsnCode) return;
+    const error = getHsnCodeError(hsnCode, (await this.getCompanySettings())?.turnoverBand);
+    if (error) {
+      throw new BusinessRuleError(error, 400);
+    }
+  }
+
   async getItem(id: string): Promise<Item | undefined> {
     const [item] = await db.select().from(items).where(eq(items.id, id));
     return item;
   }
 
   async createItem(item: InsertItem): Promise<Item> {
+    await this.checkItemHsnCode(item.hsnCode);
     const [newItem] = await db.insert(items).values(item).returning();
     
     // Create initial inventory entry
@@ -171,6 +457,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateItem(id: string, item: Partial<InsertItem>): Promise<Item> {
+    await this.checkItemHsnCode(item.hsnCode);
     const [updatedItem] = await db
       .update(items)
       .set({ ...item, updatedAt: new Date() })
@@ -232,6 +519,194 @@ export class DatabaseStorage implements IStorage {
     await db.delete(customers).where(eq(customers.id, id));
   }
 
+  async getCustomerBalances(): Promise<CustomerBalance[]> {
+    const credited = db
+      .select({
+        billId: creditNotes.billId,
+        total: sql<string>`sum(${creditNotes.total})`.as('credited_total'),
+      })
+      .from(creditNotes)
+      .groupBy(creditNotes.billId)
+      .as('credited');
+
+    const paid = db
+      .select({
+        billId: paymentAllocations.billId,
+        total: sql<string>`sum(${paymentAllocations.amount})`.as('paid_total'),
+      })
+      .from(paymentAllocations)
+      .groupBy(paymentAllocations.billId)
+      .as('paid');
+
+    const rows = await db
+      .select({
+        customerId: bills.customerId,
+        billCount: sql`count(*)`.mapWith(Number),
+        billedTotal: sql<string>`coalesce(sum(${bills.total}), 0)`,
+        creditedTotal: sql<string>`coalesce(sum(${credited.total}), 0)`,
+        outstanding: sql<string>`coalesce(sum(greatest(0, ${bills.total} - coalesce(${credited.total}, 0) - coalesce(${paid.total}, 0))), 0)`,
+      })
+      .from(bills)
+      .leftJoin(credited, eq(credited.billId, bills.id))
+      .leftJoin(paid, eq(paid.billId, bills.id))
+      .where(sql`${bills.status} <> 'cancelled'`)
+      .groupBy(bills.customerId);
+
+    return rows.map(row => ({
+      ...row,
+      billedTotal: Number(row.billedTotal).toFixed(2),
+      creditedTotal: Number(row.creditedTotal).toFixed(2),
+      outstanding: Number(row.outstanding).toFixed(2),
+    }));
+  }
+
+  // Every document up to `to` is read so the opening balance covers the
+  // customer's whole history
+  async getCustomerStatement(customerId: string, from: Date, to: Date): Promise<CustomerStatement | undefined> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) return undefined;
+
+    const [customerBills, customerCreditNotes, customerPayments] = await Promise.all([
+      db.select().from(bills).where(and(eq(bills.customerId, customerId), lte(bills.billDate, to))),
+      db.select().from(creditNotes).where(and(eq(creditNotes.customerId, customerId), lte(creditNotes.creditNoteDate, to))),
+      db.select().from(payments).where(and(eq(payments.customerId, customerId), lte(payments.paymentDate, to))),
+    ]);
+
+    const transactions: StatementTransaction[] = [];
+    for (const bill of customerBills) {
+      const total = Number(bill.total);
+      transactions.push({
+        date: bill.billDate!,
+        type: 'bill',
+        documentNumber: bill.billNumber,
+        description: bill.dueDate ? `Due ${bill.dueDate.toLocaleDateString('en-IN')}` : '',
+        debit: total,
+        credit: 0,
+      });
+      if (bill.status === 'cancelled' && bill.cancelledAt) {
+        // Only what the credit notes had not already taken off is reversed
+        const credited = customerCreditNotes
+          .filter(note => note.billId === bill.id)
+          .reduce((sum, note) => sum + Number(note.total), 0);
+        transactions.push({
+          date: bill.cancelledAt,
+          type: 'cancellation',
+          documentNumber: bill.billNumber,
+          description: bill.cancellationReason ?? 'Bill cancelled',
+          debit: 0,
+          credit: round2(Math.max(0, total - credited)),
+        });
+      }
+    }
+
+    const billNumbers = new Map(customerBills.map(bill => [bill.id, bill.billNumber]));
+    for (const note of customerCreditNotes) {
+      transactions.push({
+        date: note.creditNoteDate!,
+        type: 'credit_note',
+        documentNumber: note.creditNoteNumber,
+        description: `Against ${billNumbers.get(note.billId) ?? 'bill'}: ${note.reason}`,
+        debit: 0,
+        credit: Number(note.total),
+      });
+    }
+
+    for (const payment of customerPayments) {
+      transactions.push({
+        date: payment.paymentDate!,
+        type: 'receipt',
+        documentNumber: payment.paymentNumber,
+        description: [getPaymentModeLabel(payment.mode), payment.referenceNumber].filter(Boolean).join(' - '),
+        debit: 0,
+        credit: Number(payment.amount),
+      });
+    }
+
+    return { customer, ...buildCustomerStatement(transactions, from, to) };
+  }
+
+  // Balances are worked out as they stood at the end of the asOf day: later
+  // bills are left out, and later credit notes, receipts and cancellations
+  // are not counted
+  async getReceivablesAging(asOf: Date, filters: ReceivablesAgingFilters = {}): Promise<ReceivablesAging> {
+    const endOfDay = new Date(asOf);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const credited = db
+      .select({
+        billId: creditNotes.billId,
+        total: sql<string>`sum(${creditNotes.total})`.as('credited_total'),
+      })
+      .from(creditNotes)
+      .where(lte(creditNotes.creditNoteDate, endOfDay))
+      .groupBy(creditNotes.billId)
+      .as('credited');
+
+    const paid = db
+      .select({
+        billId: paymentAllocations.billId,
+        total: sql<string>`sum(${paymentAllocations.amount})`.as('paid_total'),
+      })
+      .from(paymentAllocations)
+      .innerJoin(payments, eq(paymentAllocations.paymentId, payments.id))
+      .where(lte(payments.paymentDate, endOfDay))
+      .groupBy(paymentAllocations.billId)
+      .as('paid');
+
+    const rows = await db
+      .select({
+        bill: bills,
+        customer: customers,
+        salesperson: { firstName: users.firstName, lastName: users.lastName, email: users.email },
+        balanceDue: sql<string>`${bills.total} - coalesce(${credited.total}, 0) - coalesce(${paid.total}, 0)`,
+      })
+      .from(bills)
+      .innerJoin(customers, eq(bills.customerId, customers.id))
+      .leftJoin(users, eq(bills.createdBy, users.id))
+      .leftJoin(credited, eq(credited.billId, bills.id))
+      .leftJoin(paid, eq(paid.billId, bills.id))
+      .where(and(
+        lte(bills.billDate, endOfDay),
+        or(ne(bills.status, 'cancelled'), gt(bills.cancelledAt, endOfDay)),
+      ));
+
+    const salespeople = new Map<string, string>();
+    const matches = (value: string | null, wanted?: string) =>
+      !wanted || (value ?? '').trim().toLowerCase() === wanted.trim().toLowerCase();
+    const documents: ReceivableAgingBill[] = [];
+
+    for (const { bill, customer, salesperson, balanceDue } of rows) {
+      const balance = round2(Number(balanceDue));
+      if (balance <= 0) continue;
+      const salespersonName = salesperson
+        ? [salesperson.firstName, salesperson.lastName].filter(Boolean).join(" ") || salesperson.email
+        : null;
+      salespeople.set(bill.createdBy, salespersonName ?? 'Unknown user');
+
+      if (filters.createdBy && bill.createdBy !== filters.createdBy) continue;
+      if (!matches(customer.city, filters.city) || !matches(customer.state, filters.state)) continue;
+      documents.push({
+        partyId: customer.id,
+        partyName: customer.name,
+        city: customer.city,
+        state: customer.state,
+        documentId: bill.id,
+        documentNumber: bill.billNumber,
+        documentDate: bill.billDate,
+        dueDate: bill.dueDate,
+        total: Number(bill.total),
+        balanceDue: balance,
+        createdBy: bill.createdBy,
+        salespersonName,
+      });
+    }
+
+    return {
+      ...buildAgingReport(documents, asOf),
+      salespeople: Array.from(salespeople, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
   // Vendor operations
   async getVendors(): Promise<Vendor[]> {
     return await db.select().from(vendors).orderBy(asc(vendors.name));
@@ -260,8 +735,20 @@ export class DatabaseStorage implements IStorage {
     await db.delete(vendors).where(eq(vendors.id, id));
   }
 
+  async setVendorFlag(id: string, note: string | null): Promise<Vendor> {
+    const [vendor] = await db
+      .update(vendors)
+      .set({ flaggedAt: note ? new Date() : null, flagNote: note, updatedAt: new Date() })
+      .where(eq(vendors.id, id))
+      .returning();
+    if (!vendor) {
+      throw new BusinessRuleError("Vendor not found", 404);
+    }
+    return vendor;
+  }
+
   // Inventory operations
-  async getInventory(): Promise<(Inventory & { item: Item })[]> {
+  async getInventory(): Promise<InventoryWithReservation[]> {
     const result = await db
       .select({
         inventory: inventory,
@@ -271,12 +758,59 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(items, eq(inventory.itemId, items.id))
       .orderBy(asc(items.name));
 
+    const reserved = await this.getReservedQuantities(db);
     return result.map(({ inventory: inv, item }) => ({
       ...inv,
       item,
+      reserved: reserved.get(item.id) ?? 0,
+      available: Math.max(0, inv.quantity - (reserved.get(item.id) ?? 0)),
     }));
   }
 
+  // Locks the stock rows so two documents can't claim the same units. Units
+  // reserved for open sales orders are not available to anything else; a
+  // delivery passes its own order, whose reservation it is using up.
+  private async checkAvailableStock(
+    lines: { itemId: string; quantity: number }[],
+    tx: DbExecutor,
+    wording: { action: string; requested: string },
+    ownSalesOrderId?: string,
+  ): Promise<void> {
+    const itemIds = Array.from(new Set(lines.map(line => line.itemId)));
+    if (itemIds.length === 0) return;
+    const stock = await tx.select().from(inventory).where(inArray(inventory.itemId, itemIds)).for('update');
+    const reserved = await this.getReservedQuantities(tx, itemIds, ownSalesOrderId);
+
+    for (const itemId of itemIds) {
+      const wanted = lines.filter(line => line.itemId === itemId).reduce((sum, line) => sum + line.quantity, 0);
+      const onHand = stock.find(row => row.itemId === itemId)?.quantity ?? 0;
+      const available = Math.max(0, onHand - (reserved.get(itemId) ?? 0));
+      if (wanted > available) {
+        const [item] = await tx.select({ name: items.name }).from(items).where(eq(items.id, itemId));
+        throw new BusinessRuleError(`Only ${available} of ${item?.name ?? "this item"} available to ${wording.action}; ${wanted} ${wording.requested}`);
+      }
+    }
+  }
+
+  // Undelivered quantities on open sales orders, by item
+  private async getReservedQuantities(executor: DbExecutor, itemIds?: string[], excludeSalesOrderId?: string): Promise<Map<string, number>> {
+    const rows = await executor
+      .select({
+        itemId: salesOrderItems.itemId,
+        reserved: sql`coalesce(sum(${salesOrderItems.quantity} - ${salesOrderItems.deliveredQuantity}), 0)`.mapWith(Number),
+      })
+      .from(salesOrderItems)
+      .innerJoin(salesOrders, eq(salesOrderItems.salesOrderId, salesOrders.id))
+      .where(and(
+        inArray(salesOrders.status, [...RESERVING_SALES_ORDER_STATUSES]),
+        itemIds ? inArray(salesOrderItems.itemId, itemIds) : undefined,
+        excludeSalesOrderId ? ne(salesOrders.id, excludeSalesOrderId) : undefined,
+      ))
+      .groupBy(salesOrderItems.itemId);
+
+    return new Map(rows.map(row => [row.itemId, row.reserved]));
+  }
+
   async getInventoryByItem(itemId: string): Promise<Inventory | undefined> {
     const [inv] = await db.select().from(inventory).where(eq(inventory.itemId, itemId));
     return inv;
@@ -328,21 +862,27 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const [newMovement] = await db.insert(stockMovements).values(movement).returning();
-    
-    // Update inventory quantity
-    const currentInventory = await this.getInventoryByItem(movement.itemId);
-    if (currentInventory) {
-      let newQuantity = currentInventory.quantity;
-      if (movement.type === 'purchase') {
-        newQuantity += movement.quantity;
-      } else if (movement.type === 'sale') {
-        newQuantity -= movement.quantity;
-      } else if (movement.type === 'adjustment') {
-        newQuantity = movement.quantity;
-      }
-      await this.updateInventory(movement.itemId, Math.max(0, newQuantity));
+  async createStockMovement(movement: InsertStockMovement, executor?: DbExecutor): Promise<StockMovement> {
+    if (!executor) {
+      return db.transaction(tx => this.createStockMovement(movement, tx));
+    }
+    const [newMovement] = await executor.insert(stockMovements).values(movement).returning();
+
+    // Update inventory quantity in a single statement so concurrent movements don't overwrite each other
+    let quantity;
+    if (movement.type === 'purchase' || movement.type === 'cancellation' || movement.type === 'sales_return') {
+      quantity = sql`greatest(0, ${inventory.quantity} + ${movement.quantity})`;
+    } else if (movement.type === 'sale' || movement.type === 'delivery') {
+      quantity = sql`greatest(0, ${inventory.quantity} - ${movement.quantity})`;
+    } else if (movement.type === 'adjustment') {
+      quantity = Math.max(0, movement.quantity);
+      await this.postStockWriteOff(newMovement, quantity, executor);
+    }
+    if (quantity !== undefined) {
+      await executor
+        .update(inventory)
+        .set({ quantity, lastUpdated: new Date() })
+        .where(eq(inventory.itemId, movement.itemId));
     }
 
     return newMovement;
@@ -359,8 +899,26 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(customers, eq(bills.customerId, customers.id))
       .orderBy(desc(bills.createdAt));
 
-    const billsWithItems = await Promise.all(
-      result.map(async ({ bill, customer }) => {
+    return this.withBillItems(result);
+  }
+
+  async getBillsByDateRange(from: Date, to: Date): Promise<BillWithDetails[]> {
+    const result = await db
+      .select({
+        bill: bills,
+        customer: customers,
+      })
+      .from(bills)
+      .innerJoin(customers, eq(bills.customerId, customers.id))
+      .where(and(gte(bills.billDate, from), lte(bills.billDate, to)))
+      .orderBy(asc(bills.billDate));
+
+    return this.withBillItems(result);
+  }
+
+  private async withBillItems(rows: { bill: Bill; customer: Customer }[]): Promise<BillWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ bill, customer }) => {
         const billItemsResult = await db
           .select({
             billItem: billItems,
@@ -370,6 +928,20 @@ export class DatabaseStorage implements IStorage {
           .innerJoin(items, eq(billItems.itemId, items.id))
           .where(eq(billItems.billId, bill.id));
 
+        const { amountCredited, amountPaid } = await this.getBillSettlement(bill.id, db);
+
+        const invoicedChallans = await db
+          .select({ challanNumber: deliveryChallans.challanNumber })
+          .from(deliveryChallans)
+          .where(eq(deliveryChallans.billId, bill.id));
+
+        const [cancelledByUser] = bill.cancelledBy
+          ? await db
+            .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+            .from(users)
+            .where(eq(users.id, bill.cancelledBy))
+          : [];
+
         return {
           ...bill,
           customer,
@@ -377,11 +949,41 @@ export class DatabaseStorage implements IStorage {
             ...billItem,
             item,
           })),
+          cancelledByUser: cancelledByUser ?? null,
+          challanNumbers: invoicedChallans.map(challan => challan.challanNumber),
+          amountCredited: amountCredited.toFixed(2),
+          amountPaid: amountPaid.toFixed(2),
+          balanceDue: bill.status === 'cancelled'
+            ? "0.00"
+            : Math.max(0, round2(Number(bill.total) - amountCredited - amountPaid)).toFixed(2),
         };
       })
     );
+  }
+
+  private async getBillSettlement(billId: string, executor: DbExecutor): Promise<{ amountCredited: number; amountPaid: number }> {
+    const [credited] = await executor
+      .select({ total: sql`coalesce(sum(${creditNotes.total}), 0)`.mapWith(Number) })
+      .from(creditNotes)
+      .where(eq(creditNotes.billId, billId));
+    const [paid] = await executor
+      .select({ total: sql`coalesce(sum(${paymentAllocations.amount}), 0)`.mapWith(Number) })
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.billId, billId));
+    return { amountCredited: credited.total, amountPaid: paid.total };
+  }
+
+  // Bill status follows what has been paid against what is still owed after
+  // credit notes; called whenever either changes
+  private async refreshBillPaymentStatus(billId: string, executor: DbExecutor): Promise<void> {
+    const [bill] = await executor.select().from(bills).where(eq(bills.id, billId));
+    if (!bill || bill.status === 'cancelled') return;
 
-    return billsWithItems;
+    const { amountCredited, amountPaid } = await this.getBillSettlement(billId, executor);
+    const status = deriveBillPaymentStatus(round2(Number(bill.total) - amountCredited), amountPaid, bill.dueDate);
+    if (status !== bill.status) {
+      await executor.update(bills).set({ status }).where(eq(bills.id, billId));
+    }
   }
 
   async getBill(id: string): Promise<BillWithDetails | undefined> {
@@ -396,175 +998,2898 @@ export class DatabaseStorage implements IStorage {
 
     if (!billResult) return undefined;
 
-    const billItemsResult = await db
-      .select({
-        billItem: billItems,
-        item: items,
-      })
-      .from(billItems)
-      .innerJoin(items, eq(billItems.itemId, items.id))
-      .where(eq(billItems.billId, id));
+    const [bill] = await this.withBillItems([billResult]);
+    return bill;
+  }
+
+  // The due date always follows the customer's credit days, whatever the client sent
+  async createBill(bill: InsertBill, billItemsData: InsertBillItem[]): Promise<BillWithDetails> {
+    const priced = await this.priceLines(bill.customerId, billItemsData, bill);
+    const newBill = await db.transaction(tx => this.insertBill({ ...bill, dueDate: undefined }, priced, tx));
+    return this.getBill(newBill.id) as Promise<BillWithDetails>;
+  }
+
+  // Tax is always taken from the item master, never from the client. Shared by
+  // bills and quotations so a converted quotation bills at the quoted figures.
+  private async priceLines(customerId: string, lineItems: InsertBillItem[], billDiscount: Discount = {}): Promise<PricedLines> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) {
+      throw new BusinessRuleError("Customer not found", 400);
+    }
+
+    const itemIds = Array.from(new Set(lineItems.map(item => item.itemId)));
+    const pricedItems = itemIds.length
+      ? await db.select().from(items).where(inArray(items.id, itemIds))
+      : [];
+
+    const company = await this.getCompanySettings();
+    const companyStateCode = company?.stateCode;
+    const placeOfSupply = getPlaceOfSupply(customer, companyStateCode);
+    const supplyType = getSupplyType(companyStateCode, placeOfSupply);
+
+    const invoiceLines = lineItems.map(line => {
+      const item = pricedItems.find(i => i.id === line.itemId);
+      if (!item) {
+        throw new BusinessRuleError("Item not found", 400);
+      }
+      return { ...line, rate: Number(line.rate), gstRate: Number(item.gstRate), hsnCode: item.hsnCode };
+    });
 
+    const { lines, totals } = priceInvoice(invoiceLines, billDiscount, supplyType, company?.roundOffInvoices ?? true);
     return {
-      ...billResult.bill,
-      customer: billResult.customer,
-      billItems: billItemsResult.map(({ billItem, item }) => ({
-        ...billItem,
-        item,
-      })),
+      placeOfSupply,
+      lines: lines.map((priced, index) => ({ line: lineItems[index], hsnCode: invoiceLines[index].hsnCode, ...priced })),
+      totals,
     };
   }
 
-  async createBill(bill: InsertBill, billItemsData: InsertBillItem[]): Promise<BillWithDetails> {
-    const [newBill] = await db.insert(bills).values(bill).returning();
+  // Bills raised against delivery challans pass moveStock = false, as the
+  // challans already took the goods out, on the shelf and in the ledger.
+  // Services (SAC codes) hold no stock, so only goods lines are checked
+  // against what is available. Without a due date the bill falls due after
+  // the customer's credit days.
+  private async insertBill(bill: InsertBill, { placeOfSupply, lines, totals }: PricedLines, tx: DbExecutor, moveStock = true): Promise<Bill> {
+    await this.checkInvoiceHsnCodes(bill.customerId, lines, tx);
+    if (moveStock) {
+      const goods = lines.filter(({ hsnCode }) => !isServiceCode(hsnCode)).map(({ line }) => line);
+      await this.checkAvailableStock(goods, tx, { action: "bill", requested: "billed" });
+    }
+
+    const billDate = bill.billDate ?? new Date();
+    const [customer] = await tx.select().from(customers).where(eq(customers.id, bill.customerId));
+    const [newBill] = await tx.insert(bills).values({
+      ...bill,
+      ...this.discountColumns(bill),
+      billNumber: await this.allocateDocumentNumber('bill', billDate, tx),
+      billDate,
+      dueDate: bill.dueDate ?? getBillDueDate(billDate, customer.creditDays),
+      placeOfSupply,
+      ...this.totalColumns(totals),
+    }).returning();
 
     // Insert bill items
-    const billItemsWithBillId = billItemsData.map(item => ({
-      ...item,
+    await tx.insert(billItems).values(lines.map(priced => ({
       billId: newBill.id,
-    }));
-    await db.insert(billItems).values(billItemsWithBillId);
+      ...this.lineColumns(priced),
+    })));
+
+    await this.postDocument({
+      entryDate: billDate,
+      narration: `Sales invoice ${newBill.billNumber}`,
+      sourceType: 'bill',
+      sourceId: newBill.id,
+      sourceNumber: newBill.billNumber,
+      createdBy: newBill.createdBy,
+    }, getBillPostings(totals, moveStock ? await this.getCostOfGoods(lines.map(({ line }) => line), tx) : 0), tx);
+
+    if (!moveStock) return newBill;
 
     // Create stock movements for each item
-    for (const billItem of billItemsData) {
+    for (const { line } of lines) {
       await this.createStockMovement({
-        itemId: billItem.itemId,
+        itemId: line.itemId,
         type: 'sale',
-        quantity: billItem.quantity,
+        quantity: line.quantity,
         reason: `Sale - Bill ${newBill.billNumber}`,
-      });
+      }, tx);
     }
 
-    return this.getBill(newBill.id) as Promise<BillWithDetails>;
+    return newBill;
+  }
+
+  private totalColumns(totals: InvoiceTotals) {
+    return {
+      subtotal: totals.taxableValue.toFixed(2),
+      discountAmount: totals.discountAmount.toFixed(2),
+      roundOff: totals.roundOff.toFixed(2),
+      gstAmount: totals.taxAmount.toFixed(2),
+      cgstAmount: totals.cgstAmount.toFixed(2),
+      sgstAmount: totals.sgstAmount.toFixed(2),
+      igstAmount: totals.igstAmount.toFixed(2),
+      total: totals.total.toFixed(2),
+    };
+  }
+
+  // Tax invoices to registered customers must show an HSN/SAC code of the
+  // length our turnover band requires on every line
+  private async checkInvoiceHsnCodes(customerId: string, lines: PricedLines["lines"], tx: DbExecutor) {
+    const [customer] = await tx.select({ gstin: customers.gstin }).from(customers).where(eq(customers.id, customerId));
+    if (!customer?.gstin) return;
+
+    const [company] = await tx.select({ turnoverBand: companySettings.turnoverBand }).from(companySettings);
+    for (const { line, hsnCode } of lines) {
+      const error = getHsnCodeError(hsnCode, company?.turnoverBand);
+      if (error) {
+        const [item] = await tx.select({ name: items.name }).from(items).where(eq(items.id, line.itemId));
+        throw new BusinessRuleError(`${item?.name ?? "An item"}: ${error} on invoices to GST-registered customers`, 400);
+      }
+    }
+  }
+
+  private discountColumns(discount: Discount) {
+    return {
+      discountType: discount.discountType ?? "percent",
+      discountValue: Number(discount.discountValue ?? 0).toFixed(2),
+    };
+  }
+
+  // Fields left out of the form are cleared rather than kept from an earlier save
+  private transportColumns(details: TransportDetails) {
+    return {
+      transportMode: details.transportMode,
+      transportDistance: details.transportDistance,
+      transporterId: details.transporterId ?? null,
+      transporterName: details.transporterName ?? null,
+      vehicleNumber: details.vehicleNumber ?? null,
+      transportDocNumber: details.transportDocNumber ?? null,
+      transportDocDate: details.transportDocDate ?? null,
+    };
+  }
+
+  private lineColumns({ line, hsnCode, amount, discountAmount, tax }: PricedLines["lines"][number]) {
+    return {
+      itemId: line.itemId,
+      hsnCode,
+      quantity: line.quantity,
+      rate: Number(line.rate).toFixed(2),
+      amount: amount.toFixed(2),
+      ...this.discountColumns(line),
+      discountAmount: discountAmount.toFixed(2),
+      gstRate: tax.gstRate.toFixed(2),
+      taxableValue: tax.taxableValue.toFixed(2),
+      cgstAmount: tax.cgstAmount.toFixed(2),
+      sgstAmount: tax.sgstAmount.toFixed(2),
+      igstAmount: tax.igstAmount.toFixed(2),
+    };
+  }
+
+  async cancelBill(id: string, reason: string, userId: string): Promise<BillWithDetails> {
+    await db.transaction(async (tx) => {
+      // Lock the row so two cancellations can't both restore the stock
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, id)).for('update');
+      if (!bill) {
+        throw new BusinessRuleError("Bill not found", 404);
+      }
+      const { amountCredited, amountPaid } = await this.getBillSettlement(id, tx);
+      if (amountPaid > 0) {
+        throw new BusinessRuleError("Bills with payments recorded cannot be cancelled. Issue a credit note instead.");
+      }
+      // The credit notes have already returned stock and reduced output tax
+      // for part of the bill, so cancelling it too would count that part twice
+      if (amountCredited > 0) {
+        throw new BusinessRuleError("Bills with credit notes against them cannot be cancelled. Credit the remaining amount instead.");
+      }
+      if (!canCancelBill(bill)) {
+        throw new BusinessRuleError(`A ${bill.status} bill cannot be cancelled`);
+      }
+
+      const cancelledAt = new Date();
+      await tx
+        .update(bills)
+        .set({
+          status: 'cancelled',
+          cancelledAt,
+          cancelledBy: userId,
+          cancellationReason: reason,
+        })
+        .where(eq(bills.id, id));
+
+      // Undo the sale in the ledger. A bill raised against delivery challans
+      // posted no cost of goods, as the challans did, so the goods stay out of
+      // inventory in the books just as they do on the shelf.
+      await this.reverseDocument({ sourceType: 'bill', sourceId: id }, {
+        entryDate: cancelledAt,
+        narration: `Cancellation of invoice ${bill.billNumber}: ${reason}`,
+        sourceType: 'bill_cancellation',
+        sourceId: id,
+        sourceNumber: bill.billNumber,
+        createdBy: userId,
+      }, tx);
+
+      // Goods sent on delivery challans stay delivered; the challans just go
+      // back to waiting for an invoice
+      const invoicedChallans = await tx
+        .update(deliveryChallans)
+        .set({ billId: null })
+        .where(eq(deliveryChallans.billId, id))
+        .returning({ id: deliveryChallans.id });
+      if (invoicedChallans.length > 0) return;
+
+      // Put back the stock the sale took out
+      const lines = await tx.select().from(billItems).where(eq(billItems.billId, id));
+      for (const line of lines) {
+        await this.createStockMovement({
+          itemId: line.itemId,
+          type: 'cancellation',
+          quantity: line.quantity,
+          reason: `Cancelled - Bill ${bill.billNumber}`,
+        }, tx);
+      }
+    });
+
+    return this.getBill(id) as Promise<BillWithDetails>;
+  }
+
+  // An IRN is issued once per invoice; replacing it means cancelling on the IRP first
+  async recordBillIrn(id: string, registration: RecordBillIrn): Promise<BillWithDetails> {
+    await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, id)).for('update');
+      if (!bill) {
+        throw new BusinessRuleError("Bill not found", 404);
+      }
+      if (bill.status === 'cancelled') {
+        throw new BusinessRuleError("A cancelled bill cannot be registered on the IRP");
+      }
+      if (bill.irn) {
+        throw new BusinessRuleError(`Bill ${bill.billNumber} already has IRN ${bill.irn}`);
+      }
+
+      const [duplicate] = await tx.select({ billNumber: bills.billNumber }).from(bills).where(eq(bills.irn, registration.irn));
+      if (duplicate) {
+        throw new BusinessRuleError(`This IRN is already recorded against bill ${duplicate.billNumber}`);
+      }
+
+      await tx
+        .update(bills)
+        .set({
+          irn: registration.irn,
+          irnAckNumber: registration.ackNumber,
+          irnAckDate: registration.ackDate,
+          signedQrCode: registration.signedQrCode,
+        })
+        .where(eq(bills.id, id));
+    });
+
+    return this.getBill(id) as Promise<BillWithDetails>;
+  }
+
+  // Part B can be changed until the e-way bill is generated; after that the
+  // vehicle is updated on the portal itself
+  async updateBillTransport(id: string, details: TransportDetails): Promise<BillWithDetails> {
+    await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, id)).for('update');
+      if (!bill) {
+        throw new BusinessRuleError("Bill not found", 404);
+      }
+      if (bill.status === 'cancelled') {
+        throw new BusinessRuleError("Goods on a cancelled bill cannot be dispatched");
+      }
+      if (bill.ewbNumber) {
+        throw new BusinessRuleError(`E-way bill ${bill.ewbNumber} is already generated. Update Part B on the e-way bill portal.`);
+      }
+      await tx.update(bills).set(this.transportColumns(details)).where(eq(bills.id, id));
+    });
+
+    return this.getBill(id) as Promise<BillWithDetails>;
+  }
+
+  async recordBillEWayBill(id: string, ewb: RecordEWayBill): Promise<BillWithDetails> {
+    await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, id)).for('update');
+      if (!bill) {
+        throw new BusinessRuleError("Bill not found", 404);
+      }
+      if (bill.status === 'cancelled') {
+        throw new BusinessRuleError("A cancelled bill cannot carry an e-way bill");
+      }
+      if (bill.ewbNumber) {
+        throw new BusinessRuleError(`Bill ${bill.billNumber} already has e-way bill ${bill.ewbNumber}`);
+      }
+      await tx.update(bills).set(ewb).where(eq(bills.id, id));
+    });
+
+    return this.getBill(id) as Promise<BillWithDetails>;
   }
 
-  async updateBillStatus(id: string, status: string): Promise<Bill> {
-    const [updatedBill] = await db
+  // Payments and credit notes re-derive the status as they come in; this
+  // catches bills that simply ran past their due date
+  async markOverdueBills(now = new Date()): Promise<number> {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    const marked = await db
       .update(bills)
-      .set({ status })
-      .where(eq(bills.id, id))
-      .returning();
-    return updatedBill;
+      .set({ status: 'overdue' })
+      .where(and(
+        inArray(bills.status, ['pending', 'partially_paid']),
+        lt(bills.dueDate, startOfToday),
+      ))
+      .returning({ id: bills.id });
+    return marked.length;
   }
 
+  // Preview only; the number is allocated when the bill is saved
   async getNextBillNumber(): Promise<string> {
-    const [lastBill] = await db
-      .select({ billNumber: bills.billNumber })
-      .from(bills)
-      .orderBy(desc(bills.createdAt))
-      .limit(1);
+    return this.peekDocumentNumber('bill', new Date());
+  }
 
-    if (!lastBill) {
-      return "INV-2024-001";
-    }
+  // Credit note operations
+  async getCreditNotes(): Promise<CreditNoteWithDetails[]> {
+    const result = await db
+      .select({
+        creditNote: creditNotes,
+        customer: customers,
+        bill: bills,
+      })
+      .from(creditNotes)
+      .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+      .innerJoin(bills, eq(creditNotes.billId, bills.id))
+      .orderBy(desc(creditNotes.createdAt));
 
-    const lastNumber = parseInt(lastBill.billNumber.split('-')[2]);
-    return `INV-2024-${String(lastNumber + 1).padStart(3, '0')}`;
+    return this.withCreditNoteItems(result);
   }
 
-  // Purchase operations
-  async getPurchases(): Promise<PurchaseWithDetails[]> {
+  async getCreditNote(id: string): Promise<CreditNoteWithDetails | undefined> {
     const result = await db
       .select({
-        purchase: purchases,
-        vendor: vendors,
+        creditNote: creditNotes,
+        customer: customers,
+        bill: bills,
       })
-      .from(purchases)
-      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
-      .orderBy(desc(purchases.createdAt));
+      .from(creditNotes)
+      .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+      .innerJoin(bills, eq(creditNotes.billId, bills.id))
+      .where(eq(creditNotes.id, id));
 
-    const purchasesWithItems = await Promise.all(
-      result.map(async ({ purchase, vendor }) => {
-        const purchaseItemsResult = await db
+    const [creditNote] = await this.withCreditNoteItems(result);
+    return creditNote;
+  }
+
+  async getCreditNotesByBill(billId: string): Promise<CreditNoteWithDetails[]> {
+    const result = await db
+      .select({
+        creditNote: creditNotes,
+        customer: customers,
+        bill: bills,
+      })
+      .from(creditNotes)
+      .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+      .innerJoin(bills, eq(creditNotes.billId, bills.id))
+      .where(eq(creditNotes.billId, billId))
+      .orderBy(asc(creditNotes.createdAt));
+
+    return this.withCreditNoteItems(result);
+  }
+
+  async getCreditNotesByDateRange(from: Date, to: Date): Promise<CreditNoteWithDetails[]> {
+    const result = await db
+      .select({
+        creditNote: creditNotes,
+        customer: customers,
+        bill: bills,
+      })
+      .from(creditNotes)
+      .innerJoin(customers, eq(creditNotes.customerId, customers.id))
+      .innerJoin(bills, eq(creditNotes.billId, bills.id))
+      .where(and(gte(creditNotes.creditNoteDate, from), lte(creditNotes.creditNoteDate, to)))
+      .orderBy(asc(creditNotes.creditNoteDate));
+
+    return this.withCreditNoteItems(result);
+  }
+
+  private async withCreditNoteItems(rows: { creditNote: CreditNote; customer: Customer; bill: Bill }[]): Promise<CreditNoteWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ creditNote, customer, bill }) => {
+        const itemsResult = await db
           .select({
-            purchaseItem: purchaseItems,
+            creditNoteItem: creditNoteItems,
             item: items,
           })
-          .from(purchaseItems)
-          .innerJoin(items, eq(purchaseItems.itemId, items.id))
-          .where(eq(purchaseItems.purchaseId, purchase.id));
+          .from(creditNoteItems)
+          .innerJoin(items, eq(creditNoteItems.itemId, items.id))
+          .where(eq(creditNoteItems.creditNoteId, creditNote.id));
 
         return {
-          ...purchase,
-          vendor,
-          purchaseItems: purchaseItemsResult.map(({ purchaseItem, item }) => ({
-            ...purchaseItem,
+          ...creditNote,
+          customer,
+          bill,
+          creditNoteItems: itemsResult.map(({ creditNoteItem, item }) => ({
+            ...creditNoteItem,
             item,
           })),
         };
       })
     );
+  }
 
-    return purchasesWithItems;
+  async createCreditNote(creditNote: InsertCreditNote, creditNoteItemsData: InsertCreditNoteItem[]): Promise<CreditNoteWithDetails> {
+    if (creditNoteItemsData.length === 0) {
+      throw new BusinessRuleError("Select at least one item to return", 400);
+    }
+    if (new Set(creditNoteItemsData.map(line => line.billItemId)).size !== creditNoteItemsData.length) {
+      throw new BusinessRuleError("Each bill line can only appear once", 400);
+    }
+
+    const newCreditNote = await db.transaction(async (tx) => {
+      // Locking the bill serialises returns against it, so two counters can't
+      // both return the last unit of a line
+      const [bill] = await tx.select().from(bills).where(eq(bills.id, creditNote.billId)).for('update');
+      if (!bill) {
+        throw new BusinessRuleError("Bill not found", 404);
+      }
+      if (bill.status === 'cancelled') {
+        throw new BusinessRuleError("A cancelled bill cannot have a credit note");
+      }
+
+      const lines = await tx
+        .select({ billItem: billItems, item: items })
+        .from(billItems)
+        .innerJoin(items, eq(billItems.itemId, items.id))
+        .where(eq(billItems.billId, bill.id));
+
+      const alreadyCredited = await tx
+        .select({
+          billItemId: creditNoteItems.billItemId,
+          quantity: sql`sum(${creditNoteItems.quantity})`.mapWith(Number),
+          taxableValue: sql`sum(${creditNoteItems.taxableValue})`.mapWith(Number),
+          cgstAmount: sql`sum(${creditNoteItems.cgstAmount})`.mapWith(Number),
+          sgstAmount: sql`sum(${creditNoteItems.sgstAmount})`.mapWith(Number),
+          igstAmount: sql`sum(${creditNoteItems.igstAmount})`.mapWith(Number),
+        })
+        .from(creditNoteItems)
+        .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+        .where(eq(creditNotes.billId, bill.id))
+        .groupBy(creditNoteItems.billItemId);
+
+      const supplyType: SupplyType = Number(bill.igstAmount) > 0 ? 'inter' : 'intra';
+
+      const returned = creditNoteItemsData.map(({ billItemId, quantity }) => {
+        const line = lines.find(l => l.billItem.id === billItemId);
+        if (!line) {
+          throw new BusinessRuleError("Returned item is not on this bill", 400);
+        }
+        const { billItem, item } = line;
+        const credited = alreadyCredited.find(c => c.billItemId === billItemId);
+        const remaining = billItem.quantity - (credited?.quantity ?? 0);
+        if (quantity > remaining) {
+          throw new BusinessRuleError(`Only ${remaining} ${item.unit} of ${item.name} can still be returned`);
+        }
+
+        // Returning everything that is left credits exactly what remains, so
+        // rounding on earlier partial returns never leaves paise behind
+        const gstRate = Number(billItem.gstRate);
+        let tax: TaxLineResult;
+        if (quantity === remaining) {
+          const cgstAmount = round2(Number(billItem.cgstAmount) - (credited?.cgstAmount ?? 0));
+          const sgstAmount = round2(Number(billItem.sgstAmount) - (credited?.sgstAmount ?? 0));
+          const igstAmount = round2(Number(billItem.igstAmount) - (credited?.igstAmount ?? 0));
+          tax = {
+            taxableValue: round2(Number(billItem.taxableValue) - (credited?.taxableValue ?? 0)),
+            gstRate,
+            cgstAmount,
+            sgstAmount,
+            igstAmount,
+            taxAmount: round2(cgstAmount + sgstAmount + igstAmount),
+          };
+        } else {
+          tax = calculateLineTax({
+            taxableValue: Number(billItem.taxableValue) * quantity / billItem.quantity,
+            gstRate,
+          }, supplyType);
+        }
+
+        return { billItem, quantity, tax };
+      });
+      const taxTotals = sumTaxLines(returned.map(r => r.tax));
+
+      const clearsBill = lines.every(({ billItem }) => {
+        const creditedQuantity = alreadyCredited.find(c => c.billItemId === billItem.id)?.quantity ?? 0;
+        const returning = returned.find(r => r.billItem.id === billItem.id)?.quantity ?? 0;
+        return creditedQuantity + returning === billItem.quantity;
+      });
+      const [{ creditedBefore }] = await tx
+        .select({ creditedBefore: sql`coalesce(sum(${creditNotes.total}), 0)`.mapWith(Number) })
+        .from(creditNotes)
+        .where(eq(creditNotes.billId, bill.id));
+      const roundOff = getCreditNoteRoundOff(Number(bill.total), creditedBefore, taxTotals.total, clearsBill);
+      const totals = { ...taxTotals, roundOff, total: round2(taxTotals.total + roundOff) };
+
+      const creditNoteDate = creditNote.creditNoteDate ?? new Date();
+      const [newCreditNote] = await tx.insert(creditNotes).values({
+        ...creditNote,
+        creditNoteNumber: await this.allocateDocumentNumber('credit_note', creditNoteDate, tx),
+        creditNoteDate,
+        customerId: bill.customerId,
+        placeOfSupply: bill.placeOfSupply,
+        subtotal: totals.taxableValue.toFixed(2),
+        gstAmount: totals.taxAmount.toFixed(2),
+        cgstAmount: totals.cgstAmount.toFixed(2),
+        sgstAmount: totals.sgstAmount.toFixed(2),
+        igstAmount: totals.igstAmount.toFixed(2),
+        roundOff: totals.roundOff.toFixed(2),
+        total: totals.total.toFixed(2),
+      }).returning();
+
+      await tx.insert(creditNoteItems).values(returned.map(({ billItem, quantity, tax }) => ({
+        creditNoteId: newCreditNote.id,
+        billItemId: billItem.id,
+        hsnCode: billItem.hsnCode,
+        itemId: billItem.itemId,
+        quantity,
+        rate: billItem.rate,
+        amount: tax.taxableValue.toFixed(2),
+        gstRate: tax.gstRate.toFixed(2),
+        taxableValue: tax.taxableValue.toFixed(2),
+        cgstAmount: tax.cgstAmount.toFixed(2),
+        sgstAmount: tax.sgstAmount.toFixed(2),
+        igstAmount: tax.igstAmount.toFixed(2),
+      })));
+
+      await this.postDocument({
+        entryDate: creditNoteDate,
+        narration: `Goods returned on credit note ${newCreditNote.creditNoteNumber} against ${bill.billNumber}`,
+        sourceType: 'credit_note',
+        sourceId: newCreditNote.id,
+        sourceNumber: newCreditNote.creditNoteNumber,
+        createdBy: newCreditNote.createdBy,
+      }, getCreditNotePostings(totals, await this.getCostOfGoods(returned.map(({ billItem, quantity }) => ({ itemId: billItem.itemId, quantity })), tx)), tx);
+
+      // Returned goods go back on the shelf
+      for (const { billItem, quantity } of returned) {
+        await this.createStockMovement({
+          itemId: billItem.itemId,
+          type: 'sales_return',
+          quantity,
+          reason: `Return - Credit Note ${newCreditNote.creditNoteNumber} against ${bill.billNumber}`,
+        }, tx);
+      }
+
+      await this.refreshBillPaymentStatus(bill.id, tx);
+
+      return newCreditNote;
+    });
+
+    return this.getCreditNote(newCreditNote.id) as Promise<CreditNoteWithDetails>;
   }
 
-  async getPurchase(id: string): Promise<PurchaseWithDetails | undefined> {
-    const [purchaseResult] = await db
+  // Payment operations
+  async getPayments(): Promise<PaymentWithDetails[]> {
+    const result = await db
       .select({
-        purchase: purchases,
-        vendor: vendors,
+        payment: payments,
+        customer: customers,
       })
-      .from(purchases)
-      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
-      .where(eq(purchases.id, id));
+      .from(payments)
+      .innerJoin(customers, eq(payments.customerId, customers.id))
+      .orderBy(desc(payments.paymentDate), desc(payments.createdAt));
 
-    if (!purchaseResult) return undefined;
+    return this.withAllocations(result);
+  }
+
+  async getPayment(id: string): Promise<PaymentWithDetails | undefined> {
+    const result = await db
+      .select({
+        payment: payments,
+        customer: customers,
+      })
+      .from(payments)
+      .innerJoin(customers, eq(payments.customerId, customers.id))
+      .where(eq(payments.id, id));
+
+    const [payment] = await this.withAllocations(result);
+    return payment;
+  }
+
+  private async withAllocations(rows: { payment: Payment; customer: Customer }[]): Promise<PaymentWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ payment, customer }) => {
+        const allocations = await db
+          .select({
+            allocation: paymentAllocations,
+            billNumber: bills.billNumber,
+          })
+          .from(paymentAllocations)
+          .innerJoin(bills, eq(paymentAllocations.billId, bills.id))
+          .where(eq(paymentAllocations.paymentId, payment.id));
+
+        return {
+          ...payment,
+          customer,
+          allocations: allocations.map(({ allocation, billNumber }) => ({ ...allocation, billNumber })),
+        };
+      })
+    );
+  }
+
+  async createPayment(payment: InsertPayment, allocations: InsertPaymentAllocation[]): Promise<PaymentWithDetails> {
+    if (allocations.length === 0) {
+      throw new BusinessRuleError("Allocate the payment to at least one bill", 400);
+    }
+    if (new Set(allocations.map(a => a.billId)).size !== allocations.length) {
+      throw new BusinessRuleError("Each bill can only appear once in a payment", 400);
+    }
+    const allocatedTotal = round2(allocations.reduce((sum, a) => sum + a.amount, 0));
+    if (allocatedTotal !== round2(payment.amount)) {
+      throw new BusinessRuleError(`Allocations add up to ₹${allocatedTotal.toFixed(2)} but the payment is ₹${payment.amount.toFixed(2)}`, 400);
+    }
+
+    const newPayment = await db.transaction(async (tx) => {
+      // Lock the bills so concurrent receipts can't both settle the same balance
+      const billIds = allocations.map(a => a.billId);
+      const lockedBills = await tx.select().from(bills).where(inArray(bills.id, billIds)).for('update');
+
+      for (const allocation of allocations) {
+        const bill = lockedBills.find(b => b.id === allocation.billId);
+        if (!bill) {
+          throw new BusinessRuleError("Bill not found", 404);
+        }
+        if (bill.customerId !== payment.customerId) {
+          throw new BusinessRuleError(`Bill ${bill.billNumber} belongs to a different customer`, 400);
+        }
+        if (bill.status === 'cancelled') {
+          throw new BusinessRuleError(`Bill ${bill.billNumber} is cancelled`);
+        }
+        const { amountCredited, amountPaid } = await this.getBillSettlement(bill.id, tx);
+        const balance = round2(Number(bill.total) - amountCredited - amountPaid);
+        if (round2(allocation.amount) > balance) {
+          throw new BusinessRuleError(`Only ₹${Math.max(0, balance).toFixed(2)} is due on bill ${bill.billNumber}`);
+        }
+      }
+
+      const paymentDate = payment.paymentDate ?? new Date();
+      const [newPayment] = await tx.insert(payments).values({
+        ...payment,
+        paymentNumber: await this.allocateDocumentNumber('payment', paymentDate, tx),
+        paymentDate,
+        amount: payment.amount.toFixed(2),
+      }).returning();
+
+      await tx.insert(paymentAllocations).values(allocations.map(allocation => ({
+        paymentId: newPayment.id,
+        billId: allocation.billId,
+        amount: allocation.amount.toFixed(2),
+      })));
+
+      await this.postDocument({
+        entryDate: paymentDate,
+        narration: `Receipt ${newPayment.paymentNumber} against ${lockedBills.map(bill => bill.billNumber).join(", ")}`,
+        sourceType: 'payment',
+        sourceId: newPayment.id,
+        sourceNumber: newPayment.paymentNumber,
+        createdBy: newPayment.createdBy,
+      }, getReceiptPostings(payment.amount, payment.mode), tx);
+
+      for (const billId of billIds) {
+        await this.refreshBillPaymentStatus(billId, tx);
+      }
+
+      return newPayment;
+    });
+
+    return this.getPayment(newPayment.id) as Promise<PaymentWithDetails>;
+  }
+
+  async getPaymentModeSummary(from: Date, to: Date): Promise<PaymentModeSummary[]> {
+    const rows = await db
+      .select({
+        mode: payments.mode,
+        count: sql`count(*)`.mapWith(Number),
+        total: sql<string>`coalesce(sum(${payments.amount}), 0)`,
+      })
+      .from(payments)
+      .where(and(gte(payments.paymentDate, from), lte(payments.paymentDate, to)))
+      .groupBy(payments.mode)
+      .orderBy(desc(sql`sum(${payments.amount})`));
+
+    return rows.map(row => ({ ...row, total: Number(row.total).toFixed(2) }));
+  }
+
+  // Sales less returns, grouped the way GSTR-1 table 12 asks for them
+  async getHsnSummary(from: Date, to: Date): Promise<HsnSummaryRow[]> {
+    const sales = await db
+      .select({
+        hsnCode: billItems.hsnCode,
+        unit: items.unit,
+        gstRate: billItems.gstRate,
+        quantity: sql`coalesce(sum(${billItems.quantity}), 0)`.mapWith(Number),
+        taxableValue: sql`coalesce(sum(${billItems.taxableValue}), 0)`.mapWith(Number),
+        cgstAmount: sql`coalesce(sum(${billItems.cgstAmount}), 0)`.mapWith(Number),
+        sgstAmount: sql`coalesce(sum(${billItems.sgstAmount}), 0)`.mapWith(Number),
+        igstAmount: sql`coalesce(sum(${billItems.igstAmount}), 0)`.mapWith(Number),
+      })
+      .from(billItems)
+      .innerJoin(bills, eq(billItems.billId, bills.id))
+      .innerJoin(items, eq(billItems.itemId, items.id))
+      .where(and(gte(bills.billDate, from), lte(bills.billDate, to), ne(bills.status, 'cancelled')))
+      .groupBy(billItems.hsnCode, items.unit, billItems.gstRate);
+
+    const returns = await db
+      .select({
+        hsnCode: creditNoteItems.hsnCode,
+        unit: items.unit,
+        gstRate: creditNoteItems.gstRate,
+        quantity: sql`coalesce(sum(${creditNoteItems.quantity}), 0)`.mapWith(Number),
+        taxableValue: sql`coalesce(sum(${creditNoteItems.taxableValue}), 0)`.mapWith(Number),
+        cgstAmount: sql`coalesce(sum(${creditNoteItems.cgstAmount}), 0)`.mapWith(Number),
+        sgstAmount: sql`coalesce(sum(${creditNoteItems.sgstAmount}), 0)`.mapWith(Number),
+        igstAmount: sql`coalesce(sum(${creditNoteItems.igstAmount}), 0)`.mapWith(Number),
+      })
+      .from(creditNoteItems)
+      .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+      .innerJoin(items, eq(creditNoteItems.itemId, items.id))
+      .where(and(gte(creditNotes.creditNoteDate, from), lte(creditNotes.creditNoteDate, to)))
+      .groupBy(creditNoteItems.hsnCode, items.unit, creditNoteItems.gstRate);
+
+    type Totals = Omit<typeof sales[number], "gstRate"> & { gstRate: number };
+    const rows = new Map<string, Totals>();
+    const add = (row: typeof sales[number], sign: 1 | -1) => {
+      const gstRate = Number(row.gstRate);
+      const key = `${row.hsnCode ?? ""}|${row.unit}|${gstRate}`;
+      const entry = rows.get(key) ?? {
+        hsnCode: row.hsnCode, unit: row.unit, gstRate, quantity: 0,
+        taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0,
+      };
+      entry.quantity += sign * row.quantity;
+      entry.taxableValue += sign * row.taxableValue;
+      entry.cgstAmount += sign * row.cgstAmount;
+      entry.sgstAmount += sign * row.sgstAmount;
+      entry.igstAmount += sign * row.igstAmount;
+      rows.set(key, entry);
+    };
+    sales.forEach(row => add(row, 1));
+    returns.forEach(row => add(row, -1));
+
+    return Array.from(rows.values())
+      .sort((a, b) => (a.hsnCode ?? "").localeCompare(b.hsnCode ?? "") || a.gstRate - b.gstRate)
+      .map(row => ({
+        ...row,
+        gstRate: row.gstRate.toFixed(2),
+        taxableValue: row.taxableValue.toFixed(2),
+        cgstAmount: row.cgstAmount.toFixed(2),
+        sgstAmount: row.sgstAmount.toFixed(2),
+        igstAmount: row.igstAmount.toFixed(2),
+        totalValue: round2(row.taxableValue + row.cgstAmount + row.sgstAmount + row.igstAmount).toFixed(2),
+      }));
+  }
+
+  // Cancelled bills are left out, as their discounts were never given
+  async getBillDiscountSummary(from: Date, to: Date): Promise<BillDiscountSummary[]> {
+    const rows = await db
+      .select({
+        billNumber: bills.billNumber,
+        billDate: bills.billDate,
+        customerName: customers.name,
+        grossAmount: sql<string>`coalesce(sum(${billItems.amount}), 0)`,
+        lineDiscountAmount: sql<string>`coalesce(sum(${billItems.discountAmount}), 0)`,
+        discountAmount: bills.discountAmount,
+        taxableValue: bills.subtotal,
+        gstAmount: bills.gstAmount,
+        roundOff: bills.roundOff,
+        total: bills.total,
+      })
+      .from(bills)
+      .innerJoin(customers, eq(bills.customerId, customers.id))
+      .innerJoin(billItems, eq(billItems.billId, bills.id))
+      .where(and(
+        gte(bills.billDate, from),
+        lte(bills.billDate, to),
+        ne(bills.status, 'cancelled'),
+      ))
+      .groupBy(bills.id, customers.name)
+      .orderBy(asc(bills.billDate));
+
+    return rows.map(row => ({
+      ...row,
+      grossAmount: Number(row.grossAmount).toFixed(2),
+      lineDiscountAmount: Number(row.lineDiscountAmount).toFixed(2),
+    }));
+  }
+
+  // Quotation operations
+  async getQuotations(): Promise<QuotationWithDetails[]> {
+    await this.expireLapsedQuotations();
+    const result = await db
+      .select({
+        quotation: quotations,
+        customer: customers,
+      })
+      .from(quotations)
+      .innerJoin(customers, eq(quotations.customerId, customers.id))
+      .orderBy(desc(quotations.createdAt));
+
+    return this.withQuotationItems(result);
+  }
+
+  async getQuotation(id: string): Promise<QuotationWithDetails | undefined> {
+    await this.expireLapsedQuotations();
+    const [quotationResult] = await db
+      .select({
+        quotation: quotations,
+        customer: customers,
+      })
+      .from(quotations)
+      .innerJoin(customers, eq(quotations.customerId, customers.id))
+      .where(eq(quotations.id, id));
+
+    if (!quotationResult) return undefined;
+
+    const [quotation] = await this.withQuotationItems([quotationResult]);
+    return quotation;
+  }
+
+  private async withQuotationItems(rows: { quotation: Quotation; customer: Customer }[]): Promise<QuotationWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ quotation, customer }) => {
+        const quotationItemsResult = await db
+          .select({
+            quotationItem: quotationItems,
+            item: items,
+          })
+          .from(quotationItems)
+          .innerJoin(items, eq(quotationItems.itemId, items.id))
+          .where(eq(quotationItems.quotationId, quotation.id));
+
+        const [convertedBill] = quotation.convertedBillId
+          ? await db.select({ billNumber: bills.billNumber }).from(bills).where(eq(bills.id, quotation.convertedBillId))
+          : [];
+
+        return {
+          ...quotation,
+          customer,
+          quotationItems: quotationItemsResult.map(({ quotationItem, item }) => ({
+            ...quotationItem,
+            item,
+          })),
+          convertedBillNumber: convertedBill?.billNumber ?? null,
+        };
+      })
+    );
+  }
+
+  // Draft and sent quotations past their validity date are expired on read
+  // rather than by a scheduled job
+  private async expireLapsedQuotations(): Promise<void> {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    await db
+      .update(quotations)
+      .set({ status: 'expired' })
+      .where(and(
+        inArray(quotations.status, ['draft', 'sent']),
+        lt(quotations.validUntil, startOfToday),
+      ));
+  }
+
+  async createQuotation(quotation: InsertQuotation, quotationItemsData: InsertQuotationItem[]): Promise<QuotationWithDetails> {
+    const { placeOfSupply, lines, totals } = await this.priceLines(quotation.customerId, quotationItemsData, quotation);
+
+    const newQuotation = await db.transaction(async (tx) => {
+      const quotationDate = quotation.quotationDate ?? new Date();
+      const [newQuotation] = await tx.insert(quotations).values({
+        ...quotation,
+        ...this.discountColumns(quotation),
+        quotationNumber: await this.allocateDocumentNumber('quotation', quotationDate, tx),
+        quotationDate,
+        placeOfSupply,
+        ...this.totalColumns(totals),
+      }).returning();
+
+      await tx.insert(quotationItems).values(lines.map(priced => ({
+        quotationId: newQuotation.id,
+        ...this.lineColumns(priced),
+      })));
+
+      return newQuotation;
+    });
+
+    return this.getQuotation(newQuotation.id) as Promise<QuotationWithDetails>;
+  }
+
+  async updateQuotationStatus(id: string, status: QuotationStatus): Promise<QuotationWithDetails> {
+    const existing = await this.getQuotation(id);
+    if (!existing) {
+      throw new BusinessRuleError("Quotation not found", 404);
+    }
+    if (!canTransitionQuotation(existing.status, status)) {
+      throw new BusinessRuleError(`A ${existing.status} quotation cannot be marked ${status}`);
+    }
+
+    await db.update(quotations).set({ status }).where(eq(quotations.id, id));
+    return this.getQuotation(id) as Promise<QuotationWithDetails>;
+  }
+
+  // The bill is created from the quoted lines and rates; this is the first
+  // point at which stock moves
+  async convertQuotationToBill(id: string, userId: string): Promise<BillWithDetails> {
+    await this.expireLapsedQuotations();
+
+    const newBill = await db.transaction(async (tx) => {
+      // Lock the quotation so a double click can't produce two bills
+      const [quotation] = await tx.select().from(quotations).where(eq(quotations.id, id)).for('update');
+      if (!quotation) {
+        throw new BusinessRuleError("Quotation not found", 404);
+      }
+      if (quotation.convertedBillId) {
+        throw new BusinessRuleError("This quotation has already been converted to a bill");
+      }
+      if (!canConvertQuotation(quotation)) {
+        throw new BusinessRuleError(`A ${quotation.status} quotation cannot be converted to a bill`);
+      }
+
+      const lines = await tx.select().from(quotationItems).where(eq(quotationItems.quotationId, id));
+      const discount = {
+        discountType: quotation.discountType as DiscountType,
+        discountValue: Number(quotation.discountValue),
+      };
+      const priced = await this.priceLines(quotation.customerId, lines.map(line => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        rate: Number(line.rate),
+        discountType: line.discountType as DiscountType,
+        discountValue: Number(line.discountValue),
+      })), discount);
+
+      const bill = await this.insertBill({
+        customerId: quotation.customerId,
+        billDate: new Date(),
+        createdBy: userId,
+        ...discount,
+      }, priced, tx);
+
+      await tx
+        .update(quotations)
+        .set({ status: 'accepted', convertedBillId: bill.id })
+        .where(eq(quotations.id, id));
+
+      return bill;
+    });
+
+    return this.getBill(newBill.id) as Promise<BillWithDetails>;
+  }
+
+  // Sales order operations
+  async getSalesOrders(): Promise<SalesOrderWithDetails[]> {
+    const result = await db
+      .select({
+        salesOrder: salesOrders,
+        customer: customers,
+      })
+      .from(salesOrders)
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .orderBy(desc(salesOrders.createdAt));
+
+    return this.withSalesOrderItems(result);
+  }
+
+  async getSalesOrder(id: string): Promise<SalesOrderWithDetails | undefined> {
+    const [salesOrderResult] = await db
+      .select({
+        salesOrder: salesOrders,
+        customer: customers,
+      })
+      .from(salesOrders)
+      .innerJoin(customers, eq(salesOrders.customerId, customers.id))
+      .where(eq(salesOrders.id, id));
+
+    if (!salesOrderResult) return undefined;
+
+    const [salesOrder] = await this.withSalesOrderItems([salesOrderResult]);
+    return salesOrder;
+  }
+
+  private async withSalesOrderItems(rows: { salesOrder: SalesOrder; customer: Customer }[]): Promise<SalesOrderWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ salesOrder, customer }) => {
+        const salesOrderItemsResult = await db
+          .select({
+            salesOrderItem: salesOrderItems,
+            item: items,
+          })
+          .from(salesOrderItems)
+          .innerJoin(items, eq(salesOrderItems.itemId, items.id))
+          .where(eq(salesOrderItems.salesOrderId, salesOrder.id));
+
+        return {
+          ...salesOrder,
+          customer,
+          salesOrderItems: salesOrderItemsResult.map(({ salesOrderItem, item }) => ({
+            ...salesOrderItem,
+            item,
+          })),
+        };
+      })
+    );
+  }
+
+  async createSalesOrder(salesOrder: InsertSalesOrder, salesOrderItemsData: InsertSalesOrderItem[]): Promise<SalesOrderWithDetails> {
+    const { placeOfSupply, lines, totals } = await this.priceLines(salesOrder.customerId, salesOrderItemsData, salesOrder);
+
+    const newOrder = await db.transaction(async (tx) => {
+      await this.checkAvailableStock(lines.map(({ line }) => line), tx, { action: "reserve", requested: "ordered" });
+
+      const orderDate = salesOrder.orderDate ?? new Date();
+      const [newOrder] = await tx.insert(salesOrders).values({
+        ...salesOrder,
+        ...this.discountColumns(salesOrder),
+        orderNumber: await this.allocateDocumentNumber('sales_order', orderDate, tx),
+        orderDate,
+        placeOfSupply,
+        ...this.totalColumns(totals),
+      }).returning();
+
+      await tx.insert(salesOrderItems).values(lines.map(priced => ({
+        salesOrderId: newOrder.id,
+        ...this.lineColumns(priced),
+      })));
+
+      return newOrder;
+    });
+
+    return this.getSalesOrder(newOrder.id) as Promise<SalesOrderWithDetails>;
+  }
+
+  // Closing releases whatever is still reserved; delivered goods are unaffected
+  async closeSalesOrder(id: string): Promise<SalesOrderWithDetails> {
+    await db.transaction(async (tx) => {
+      const [salesOrder] = await tx.select().from(salesOrders).where(eq(salesOrders.id, id)).for('update');
+      if (!salesOrder) {
+        throw new BusinessRuleError("Sales order not found", 404);
+      }
+      if (!isSalesOrderOpen(salesOrder)) {
+        throw new BusinessRuleError(`A ${salesOrder.status.replace('_', ' ')} sales order cannot be closed`);
+      }
+      await tx.update(salesOrders).set({ status: 'closed' }).where(eq(salesOrders.id, id));
+    });
+
+    return this.getSalesOrder(id) as Promise<SalesOrderWithDetails>;
+  }
+
+  // Delivery challan operations
+  async getDeliveryChallans(): Promise<DeliveryChallanWithDetails[]> {
+    const result = await db
+      .select({
+        challan: deliveryChallans,
+        customer: customers,
+        orderNumber: salesOrders.orderNumber,
+      })
+      .from(deliveryChallans)
+      .innerJoin(customers, eq(deliveryChallans.customerId, customers.id))
+      .innerJoin(salesOrders, eq(deliveryChallans.salesOrderId, salesOrders.id))
+      .orderBy(desc(deliveryChallans.createdAt));
+
+    return this.withChallanItems(result);
+  }
+
+  async getDeliveryChallan(id: string): Promise<DeliveryChallanWithDetails | undefined> {
+    const [challanResult] = await db
+      .select({
+        challan: deliveryChallans,
+        customer: customers,
+        orderNumber: salesOrders.orderNumber,
+      })
+      .from(deliveryChallans)
+      .innerJoin(customers, eq(deliveryChallans.customerId, customers.id))
+      .innerJoin(salesOrders, eq(deliveryChallans.salesOrderId, salesOrders.id))
+      .where(eq(deliveryChallans.id, id));
+
+    if (!challanResult) return undefined;
+
+    const [challan] = await this.withChallanItems([challanResult]);
+    return challan;
+  }
+
+  private async withChallanItems(rows: { challan: DeliveryChallan; customer: Customer; orderNumber: string }[]): Promise<DeliveryChallanWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ challan, customer, orderNumber }) => {
+        const challanItemsResult = await db
+          .select({
+            challanItem: deliveryChallanItems,
+            item: items,
+            orderLine: salesOrderItems,
+          })
+          .from(deliveryChallanItems)
+          .innerJoin(items, eq(deliveryChallanItems.itemId, items.id))
+          .innerJoin(salesOrderItems, eq(deliveryChallanItems.salesOrderItemId, salesOrderItems.id))
+          .where(eq(deliveryChallanItems.challanId, challan.id));
+
+        const [bill] = challan.billId
+          ? await db.select({ billNumber: bills.billNumber }).from(bills).where(eq(bills.id, challan.billId))
+          : [];
+
+        return {
+          ...challan,
+          customer,
+          orderNumber,
+          challanItems: challanItemsResult.map(({ challanItem, item, orderLine }) => ({
+            ...challanItem,
+            item,
+            orderLine,
+          })),
+          billNumber: bill?.billNumber ?? null,
+        };
+      })
+    );
+  }
+
+  async updateChallanTransport(id: string, details: TransportDetails): Promise<DeliveryChallanWithDetails> {
+    await db.transaction(async (tx) => {
+      const [challan] = await tx.select().from(deliveryChallans).where(eq(deliveryChallans.id, id)).for('update');
+      if (!challan) {
+        throw new BusinessRuleError("Delivery challan not found", 404);
+      }
+      if (challan.ewbNumber) {
+        throw new BusinessRuleError(`E-way bill ${challan.ewbNumber} is already generated. Update Part B on the e-way bill portal.`);
+      }
+      await tx.update(deliveryChallans).set(this.transportColumns(details)).where(eq(deliveryChallans.id, id));
+    });
+
+    return this.getDeliveryChallan(id) as Promise<DeliveryChallanWithDetails>;
+  }
+
+  async recordChallanEWayBill(id: string, ewb: RecordEWayBill): Promise<DeliveryChallanWithDetails> {
+    await db.transaction(async (tx) => {
+      const [challan] = await tx.select().from(deliveryChallans).where(eq(deliveryChallans.id, id)).for('update');
+      if (!challan) {
+        throw new BusinessRuleError("Delivery challan not found", 404);
+      }
+      if (challan.ewbNumber) {
+        throw new BusinessRuleError(`Challan ${challan.challanNumber} already has e-way bill ${challan.ewbNumber}`);
+      }
+      await tx.update(deliveryChallans).set(ewb).where(eq(deliveryChallans.id, id));
+    });
+
+    return this.getDeliveryChallan(id) as Promise<DeliveryChallanWithDetails>;
+  }
+
+  async createDeliveryChallan(challan: InsertDeliveryChallan, challanItemsData: InsertDeliveryChallanItem[]): Promise<DeliveryChallanWithDetails> {
+    if (challanItemsData.length === 0) {
+      throw new BusinessRuleError("Enter a quantity for at least one item", 400);
+    }
+
+    const newChallan = await db.transaction(async (tx) => {
+      // Lock the order so concurrent challans can't ship more than was ordered
+      const [salesOrder] = await tx.select().from(salesOrders).where(eq(salesOrders.id, challan.salesOrderId)).for('update');
+      if (!salesOrder) {
+        throw new BusinessRuleError("Sales order not found", 404);
+      }
+      if (!isSalesOrderOpen(salesOrder)) {
+        throw new BusinessRuleError(`Nothing can be delivered against a ${salesOrder.status.replace('_', ' ')} sales order`);
+      }
+
+      const orderLines = await tx.select().from(salesOrderItems).where(eq(salesOrderItems.salesOrderId, salesOrder.id));
+      const shipped = challanItemsData.map(line => {
+        const orderLine = orderLines.find(l => l.id === line.salesOrderItemId);
+        if (!orderLine) {
+          throw new BusinessRuleError("Item is not on this sales order", 400);
+        }
+        const remaining = orderLine.quantity - orderLine.deliveredQuantity;
+        if (line.quantity > remaining) {
+          throw new BusinessRuleError(`Only ${remaining} left to deliver on one of the lines`);
+        }
+        orderLine.deliveredQuantity += line.quantity;
+        return { orderLine, quantity: line.quantity };
+      });
+      await this.checkAvailableStock(
+        shipped.map(({ orderLine, quantity }) => ({ itemId: orderLine.itemId, quantity })),
+        tx,
+        { action: "deliver", requested: "on this challan" },
+        salesOrder.id,
+      );
+
+      const challanDate = challan.challanDate ?? new Date();
+      const [newChallan] = await tx.insert(deliveryChallans).values({
+        ...challan,
+        challanNumber: await this.allocateDocumentNumber('delivery_challan', challanDate, tx),
+        customerId: salesOrder.customerId,
+        challanDate,
+      }).returning();
+
+      await tx.insert(deliveryChallanItems).values(shipped.map(({ orderLine, quantity }) => ({
+        challanId: newChallan.id,
+        salesOrderItemId: orderLine.id,
+        itemId: orderLine.itemId,
+        quantity,
+      })));
+
+      for (const { orderLine, quantity } of shipped) {
+        await tx
+          .update(salesOrderItems)
+          .set({ deliveredQuantity: sql`${salesOrderItems.deliveredQuantity} + ${quantity}` })
+          .where(eq(salesOrderItems.id, orderLine.id));
+        await this.createStockMovement({
+          itemId: orderLine.itemId,
+          type: 'delivery',
+          quantity,
+          reason: `Delivery - Challan ${newChallan.challanNumber}`,
+        }, tx);
+      }
+
+      await this.postDocument({
+        entryDate: challanDate,
+        narration: `Goods sent on delivery challan ${newChallan.challanNumber}`,
+        sourceType: 'delivery_challan',
+        sourceId: newChallan.id,
+        sourceNumber: newChallan.challanNumber,
+        createdBy: newChallan.createdBy,
+      }, getDeliveryPostings(await this.getCostOfGoods(shipped.map(({ orderLine, quantity }) => ({ itemId: orderLine.itemId, quantity })), tx)), tx);
+
+      await tx
+        .update(salesOrders)
+        .set({ status: deriveSalesOrderStatus(orderLines) })
+        .where(eq(salesOrders.id, salesOrder.id));
+
+      return newChallan;
+    });
+
+    return this.getDeliveryChallan(newChallan.id) as Promise<DeliveryChallanWithDetails>;
+  }
+
+  // One tax invoice for any number of uninvoiced challans of a customer, at the
+  // rates agreed on their sales orders. Stock already left with the challans.
+  async createBillFromChallans(challanIds: string[], userId: string): Promise<BillWithDetails> {
+    const newBill = await db.transaction(async (tx) => {
+      const challans = await tx
+        .select()
+        .from(deliveryChallans)
+        .where(inArray(deliveryChallans.id, challanIds))
+        .for('update');
+      if (challans.length !== new Set(challanIds).size) {
+        throw new BusinessRuleError("Delivery challan not found", 404);
+      }
+      if (challans.some(challan => challan.billId)) {
+        throw new BusinessRuleError("One of the delivery challans has already been invoiced");
+      }
+      const customerId = challans[0].customerId;
+      if (challans.some(challan => challan.customerId !== customerId)) {
+        throw new BusinessRuleError("Delivery challans for different customers cannot be invoiced together", 400);
+      }
+
+      const shipped = await tx
+        .select({
+          salesOrderItemId: deliveryChallanItems.salesOrderItemId,
+          itemId: deliveryChallanItems.itemId,
+          quantity: deliveryChallanItems.quantity,
+          orderLine: salesOrderItems,
+        })
+        .from(deliveryChallanItems)
+        .innerJoin(salesOrderItems, eq(deliveryChallanItems.salesOrderItemId, salesOrderItems.id))
+        .where(inArray(deliveryChallanItems.challanId, challanIds));
+
+      // One bill line per order line, however many challans shipped it
+      const shippedByLine = new Map<string, { orderLine: SalesOrderItem; quantity: number }>();
+      for (const line of shipped) {
+        const existing = shippedByLine.get(line.salesOrderItemId);
+        if (existing) {
+          existing.quantity += line.quantity;
+        } else {
+          shippedByLine.set(line.salesOrderItemId, { orderLine: line.orderLine, quantity: line.quantity });
+        }
+      }
+
+      // The order's line and order-level discounts carry over pro rata as a
+      // flat discount, so the invoice is taxed on the same value per unit
+      const billLines = Array.from(shippedByLine.values()).map(({ orderLine, quantity }) => ({
+        itemId: orderLine.itemId,
+        quantity,
+        rate: Number(orderLine.rate),
+        discountType: "flat" as const,
+        discountValue: round2((Number(orderLine.amount) - Number(orderLine.taxableValue)) * quantity / orderLine.quantity),
+      }));
+
+      const priced = await this.priceLines(customerId, billLines);
+      const bill = await this.insertBill({
+        customerId,
+        billDate: new Date(),
+        createdBy: userId,
+      }, priced, tx, false);
+
+      await tx
+        .update(deliveryChallans)
+        .set({ billId: bill.id })
+        .where(inArray(deliveryChallans.id, challanIds));
+
+      return bill;
+    });
+
+    return this.getBill(newBill.id) as Promise<BillWithDetails>;
+  }
+
+  // Recurring invoice operations
+  async getRecurringInvoices(): Promise<RecurringInvoiceWithDetails[]> {
+    const result = await db
+      .select({
+        template: recurringInvoices,
+        customer: customers,
+      })
+      .from(recurringInvoices)
+      .innerJoin(customers, eq(recurringInvoices.customerId, customers.id))
+      .orderBy(desc(recurringInvoices.createdAt));
+
+    return this.withRecurringInvoiceItems(result);
+  }
+
+  async getRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails | undefined> {
+    const [templateResult] = await db
+      .select({
+        template: recurringInvoices,
+        customer: customers,
+      })
+      .from(recurringInvoices)
+      .innerJoin(customers, eq(recurringInvoices.customerId, customers.id))
+      .where(eq(recurringInvoices.id, id));
+
+    if (!templateResult) return undefined;
+
+    const [template] = await this.withRecurringInvoiceItems([templateResult]);
+    return template;
+  }
+
+  private async withRecurringInvoiceItems(rows: { template: RecurringInvoice; customer: Customer }[]): Promise<RecurringInvoiceWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ template, customer }) => {
+        const templateItemsResult = await db
+          .select({
+            templateItem: recurringInvoiceItems,
+            item: items,
+          })
+          .from(recurringInvoiceItems)
+          .innerJoin(items, eq(recurringInvoiceItems.itemId, items.id))
+          .where(eq(recurringInvoiceItems.recurringInvoiceId, template.id));
+
+        const generated = await db
+          .select({ billNumber: bills.billNumber })
+          .from(recurringInvoiceRuns)
+          .innerJoin(bills, eq(recurringInvoiceRuns.billId, bills.id))
+          .where(eq(recurringInvoiceRuns.recurringInvoiceId, template.id))
+          .orderBy(desc(recurringInvoiceRuns.runDate));
+
+        return {
+          ...template,
+          status: template.status as RecurringInvoiceStatus,
+          customer,
+          recurringInvoiceItems: templateItemsResult.map(({ templateItem, item }) => ({
+            ...templateItem,
+            item,
+          })),
+          generatedCount: generated.length,
+          lastBillNumber: generated[0]?.billNumber ?? null,
+        };
+      })
+    );
+  }
+
+  async createRecurringInvoice(template: InsertRecurringInvoice, templateItemsData: InsertRecurringInvoiceItem[]): Promise<RecurringInvoiceWithDetails> {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    if (template.startDate < startOfToday) {
+      throw new BusinessRuleError("The first invoice date cannot be in the past");
+    }
+    // Pricing the lines now catches a missing customer or item before the first run
+    await this.priceLines(template.customerId, templateItemsData, template);
+
+    const newTemplate = await db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(recurringInvoices).values({
+        ...template,
+        ...this.discountColumns(template),
+        nextRunDate: template.startDate,
+      }).returning();
+
+      await tx.insert(recurringInvoiceItems).values(templateItemsData.map(line => ({
+        recurringInvoiceId: newTemplate.id,
+        itemId: line.itemId,
+        quantity: line.quantity,
+        rate: Number(line.rate).toFixed(2),
+        ...this.discountColumns(line),
+      })));
+
+      return newTemplate;
+    });
+
+    return this.getRecurringInvoice(newTemplate.id) as Promise<RecurringInvoiceWithDetails>;
+  }
+
+  async pauseRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails> {
+    const existing = await this.getRecurringInvoice(id);
+    if (!existing) {
+      throw new BusinessRuleError("Recurring invoice not found", 404);
+    }
+    if (existing.status !== 'active') {
+      throw new BusinessRuleError(`A ${existing.status} schedule cannot be paused`);
+    }
+
+    await db
+      .update(recurringInvoices)
+      .set({ status: 'paused', pausedAt: new Date(), updatedAt: new Date() })
+      .where(eq(recurringInvoices.id, id));
+    return this.getRecurringInvoice(id) as Promise<RecurringInvoiceWithDetails>;
+  }
+
+  // Runs that fell due while the schedule was paused are skipped rather than
+  // billed late; a run due today is still raised
+  async resumeRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails> {
+    const existing = await this.getRecurringInvoice(id);
+    if (!existing) {
+      throw new BusinessRuleError("Recurring invoice not found", 404);
+    }
+    if (existing.status !== 'paused') {
+      throw new BusinessRuleError(`A ${existing.status} schedule cannot be resumed`);
+    }
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const nextRunDate = existing.nextRunDate && existing.nextRunDate >= startOfToday
+      ? existing.nextRunDate
+      : getNextRunDate(existing, new Date(startOfToday.getTime() - 1));
+
+    await db
+      .update(recurringInvoices)
+      .set({
+        status: nextRunDate ? 'active' : 'completed',
+        nextRunDate,
+        pausedAt: null,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringInvoices.id, id));
+    return this.getRecurringInvoice(id) as Promise<RecurringInvoiceWithDetails>;
+  }
+
+  async getRecurringInvoiceRuns(id: string): Promise<RecurringInvoiceRunWithBill[]> {
+    const result = await db
+      .select({
+        run: recurringInvoiceRuns,
+        billNumber: bills.billNumber,
+        billTotal: bills.total,
+      })
+      .from(recurringInvoiceRuns)
+      .leftJoin(bills, eq(recurringInvoiceRuns.billId, bills.id))
+      .where(eq(recurringInvoiceRuns.recurringInvoiceId, id))
+      .orderBy(desc(recurringInvoiceRuns.runDate), desc(recurringInvoiceRuns.createdAt));
+
+    return result.map(({ run, billNumber, billTotal }) => ({
+      ...run,
+      status: run.status as RecurringRunStatus,
+      billNumber,
+      billTotal,
+    }));
+  }
+
+  // Raises a bill for every run date up to now, catching up on any missed while
+  // the server was down. A failed run is logged and pauses its schedule so the
+  // same error isn't retried every hour.
+  async runDueRecurringInvoices(now = new Date()): Promise<RecurringInvoiceRun[]> {
+    const due = await db
+      .select({ id: recurringInvoices.id })
+      .from(recurringInvoices)
+      .where(and(
+        eq(recurringInvoices.status, 'active'),
+        lte(recurringInvoices.nextRunDate, now),
+      ));
+
+    const runs: RecurringInvoiceRun[] = [];
+    for (const { id } of due) {
+      let run: RecurringInvoiceRun | null;
+      do {
+        run = await this.runRecurringInvoice(id, now);
+        if (run) runs.push(run);
+      } while (run?.status === 'generated');
+    }
+    return runs;
+  }
+
+  // Returns null when the schedule is no longer due, e.g. another server
+  // instance has already raised this run
+  private async runRecurringInvoice(id: string, now: Date): Promise<RecurringInvoiceRun | null> {
+    // Set once the run is claimed, so a failure can be logged against it
+    const claimed: { runDate?: Date } = {};
+    try {
+      return await db.transaction(async (tx) => {
+        const [template] = await tx.select().from(recurringInvoices).where(eq(recurringInvoices.id, id)).for('update');
+        if (!template || template.status !== 'active' || !template.nextRunDate || template.nextRunDate > now) {
+          return null;
+        }
+        const runDate = claimed.runDate = template.nextRunDate;
+
+        // Validated and priced exactly as a bill posted from the billing screen
+        const lines = await tx.select().from(recurringInvoiceItems).where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+        const bill = insertBillSchema.parse({
+          customerId: template.customerId,
+          billDate: runDate,
+          dueDate: getBillDueDate(runDate, template.paymentTermsDays),
+          discountType: template.discountType,
+          discountValue: template.discountValue,
+          createdBy: template.createdBy,
+        });
+        const billLines = lines.map(line => insertBillItemSchema.parse({
+          itemId: line.itemId,
+          quantity: line.quantity,
+          rate: line.rate,
+          discountType: line.discountType,
+          discountValue: line.discountValue,
+        }));
+        const priced = await this.priceLines(bill.customerId, billLines, bill);
+        const newBill = await this.insertBill(bill, priced, tx);
+
+        const nextRunDate = getNextRunDate(template, runDate);
+        await tx
+          .update(recurringInvoices)
+          .set({ nextRunDate, status: nextRunDate ? 'active' : 'completed', updatedAt: new Date() })
+          .where(eq(recurringInvoices.id, id));
+
+        const [run] = await tx.insert(recurringInvoiceRuns).values({
+          recurringInvoiceId: id,
+          runDate,
+          status: 'generated',
+          billId: newBill.id,
+        }).returning();
+        return run;
+      });
+    } catch (error) {
+      const { runDate } = claimed;
+      if (!runDate) throw error;
+
+      const message = error instanceof z.ZodError
+        ? error.issues.map(issue => issue.message).join("; ")
+        : error instanceof Error ? error.message : String(error);
+      const [run] = await db.insert(recurringInvoiceRuns).values({
+        recurringInvoiceId: id,
+        runDate,
+        status: 'failed',
+        error: message,
+      }).returning();
+      await db
+        .update(recurringInvoices)
+        .set({ status: 'paused', pausedAt: new Date(), lastError: message, updatedAt: new Date() })
+        .where(eq(recurringInvoices.id, id));
+      return run;
+    }
+  }
+
+  // Purchase operations
+  async getPurchases(): Promise<PurchaseWithDetails[]> {
+    const result = await db
+      .select({
+        purchase: purchases,
+        vendor: vendors,
+      })
+      .from(purchases)
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .orderBy(desc(purchases.createdAt));
+    const paid = await this.getPurchasePaidTotals(result.map(({ purchase }) => purchase.id));
+
+    const purchasesWithItems = await Promise.all(
+      result.map(async ({ purchase, vendor }) => {
+        const purchaseItemsResult = await db
+          .select({
+            purchaseItem: purchaseItems,
+            item: items,
+          })
+          .from(purchaseItems)
+          .innerJoin(items, eq(purchaseItems.itemId, items.id))
+          .where(eq(purchaseItems.purchaseId, purchase.id));
+
+        return {
+          ...this.withPurchaseSettlement(purchase, paid.get(purchase.id) ?? 0),
+          vendor,
+          purchaseItems: purchaseItemsResult.map(({ purchaseItem, item }) => ({
+            ...purchaseItem,
+            item,
+          })),
+        };
+      })
+    );
+
+    return purchasesWithItems;
+  }
+
+  async getPurchase(id: string): Promise<PurchaseWithDetails | undefined> {
+    const [purchaseResult] = await db
+      .select({
+        purchase: purchases,
+        vendor: vendors,
+      })
+      .from(purchases)
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .where(eq(purchases.id, id));
+
+    if (!purchaseResult) return undefined;
+
+    const purchaseItemsResult = await db
+      .select({
+        purchaseItem: purchaseItems,
+        item: items,
+      })
+      .from(purchaseItems)
+      .innerJoin(items, eq(purchaseItems.itemId, items.id))
+      .where(eq(purchaseItems.purchaseId, id));
+    const paid = await this.getPurchasePaidTotals([id]);
+
+    return {
+      ...this.withPurchaseSettlement(purchaseResult.purchase, paid.get(id) ?? 0),
+      vendor: purchaseResult.vendor,
+      purchaseItems: purchaseItemsResult.map(({ purchaseItem, item }) => ({
+        ...purchaseItem,
+        item,
+      })),
+    };
+  }
+
+  async createPurchase(purchase: InsertPurchase, purchaseItemsData: InsertPurchaseItem[]): Promise<PurchaseWithDetails> {
+    const vendor = await this.getVendor(purchase.vendorId);
+    if (!vendor) {
+      throw new BusinessRuleError("Vendor not found", 404);
+    }
+    const lines = await this.pricePurchaseLines(vendor, purchaseItemsData);
+    const totals = sumTaxLines(lines.map(({ tax }) => tax));
+
+    const newPurchase = await db.transaction(async (tx) => {
+      // The same vendor invoice booked twice would double the credit claimed
+      const [duplicate] = await tx
+        .select({ purchaseNumber: purchases.purchaseNumber })
+        .from(purchases)
+        .where(and(
+          eq(purchases.vendorId, purchase.vendorId),
+          sql`upper(${purchases.vendorInvoiceNumber}) = upper(${purchase.vendorInvoiceNumber})`,
+        ));
+      if (duplicate) {
+        throw new BusinessRuleError(`Invoice ${purchase.vendorInvoiceNumber} from ${vendor.name} is already recorded as ${duplicate.purchaseNumber}`);
+      }
+
+      const purchaseDate = purchase.purchaseDate ?? new Date();
+      const dueDate = purchase.dueDate ?? getPurchaseDueDate(purchase.vendorInvoiceDate, vendor.creditDays);
+      const [newPurchase] = await tx.insert(purchases).values({
+        ...purchase,
+        purchaseNumber: await this.allocateDocumentNumber('purchase', purchaseDate, tx),
+        purchaseDate,
+        dueDate,
+        status: derivePayableStatus(totals.total, 0, dueDate),
+        subtotal: totals.taxableValue.toFixed(2),
+        cgstAmount: totals.cgstAmount.toFixed(2),
+        sgstAmount: totals.sgstAmount.toFixed(2),
+        igstAmount: totals.igstAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+      }).returning();
+
+      await tx.insert(purchaseItems).values(lines.map(({ line, tax, itcEligible }) => ({
+        purchaseId: newPurchase.id,
+        itemId: line.itemId,
+        quantity: line.quantity,
+        rate: Number(line.rate).toFixed(2),
+        amount: round2(line.quantity * Number(line.rate)).toFixed(2),
+        gstRate: tax.gstRate.toFixed(2),
+        taxableValue: tax.taxableValue.toFixed(2),
+        cgstAmount: tax.cgstAmount.toFixed(2),
+        sgstAmount: tax.sgstAmount.toFixed(2),
+        igstAmount: tax.igstAmount.toFixed(2),
+        itcEligible,
+      })));
+
+      await this.postDocument({
+        entryDate: purchaseDate,
+        narration: `Purchase ${newPurchase.purchaseNumber} from ${vendor.name}, invoice ${newPurchase.vendorInvoiceNumber}`,
+        sourceType: 'purchase',
+        sourceId: newPurchase.id,
+        sourceNumber: newPurchase.purchaseNumber,
+        createdBy: newPurchase.createdBy,
+      }, getPurchasePostings(lines.map(({ tax, itcEligible }) => ({ ...tax, itcEligible })), totals.total), tx);
+
+      // Create stock movements for each item
+      for (const purchaseItem of purchaseItemsData) {
+        await this.createStockMovement({
+          itemId: purchaseItem.itemId,
+          type: 'purchase',
+          quantity: purchaseItem.quantity,
+          reason: `Purchase - ${newPurchase.purchaseNumber}`,
+        }, tx);
+      }
+
+      return newPurchase;
+    });
+
+    return this.getPurchase(newPurchase.id) as Promise<PurchaseWithDetails>;
+  }
+
+  // Payments made so far against each purchase
+  // Only payments made by paidBy are counted when it is given
+  private async getPurchasePaidTotals(purchaseIds: string[], executor: DbExecutor = db, paidBy?: Date): Promise<Map<string, number>> {
+    if (purchaseIds.length === 0) return new Map();
+    const rows = await executor
+      .select({
+        purchaseId: vendorPaymentAllocations.purchaseId,
+        total: sql`coalesce(sum(${vendorPaymentAllocations.amount}), 0)`.mapWith(Number),
+      })
+      .from(vendorPaymentAllocations)
+      .innerJoin(vendorPayments, eq(vendorPaymentAllocations.paymentId, vendorPayments.id))
+      .where(and(
+        inArray(vendorPaymentAllocations.purchaseId, purchaseIds),
+        paidBy ? lte(vendorPayments.paymentDate, paidBy) : undefined,
+      ))
+      .groupBy(vendorPaymentAllocations.purchaseId);
+    return new Map(rows.map(row => [row.purchaseId, row.total]));
+  }
+
+  private withPurchaseSettlement(purchase: Purchase, amountPaid: number) {
+    return {
+      ...purchase,
+      status: purchase.status as PayableStatus,
+      amountPaid: amountPaid.toFixed(2),
+      balanceDue: Math.max(0, round2(Number(purchase.total) - amountPaid)).toFixed(2),
+    };
+  }
+
+  private async refreshPurchasePaymentStatus(purchaseId: string, executor: DbExecutor): Promise<void> {
+    const [purchase] = await executor.select().from(purchases).where(eq(purchases.id, purchaseId));
+    if (!purchase) return;
+
+    const paid = await this.getPurchasePaidTotals([purchaseId], executor);
+    const status = derivePayableStatus(Number(purchase.total), paid.get(purchaseId) ?? 0, purchase.dueDate);
+    if (status !== purchase.status) {
+      await executor.update(purchases).set({ status }).where(eq(purchases.id, purchaseId));
+    }
+  }
+
+  async markOverduePurchases(now = new Date()): Promise<number> {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+    const marked = await db
+      .update(purchases)
+      .set({ status: 'overdue' })
+      .where(and(
+        inArray(purchases.status, ['unpaid', 'partially_paid']),
+        lt(purchases.dueDate, startOfToday),
+      ))
+      .returning({ id: purchases.id });
+    return marked.length;
+  }
+
+  // Lines without tax figures are taxed at the item's rate by the vendor's
+  // state; lines with them keep the vendor's figures once they check out
+  private async pricePurchaseLines(vendor: Vendor, lineItems: InsertPurchaseItem[]) {
+    const itemIds = Array.from(new Set(lineItems.map(line => line.itemId)));
+    const purchasedItems = itemIds.length
+      ? await db.select().from(items).where(inArray(items.id, itemIds))
+      : [];
+    const company = await this.getCompanySettings();
+    const supplyType = getVendorSupplyType(vendor, company?.stateCode);
+
+    return lineItems.map(line => {
+      const item = purchasedItems.find(i => i.id === line.itemId);
+      if (!item) {
+        throw new BusinessRuleError(`Item ${line.itemId} not found`, 404);
+      }
+      const taxableValue = round2(line.taxableValue ?? line.quantity * Number(line.rate));
+      const gstRate = line.gstRate ?? Number(item.gstRate);
+      const entered = line.cgstAmount !== undefined || line.sgstAmount !== undefined || line.igstAmount !== undefined;
+
+      let tax = getDefaultPurchaseTax(taxableValue, gstRate, supplyType);
+      if (entered) {
+        const error = getPurchaseTaxError({ ...line, taxableValue, gstRate }, supplyType);
+        if (error) {
+          throw new BusinessRuleError(`${item.name}: ${error}`, 400);
+        }
+        const cgstAmount = round2(line.cgstAmount ?? 0);
+        const sgstAmount = round2(line.sgstAmount ?? 0);
+        const igstAmount = round2(line.igstAmount ?? 0);
+        tax = {
+          taxableValue, gstRate, cgstAmount, sgstAmount, igstAmount,
+          taxAmount: round2(cgstAmount + sgstAmount + igstAmount),
+        };
+      }
+      return { line, tax, itcEligible: supplyType !== "unregistered" && line.itcEligible };
+    });
+  }
 
-    const purchaseItemsResult = await db
+  // Preview only; the number is allocated when the purchase is saved
+  async getNextPurchaseNumber(): Promise<string> {
+    return this.peekDocumentNumber('purchase', new Date());
+  }
+
+  // Credit claimable in a period: eligible lines of purchases from vendors
+  // whose GSTIN still checks out
+  async getInputTaxCredit(from: Date, to: Date): Promise<InputTaxCreditSummary> {
+    const rows = await db
       .select({
-        purchaseItem: purchaseItems,
-        item: items,
+        vendorGstin: vendors.gstin,
+        taxableValue: sql`coalesce(sum(${purchaseItems.taxableValue}), 0)`.mapWith(Number),
+        cgstAmount: sql`coalesce(sum(${purchaseItems.cgstAmount}), 0)`.mapWith(Number),
+        sgstAmount: sql`coalesce(sum(${purchaseItems.sgstAmount}), 0)`.mapWith(Number),
+        igstAmount: sql`coalesce(sum(${purchaseItems.igstAmount}), 0)`.mapWith(Number),
       })
       .from(purchaseItems)
-      .innerJoin(items, eq(purchaseItems.itemId, items.id))
-      .where(eq(purchaseItems.purchaseId, id));
+      .innerJoin(purchases, eq(purchaseItems.purchaseId, purchases.id))
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .where(and(
+        gte(purchases.purchaseDate, from),
+        lte(purchases.purchaseDate, to),
+        eq(purchaseItems.itcEligible, true),
+      ))
+      .groupBy(purchases.id, vendors.gstin);
+
+    const claimed = rows.filter(row => isValidGstin(row.vendorGstin));
+    const sum = (pick: (row: typeof rows[number]) => number) =>
+      round2(claimed.reduce((total, row) => total + pick(row), 0)).toFixed(2);
 
     return {
-      ...purchaseResult.purchase,
-      vendor: purchaseResult.vendor,
-      purchaseItems: purchaseItemsResult.map(({ purchaseItem, item }) => ({
-        ...purchaseItem,
-        item,
-      })),
+      purchases: claimed.length,
+      taxableValue: sum(row => row.taxableValue),
+      cgstAmount: sum(row => row.cgstAmount),
+      sgstAmount: sum(row => row.sgstAmount),
+      igstAmount: sum(row => row.igstAmount),
     };
   }
 
-  async createPurchase(purchase: InsertPurchase, purchaseItemsData: InsertPurchaseItem[]): Promise<PurchaseWithDetails> {
-    const [newPurchase] = await db.insert(purchases).values(purchase).returning();
+  async getItcRegister(from: Date, to: Date, vendorId?: string): Promise<ItcRegisterRow[]> {
+    const eligible = (column: AnyColumn) =>
+      sql`coalesce(sum(case when ${purchaseItems.itcEligible} then ${column} else 0 end), 0)`.mapWith(Number);
+    const tax = sql`${purchaseItems.cgstAmount} + ${purchaseItems.sgstAmount} + ${purchaseItems.igstAmount}`;
 
-    // Insert purchase items
-    const purchaseItemsWithPurchaseId = purchaseItemsData.map(item => ({
-      ...item,
-      purchaseId: newPurchase.id,
+    const rows = await db
+      .select({
+        purchaseId: purchases.id,
+        purchaseNumber: purchases.purchaseNumber,
+        purchaseDate: purchases.purchaseDate,
+        vendorId: vendors.id,
+        vendorName: vendors.name,
+        vendorGstin: vendors.gstin,
+        vendorInvoiceNumber: purchases.vendorInvoiceNumber,
+        vendorInvoiceDate: purchases.vendorInvoiceDate,
+        taxableValue: sql`coalesce(sum(${purchaseItems.taxableValue}), 0)`.mapWith(Number),
+        cgstAmount: sql`coalesce(sum(${purchaseItems.cgstAmount}), 0)`.mapWith(Number),
+        sgstAmount: sql`coalesce(sum(${purchaseItems.sgstAmount}), 0)`.mapWith(Number),
+        igstAmount: sql`coalesce(sum(${purchaseItems.igstAmount}), 0)`.mapWith(Number),
+        eligibleCgst: eligible(purchaseItems.cgstAmount),
+        eligibleSgst: eligible(purchaseItems.sgstAmount),
+        eligibleIgst: eligible(purchaseItems.igstAmount),
+        totalTax: sql`coalesce(sum(${tax}), 0)`.mapWith(Number),
+      })
+      .from(purchases)
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .innerJoin(purchaseItems, eq(purchaseItems.purchaseId, purchases.id))
+      .where(and(
+        gte(purchases.purchaseDate, from),
+        lte(purchases.purchaseDate, to),
+        vendorId ? eq(purchases.vendorId, vendorId) : undefined,
+      ))
+      .groupBy(purchases.id, vendors.id)
+      .orderBy(asc(purchases.purchaseDate), asc(purchases.purchaseNumber));
+
+    return rows.map(row => {
+      const eligibleCredit = isValidGstin(row.vendorGstin)
+        ? round2(row.eligibleCgst + row.eligibleSgst + row.eligibleIgst)
+        : 0;
+      return {
+        purchaseId: row.purchaseId,
+        purchaseNumber: row.purchaseNumber,
+        purchaseDate: row.purchaseDate,
+        vendorId: row.vendorId,
+        vendorName: row.vendorName,
+        vendorGstin: row.vendorGstin,
+        vendorInvoiceNumber: row.vendorInvoiceNumber,
+        vendorInvoiceDate: row.vendorInvoiceDate,
+        taxableValue: row.taxableValue.toFixed(2),
+        cgstAmount: row.cgstAmount.toFixed(2),
+        sgstAmount: row.sgstAmount.toFixed(2),
+        igstAmount: row.igstAmount.toFixed(2),
+        eligibleCredit: eligibleCredit.toFixed(2),
+        ineligibleCredit: round2(row.totalTax - eligibleCredit).toFixed(2),
+      };
+    });
+  }
+
+  // Vendor payment and payables operations
+  async getVendorPayments(): Promise<VendorPaymentWithDetails[]> {
+    const result = await db
+      .select({
+        payment: vendorPayments,
+        vendor: vendors,
+      })
+      .from(vendorPayments)
+      .innerJoin(vendors, eq(vendorPayments.vendorId, vendors.id))
+      .orderBy(desc(vendorPayments.paymentDate), desc(vendorPayments.createdAt));
+
+    return this.withVendorPaymentAllocations(result);
+  }
+
+  async getVendorPayment(id: string): Promise<VendorPaymentWithDetails | undefined> {
+    const result = await db
+      .select({
+        payment: vendorPayments,
+        vendor: vendors,
+      })
+      .from(vendorPayments)
+      .innerJoin(vendors, eq(vendorPayments.vendorId, vendors.id))
+      .where(eq(vendorPayments.id, id));
+
+    const [payment] = await this.withVendorPaymentAllocations(result);
+    return payment;
+  }
+
+  private async withVendorPaymentAllocations(rows: { payment: VendorPayment; vendor: Vendor }[]): Promise<VendorPaymentWithDetails[]> {
+    return Promise.all(
+      rows.map(async ({ payment, vendor }) => {
+        const allocations = await db
+          .select({
+            allocation: vendorPaymentAllocations,
+            purchaseNumber: purchases.purchaseNumber,
+            vendorInvoiceNumber: purchases.vendorInvoiceNumber,
+          })
+          .from(vendorPaymentAllocations)
+          .innerJoin(purchases, eq(vendorPaymentAllocations.purchaseId, purchases.id))
+          .where(eq(vendorPaymentAllocations.paymentId, payment.id));
+
+        return {
+          ...payment,
+          vendor,
+          allocations: allocations.map(({ allocation, purchaseNumber, vendorInvoiceNumber }) => ({
+            ...allocation,
+            purchaseNumber,
+            vendorInvoiceNumber,
+          })),
+        };
+      })
+    );
+  }
+
+  async createVendorPayment(payment: InsertVendorPayment, allocations: InsertVendorPaymentAllocation[]): Promise<VendorPaymentWithDetails> {
+    if (allocations.length === 0) {
+      throw new BusinessRuleError("Allocate the payment to at least one purchase", 400);
+    }
+    if (new Set(allocations.map(a => a.purchaseId)).size !== allocations.length) {
+      throw new BusinessRuleError("Each purchase can only appear once in a payment", 400);
+    }
+    const allocatedTotal = round2(allocations.reduce((sum, a) => sum + a.amount, 0));
+    if (allocatedTotal !== round2(payment.amount)) {
+      throw new BusinessRuleError(`Allocations add up to ₹${allocatedTotal.toFixed(2)} but the payment is ₹${payment.amount.toFixed(2)}`, 400);
+    }
+
+    const newPayment = await db.transaction(async (tx) => {
+      // Lock the purchases so two payments can't both settle the same balance
+      const purchaseIds = allocations.map(a => a.purchaseId);
+      const lockedPurchases = await tx.select().from(purchases).where(inArray(purchases.id, purchaseIds)).for('update');
+      const paid = await this.getPurchasePaidTotals(purchaseIds, tx);
+
+      for (const allocation of allocations) {
+        const purchase = lockedPurchases.find(p => p.id === allocation.purchaseId);
+        if (!purchase) {
+          throw new BusinessRuleError("Purchase not found", 404);
+        }
+        if (purchase.vendorId !== payment.vendorId) {
+          throw new BusinessRuleError(`Purchase ${purchase.purchaseNumber} is from a different vendor`, 400);
+        }
+        const balance = round2(Number(purchase.total) - (paid.get(purchase.id) ?? 0));
+        if (round2(allocation.amount) > balance) {
+          throw new BusinessRuleError(`Only ₹${Math.max(0, balance).toFixed(2)} is owed on purchase ${purchase.purchaseNumber}`);
+        }
+      }
+
+      const paymentDate = payment.paymentDate ?? new Date();
+      const [newPayment] = await tx.insert(vendorPayments).values({
+        ...payment,
+        paymentNumber: await this.allocateDocumentNumber('vendor_payment', paymentDate, tx),
+        paymentDate,
+        amount: payment.amount.toFixed(2),
+      }).returning();
+
+      await tx.insert(vendorPaymentAllocations).values(allocations.map(allocation => ({
+        paymentId: newPayment.id,
+        purchaseId: allocation.purchaseId,
+        amount: allocation.amount.toFixed(2),
+      })));
+
+      await this.postDocument({
+        entryDate: paymentDate,
+        narration: `Vendor payment ${newPayment.paymentNumber} against ${lockedPurchases.map(purchase => purchase.purchaseNumber).join(", ")}`,
+        sourceType: 'vendor_payment',
+        sourceId: newPayment.id,
+        sourceNumber: newPayment.paymentNumber,
+        createdBy: newPayment.createdBy,
+      }, getVendorPaymentPostings(payment.amount, payment.mode), tx);
+
+      for (const purchaseId of purchaseIds) {
+        await this.refreshPurchasePaymentStatus(purchaseId, tx);
+      }
+
+      return newPayment;
+    });
+
+    return this.getVendorPayment(newPayment.id) as Promise<VendorPaymentWithDetails>;
+  }
+
+  // Open purchases with what is still owed on each
+  private async getOpenPayables() {
+    const rows = await db
+      .select({ purchase: purchases, vendor: vendors })
+      .from(purchases)
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .where(inArray(purchases.status, [...OPEN_PAYABLE_STATUSES]));
+    const paid = await this.getPurchasePaidTotals(rows.map(({ purchase }) => purchase.id));
+
+    return rows.map(({ purchase, vendor }) => ({
+      purchase,
+      vendor,
+      balanceDue: round2(Number(purchase.total) - (paid.get(purchase.id) ?? 0)),
     }));
-    await db.insert(purchaseItems).values(purchaseItemsWithPurchaseId);
+  }
 
-    // Create stock movements for each item
-    for (const purchaseItem of purchaseItemsData) {
-      await this.createStockMovement({
-        itemId: purchaseItem.itemId,
-        type: 'purchase',
-        quantity: purchaseItem.quantity,
-        reason: `Purchase - ${newPurchase.purchaseNumber}`,
+  // Balances as they stood at the end of the asOf day, so later purchases and
+  // payments are left out
+  async getPayablesAging(asOf: Date, vendorId?: string): Promise<PayablesAging> {
+    const endOfDay = new Date(asOf);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    const rows = await db
+      .select({ purchase: purchases, vendor: vendors })
+      .from(purchases)
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .where(and(
+        lte(purchases.purchaseDate, endOfDay),
+        vendorId ? eq(purchases.vendorId, vendorId) : undefined,
+      ));
+    const paid = await this.getPurchasePaidTotals(rows.map(({ purchase }) => purchase.id), db, endOfDay);
+
+    const documents: PayableAgingPurchase[] = rows.map(({ purchase, vendor }) => ({
+      partyId: vendor.id,
+      partyName: vendor.name,
+      city: vendor.city,
+      state: vendor.state,
+      documentId: purchase.id,
+      documentNumber: purchase.purchaseNumber,
+      documentDate: purchase.vendorInvoiceDate ?? purchase.purchaseDate,
+      dueDate: purchase.dueDate,
+      total: Number(purchase.total),
+      balanceDue: round2(Number(purchase.total) - (paid.get(purchase.id) ?? 0)),
+      vendorInvoiceNumber: purchase.vendorInvoiceNumber,
+    }));
+    return buildAgingReport(documents, asOf);
+  }
+
+  // The week runs from today through the sixth day after it
+  async getPayablesDue(now = new Date()): Promise<PayablesDueSummary> {
+    const from = new Date(now);
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(from);
+    to.setDate(to.getDate() + 6);
+    to.setHours(23, 59, 59, 999);
+
+    const summary: PayablesDueSummary = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      dueThisWeek: { count: 0, total: 0 },
+      overdue: { count: 0, total: 0 },
+      purchases: [],
+    };
+    for (const { purchase, vendor, balanceDue } of await this.getOpenPayables()) {
+      const dueDate = purchase.dueDate ?? purchase.vendorInvoiceDate ?? purchase.purchaseDate;
+      if (!dueDate || balanceDue <= 0 || dueDate > to) continue;
+      const bucket = dueDate < from ? summary.overdue : summary.dueThisWeek;
+      bucket.count++;
+      bucket.total = round2(bucket.total + balanceDue);
+      summary.purchases.push({
+        purchaseId: purchase.id,
+        purchaseNumber: purchase.purchaseNumber,
+        vendorName: vendor.name,
+        vendorInvoiceNumber: purchase.vendorInvoiceNumber,
+        dueDate: dueDate.toISOString(),
+        balanceDue,
       });
     }
+    summary.purchases.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    return summary;
+  }
+
+  // GSTR-2B reconciliation operations
+  async getGstr2bReconciliation(period: string): Promise<Gstr2bReconciliation> {
+    const [statement] = await db.select().from(gstr2bImports).where(eq(gstr2bImports.period, period));
+    if (!statement) {
+      return { import: null, entries: [] };
+    }
 
-    return this.getPurchase(newPurchase.id) as Promise<PurchaseWithDetails>;
+    const rows = await db
+      .select({ entry: gstr2bEntries, purchase: purchases, vendor: vendors })
+      .from(gstr2bEntries)
+      .leftJoin(purchases, eq(gstr2bEntries.purchaseId, purchases.id))
+      .leftJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .where(eq(gstr2bEntries.period, period))
+      .orderBy(asc(gstr2bEntries.supplierName), asc(gstr2bEntries.invoiceNumber));
+
+    const vendorsByGstin = new Map(
+      (await db.select().from(vendors).where(sql`${vendors.gstin} is not null`))
+        .map(vendor => [vendor.gstin!.toUpperCase(), vendor]),
+    );
+
+    const entries: Gstr2bEntryWithPurchase[] = rows.map(({ entry, purchase, vendor }) => ({
+      ...entry,
+      status: entry.status as Gstr2bMatchStatus,
+      action: entry.action as Gstr2bAction | null,
+      purchase: purchase && vendor ? { ...purchase, vendor } : null,
+      vendor: vendorsByGstin.get(entry.supplierGstin) ?? vendor ?? null,
+    }));
+    entries.sort((a, b) => GSTR2B_MATCH_STATUSES.indexOf(a.status) - GSTR2B_MATCH_STATUSES.indexOf(b.status));
+
+    return { import: statement, entries };
   }
 
-  async getNextPurchaseNumber(): Promise<string> {
-    const [lastPurchase] = await db
-      .select({ purchaseNumber: purchases.purchaseNumber })
+  async importGstr2b(statement: ImportGstr2b, userId: string): Promise<Gstr2bReconciliation> {
+    const company = await this.getCompanySettings();
+    if (statement.gstin && company?.gstin && statement.gstin !== company.gstin.toUpperCase()) {
+      throw new BusinessRuleError(`This statement is for GSTIN ${statement.gstin}, not ${company.gstin}`, 400);
+    }
+    const range = getPeriodRange(statement.period);
+
+    await db.transaction(async (tx) => {
+      // Pairings made by hand survive a re-import of the same period
+      const previous = await tx
+        .select()
+        .from(gstr2bEntries)
+        .where(and(
+          eq(gstr2bEntries.period, statement.period),
+          inArray(gstr2bEntries.action, ["linked", "purchase_created"]),
+        ));
+      const pinned = new Map(previous
+        .filter(entry => entry.purchaseId && entry.invoiceNumber)
+        .map(entry => [getGstr2bInvoiceKey(entry.supplierGstin, entry.invoiceNumber!), entry.purchaseId!]));
+
+      await tx.delete(gstr2bEntries).where(eq(gstr2bEntries.period, statement.period));
+      await tx
+        .insert(gstr2bImports)
+        .values({
+          period: statement.period,
+          fileName: statement.fileName,
+          invoiceCount: statement.invoices.length,
+          skippedCount: statement.skipped,
+          importedBy: userId,
+        })
+        .onConflictDoUpdate({
+          target: gstr2bImports.period,
+          set: {
+            fileName: statement.fileName,
+            invoiceCount: statement.invoices.length,
+            skippedCount: statement.skipped,
+            importedBy: userId,
+            importedAt: new Date(),
+          },
+        });
+
+      const books = await this.getGstr2bBookEntries(statement.period, range.to, tx);
+      const matches = reconcileGstr2b(statement.invoices, books, range, pinned);
+
+      // A purchase found in this statement is no longer missing from an earlier one
+      const found = matches
+        .filter(match => match.invoice && match.purchaseId)
+        .map(match => match.purchaseId!);
+      if (found.length) {
+        await tx.delete(gstr2bEntries).where(and(
+          inArray(gstr2bEntries.purchaseId, found),
+          eq(gstr2bEntries.status, "missing_in_2b"),
+        ));
+      }
+
+      const booksById = new Map(books.map(book => [book.purchaseId, book]));
+      const pinnedAction = new Map(previous.map(entry => [entry.purchaseId, entry]));
+      if (matches.length) {
+        await tx.insert(gstr2bEntries).values(matches.map(({ status, invoice, purchaseId, differences }) => {
+          const kept = purchaseId && invoice && pinned.get(getGstr2bInvoiceKey(invoice.supplierGstin, invoice.invoiceNumber)) === purchaseId
+            ? pinnedAction.get(purchaseId)
+            : undefined;
+          const book = purchaseId ? booksById.get(purchaseId) : undefined;
+          return {
+            period: statement.period,
+            supplierGstin: invoice?.supplierGstin ?? book!.vendorGstin!.toUpperCase(),
+            supplierName: invoice?.supplierName || book?.vendorName,
+            invoiceNumber: invoice?.invoiceNumber ?? book?.vendorInvoiceNumber,
+            invoiceDate: invoice ? new Date(invoice.invoiceDate) : book?.vendorInvoiceDate,
+            invoiceValue: invoice?.invoiceValue.toFixed(2),
+            taxableValue: invoice?.taxableValue.toFixed(2),
+            igstAmount: invoice?.igstAmount.toFixed(2),
+            cgstAmount: invoice?.cgstAmount.toFixed(2),
+            sgstAmount: invoice?.sgstAmount.toFixed(2),
+            itcAvailable: invoice?.itcAvailable,
+            reverseCharge: invoice?.reverseCharge,
+            purchaseId,
+            status,
+            differences,
+            action: kept?.action,
+            actionBy: kept?.actionBy,
+            actionAt: kept?.actionAt,
+          };
+        }));
+      }
+    });
+
+    return this.getGstr2bReconciliation(statement.period);
+  }
+
+  async linkGstr2bEntry(id: string, link: LinkGstr2bEntry, userId: string): Promise<Gstr2bReconciliation> {
+    const period = await db.transaction(async (tx) => {
+      const [entry] = await tx.select().from(gstr2bEntries).where(eq(gstr2bEntries.id, id)).for('update');
+      if (!entry) {
+        throw new BusinessRuleError("Reconciliation entry not found", 404);
+      }
+      if (entry.status === "missing_in_2b" || !entry.invoiceNumber || !entry.invoiceDate) {
+        throw new BusinessRuleError("Only invoices listed in GSTR-2B can be linked to a purchase");
+      }
+
+      const [book] = await this.selectGstr2bBookEntries(tx).where(eq(purchases.id, link.purchaseId));
+      if (!book) {
+        throw new BusinessRuleError("Purchase not found", 404);
+      }
+      if (book.vendorGstin?.toUpperCase() !== entry.supplierGstin) {
+        throw new BusinessRuleError(`${book.purchaseNumber} is from ${book.vendorName}, whose GSTIN is not ${entry.supplierGstin}`);
+      }
+      const [other] = await tx
+        .select({ period: gstr2bEntries.period, invoiceNumber: gstr2bEntries.invoiceNumber })
+        .from(gstr2bEntries)
+        .where(and(
+          eq(gstr2bEntries.purchaseId, link.purchaseId),
+          inArray(gstr2bEntries.status, ["matched", "mismatched"]),
+          ne(gstr2bEntries.id, id),
+        ));
+      if (other) {
+        throw new BusinessRuleError(`${book.purchaseNumber} is already linked to invoice ${other.invoiceNumber} in the ${other.period} statement`);
+      }
+
+      const differences = compareWithBooks({
+        supplierGstin: entry.supplierGstin,
+        supplierName: entry.supplierName ?? "",
+        invoiceNumber: entry.invoiceNumber,
+        invoiceDate: entry.invoiceDate.toISOString().slice(0, 10),
+        invoiceValue: Number(entry.invoiceValue ?? 0),
+        taxableValue: Number(entry.taxableValue ?? 0),
+        igstAmount: Number(entry.igstAmount ?? 0),
+        cgstAmount: Number(entry.cgstAmount ?? 0),
+        sgstAmount: Number(entry.sgstAmount ?? 0),
+        itcAvailable: entry.itcAvailable ?? true,
+        reverseCharge: entry.reverseCharge ?? false,
+      }, book);
+
+      await tx.delete(gstr2bEntries).where(and(
+        eq(gstr2bEntries.purchaseId, link.purchaseId),
+        eq(gstr2bEntries.status, "missing_in_2b"),
+      ));
+      await tx
+        .update(gstr2bEntries)
+        .set({
+          purchaseId: link.purchaseId,
+          status: differences.length === 0 ? "matched" : "mismatched",
+          differences,
+          action: link.action,
+          actionBy: userId,
+          actionAt: new Date(),
+        })
+        .where(eq(gstr2bEntries.id, id));
+      return entry.period;
+    });
+
+    return this.getGstr2bReconciliation(period);
+  }
+
+  async flagGstr2bVendor(id: string, note: string, userId: string): Promise<Gstr2bReconciliation> {
+    const [entry] = await db.select().from(gstr2bEntries).where(eq(gstr2bEntries.id, id));
+    if (!entry) {
+      throw new BusinessRuleError("Reconciliation entry not found", 404);
+    }
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(sql`upper(${vendors.gstin}) = ${entry.supplierGstin}`);
+    if (!vendor) {
+      throw new BusinessRuleError(`No vendor has GSTIN ${entry.supplierGstin}; add the vendor first`, 404);
+    }
+
+    await this.setVendorFlag(vendor.id, note);
+    await db
+      .update(gstr2bEntries)
+      .set({ action: "vendor_flagged", actionBy: userId, actionAt: new Date() })
+      .where(eq(gstr2bEntries.id, id));
+
+    return this.getGstr2bReconciliation(entry.period);
+  }
+
+  private selectGstr2bBookEntries(executor: DbExecutor = db) {
+    return executor
+      .select({
+        purchaseId: purchases.id,
+        purchaseNumber: purchases.purchaseNumber,
+        vendorName: vendors.name,
+        vendorGstin: vendors.gstin,
+        vendorInvoiceNumber: purchases.vendorInvoiceNumber,
+        vendorInvoiceDate: purchases.vendorInvoiceDate,
+        taxableValue: sql`${purchases.subtotal}`.mapWith(Number),
+        igstAmount: sql`${purchases.igstAmount}`.mapWith(Number),
+        cgstAmount: sql`${purchases.cgstAmount}`.mapWith(Number),
+        sgstAmount: sql`${purchases.sgstAmount}`.mapWith(Number),
+      })
       .from(purchases)
-      .orderBy(desc(purchases.createdAt))
-      .limit(1);
+      .innerJoin(vendors, eq(purchases.vendorId, vendors.id))
+      .$dynamic();
+  }
+
+  // Purchases from registered vendors that a statement for `period` could
+  // contain: invoiced by the end of the period and not already found in
+  // another period's statement
+  private async getGstr2bBookEntries(period: string, to: Date, executor: DbExecutor = db) {
+    const rows = await this.selectGstr2bBookEntries(executor).where(and(
+      lte(purchases.vendorInvoiceDate, to),
+      sql`not exists (
+        select 1 from ${gstr2bEntries}
+        where ${gstr2bEntries.purchaseId} = ${purchases.id}
+          and ${gstr2bEntries.period} <> ${period}
+          and ${gstr2bEntries.status} in ('matched', 'mismatched')
+      )`,
+    ));
+    return rows.filter(row => isValidGstin(row.vendorGstin)) satisfies Gstr2bBookEntry[];
+  }
+
+  // Payment reminder operations
+  async getReminderRules(): Promise<ReminderRule[]> {
+    return db.select().from(reminderRules).orderBy(asc(reminderRules.daysFromDue), asc(reminderRules.name));
+  }
+
+  async getReminderRule(id: string): Promise<ReminderRule | undefined> {
+    const [rule] = await db.select().from(reminderRules).where(eq(reminderRules.id, id));
+    return rule;
+  }
+
+  async createReminderRule(rule: InsertReminderRule): Promise<ReminderRule> {
+    const [newRule] = await db.insert(reminderRules).values(rule).returning();
+    return newRule;
+  }
+
+  async updateReminderRule(id: string, rule: Partial<InsertReminderRule>): Promise<ReminderRule> {
+    const [updatedRule] = await db
+      .update(reminderRules)
+      .set({ ...rule, updatedAt: new Date() })
+      .where(eq(reminderRules.id, id))
+      .returning();
+    if (!updatedRule) {
+      throw new BusinessRuleError("Reminder rule not found", 404);
+    }
+    return updatedRule;
+  }
+
+  // Reminders already sent keep their history without the rule
+  async deleteReminderRule(id: string): Promise<void> {
+    await db.delete(reminderRules).where(eq(reminderRules.id, id));
+  }
+
+  async getBillReminders(billId: string): Promise<BillReminderWithRule[]> {
+    const result = await db
+      .select({
+        reminder: billReminders,
+        ruleName: reminderRules.name,
+        sentByFirstName: users.firstName,
+        sentByLastName: users.lastName,
+        sentByEmail: users.email,
+      })
+      .from(billReminders)
+      .leftJoin(reminderRules, eq(billReminders.ruleId, reminderRules.id))
+      .leftJoin(users, eq(billReminders.sentBy, users.id))
+      .where(eq(billReminders.billId, billId))
+      .orderBy(desc(billReminders.createdAt));
+
+    return result.map(({ reminder, ruleName, sentByFirstName, sentByLastName, sentByEmail }) => ({
+      ...reminder,
+      status: reminder.status as ReminderStatus,
+      ruleName,
+      sentByName: reminder.sentBy
+        ? [sentByFirstName, sentByLastName].filter(Boolean).join(" ") || sentByEmail
+        : null,
+    }));
+  }
+
+  async getRemindersDue(now = new Date()): Promise<{ bill: BillWithDetails; rule: ReminderRule; scheduledFor: Date }[]> {
+    const rules = await db.select().from(reminderRules).where(eq(reminderRules.active, true));
+    if (rules.length === 0) return [];
+
+    const openBills = await db
+      .select({ id: bills.id, dueDate: bills.dueDate })
+      .from(bills)
+      .where(and(
+        inArray(bills.status, [...OPEN_BILL_STATUSES]),
+        sql`${bills.dueDate} is not null`,
+      ));
+
+    const scheduledFor = new Date(now);
+    scheduledFor.setHours(0, 0, 0, 0);
+    const due: { bill: BillWithDetails; rule: ReminderRule; scheduledFor: Date }[] = [];
+    for (const { id, dueDate } of openBills) {
+      const daysFromDue = getDaysFromDue(dueDate!, now);
+      const matching = rules.filter(rule => isReminderDue(rule, daysFromDue));
+      if (matching.length === 0) continue;
+
+      const bill = await this.getBill(id);
+      if (!bill || Number(bill.balanceDue) <= 0) continue;
+      due.push(...matching.map(rule => ({ bill, rule, scheduledFor })));
+    }
+    return due;
+  }
+
+  // Returns undefined when the reminder has already been claimed
+  async claimBillReminder(reminder: typeof billReminders.$inferInsert): Promise<BillReminder | undefined> {
+    const [claimed] = await db.insert(billReminders).values(reminder).onConflictDoNothing().returning();
+    return claimed;
+  }
+
+  async recordBillReminderResult(id: string, status: ReminderStatus, error?: string): Promise<void> {
+    await db.update(billReminders).set({ status, error: error ?? null }).where(eq(billReminders.id, id));
+  }
+
+  // General ledger operations
+  // The default chart is created the first time the ledger is used, and any
+  // system account missing from it is put back the same way
+  private async getSystemAccountIds(executor: DbExecutor): Promise<Map<SystemAccountKey, string>> {
+    const select = () => executor
+      .select({ id: ledgerAccounts.id, systemKey: ledgerAccounts.systemKey })
+      .from(ledgerAccounts)
+      .where(isNotNull(ledgerAccounts.systemKey));
+
+    let rows = await select();
+    if (rows.length < SYSTEM_ACCOUNT_KEYS.length) {
+      await executor
+        .insert(ledgerAccounts)
+        .values(DEFAULT_ACCOUNTS.map(account => ({ ...account, type: getAccountType(account.group) })))
+        .onConflictDoNothing();
+      rows = await select();
+    }
+    return new Map(rows.map(row => [row.systemKey as SystemAccountKey, row.id]));
+  }
+
+  async getLedgerAccounts(): Promise<LedgerAccountWithBalance[]> {
+    await this.getSystemAccountIds(db);
+    const rows = await db
+      .select({
+        account: ledgerAccounts,
+        totalDebit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+        totalCredit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(journalLines, eq(journalLines.accountId, ledgerAccounts.id))
+      .groupBy(ledgerAccounts.id)
+      .orderBy(asc(ledgerAccounts.code));
+
+    return rows.map(({ account, totalDebit, totalCredit }) => ({
+      ...account,
+      type: account.type as AccountType,
+      group: account.group as AccountGroup,
+      totalDebit: round2(Number(totalDebit)),
+      totalCredit: round2(Number(totalCredit)),
+      balance: round2(Number(totalDebit) - Number(totalCredit)),
+    }));
+  }
+
+  private async checkAccountCode(code: string, exceptId?: string) {
+    const [existing] = await db
+      .select({ id: ledgerAccounts.id, name: ledgerAccounts.name })
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.code, code));
+    if (existing && existing.id !== exceptId) {
+      throw new BusinessRuleError(`Code ${code} is already used by ${existing.name}`, 400);
+    }
+  }
+
+  async createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount> {
+    await this.checkAccountCode(account.code);
+    const [newAccount] = await db
+      .insert(ledgerAccounts)
+      .values({ ...account, type: getAccountType(account.group) })
+      .returning();
+    return newAccount;
+  }
+
+  async updateLedgerAccount(id: string, account: UpdateLedgerAccount): Promise<LedgerAccount> {
+    const [existing] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, id));
+    if (!existing) {
+      throw new BusinessRuleError("Account not found", 404);
+    }
+    if (existing.systemKey && ((account.group && account.group !== existing.group) || account.isActive === false)) {
+      throw new BusinessRuleError(`${existing.name} receives automatic postings, so it cannot be regrouped or deactivated`);
+    }
+    if (account.code) {
+      await this.checkAccountCode(account.code, id);
+    }
+
+    const [updatedAccount] = await db
+      .update(ledgerAccounts)
+      .set({ ...account, ...(account.group && { type: getAccountType(account.group) }) })
+      .where(eq(ledgerAccounts.id, id))
+      .returning();
+    return updatedAccount;
+  }
+
+  async getJournalEntries(filters: JournalEntryFilters = {}): Promise<JournalEntryWithLines[]> {
+    const conditions: SQL[] = [];
+    if (filters.from) conditions.push(gte(journalEntries.entryDate, filters.from));
+    if (filters.to) conditions.push(lte(journalEntries.entryDate, filters.to));
+    if (filters.sourceType) conditions.push(eq(journalEntries.sourceType, filters.sourceType));
+    if (filters.accountId) {
+      conditions.push(sql`exists (select 1 from ${journalLines} where ${journalLines.entryId} = ${journalEntries.id} and ${journalLines.accountId} = ${filters.accountId})`);
+    }
+
+    const rows = await this.selectJournalEntries()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(journalEntries.entryDate), desc(journalEntries.createdAt));
+    return this.withJournalLines(rows);
+  }
+
+  async getJournalEntry(id: string): Promise<JournalEntryWithLines | undefined> {
+    const rows = await this.selectJournalEntries().where(eq(journalEntries.id, id));
+    const [entry] = await this.withJournalLines(rows);
+    return entry;
+  }
+
+  private selectJournalEntries() {
+    return db
+      .select({
+        entry: journalEntries,
+        createdByFirstName: users.firstName,
+        createdByLastName: users.lastName,
+        createdByEmail: users.email,
+      })
+      .from(journalEntries)
+      .leftJoin(users, eq(journalEntries.createdBy, users.id))
+      .$dynamic();
+  }
+
+  private async withJournalLines(rows: Awaited<ReturnType<DatabaseStorage["selectJournalEntries"]>>): Promise<JournalEntryWithLines[]> {
+    if (rows.length === 0) return [];
+    const lines = await db
+      .select({
+        line: journalLines,
+        accountCode: ledgerAccounts.code,
+        accountName: ledgerAccounts.name,
+      })
+      .from(journalLines)
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(inArray(journalLines.entryId, rows.map(({ entry }) => entry.id)))
+      .orderBy(desc(journalLines.debit), asc(ledgerAccounts.code));
+
+    return rows.map(({ entry, createdByFirstName, createdByLastName, createdByEmail }) => ({
+      ...entry,
+      sourceType: entry.sourceType as JournalSource,
+      createdByName: entry.createdBy
+        ? [createdByFirstName, createdByLastName].filter(Boolean).join(" ") || createdByEmail
+        : null,
+      lines: lines
+        .filter(({ line }) => line.entryId === entry.id)
+        .map(({ line, accountCode, accountName }) => ({ ...line, accountCode, accountName })),
+    }));
+  }
+
+  // Totals per account for entries dated up to `to`, and from `from` when given
+  async getAccountMovements(to: Date, from?: Date): Promise<AccountMovement[]> {
+    const rows = await db
+      .select({
+        account: ledgerAccounts,
+        debit: sql<string>`sum(${journalLines.debit})`,
+        credit: sql<string>`sum(${journalLines.credit})`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+      .where(and(
+        lte(journalEntries.entryDate, to),
+        from ? gte(journalEntries.entryDate, from) : undefined,
+      ))
+      .groupBy(ledgerAccounts.id);
+
+    return rows.map(({ account, debit, credit }) => ({
+      accountId: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type as AccountType,
+      group: account.group as AccountGroup,
+      debit: round2(Number(debit)),
+      credit: round2(Number(credit)),
+    }));
+  }
+
+  async getAccountLedger(accountId: string, from: Date, to: Date): Promise<AccountLedger | undefined> {
+    const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.id, accountId));
+    if (!account) return undefined;
+
+    const [[opening], rows] = await Promise.all([
+      db
+        .select({ balance: sql<string>`coalesce(sum(${journalLines.debit} - ${journalLines.credit}), 0)` })
+        .from(journalLines)
+        .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+        .where(and(eq(journalLines.accountId, accountId), lt(journalEntries.entryDate, from))),
+      db
+        .select({ line: journalLines, entry: journalEntries })
+        .from(journalLines)
+        .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+        .where(and(
+          eq(journalLines.accountId, accountId),
+          gte(journalEntries.entryDate, from),
+          lte(journalEntries.entryDate, to),
+        ))
+        .orderBy(asc(journalEntries.entryDate), asc(journalEntries.createdAt)),
+    ]);
+
+    const openingBalance = round2(Number(opening.balance));
+    let balance = openingBalance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+    const lines = rows.map(({ line, entry }) => {
+      const debit = Number(line.debit);
+      const credit = Number(line.credit);
+      balance = round2(balance + debit - credit);
+      totalDebit = round2(totalDebit + debit);
+      totalCredit = round2(totalCredit + credit);
+      return {
+        entryId: entry.id,
+        entryNumber: entry.entryNumber,
+        entryDate: entry.entryDate,
+        sourceType: entry.sourceType as JournalSource,
+        sourceNumber: entry.sourceNumber,
+        narration: entry.narration,
+        debit,
+        credit,
+        balance,
+      };
+    });
+
+    return {
+      account: { ...account, type: account.type as AccountType, group: account.group as AccountGroup },
+      from: from.toISOString(),
+      to: to.toISOString(),
+      openingBalance,
+      lines,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance,
+    };
+  }
+
+  async createJournalEntry(entry: InsertJournalEntry, lines: InsertJournalLine[], userId: string): Promise<JournalEntryWithLines> {
+    const newEntry = await db.transaction(async (tx) => {
+      const accountIds = Array.from(new Set(lines.map(line => line.accountId)));
+      const accounts = accountIds.length > 0
+        ? await tx.select().from(ledgerAccounts).where(inArray(ledgerAccounts.id, accountIds))
+        : [];
+      for (const accountId of accountIds) {
+        const account = accounts.find(candidate => candidate.id === accountId);
+        if (!account) {
+          throw new BusinessRuleError("Account not found", 404);
+        }
+        if (!account.isActive) {
+          throw new BusinessRuleError(`${account.name} is inactive`, 400);
+        }
+      }
+
+      return this.postJournalEntry({
+        ...entry,
+        sourceType: 'manual',
+        createdBy: userId,
+      }, lines, tx);
+    });
+
+    return this.getJournalEntry(newEntry.id) as Promise<JournalEntryWithLines>;
+  }
 
-    if (!lastPurchase) {
-      return "PUR-2024-001";
+  private async postJournalEntry(
+    entry: Omit<typeof journalEntries.$inferInsert, "entryNumber"> & { entryDate: Date; sourceType: JournalSource },
+    lines: { accountId: string; debit: number; credit: number }[],
+    tx: DbExecutor,
+  ): Promise<JournalEntry> {
+    const error = getJournalError(lines);
+    if (error) {
+      throw new BusinessRuleError(error, 400);
     }
 
-    const lastNumber = parseInt(lastPurchase.purchaseNumber.split('-')[2]);
-    return `PUR-2024-${String(lastNumber + 1).padStart(3, '0')}`;
+    // Postings made by documents have their own series, so the accountant's
+    // voucher numbers run without gaps
+    const series = entry.sourceType === 'manual' ? 'journal' : 'system_journal';
+    const [newEntry] = await tx.insert(journalEntries).values({
+      ...entry,
+      entryNumber: await this.allocateDocumentNumber(series, entry.entryDate, tx),
+    }).returning();
+
+    await tx.insert(journalLines).values(lines.map(line => ({
+      entryId: newEntry.id,
+      accountId: line.accountId,
+      debit: line.debit.toFixed(2),
+      credit: line.credit.toFixed(2),
+    })));
+
+    return newEntry;
+  }
+
+  // Automatic postings name system accounts by key. Nothing is posted when
+  // every amount came to zero, e.g. writing off stock that was never bought.
+  private async postDocument(
+    entry: Parameters<DatabaseStorage["postJournalEntry"]>[0],
+    postings: PostingLine[],
+    tx: DbExecutor,
+  ): Promise<void> {
+    if (postings.length === 0) return;
+    const accountIds = await this.getSystemAccountIds(tx);
+    await this.postJournalEntry(entry, postings.map(({ account, debit, credit }) => {
+      const accountId = accountIds.get(account);
+      if (!accountId) {
+        throw new BusinessRuleError(`The chart of accounts has no ${account.replace(/_/g, " ")} account`);
+      }
+      return { accountId, debit, credit };
+    }), tx);
+  }
+
+  // Posts the opposite of everything the document has posted so far
+  private async reverseDocument(
+    source: { sourceType: JournalSource; sourceId: string },
+    entry: Parameters<DatabaseStorage["postJournalEntry"]>[0],
+    tx: DbExecutor,
+  ): Promise<void> {
+    const net = await tx
+      .select({
+        accountId: journalLines.accountId,
+        balance: sql<string>`sum(${journalLines.debit}) - sum(${journalLines.credit})`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+      .where(and(
+        eq(journalEntries.sourceType, source.sourceType),
+        eq(journalEntries.sourceId, source.sourceId),
+      ))
+      .groupBy(journalLines.accountId);
+
+    const lines = net
+      .map(({ accountId, balance }) => {
+        const amount = round2(Number(balance));
+        return { accountId, debit: Math.max(0, -amount), credit: Math.max(0, amount) };
+      })
+      .filter(line => line.debit > 0 || line.credit > 0);
+    if (lines.length === 0) return;
+    await this.postJournalEntry(entry, lines, tx);
+  }
+
+  // Goods leave stock at the rate they were last bought at, blocked tax
+  // included as it was when they went in; items that were never purchased
+  // carry no cost
+  private async getCostOfGoods(lines: { itemId: string; quantity: number }[], executor: DbExecutor): Promise<number> {
+    const itemIds = Array.from(new Set(lines.map(line => line.itemId)));
+    if (itemIds.length === 0) return 0;
+
+    const latest = await executor
+      .selectDistinctOn([purchaseItems.itemId], {
+        itemId: purchaseItems.itemId,
+        taxableValue: purchaseItems.taxableValue,
+        cgstAmount: purchaseItems.cgstAmount,
+        sgstAmount: purchaseItems.sgstAmount,
+        igstAmount: purchaseItems.igstAmount,
+        itcEligible: purchaseItems.itcEligible,
+        quantity: purchaseItems.quantity,
+      })
+      .from(purchaseItems)
+      .innerJoin(purchases, eq(purchaseItems.purchaseId, purchases.id))
+      .where(and(inArray(purchaseItems.itemId, itemIds), sql`${purchaseItems.quantity} > 0`))
+      .orderBy(purchaseItems.itemId, desc(purchases.purchaseDate), desc(purchases.createdAt));
+
+    const unitCosts = new Map(latest.map(row => [row.itemId, getPurchaseLineCost({
+      taxableValue: Number(row.taxableValue),
+      cgstAmount: Number(row.cgstAmount),
+      sgstAmount: Number(row.sgstAmount),
+      igstAmount: Number(row.igstAmount),
+      itcEligible: row.itcEligible,
+    }) / row.quantity]));
+    return round2(lines.reduce((sum, line) => sum + (unitCosts.get(line.itemId) ?? 0) * line.quantity, 0));
+  }
+
+  // Counting less stock than the books show writes the shortfall off at cost.
+  // A count above the books is left for the accountant to journal.
+  private async postStockWriteOff(movement: StockMovement, counted: number, executor: DbExecutor): Promise<void> {
+    const [current] = await executor
+      .select({ quantity: inventory.quantity })
+      .from(inventory)
+      .where(eq(inventory.itemId, movement.itemId))
+      .for('update');
+    const shortfall = (current?.quantity ?? 0) - counted;
+    if (shortfall <= 0) return;
+
+    const value = await this.getCostOfGoods([{ itemId: movement.itemId, quantity: shortfall }], executor);
+    await this.postDocument({
+      entryDate: movement.createdAt ?? new Date(),
+      narration: `Stock write-off of ${shortfall} unit(s)${movement.reason ? `: ${movement.reason}` : ''}`,
+      sourceType: 'stock_write_off',
+      sourceId: movement.id,
+    }, getStockWriteOffPostings(value), executor);
+  }
+
+  // Company settings operations
+  async getCompanySettings(): Promise<CompanySettings | undefined> {
+    const [settings] = await db.select().from(companySettings).where(eq(companySettings.id, "default"));
+    return settings;
+  }
+
+  async upsertCompanySettings(settingsData: InsertCompanySettings, userId: string): Promise<CompanySettings> {
+    const values = {
+      ...settingsData,
+      stateCode: getStateCode(settingsData.state)!,
+      updatedBy: userId,
+      updatedAt: new Date(),
+    };
+    const [settings] = await db
+      .insert(companySettings)
+      .values({ id: "default", ...values })
+      .onConflictDoUpdate({
+        target: companySettings.id,
+        set: values,
+      })
+      .returning();
+    return settings;
+  }
+
+  // Numbering series operations
+  async getDocumentSeries(): Promise<DocumentSeriesWithPreview[]> {
+    const stored = await db.select().from(documentSeries);
+    const now = new Date();
+
+    return Promise.all(
+      (Object.keys(DOCUMENT_TYPES) as DocumentType[]).map(async (documentType) => {
+        const series = stored.find(s => s.documentType === documentType) ?? {
+          documentType,
+          ...defaultNumberingPattern(documentType),
+          updatedAt: null,
+        };
+        return {
+          ...series,
+          documentType,
+          nextNumber: await this.peekDocumentNumber(documentType, now),
+        };
+      })
+    );
+  }
+
+  async upsertDocumentSeries(seriesData: InsertDocumentSeries): Promise<DocumentSeries> {
+    const [series] = await db
+      .insert(documentSeries)
+      .values(seriesData)
+      .onConflictDoUpdate({
+        target: documentSeries.documentType,
+        set: { ...seriesData, updatedAt: new Date() },
+      })
+      .returning();
+    return series;
+  }
+
+  async peekDocumentNumber(documentType: DocumentType, date: Date): Promise<string> {
+    const pattern = await this.getNumberingPattern(documentType, db);
+    const [counter] = await db
+      .select({ lastNumber: documentSeriesCounters.lastNumber })
+      .from(documentSeriesCounters)
+      .where(and(
+        eq(documentSeriesCounters.documentType, documentType),
+        eq(documentSeriesCounters.periodKey, getCounterPeriod(pattern, date)),
+      ));
+    return formatDocumentNumber(pattern, (counter?.lastNumber ?? 0) + 1, date);
+  }
+
+  private async getNumberingPattern(documentType: DocumentType, executor: DbExecutor): Promise<NumberingPattern> {
+    const [series] = await executor.select().from(documentSeries).where(eq(documentSeries.documentType, documentType));
+    return series ?? defaultNumberingPattern(documentType);
+  }
+
+  // Must run inside the transaction that inserts the document: the counter row
+  // stays locked until commit, so concurrent saves queue instead of colliding,
+  // and a rollback returns the number to the series.
+  private async allocateDocumentNumber(documentType: DocumentType, date: Date, executor: DbExecutor): Promise<string> {
+    const pattern = await this.getNumberingPattern(documentType, executor);
+    const [counter] = await executor
+      .insert(documentSeriesCounters)
+      .values({ documentType, periodKey: getCounterPeriod(pattern, date), lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [documentSeriesCounters.documentType, documentSeriesCounters.periodKey],
+        set: { lastNumber: sql`${documentSeriesCounters.lastNumber} + 1` },
+      })
+      .returning();
+    return formatDocumentNumber(pattern, counter.lastNumber, date);
   }
 
   // Analytics operations
@@ -582,7 +3907,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql`coalesce(sum(${bills.total}), 0)` })
       .from(bills)
       .where(and(
-        sql`${bills.status} IN ('paid', 'pending')`,
+        sql`${bills.status} <> 'cancelled'`,
         sql`${bills.billDate} >= ${thirtyDaysAgo}`
       ));
 
@@ -590,7 +3915,7 @@ export class DatabaseStorage implements IStorage {
       .select({ total: sql`coalesce(sum(${bills.total}), 0)` })
       .from(bills)
       .where(and(
-        sql`${bills.status} IN ('paid', 'pending')`,
+        sql`${bills.status} <> 'cancelled'`,
         sql`${bills.billDate} >= ${today}`
       ));
 
@@ -602,12 +3927,15 @@ export class DatabaseStorage implements IStorage {
     const [todaysGSTResult] = await db
       .select({ total: sql`coalesce(sum(${bills.gstAmount}), 0)` })
       .from(bills)
-      .where(sql`${bills.billDate} >= ${today}`);
+      .where(and(
+        sql`${bills.status} <> 'cancelled'`,
+        sql`${bills.billDate} >= ${today}`
+      ));
 
     const [pendingBillsResult] = await db
       .select({ count: sql`count(*)`.mapWith(Number) })
       .from(bills)
-      .where(eq(bills.status, 'pending'));
+      .where(inArray(bills.status, [...OPEN_BILL_STATUSES]));
 
     const lowStockItems = await this.getLowStockItems();
 
@@ -679,6 +4007,8 @@ export class DatabaseStorage implements IStorage {
       })
       .from(billItems)
       .innerJoin(items, eq(billItems.itemId, items.id))
+      .innerJoin(bills, eq(billItems.billId, bills.id))
+      .where(sql`${bills.status} <> 'cancelled'`)
       .groupBy(items.id, items.name, items.code, items.description, items.category, items.price, items.gstRate, items.unit, items.lowStockThreshold, items.createdAt, items.updatedAt)
       .orderBy(desc(sql`sum(${billItems.quantity})`))
       .limit(10);
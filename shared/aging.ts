@@ -0,0 +1,97 @@
+// Aging of unpaid documents by days past their due date, grouped by party.
+// Used for both receivables and payables; a document with no due date is due
+// on its own date.
+
+import { round2 } from "./gst";
+import { getDaysFromDue } from "./reminders";
+
+export const AGING_BUCKETS = {
+  current: "Current",
+  days_1_30: "1-30 days",
+  days_31_60: "31-60 days",
+  days_61_90: "61-90 days",
+  days_over_90: "90+ days",
+} as const;
+
+export type AgingBucket = keyof typeof AGING_BUCKETS;
+
+export const AGING_BUCKET_KEYS = Object.keys(AGING_BUCKETS) as AgingBucket[];
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export function getAgingBucket(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return "current";
+  if (daysPastDue <= 30) return "days_1_30";
+  if (daysPastDue <= 60) return "days_31_60";
+  if (daysPastDue <= 90) return "days_61_90";
+  return "days_over_90";
+}
+
+export function emptyAgingTotals(): AgingTotals {
+  return { current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_over_90: 0, total: 0 };
+}
+
+function addToTotals(totals: AgingTotals, bucket: AgingBucket, amount: number) {
+  totals[bucket] = round2(totals[bucket] + amount);
+  totals.total = round2(totals.total + amount);
+}
+
+export interface AgingDocumentInput {
+  partyId: string;
+  partyName: string;
+  city: string | null;
+  state: string | null;
+  documentId: string;
+  documentNumber: string;
+  documentDate: Date | string | null;
+  dueDate: Date | string | null;
+  total: number;
+  balanceDue: number;
+}
+
+export type AgingDocument<T extends AgingDocumentInput = AgingDocumentInput> = Omit<T, "partyId" | "partyName" | "city" | "state"> & {
+  daysPastDue: number;
+  bucket: AgingBucket;
+};
+
+export interface AgingParty<T extends AgingDocumentInput = AgingDocumentInput> {
+  partyId: string;
+  partyName: string;
+  city: string | null;
+  state: string | null;
+  totals: AgingTotals;
+  documents: AgingDocument<T>[];
+}
+
+export interface AgingReport<T extends AgingDocumentInput = AgingDocumentInput> {
+  asOf: string;
+  parties: AgingParty<T>[];
+  totals: AgingTotals;
+}
+
+// Parties owing the most come first; each party's documents oldest first
+export function buildAgingReport<T extends AgingDocumentInput>(documents: T[], asOf: Date): AgingReport<T> {
+  const parties = new Map<string, AgingParty<T>>();
+  const totals = emptyAgingTotals();
+
+  for (const { partyId, partyName, city, state, ...document } of documents) {
+    if (document.balanceDue <= 0) continue;
+    const daysPastDue = getDaysFromDue(document.dueDate ?? document.documentDate ?? asOf, asOf);
+    const bucket = getAgingBucket(daysPastDue);
+
+    let party = parties.get(partyId);
+    if (!party) {
+      party = { partyId, partyName, city, state, totals: emptyAgingTotals(), documents: [] };
+      parties.set(partyId, party);
+    }
+    party.documents.push({ ...document, daysPastDue, bucket } as AgingDocument<T>);
+    addToTotals(party.totals, bucket, document.balanceDue);
+    addToTotals(totals, bucket, document.balanceDue);
+  }
+
+  const sorted = Array.from(parties.values()).sort((a, b) => b.totals.total - a.totals.total || a.partyName.localeCompare(b.partyName));
+  for (const party of sorted) {
+    party.documents.sort((a, b) => b.daysPastDue - a.daysPastDue);
+  }
+  return { asOf: asOf.toISOString(), parties: sorted, totals };
+}
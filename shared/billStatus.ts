@@ -0,0 +1,58 @@
+// Bill lifecycle shared by the billing page (which actions to offer) and the
+// server (which changes to accept).
+
+export const BILL_STATUSES = ["pending", "partially_paid", "overdue", "paid", "cancelled"] as const;
+
+export type BillStatus = typeof BILL_STATUSES[number];
+
+// Cancelled is final. Once money has been received against a bill it has to
+// go back through a credit note rather than being cancelled, so the refund is
+// documented for GST. The payment statuses move as payments are allocated, and
+// anything still owed the day after the due date is overdue.
+const BILL_STATUS_TRANSITIONS: Record<BillStatus, readonly BillStatus[]> = {
+  pending: ["partially_paid", "paid", "overdue", "cancelled"],
+  partially_paid: ["pending", "paid", "overdue"],
+  overdue: ["paid", "cancelled"],
+  paid: ["pending", "partially_paid", "overdue"],
+  cancelled: [],
+};
+
+// Statuses that still have money owed on them
+export const OPEN_BILL_STATUSES: readonly BillStatus[] = ["pending", "partially_paid", "overdue"];
+
+export function canTransitionBill(from: string, to: string): boolean {
+  return BILL_STATUS_TRANSITIONS[from as BillStatus]?.includes(to as BillStatus) ?? false;
+}
+
+export function canCancelBill(bill: { status: string }): boolean {
+  return canTransitionBill(bill.status, "cancelled");
+}
+
+export const DEFAULT_CUSTOMER_CREDIT_DAYS = 30;
+
+export function getBillDueDate(billDate: Date | string, creditDays: number): Date {
+  const due = new Date(billDate);
+  due.setDate(due.getDate() + creditDays);
+  return due;
+}
+
+// A bill is due on its due date and overdue from the next day
+export function isPastDue(dueDate: Date | string | null | undefined, now = new Date()): boolean {
+  if (!dueDate) return false;
+  const due = new Date(dueDate);
+  due.setHours(23, 59, 59, 999);
+  return due < now;
+}
+
+// A bill whose value has been fully credited back counts as settled
+export function deriveBillPaymentStatus(amountDue: number, amountPaid: number, dueDate?: Date | string | null, now = new Date()): BillStatus {
+  if (amountPaid >= amountDue - 0.005) return "paid";
+  if (isPastDue(dueDate, now)) return "overdue";
+  return amountPaid > 0 ? "partially_paid" : "pending";
+}
+
+export function getBillStatusLabel(status: string): string {
+  return status === "partially_paid"
+    ? "Partially Paid"
+    : status.charAt(0).toUpperCase() + status.slice(1);
+}
@@ -0,0 +1,67 @@
+// Indian currency helpers shared by the client and the PDF renderer. CSV
+// exports keep bare numbers instead, so spreadsheets can add them up.
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function twoDigitsToWords(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function threeDigitsToWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  return [
+    hundreds ? `${ONES[hundreds]} Hundred` : "",
+    twoDigitsToWords(n % 100),
+  ].filter(Boolean).join(" ");
+}
+
+// Groups by crore (10^7), lakh (10^5) and thousand as written on Indian cheques.
+export function numberToWords(value: number): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return "Zero";
+
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor(n / 100000) % 100;
+  const thousand = Math.floor(n / 1000) % 100;
+  const rest = n % 1000;
+
+  return [
+    crore ? `${numberToWords(crore)} Crore` : "",
+    lakh ? `${twoDigitsToWords(lakh)} Lakh` : "",
+    thousand ? `${twoDigitsToWords(thousand)} Thousand` : "",
+    threeDigitsToWords(rest),
+  ].filter(Boolean).join(" ");
+}
+
+// e.g. 120000.5 -> "Rupees One Lakh Twenty Thousand and Fifty Paise Only"
+export function amountInWords(amount: number): string {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+
+  const words = `Rupees ${numberToWords(rupees)}${paise ? ` and ${twoDigitsToWords(paise)} Paise` : ""} Only`;
+  return amount < 0 ? `Minus ${words}` : words;
+}
+
+// 1234567.5 -> "12,34,567.50": the last three digits, then groups of two
+export function formatIndianNumber(value: number | string, fractionDigits = 2): string {
+  const n = Number(value) || 0;
+  const [whole, fraction] = Math.abs(n).toFixed(fractionDigits).split(".");
+  const grouped = whole.length > 3
+    ? `${whole.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ",")},${whole.slice(-3)}`
+    : whole;
+  // No "-0.00" for amounts that round away to nothing
+  const sign = n < 0 && /[1-9]/.test(whole + (fraction ?? "")) ? "-" : "";
+  return `${sign}${grouped}${fraction ? `.${fraction}` : ""}`;
+}
+
+// e.g. -120000 -> "-₹1,20,000.00"
+export function formatCurrency(value: number | string): string {
+  const formatted = formatIndianNumber(value);
+  return formatted.startsWith("-") ? `-₹${formatted.slice(1)}` : `₹${formatted}`;
+}
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { GSTIN_REGEX, INDIAN_STATES, round2 } from "./gst";
+
+// E-invoice payload in the INV-01 format accepted by the Invoice Registration
+// Portal (IRP), schema version 1.1. Field names and limits follow the NIC JSON
+// schema so a payload that passes here is accepted as-is on upload.
+export const EINVOICE_SCHEMA_VERSION = "1.1";
+
+// Unit Quantity Codes from the GST master, keyed by the units items can use
+export const UQC_BY_UNIT: Record<string, string> = {
+  pcs: "PCS",
+  kg: "KGS",
+  ltr: "LTR",
+  mtr: "MTR",
+  box: "BOX",
+  pack: "PAC",
+  dozen: "DOZ",
+  gram: "GMS",
+  ml: "MLT",
+  ft: "FTS",
+};
+
+export function getUqc(unit?: string | null): string {
+  return UQC_BY_UNIT[unit ?? ""] ?? "OTH";
+}
+
+// Rates the IRP accepts in GstRt
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40];
+
+const STATE_CODES = INDIAN_STATES.map(state => state.code) as [string, ...string[]];
+
+// The IRP rejects amounts that differ from the computed value by more than a rupee
+const TOLERANCE = 1;
+
+const text = (min: number, max: number) => z.string().trim().min(min).max(max);
+const amount = z.number().min(0).max(999999999999.99);
+const pinCode = z.number().int().min(100000).max(999999);
+const stateCode = z.enum(STATE_CODES);
+
+const addressFields = {
+  Addr1: text(1, 100),
+  Addr2: text(3, 100).optional(),
+  Loc: text(3, 50),
+  Pin: pinCode,
+  Stcd: stateCode,
+  Ph: z.string().regex(/^\d{6,12}$/, "Phone must be 6 to 12 digits").optional(),
+  Em: z.string().email().max(100).optional(),
+};
+
+const itemSchema = z.object({
+  SlNo: text(1, 6),
+  PrdDesc: text(3, 300).optional(),
+  IsServc: z.enum(["Y", "N"]),
+  HsnCd: z.string().regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN/SAC code must be 4, 6 or 8 digits"),
+  Qty: z.number().min(0).max(9999999999.999).optional(),
+  Unit: text(3, 8).optional(),
+  UnitPrice: amount,
+  TotAmt: amount,
+  Discount: amount.optional(),
+  AssAmt: amount,
+  GstRt: z.number().refine(rate => GST_RATES.includes(rate), "Not a notified GST rate"),
+  IgstAmt: amount.optional(),
+  CgstAmt: amount.optional(),
+  SgstAmt: amount.optional(),
+  TotItemVal: amount,
+});
+
+export const eInvoiceSchema = z.object({
+  Version: z.literal(EINVOICE_SCHEMA_VERSION),
+  TranDtls: z.object({
+    TaxSch: z.literal("GST"),
+    SupTyp: z.enum(["B2B", "SEZWP", "SEZWOP", "EXPWP", "EXPWOP", "DEXP"]),
+    RegRev: z.enum(["Y", "N"]).optional(),
+    EcmGstin: z.string().regex(GSTIN_REGEX).nullable().optional(),
+    IgstOnIntra: z.enum(["Y", "N"]).optional(),
+  }),
+  DocDtls: z.object({
+    Typ: z.enum(["INV", "CRN", "DBN"]),
+    No: z.string().regex(/^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/, "Document number must be at most 16 characters of letters, digits, / and -, not starting with 0, / or -"),
+    Dt: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, "Date must be DD/MM/YYYY"),
+  }),
+  SellerDtls: z.object({
+    Gstin: z.string().regex(GSTIN_REGEX, "Seller GSTIN is not valid"),
+    LglNm: text(3, 100),
+    TrdNm: text(3, 100).optional(),
+    ...addressFields,
+  }),
+  BuyerDtls: z.object({
+    Gstin: z.string().regex(GSTIN_REGEX, "Buyer GSTIN is not valid"),
+    LglNm: text(3, 100),
+    TrdNm: text(3, 100).optional(),
+    Pos: stateCode,
+    ...addressFields,
+  }),
+  ItemList: z.array(itemSchema).min(1).max(1000),
+  ValDtls: z.object({
+    AssVal: amount,
+    CgstVal: amount.optional(),
+    SgstVal: amount.optional(),
+    IgstVal: amount.optional(),
+    Discount: amount.optional(),
+    RndOffAmt: z.number().min(-99.99).max(99.99).optional(),
+    TotInvVal: amount,
+  }),
+}).superRefine((invoice, ctx) => {
+  // The arithmetic checks the IRP runs before issuing an IRN
+  const issue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+  const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+  if (invoice.SellerDtls.Gstin === invoice.BuyerDtls.Gstin) {
+    issue(["BuyerDtls", "Gstin"], "Buyer and seller GSTIN cannot be the same");
+  }
+
+  const isInterState = invoice.SellerDtls.Stcd !== invoice.BuyerDtls.Pos;
+  invoice.ItemList.forEach((item, index) => {
+    const path = ["ItemList", index];
+    const igst = item.IgstAmt ?? 0;
+    const cgst = item.CgstAmt ?? 0;
+    const sgst = item.SgstAmt ?? 0;
+
+    if (differs(item.AssAmt, item.TotAmt - (item.Discount ?? 0))) {
+      issue([...path, "AssAmt"], "Assessable value must equal total amount less discount");
+    }
+    if (isInterState ? cgst + sgst > 0 : igst > 0) {
+      issue(path, isInterState ? "Inter-state supply cannot carry CGST/SGST" : "Intra-state supply cannot carry IGST");
+    }
+    if (differs(igst + cgst + sgst, round2(item.AssAmt * item.GstRt / 100))) {
+      issue(path, `Tax does not match ${item.GstRt}% of the assessable value`);
+    }
+    if (differs(item.TotItemVal, item.AssAmt + igst + cgst + sgst)) {
+      issue([...path, "TotItemVal"], "Item total must equal assessable value plus tax");
+    }
+  });
+
+  const sum = (pick: (item: z.infer<typeof itemSchema>) => number | undefined) =>
+    invoice.ItemList.reduce((total, item) => total + (pick(item) ?? 0), 0);
+  const totals: [keyof typeof invoice.ValDtls, number][] = [
+    ["AssVal", sum(item => item.AssAmt)],
+    ["CgstVal", sum(item => item.CgstAmt)],
+    ["SgstVal", sum(item => item.SgstAmt)],
+    ["IgstVal", sum(item => item.IgstAmt)],
+  ];
+  for (const [field, expected] of totals) {
+    if (differs(invoice.ValDtls[field] ?? 0, expected)) {
+      issue(["ValDtls", field], `${field} does not match the sum of the items`);
+    }
+  }
+
+  const expectedTotal = sum(item => item.TotItemVal) - (invoice.ValDtls.Discount ?? 0) + (invoice.ValDtls.RndOffAmt ?? 0);
+  if (differs(invoice.ValDtls.TotInvVal, expectedTotal)) {
+    issue(["ValDtls", "TotInvVal"], "Invoice value does not match the item totals");
+  }
+});
+
+export type EInvoice = z.infer<typeof eInvoiceSchema>;
@@ -0,0 +1,236 @@
+import { z } from "zod";
+import { GSTIN_REGEX, INDIAN_STATES, round2 } from "./gst";
+import type { BillWithDetails, DeliveryChallanWithDetails } from "./schema";
+
+// Rule 138: goods moving with a consignment value (including tax) above this
+// need an e-way bill before the vehicle leaves
+export const EWAY_BILL_THRESHOLD = 50000;
+
+// JSON layout version of the portal's bulk generation upload
+export const EWAY_BILL_JSON_VERSION = "1.0.0621";
+
+export const TRANSPORT_MODES = {
+  road: { code: "1", label: "Road" },
+  rail: { code: "2", label: "Rail" },
+  air: { code: "3", label: "Air" },
+  ship: { code: "4", label: "Ship" },
+} as const;
+
+export type TransportMode = keyof typeof TRANSPORT_MODES;
+
+export const VEHICLE_NUMBER_REGEX = /^[A-Z]{2}[0-9A-Z]{1,3}[A-Z]{0,3}[0-9]{4}$|^TM[0-9A-Z]{6}$/;
+
+export function needsEWayBill(consignmentValue: string | number): boolean {
+  return Number(consignmentValue) > EWAY_BILL_THRESHOLD;
+}
+
+export function getTransportModeLabel(mode?: string | null): string {
+  return TRANSPORT_MODES[mode as TransportMode]?.label ?? "";
+}
+
+// One day per 200 km of distance (20 km for over-dimensional cargo). A "day"
+// runs to midnight of the day after generation, so validity always ends at
+// 23:59:59 on a calendar date.
+export function getEWayBillValidUpto(generatedAt: Date, distanceKm: number, overDimensional = false): Date {
+  const days = Math.max(1, Math.ceil(distanceKm / (overDimensional ? 20 : 200)));
+  const validUpto = new Date(generatedAt);
+  validUpto.setDate(validUpto.getDate() + days);
+  validUpto.setHours(23, 59, 59, 0);
+  return validUpto;
+}
+
+const optionalText = z.preprocess(
+  v => typeof v === "string" && v.trim() === "" ? null : v,
+  z.string().trim().max(100).nullable().optional()
+);
+
+// Part B of the e-way bill, entered on the bill or challan before export
+export const transportDetailsSchema = z.object({
+  transportMode: z.enum(Object.keys(TRANSPORT_MODES) as [TransportMode, ...TransportMode[]]),
+  transportDistance: z.coerce.number().int().min(0).max(4000, "Distance cannot exceed 4000 km"),
+  transporterId: z.preprocess(
+    v => typeof v === "string" ? v.trim().toUpperCase() || null : v,
+    z.string().regex(GSTIN_REGEX, "Transporter ID must be a valid 15-character GSTIN/TRANSIN").nullable().optional()
+  ),
+  transporterName: optionalText,
+  vehicleNumber: z.preprocess(
+    v => typeof v === "string" ? v.replace(/[\s-]/g, "").toUpperCase() || null : v,
+    z.string().regex(VEHICLE_NUMBER_REGEX, "Vehicle number should look like KA01AB1234").nullable().optional()
+  ),
+  transportDocNumber: optionalText,
+  transportDocDate: z.preprocess(
+    v => v === "" ? null : v,
+    z.union([z.coerce.date(), z.null()]).optional()
+  ),
+}).superRefine((details, ctx) => {
+  // Road movement is tracked by vehicle; rail, air and ship by the carrier's document
+  if (details.transportMode === "road") {
+    if (!details.vehicleNumber && !details.transporterId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["vehicleNumber"], message: "Enter the vehicle number or a transporter ID" });
+    }
+  } else if (!details.transportDocNumber || !details.transportDocDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transportDocNumber"], message: "Transport document number and date are required for rail, air and ship" });
+  }
+});
+
+export type TransportDetails = z.infer<typeof transportDetailsSchema>;
+
+export const recordEWayBillSchema = z.object({
+  ewbNumber: z.string().trim().regex(/^\d{12}$/, "E-way bill number is 12 digits"),
+  ewbDate: z.coerce.date(),
+  ewbValidUpto: z.coerce.date(),
+}).refine(ewb => ewb.ewbValidUpto > ewb.ewbDate, {
+  message: "Validity must end after the e-way bill was generated",
+  path: ["ewbValidUpto"],
+});
+
+export type RecordEWayBill = z.infer<typeof recordEWayBillSchema>;
+
+const STATE_CODES = INDIAN_STATES.map(state => Number(state.code));
+
+const stateCode = z.number().int().refine(code => STATE_CODES.includes(code), "Not a GST state code");
+const pinCode = z.number().int().min(100000).max(999999);
+const amount = z.number().min(0);
+const hsnCode = z.number().int().refine(code => /^(\d{4}|\d{6}|\d{8})$/.test(String(code)), "HSN code must be 4, 6 or 8 digits");
+
+const eWayBillItemSchema = z.object({
+  itemNo: z.number().int().min(1),
+  productName: z.string().max(100),
+  productDesc: z.string().max(100),
+  hsnCode,
+  quantity: z.number().min(0),
+  qtyUnit: z.string().min(3).max(3),
+  taxableAmount: amount,
+  sgstRate: z.number().min(0),
+  cgstRate: z.number().min(0),
+  igstRate: z.number().min(0),
+  cessRate: z.number().min(0),
+  cessNonAdvol: z.number().min(0),
+});
+
+const eWayBillEntrySchema = z.object({
+  userGstin: z.string().regex(GSTIN_REGEX),
+  supplyType: z.literal("O"),
+  subSupplyType: z.number().int(),
+  subSupplyDesc: z.string(),
+  docType: z.enum(["INV", "CHL"]),
+  docNo: z.string().regex(/^[A-Za-z0-9/-]{1,16}$/, "Document number must be at most 16 letters, digits, / or -"),
+  docDate: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/),
+  transType: z.number().int().min(1).max(4),
+  fromGstin: z.string().regex(GSTIN_REGEX, "Company GSTIN is not valid"),
+  fromTrdName: z.string().min(1).max(100),
+  fromAddr1: z.string().max(120),
+  fromAddr2: z.string().max(120),
+  fromPlace: z.string().max(50),
+  fromPincode: pinCode,
+  fromStateCode: stateCode,
+  actualFromStateCode: stateCode,
+  toGstin: z.string().regex(new RegExp(`${GSTIN_REGEX.source}|^URP$`), "Customer GSTIN is not valid"),
+  toTrdName: z.string().min(1).max(100),
+  toAddr1: z.string().max(120),
+  toAddr2: z.string().max(120),
+  toPlace: z.string().min(1, "Customer city is required").max(50),
+  toPincode: pinCode,
+  toStateCode: stateCode,
+  actualToStateCode: stateCode,
+  totalValue: amount,
+  cgstValue: amount,
+  sgstValue: amount,
+  igstValue: amount,
+  cessValue: amount,
+  TotNonAdvolVal: amount,
+  OthValue: z.number(),
+  totInvValue: amount,
+  transMode: z.number().int().min(1).max(4),
+  transDistance: z.number().int().min(0).max(4000),
+  transporterName: z.string().max(100),
+  transporterId: z.string().regex(new RegExp(`${GSTIN_REGEX.source}|^$`)),
+  transDocNo: z.string().max(15),
+  transDocDate: z.string().regex(/^(\d{2}\/\d{2}\/\d{4})?$/),
+  vehicleNo: z.string().regex(new RegExp(`${VEHICLE_NUMBER_REGEX.source}|^$`)),
+  vehicleType: z.enum(["R", "O"]),
+  mainHsnCode: hsnCode,
+  itemList: z.array(eWayBillItemSchema).min(1).max(250),
+}).superRefine((entry, ctx) => {
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  const taxable = entry.itemList.reduce((sum, item) => sum + item.taxableAmount, 0);
+  if (Math.abs(taxable - entry.totalValue) > 1) {
+    issue("totalValue", "Taxable value does not match the items");
+  }
+  const expected = entry.totalValue + entry.cgstValue + entry.sgstValue + entry.igstValue + entry.cessValue + entry.OthValue;
+  if (Math.abs(expected - entry.totInvValue) > 2) {
+    issue("totInvValue", "Invoice value does not match taxable value plus tax");
+  }
+  if (entry.transMode === 1 && !entry.vehicleNo && !entry.transporterId) {
+    issue("vehicleNo", "Road transport needs a vehicle number or transporter ID");
+  }
+  if (entry.transMode !== 1 && (!entry.transDocNo || !entry.transDocDate)) {
+    issue("transDocNo", "Rail, air and ship need the transport document number and date");
+  }
+});
+
+export const eWayBillUploadSchema = z.object({
+  version: z.literal(EWAY_BILL_JSON_VERSION),
+  billLists: z.array(eWayBillEntrySchema).min(1),
+});
+
+export type EWayBillUpload = z.infer<typeof eWayBillUploadSchema>;
+export type EWayBillEntry = z.infer<typeof eWayBillEntrySchema>;
+
+// Lines of a consignment, taxed the way the document that moves it was
+export interface ConsignmentLine {
+  name: string;
+  hsnCode?: string | null;
+  unit?: string | null;
+  quantity: number;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+export function getConsignmentValue(lines: ConsignmentLine[]): number {
+  return round2(lines.reduce((sum, line) => sum + line.taxableValue + line.cgstAmount + line.sgstAmount + line.igstAmount, 0));
+}
+
+export function getBillConsignmentLines(bill: BillWithDetails): ConsignmentLine[] {
+  return bill.billItems.map(line => ({
+    name: line.item.name,
+    hsnCode: line.hsnCode,
+    unit: line.item.unit,
+    quantity: line.quantity,
+    gstRate: Number(line.gstRate),
+    taxableValue: Number(line.taxableValue),
+    cgstAmount: Number(line.cgstAmount),
+    sgstAmount: Number(line.sgstAmount),
+    igstAmount: Number(line.igstAmount),
+  }));
+}
+
+// Challans carry no prices; goods are valued pro rata at their sales order line
+export function getChallanConsignmentLines(challan: DeliveryChallanWithDetails): ConsignmentLine[] {
+  return challan.challanItems.map(line => {
+    const share = line.quantity / line.orderLine.quantity;
+    return {
+      name: line.item.name,
+      hsnCode: line.orderLine.hsnCode,
+      unit: line.item.unit,
+      quantity: line.quantity,
+      gstRate: Number(line.orderLine.gstRate),
+      taxableValue: round2(Number(line.orderLine.taxableValue) * share),
+      cgstAmount: round2(Number(line.orderLine.cgstAmount) * share),
+      sgstAmount: round2(Number(line.orderLine.sgstAmount) * share),
+      igstAmount: round2(Number(line.orderLine.igstAmount) * share),
+    };
+  });
+}
+
+// Goods on an invoice raised for challans already moved under the challans' e-way bills
+export function billNeedsEWayBill(bill: BillWithDetails): boolean {
+  return bill.status !== "cancelled" && bill.challanNumbers.length === 0 && needsEWayBill(bill.total);
+}
+
+export function challanNeedsEWayBill(challan: DeliveryChallanWithDetails): boolean {
+  return needsEWayBill(getConsignmentValue(getChallanConsignmentLines(challan)));
+}
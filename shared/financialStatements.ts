@@ -0,0 +1,261 @@
+// Trial balance, profit and loss and balance sheet drawn up from ledger
+// account totals. The balance sheet follows the Schedule III vertical format,
+// with the profit not yet closed to reserves shown as surplus.
+
+import { round2 } from "./gst";
+import { ACCOUNT_GROUPS, isDebitNatured, type AccountGroup, type AccountType } from "./ledger";
+
+// Debits and credits posted to one account over the reporting window
+export interface AccountMovement {
+  accountId: string;
+  code: string;
+  name: string;
+  type: AccountType;
+  group: AccountGroup;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalanceRow {
+  accountId: string;
+  code: string;
+  name: string;
+  type: AccountType;
+  group: AccountGroup;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+}
+
+export interface ComparativeAmount {
+  current: number;
+  prior: number;
+}
+
+// accountId is null for lines worked out rather than posted, like the surplus
+export interface StatementAccountLine {
+  accountId: string | null;
+  code: string;
+  name: string;
+  amount: ComparativeAmount;
+}
+
+export interface StatementGroup {
+  group: AccountGroup;
+  label: string;
+  accounts: StatementAccountLine[];
+  total: ComparativeAmount;
+}
+
+export interface ProfitAndLoss {
+  from: string;
+  to: string;
+  priorFrom: string;
+  priorTo: string;
+  income: StatementGroup[];
+  totalIncome: ComparativeAmount;
+  expenses: StatementGroup[];
+  totalExpenses: ComparativeAmount;
+  netProfit: ComparativeAmount;
+}
+
+export interface BalanceSheetHeading {
+  label: string;
+  groups: StatementGroup[];
+  total: number;
+}
+
+export interface BalanceSheetSide {
+  label: string;
+  headings: BalanceSheetHeading[];
+  total: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  equityAndLiabilities: BalanceSheetSide;
+  assets: BalanceSheetSide;
+  // Non-zero only if the books themselves are out of balance
+  difference: number;
+}
+
+export const BALANCE_SHEET_LAYOUT = {
+  equityAndLiabilities: {
+    label: "Equity and Liabilities",
+    headings: [
+      { label: "Shareholders' funds", groups: ["share_capital", "reserves_and_surplus"] },
+      { label: "Non-current liabilities", groups: ["long_term_borrowings"] },
+      { label: "Current liabilities", groups: ["short_term_borrowings", "trade_payables", "other_current_liabilities", "short_term_provisions"] },
+    ],
+  },
+  assets: {
+    label: "Assets",
+    headings: [
+      { label: "Non-current assets", groups: ["property_plant_equipment"] },
+      { label: "Current assets", groups: ["inventories", "trade_receivables", "cash_and_equivalents", "short_term_loans_advances", "other_current_assets"] },
+    ],
+  },
+} as const satisfies Record<string, { label: string; headings: { label: string; groups: AccountGroup[] }[] }>;
+
+export const SURPLUS_LINE_NAME = "Surplus in statement of profit and loss";
+
+// Positive when the account sits on its normal side
+function naturalBalance(movement: Pick<AccountMovement, "type" | "debit" | "credit">): number {
+  const net = movement.debit - movement.credit;
+  return round2(isDebitNatured(movement.type) ? net : -net);
+}
+
+function byCode(a: { code: string }, b: { code: string }): number {
+  return a.code.localeCompare(b.code);
+}
+
+export function buildTrialBalance(movements: AccountMovement[], asOf: Date): TrialBalance {
+  const rows: TrialBalanceRow[] = [];
+  for (const movement of [...movements].sort(byCode)) {
+    const net = round2(movement.debit - movement.credit);
+    if (net === 0) continue;
+    rows.push({
+      accountId: movement.accountId,
+      code: movement.code,
+      name: movement.name,
+      type: movement.type,
+      group: movement.group,
+      debit: net > 0 ? net : 0,
+      credit: net < 0 ? -net : 0,
+    });
+  }
+  return {
+    asOf: asOf.toISOString(),
+    rows,
+    totalDebit: round2(rows.reduce((sum, row) => sum + row.debit, 0)),
+    totalCredit: round2(rows.reduce((sum, row) => sum + row.credit, 0)),
+  };
+}
+
+// Groups of the given type in chart order, leaving out accounts with nothing
+// in either period
+function buildGroups(type: AccountType, current: AccountMovement[], prior: AccountMovement[]): StatementGroup[] {
+  const groups: StatementGroup[] = [];
+  for (const [group, { label, type: groupType }] of Object.entries(ACCOUNT_GROUPS) as [AccountGroup, typeof ACCOUNT_GROUPS[AccountGroup]][]) {
+    if (groupType !== type) continue;
+
+    const accounts = new Map<string, StatementAccountLine>();
+    const add = (movement: AccountMovement, period: keyof ComparativeAmount) => {
+      if (movement.group !== group) return;
+      const line = accounts.get(movement.accountId)
+        ?? { accountId: movement.accountId, code: movement.code, name: movement.name, amount: { current: 0, prior: 0 } };
+      line.amount[period] = naturalBalance(movement);
+      accounts.set(movement.accountId, line);
+    };
+    current.forEach(movement => add(movement, "current"));
+    prior.forEach(movement => add(movement, "prior"));
+
+    const lines = Array.from(accounts.values())
+      .filter(line => line.amount.current !== 0 || line.amount.prior !== 0)
+      .sort(byCode);
+    if (lines.length === 0) continue;
+    groups.push({ group, label, accounts: lines, total: sumAmounts(lines.map(line => line.amount)) });
+  }
+  return groups;
+}
+
+function sumAmounts(amounts: ComparativeAmount[]): ComparativeAmount {
+  return {
+    current: round2(amounts.reduce((sum, amount) => sum + amount.current, 0)),
+    prior: round2(amounts.reduce((sum, amount) => sum + amount.prior, 0)),
+  };
+}
+
+// Whole months compare with the same number of months just before; any other
+// range with the same number of days just before
+export function getPriorPeriod(from: Date, to: Date): { from: Date; to: Date } {
+  const isMonthEnd = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getDate() === 1;
+  if (from.getDate() === 1 && isMonthEnd) {
+    const months = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+    return {
+      from: new Date(from.getFullYear(), from.getMonth() - months, 1),
+      to: new Date(from.getFullYear(), from.getMonth(), 0, 23, 59, 59, 999),
+    };
+  }
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  const days = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+  return {
+    from: new Date(start.getFullYear(), start.getMonth(), start.getDate() - days),
+    to: new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1, 23, 59, 59, 999),
+  };
+}
+
+export function buildProfitAndLoss(
+  current: AccountMovement[],
+  prior: AccountMovement[],
+  period: { from: Date; to: Date; priorFrom: Date; priorTo: Date },
+): ProfitAndLoss {
+  const income = buildGroups("income", current, prior);
+  const expenses = buildGroups("expense", current, prior);
+  const totalIncome = sumAmounts(income.map(group => group.total));
+  const totalExpenses = sumAmounts(expenses.map(group => group.total));
+  return {
+    from: period.from.toISOString(),
+    to: period.to.toISOString(),
+    priorFrom: period.priorFrom.toISOString(),
+    priorTo: period.priorTo.toISOString(),
+    income,
+    totalIncome,
+    expenses,
+    totalExpenses,
+    netProfit: {
+      current: round2(totalIncome.current - totalExpenses.current),
+      prior: round2(totalIncome.prior - totalExpenses.prior),
+    },
+  };
+}
+
+// Movements are every posting up to the balance sheet date
+export function buildBalanceSheet(movements: AccountMovement[], asOf: Date): BalanceSheet {
+  const balances = (type: AccountType) => buildGroups(type, movements, []);
+  const groups = [...balances("asset"), ...balances("liability"), ...balances("equity")];
+
+  const surplus = round2(
+    movements
+      .filter(movement => movement.type === "income" || movement.type === "expense")
+      .reduce((sum, movement) => sum + movement.credit - movement.debit, 0),
+  );
+  if (surplus !== 0) {
+    const line: StatementAccountLine = { accountId: null, code: "", name: SURPLUS_LINE_NAME, amount: { current: surplus, prior: 0 } };
+    const reserves = groups.find(group => group.group === "reserves_and_surplus");
+    if (reserves) {
+      reserves.accounts.push(line);
+      reserves.total = sumAmounts(reserves.accounts.map(account => account.amount));
+    } else {
+      groups.push({ group: "reserves_and_surplus", label: ACCOUNT_GROUPS.reserves_and_surplus.label, accounts: [line], total: line.amount });
+    }
+  }
+
+  const buildSide = (layout: typeof BALANCE_SHEET_LAYOUT[keyof typeof BALANCE_SHEET_LAYOUT]): BalanceSheetSide => {
+    const headings = layout.headings.map(heading => {
+      const headingGroups = groups.filter(group => (heading.groups as readonly AccountGroup[]).includes(group.group));
+      return {
+        label: heading.label,
+        groups: headingGroups,
+        total: round2(headingGroups.reduce((sum, group) => sum + group.total.current, 0)),
+      };
+    });
+    return { label: layout.label, headings, total: round2(headings.reduce((sum, heading) => sum + heading.total, 0)) };
+  };
+
+  const equityAndLiabilities = buildSide(BALANCE_SHEET_LAYOUT.equityAndLiabilities);
+  const assets = buildSide(BALANCE_SHEET_LAYOUT.assets);
+  return {
+    asOf: asOf.toISOString(),
+    equityAndLiabilities,
+    assets,
+    difference: round2(assets.total - equityAndLiabilities.total),
+  };
+}
@@ -0,0 +1,283 @@
+// GST helpers shared by the billing modal (live preview) and the server
+// (authoritative computation when a bill is saved).
+
+export const INDIAN_STATES = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+] as const;
+
+// Older spellings that still show up in customer addresses
+const STATE_ALIASES: Record<string, string> = {
+  "orissa": "21",
+  "pondicherry": "34",
+  "new delhi": "07",
+  "nct of delhi": "07",
+  "daman and diu": "26",
+  "dadra and nagar haveli": "26",
+  "andaman and nicobar": "35",
+  "j&k": "01",
+};
+
+export type SupplyType = "intra" | "inter";
+
+// 2-digit state code, 10-character PAN, entity number, "Z", check character
+export const GSTIN_REGEX = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+export const PAN_REGEX = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// Format plus the check character: a base-36 Luhn-style sum over the first 14
+// characters, so a single mistyped character is caught before filing
+export function isValidGstin(gstin?: string | null): boolean {
+  const value = gstin?.trim().toUpperCase() ?? "";
+  if (!GSTIN_REGEX.test(value) || !INDIAN_STATES.some(s => s.code === value.slice(0, 2))) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === value[14];
+}
+
+export function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Resolves a free-text state name or a 2-digit GST state code to the code.
+export function getStateCode(state?: string | null): string | undefined {
+  if (!state) return undefined;
+  const value = state.trim().toLowerCase();
+  if (!value) return undefined;
+
+  if (/^\d{1,2}$/.test(value)) {
+    const code = value.padStart(2, "0");
+    return INDIAN_STATES.some(s => s.code === code) ? code : undefined;
+  }
+
+  const match = INDIAN_STATES.find(s => s.name.toLowerCase() === value);
+  return match?.code ?? STATE_ALIASES[value];
+}
+
+export function getStateName(code?: string | null): string | undefined {
+  return INDIAN_STATES.find(s => s.code === code)?.name;
+}
+
+// Place of supply for goods is the recipient's state. The GSTIN prefix is used
+// when the address has no recognisable state; unregistered walk-in customers
+// without either are treated as local sales.
+export function getPlaceOfSupply(
+  party: { state?: string | null; gstin?: string | null },
+  companyStateCode?: string,
+): string | undefined {
+  const fromState = getStateCode(party.state);
+  if (fromState) return fromState;
+
+  const fromGstin = party.gstin ? getStateCode(party.gstin.trim().slice(0, 2)) : undefined;
+  return fromGstin ?? companyStateCode;
+}
+
+export function getSupplyType(companyStateCode?: string, placeOfSupply?: string): SupplyType {
+  if (!companyStateCode || !placeOfSupply) return "intra";
+  return companyStateCode === placeOfSupply ? "intra" : "inter";
+}
+
+export interface TaxLineInput {
+  taxableValue: number;
+  gstRate: number;
+}
+
+export interface TaxLineResult {
+  taxableValue: number;
+  gstRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxTotals {
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export function calculateLineTax(line: TaxLineInput, supplyType: SupplyType): TaxLineResult {
+  const taxableValue = round2(line.taxableValue);
+  let cgstAmount = 0;
+  let sgstAmount = 0;
+  let igstAmount = 0;
+
+  if (supplyType === "inter") {
+    igstAmount = round2(taxableValue * line.gstRate / 100);
+  } else {
+    // Each half is rounded on its own so CGST and SGST always print equal
+    cgstAmount = round2(taxableValue * line.gstRate / 200);
+    sgstAmount = cgstAmount;
+  }
+
+  return {
+    taxableValue,
+    gstRate: line.gstRate,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    taxAmount: round2(cgstAmount + sgstAmount + igstAmount),
+  };
+}
+
+// The return that takes back the last of a bill's goods also takes back what
+// is left of its round-off, so the bill's credit notes add up to its total
+export function getCreditNoteRoundOff(billTotal: number, creditedBefore: number, creditTotal: number, clearsBill: boolean): number {
+  return clearsBill ? round2(billTotal - creditedBefore - creditTotal) : 0;
+}
+
+export function sumTaxLines(lines: TaxLineResult[]): TaxTotals {
+  const totals = lines.reduce(
+    (acc, line) => ({
+      taxableValue: acc.taxableValue + line.taxableValue,
+      cgstAmount: acc.cgstAmount + line.cgstAmount,
+      sgstAmount: acc.sgstAmount + line.sgstAmount,
+      igstAmount: acc.igstAmount + line.igstAmount,
+    }),
+    { taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 },
+  );
+
+  const taxAmount = round2(totals.cgstAmount + totals.sgstAmount + totals.igstAmount);
+  return {
+    taxableValue: round2(totals.taxableValue),
+    cgstAmount: round2(totals.cgstAmount),
+    sgstAmount: round2(totals.sgstAmount),
+    igstAmount: round2(totals.igstAmount),
+    taxAmount,
+    total: round2(totals.taxableValue + taxAmount),
+  };
+}
+
+export const DISCOUNT_TYPES = ["percent", "flat"] as const;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+
+export interface Discount {
+  discountType?: DiscountType | string | null;
+  discountValue?: number | string | null;
+}
+
+// Percent or flat discount on a base value, never more than the base itself
+export function calculateDiscount(base: number, discount: Discount): number {
+  const value = Number(discount.discountValue) || 0;
+  if (value <= 0 || base <= 0) return 0;
+  const amount = discount.discountType === "flat" ? value : base * value / 100;
+  return round2(Math.min(amount, base));
+}
+
+// Spreads a bill-level discount over the lines in proportion to their value so
+// each line is taxed on what is actually charged. The last line with a value
+// takes the rounding difference.
+export function apportionDiscount(values: number[], discount: number): number[] {
+  const base = values.reduce((sum, value) => sum + value, 0);
+  if (discount <= 0 || base <= 0) return values.map(() => 0);
+
+  const lastIndex = values.reduce((last, value, index) => (value > 0 ? index : last), -1);
+  let remaining = round2(discount);
+  return values.map((value, index) => {
+    if (index === lastIndex) return remaining;
+    const share = round2(discount * value / base);
+    remaining = round2(remaining - share);
+    return share;
+  });
+}
+
+export interface InvoiceLineInput extends Discount {
+  quantity: number;
+  rate: number;
+  gstRate: number;
+}
+
+export interface PricedInvoiceLine {
+  amount: number;          // quantity × rate, before any discount
+  discountAmount: number;  // the line's own discount
+  tax: TaxLineResult;      // on the value left after line and bill discounts
+}
+
+export interface InvoiceTotals extends TaxTotals {
+  grossAmount: number;
+  lineDiscountAmount: number;
+  discountAmount: number;  // bill-level discount
+  roundOff: number;
+}
+
+export function priceInvoice(
+  lines: InvoiceLineInput[],
+  billDiscount: Discount,
+  supplyType: SupplyType,
+  roundOff: boolean,
+): { lines: PricedInvoiceLine[]; totals: InvoiceTotals } {
+  const discounted = lines.map(line => {
+    const amount = round2(line.quantity * line.rate);
+    const discountAmount = calculateDiscount(amount, line);
+    return { line, amount, discountAmount, net: round2(amount - discountAmount) };
+  });
+
+  const netTotal = round2(discounted.reduce((sum, l) => sum + l.net, 0));
+  const discountAmount = calculateDiscount(netTotal, billDiscount);
+  const shares = apportionDiscount(discounted.map(l => l.net), discountAmount);
+
+  const priced = discounted.map(({ line, amount, discountAmount }, index) => ({
+    amount,
+    discountAmount,
+    tax: calculateLineTax({ taxableValue: discounted[index].net - shares[index], gstRate: line.gstRate }, supplyType),
+  }));
+
+  const taxTotals = sumTaxLines(priced.map(l => l.tax));
+  const total = roundOff ? Math.round(taxTotals.total) : taxTotals.total;
+
+  return {
+    lines: priced,
+    totals: {
+      ...taxTotals,
+      grossAmount: round2(discounted.reduce((sum, l) => sum + l.amount, 0)),
+      lineDiscountAmount: round2(discounted.reduce((sum, l) => sum + l.discountAmount, 0)),
+      discountAmount,
+      roundOff: round2(total - taxTotals.total),
+      total,
+    },
+  };
+}
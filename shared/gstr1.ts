@@ -0,0 +1,556 @@
+import { getStateName, isValidGstin, round2 } from "./gst";
+import { getUqc } from "./einvoice";
+import type { BillWithDetails, CompanySettings, CreditNoteWithDetails } from "./schema";
+
+// GSTR-1: the monthly statement of outward supplies. Sections and field names
+// follow the GST offline tool's JSON import so the export loads without edits.
+
+// Inter-state invoices to unregistered buyers above this value are reported
+// one by one in B2C (Large) rather than summarised (Notification 12/2024-CT)
+export const B2CL_THRESHOLD = 100000;
+
+export const GSTR1_PERIOD_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export type Gstr1Section = "b2b" | "b2cl" | "b2cs" | "cdnr" | "cdnur" | "hsn" | "docs";
+
+export const GSTR1_SECTIONS: Record<Gstr1Section, string> = {
+  b2b: "B2B Invoices",
+  b2cl: "B2C (Large)",
+  b2cs: "B2C (Small)",
+  cdnr: "Credit/Debit Notes (Registered)",
+  cdnur: "Credit/Debit Notes (Unregistered)",
+  hsn: "HSN Summary",
+  docs: "Documents Issued",
+};
+
+// Tax on a document, one row per GST rate
+export interface Gstr1RateItem {
+  gstRate: number;
+  taxableValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+}
+
+export interface Gstr1Invoice {
+  billId: string;
+  number: string;
+  date: string;
+  customerName: string;
+  gstin: string | null;
+  placeOfSupply: string;
+  invoiceValue: number;
+  items: Gstr1RateItem[];
+}
+
+export interface Gstr1Note {
+  creditNoteId: string;
+  number: string;
+  date: string;
+  billNumber: string;
+  customerName: string;
+  gstin: string | null;
+  placeOfSupply: string;
+  noteValue: number;
+  items: Gstr1RateItem[];
+}
+
+export interface Gstr1B2csRow extends Gstr1RateItem {
+  supplyType: "INTRA" | "INTER";
+  placeOfSupply: string;
+}
+
+export interface Gstr1HsnRow {
+  section: "b2b" | "b2c";
+  hsnCode: string;
+  description: string;
+  uqc: string;
+  quantity: number;
+  gstRate: number;
+  totalValue: number;
+  taxableValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+}
+
+export interface Gstr1DocRow {
+  docType: "invoices" | "credit_notes";
+  series: string;
+  from: string;
+  to: string;
+  total: number;
+  cancelled: number;
+}
+
+// Errors make the offline tool reject the file; warnings are worth a look
+export interface Gstr1Issue {
+  severity: "error" | "warning";
+  documentNumber: string;
+  customerName: string;
+  message: string;
+}
+
+export interface Gstr1Report {
+  period: string; // YYYY-MM
+  gstin: string;
+  b2b: Gstr1Invoice[];
+  b2cl: Gstr1Invoice[];
+  b2cs: Gstr1B2csRow[];
+  cdnr: Gstr1Note[];
+  cdnur: Gstr1Note[];
+  hsn: Gstr1HsnRow[];
+  docs: Gstr1DocRow[];
+  issues: Gstr1Issue[];
+}
+
+export function getPeriodRange(period: string): { from: Date; to: Date } {
+  const [year, month] = period.split("-").map(Number);
+  return {
+    from: new Date(year, month - 1, 1),
+    to: new Date(year, month, 0, 23, 59, 59, 999),
+  };
+}
+
+// The return period as the portal writes it, MMYYYY
+export function getFilingPeriod(period: string): string {
+  const [year, month] = period.split("-");
+  return `${month}${year}`;
+}
+
+interface TaxedLine {
+  hsnCode?: string | null;
+  quantity: number;
+  gstRate: string;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  item: { name: string; unit: string };
+}
+
+function byRate(lines: TaxedLine[]): Gstr1RateItem[] {
+  const rows = new Map<number, Gstr1RateItem>();
+  for (const line of lines) {
+    const gstRate = Number(line.gstRate);
+    const row = rows.get(gstRate) ?? { gstRate, taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0 };
+    row.taxableValue += Number(line.taxableValue);
+    row.igstAmount += Number(line.igstAmount);
+    row.cgstAmount += Number(line.cgstAmount);
+    row.sgstAmount += Number(line.sgstAmount);
+    rows.set(gstRate, row);
+  }
+  return Array.from(rows.values())
+    .sort((a, b) => a.gstRate - b.gstRate)
+    .map(row => ({
+      gstRate: row.gstRate,
+      taxableValue: round2(row.taxableValue),
+      igstAmount: round2(row.igstAmount),
+      cgstAmount: round2(row.cgstAmount),
+      sgstAmount: round2(row.sgstAmount),
+    }));
+}
+
+// Document series are told apart by everything before the running number
+function getSeries(documentNumber: string): { series: string; serial: number } {
+  const match = documentNumber.match(/^(.*?)(\d+)$/);
+  return match
+    ? { series: match[1], serial: Number(match[2]) }
+    : { series: documentNumber, serial: 0 };
+}
+
+function summariseDocuments(
+  docType: Gstr1DocRow["docType"],
+  documents: { number: string; cancelled: boolean }[],
+): Gstr1DocRow[] {
+  const groups = new Map<string, { number: string; serial: number; cancelled: boolean }[]>();
+  for (const document of documents) {
+    const { series, serial } = getSeries(document.number);
+    groups.set(series, [...(groups.get(series) ?? []), { ...document, serial }]);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([series, members]) => {
+      members.sort((a, b) => a.serial - b.serial || a.number.localeCompare(b.number));
+      return {
+        docType,
+        series,
+        from: members[0].number,
+        to: members[members.length - 1].number,
+        total: members.length,
+        cancelled: members.filter(member => member.cancelled).length,
+      };
+    });
+}
+
+export function buildGstr1(
+  period: string,
+  bills: BillWithDetails[],
+  creditNotes: CreditNoteWithDetails[],
+  company: CompanySettings | undefined,
+): Gstr1Report {
+  const report: Gstr1Report = {
+    period,
+    gstin: company?.gstin ?? "",
+    b2b: [], b2cl: [], b2cs: [], cdnr: [], cdnur: [], hsn: [], docs: [], issues: [],
+  };
+  const companyStateCode = company?.stateCode;
+
+  const issue = (severity: Gstr1Issue["severity"], documentNumber: string, customerName: string, message: string) =>
+    report.issues.push({ severity, documentNumber, customerName, message });
+
+  // Unregistered buyers, and buyers whose GSTIN fails the checksum, can only
+  // be reported as B2C; the second case is almost always a typo to fix first
+  const registeredGstin = (documentNumber: string, customer: { name: string; gstin: string | null }) => {
+    const gstin = customer.gstin?.trim().toUpperCase();
+    if (!gstin) {
+      issue("warning", documentNumber, customer.name, "Customer has no GSTIN; reported as a B2C supply");
+      return null;
+    }
+    if (!isValidGstin(gstin)) {
+      issue("warning", documentNumber, customer.name, `GSTIN ${gstin} is not valid; reported as a B2C supply`);
+      return null;
+    }
+    return gstin;
+  };
+
+  const checkLines = (documentNumber: string, customerName: string, placeOfSupply: string | null, lines: TaxedLine[]) => {
+    if (!placeOfSupply) {
+      issue("error", documentNumber, customerName, "Place of supply is missing");
+    } else if (companyStateCode) {
+      // Nil-rated lines carry no tax either way, so only taxed lines tell
+      const taxed = lines.filter(line => Number(line.igstAmount) + Number(line.cgstAmount) + Number(line.sgstAmount) > 0);
+      const isInterState = taxed.some(line => Number(line.igstAmount) > 0);
+      if (taxed.length > 0 && isInterState !== (placeOfSupply !== companyStateCode)) {
+        issue("warning", documentNumber, customerName, `Tax type does not match place of supply ${placeOfSupply}`);
+      }
+    }
+    if (lines.some(line => !line.hsnCode)) {
+      issue("error", documentNumber, customerName, "One or more lines have no HSN/SAC code");
+    }
+  };
+
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  const addB2cs = (placeOfSupply: string, items: Gstr1RateItem[], sign: 1 | -1) => {
+    const supplyType = placeOfSupply && placeOfSupply !== companyStateCode ? "INTER" : "INTRA";
+    for (const item of items) {
+      const key = `${supplyType}|${placeOfSupply}|${item.gstRate}`;
+      const row = b2cs.get(key) ?? {
+        supplyType, placeOfSupply, gstRate: item.gstRate,
+        taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0,
+      };
+      row.taxableValue += sign * item.taxableValue;
+      row.igstAmount += sign * item.igstAmount;
+      row.cgstAmount += sign * item.cgstAmount;
+      row.sgstAmount += sign * item.sgstAmount;
+      b2cs.set(key, row);
+    }
+  };
+
+  const hsn = new Map<string, Gstr1HsnRow>();
+  const addHsn = (section: Gstr1HsnRow["section"], lines: TaxedLine[], sign: 1 | -1) => {
+    for (const line of lines) {
+      const hsnCode = line.hsnCode ?? "";
+      const gstRate = Number(line.gstRate);
+      const uqc = getUqc(line.item.unit);
+      const key = `${section}|${hsnCode}|${uqc}|${gstRate}`;
+      const row = hsn.get(key) ?? {
+        section, hsnCode, description: line.item.name, uqc, quantity: 0, gstRate,
+        totalValue: 0, taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0,
+      };
+      const taxes = [line.igstAmount, line.cgstAmount, line.sgstAmount].map(Number);
+      row.quantity += sign * line.quantity;
+      row.taxableValue += sign * Number(line.taxableValue);
+      row.igstAmount += sign * taxes[0];
+      row.cgstAmount += sign * taxes[1];
+      row.sgstAmount += sign * taxes[2];
+      row.totalValue += sign * (Number(line.taxableValue) + taxes[0] + taxes[1] + taxes[2]);
+      hsn.set(key, row);
+    }
+  };
+
+  // Credit notes follow the invoice they reverse into B2CL or B2CS
+  const largeB2cBillIds = new Set<string>();
+  const isLargeB2c = (placeOfSupply: string, total: number) =>
+    !!placeOfSupply && placeOfSupply !== companyStateCode && total > B2CL_THRESHOLD;
+
+  for (const bill of bills) {
+    if (bill.status === "cancelled") continue;
+
+    const gstin = registeredGstin(bill.billNumber, bill.customer);
+    const placeOfSupply = bill.placeOfSupply ?? "";
+    checkLines(bill.billNumber, bill.customer.name, bill.placeOfSupply, bill.billItems);
+
+    const invoice: Gstr1Invoice = {
+      billId: bill.id,
+      number: bill.billNumber,
+      date: new Date(bill.billDate ?? Date.now()).toISOString(),
+      customerName: bill.customer.name,
+      gstin,
+      placeOfSupply,
+      invoiceValue: Number(bill.total),
+      items: byRate(bill.billItems),
+    };
+
+    if (gstin) {
+      report.b2b.push(invoice);
+    } else if (isLargeB2c(placeOfSupply, invoice.invoiceValue)) {
+      largeB2cBillIds.add(bill.id);
+      report.b2cl.push(invoice);
+    } else {
+      addB2cs(placeOfSupply, invoice.items, 1);
+    }
+    addHsn(gstin ? "b2b" : "b2c", bill.billItems, 1);
+  }
+
+  for (const creditNote of creditNotes) {
+    const gstin = registeredGstin(creditNote.creditNoteNumber, creditNote.customer);
+    const placeOfSupply = creditNote.placeOfSupply ?? creditNote.bill.placeOfSupply ?? "";
+    checkLines(creditNote.creditNoteNumber, creditNote.customer.name, placeOfSupply || null, creditNote.creditNoteItems);
+
+    const note: Gstr1Note = {
+      creditNoteId: creditNote.id,
+      number: creditNote.creditNoteNumber,
+      date: new Date(creditNote.creditNoteDate ?? Date.now()).toISOString(),
+      billNumber: creditNote.bill.billNumber,
+      customerName: creditNote.customer.name,
+      gstin,
+      placeOfSupply,
+      noteValue: Number(creditNote.total),
+      items: byRate(creditNote.creditNoteItems),
+    };
+
+    if (gstin) {
+      report.cdnr.push(note);
+    } else if (largeB2cBillIds.has(creditNote.billId) || isLargeB2c(placeOfSupply, Number(creditNote.bill.total))) {
+      report.cdnur.push(note);
+    } else {
+      addB2cs(placeOfSupply, note.items, -1);
+    }
+    addHsn(gstin ? "b2b" : "b2c", creditNote.creditNoteItems, -1);
+  }
+
+  report.b2cs = Array.from(b2cs.values())
+    .sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply) || a.gstRate - b.gstRate)
+    .map(row => ({
+      ...row,
+      taxableValue: round2(row.taxableValue),
+      igstAmount: round2(row.igstAmount),
+      cgstAmount: round2(row.cgstAmount),
+      sgstAmount: round2(row.sgstAmount),
+    }));
+
+  report.hsn = Array.from(hsn.values())
+    .sort((a, b) => a.section.localeCompare(b.section) || a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate)
+    .map(row => ({
+      ...row,
+      totalValue: round2(row.totalValue),
+      taxableValue: round2(row.taxableValue),
+      igstAmount: round2(row.igstAmount),
+      cgstAmount: round2(row.cgstAmount),
+      sgstAmount: round2(row.sgstAmount),
+    }));
+
+  // Cancelled invoices still used up a number, so they count here
+  report.docs = [
+    ...summariseDocuments("invoices", bills.map(bill => ({ number: bill.billNumber, cancelled: bill.status === "cancelled" }))),
+    ...summariseDocuments("credit_notes", creditNotes.map(note => ({ number: note.creditNoteNumber, cancelled: false }))),
+  ];
+
+  report.issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  return report;
+}
+
+// Offline tool dates are dd-mm-yyyy
+export function formatGstr1Date(date: string | Date): string {
+  const value = new Date(date);
+  return `${String(value.getDate()).padStart(2, "0")}-${String(value.getMonth() + 1).padStart(2, "0")}-${value.getFullYear()}`;
+}
+
+// "29-Karnataka", the way the offline tool's spreadsheet template wants it
+export function formatPlaceOfSupply(code: string): string {
+  return code ? `${code}-${getStateName(code) ?? ""}` : "";
+}
+
+function rateItems(items: Gstr1RateItem[]) {
+  return items.map((item, index) => ({
+    num: index + 1,
+    itm_det: {
+      rt: item.gstRate,
+      txval: item.taxableValue,
+      iamt: item.igstAmount,
+      camt: item.cgstAmount,
+      samt: item.sgstAmount,
+      csamt: 0,
+    },
+  }));
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => groups.set(key(row), [...(groups.get(key(row)) ?? []), row]));
+  return Array.from(groups.entries());
+}
+
+function hsnRows(rows: Gstr1HsnRow[]) {
+  return rows.map((row, index) => ({
+    num: index + 1,
+    hsn_sc: row.hsnCode,
+    desc: row.description.slice(0, 30),
+    uqc: row.uqc,
+    qty: row.quantity,
+    rt: row.gstRate,
+    txval: row.taxableValue,
+    iamt: row.igstAmount,
+    camt: row.cgstAmount,
+    samt: row.sgstAmount,
+    csamt: 0,
+  }));
+}
+
+export function toGstr1Json(report: Gstr1Report) {
+  const docRows = (docType: Gstr1DocRow["docType"]) =>
+    report.docs.filter(row => row.docType === docType).map((row, index) => ({
+      num: index + 1,
+      from: row.from,
+      to: row.to,
+      totnum: row.total,
+      cancel: row.cancelled,
+      net_issue: row.total - row.cancelled,
+    }));
+
+  return {
+    gstin: report.gstin,
+    fp: getFilingPeriod(report.period),
+    b2b: groupBy(report.b2b, invoice => invoice.gstin!).map(([ctin, invoices]) => ({
+      ctin,
+      inv: invoices.map(invoice => ({
+        inum: invoice.number,
+        idt: formatGstr1Date(invoice.date),
+        val: invoice.invoiceValue,
+        pos: invoice.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: rateItems(invoice.items),
+      })),
+    })),
+    b2cl: groupBy(report.b2cl, invoice => invoice.placeOfSupply).map(([pos, invoices]) => ({
+      pos,
+      inv: invoices.map(invoice => ({
+        inum: invoice.number,
+        idt: formatGstr1Date(invoice.date),
+        val: invoice.invoiceValue,
+        itms: rateItems(invoice.items),
+      })),
+    })),
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.supplyType,
+      pos: row.placeOfSupply,
+      typ: "OE",
+      rt: row.gstRate,
+      txval: row.taxableValue,
+      iamt: row.igstAmount,
+      camt: row.cgstAmount,
+      samt: row.sgstAmount,
+      csamt: 0,
+    })),
+    cdnr: groupBy(report.cdnr, note => note.gstin!).map(([ctin, notes]) => ({
+      ctin,
+      nt: notes.map(note => ({
+        ntty: "C",
+        nt_num: note.number,
+        nt_dt: formatGstr1Date(note.date),
+        val: note.noteValue,
+        pos: note.placeOfSupply,
+        rchrg: "N",
+        inv_typ: "R",
+        itms: rateItems(note.items),
+      })),
+    })),
+    cdnur: report.cdnur.map(note => ({
+      typ: "B2CL",
+      ntty: "C",
+      nt_num: note.number,
+      nt_dt: formatGstr1Date(note.date),
+      val: note.noteValue,
+      pos: note.placeOfSupply,
+      itms: rateItems(note.items),
+    })),
+    hsn: {
+      hsn_b2b: hsnRows(report.hsn.filter(row => row.section === "b2b")),
+      hsn_b2c: hsnRows(report.hsn.filter(row => row.section === "b2c")),
+    },
+    doc_issue: {
+      doc_det: [
+        { doc_num: 1, doc_typ: "Invoices for outward supply", docs: docRows("invoices") },
+        { doc_num: 5, doc_typ: "Credit Note", docs: docRows("credit_notes") },
+      ].filter(detail => detail.docs.length > 0),
+    },
+  };
+}
+
+export type Gstr1Json = ReturnType<typeof toGstr1Json>;
+
+// Rows for the offline tool's spreadsheet template, one sheet per section
+export function toGstr1Csv(report: Gstr1Report, section: Gstr1Section): (string | number)[][] {
+  switch (section) {
+    case "b2b":
+      return [
+        ["GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply",
+          "Reverse Charge", "Applicable % of Tax Rate", "Invoice Type", "E-Commerce GSTIN", "Rate", "Taxable Value", "Cess Amount"],
+        ...report.b2b.flatMap(invoice => invoice.items.map(item => [
+          invoice.gstin!, invoice.customerName, invoice.number, formatGstr1Date(invoice.date), invoice.invoiceValue,
+          formatPlaceOfSupply(invoice.placeOfSupply), "N", "", "Regular B2B", "", item.gstRate, item.taxableValue, 0,
+        ])),
+      ];
+    case "b2cl":
+      return [
+        ["Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply", "Applicable % of Tax Rate", "Rate",
+          "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+        ...report.b2cl.flatMap(invoice => invoice.items.map(item => [
+          invoice.number, formatGstr1Date(invoice.date), invoice.invoiceValue, formatPlaceOfSupply(invoice.placeOfSupply),
+          "", item.gstRate, item.taxableValue, 0, "",
+        ])),
+      ];
+    case "b2cs":
+      return [
+        ["Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount", "E-Commerce GSTIN"],
+        ...report.b2cs.map(row => ["OE", formatPlaceOfSupply(row.placeOfSupply), "", row.gstRate, row.taxableValue, 0, ""]),
+      ];
+    case "cdnr":
+      return [
+        ["GSTIN/UIN of Recipient", "Receiver Name", "Note Number", "Note Date", "Note Type", "Place Of Supply",
+          "Reverse Charge", "Note Supply Type", "Note Value", "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount"],
+        ...report.cdnr.flatMap(note => note.items.map(item => [
+          note.gstin!, note.customerName, note.number, formatGstr1Date(note.date), "C", formatPlaceOfSupply(note.placeOfSupply),
+          "N", "Regular B2B", note.noteValue, "", item.gstRate, item.taxableValue, 0,
+        ])),
+      ];
+    case "cdnur":
+      return [
+        ["UR Type", "Note Number", "Note Date", "Note Type", "Place Of Supply", "Note Value", "Applicable % of Tax Rate",
+          "Rate", "Taxable Value", "Cess Amount"],
+        ...report.cdnur.flatMap(note => note.items.map(item => [
+          "B2CL", note.number, formatGstr1Date(note.date), "C", formatPlaceOfSupply(note.placeOfSupply), note.noteValue,
+          "", item.gstRate, item.taxableValue, 0,
+        ])),
+      ];
+    case "hsn":
+      return [
+        ["Type", "HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value",
+          "Integrated Tax Amount", "Central Tax Amount", "State/UT Tax Amount", "Cess Amount"],
+        ...report.hsn.map(row => [
+          row.section.toUpperCase(), row.hsnCode, row.description, row.uqc, row.quantity, row.totalValue, row.gstRate,
+          row.taxableValue, row.igstAmount, row.cgstAmount, row.sgstAmount, 0,
+        ]),
+      ];
+    case "docs":
+      return [
+        ["Nature of Document", "Sr. No. From", "Sr. No. To", "Total Number", "Cancelled"],
+        ...report.docs.map(row => [
+          row.docType === "invoices" ? "Invoices for outward supply" : "Credit Note",
+          row.from, row.to, row.total, row.cancelled,
+        ]),
+      ];
+  }
+}
@@ -0,0 +1,295 @@
+import { isValidGstin, round2 } from "./gst";
+import { PURCHASE_TAX_TOLERANCE } from "./purchases";
+
+// GSTR-2B: the statement of inward supplies the portal builds each month from
+// what vendors reported in their GSTR-1. Credit is only safe to claim on
+// invoices that appear in it, so it is ticked off against recorded purchases.
+
+export const GSTR2B_MATCH_STATUSES = ["matched", "mismatched", "missing_in_books", "missing_in_2b"] as const;
+export type Gstr2bMatchStatus = typeof GSTR2B_MATCH_STATUSES[number];
+
+export const GSTR2B_MATCH_STATUS_LABELS: Record<Gstr2bMatchStatus, string> = {
+  matched: "Matched",
+  mismatched: "Mismatched",
+  missing_in_books: "Missing in books",
+  missing_in_2b: "Missing in 2B",
+};
+
+export const GSTR2B_ACTIONS = ["linked", "purchase_created", "vendor_flagged"] as const;
+export type Gstr2bAction = typeof GSTR2B_ACTIONS[number];
+
+export const GSTR2B_ACTION_LABELS: Record<Gstr2bAction, string> = {
+  linked: "Linked",
+  purchase_created: "Purchase created",
+  vendor_flagged: "Vendor flagged",
+};
+
+// One B2B invoice as it appears in 2B, with its per-rate items added up
+export interface Gstr2bInvoice {
+  supplierGstin: string;
+  supplierName: string;
+  invoiceNumber: string;
+  invoiceDate: string; // YYYY-MM-DD
+  invoiceValue: number;
+  taxableValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  itcAvailable: boolean;
+  reverseCharge: boolean;
+}
+
+export interface Gstr2bFile {
+  gstin?: string;
+  period?: string; // YYYY-MM, when the file says
+  invoices: Gstr2bInvoice[];
+  // Sections other than B2B invoices (credit notes, amendments, imports) are not matched
+  skipped: number;
+}
+
+// What the books hold for a purchase, as far as matching is concerned
+export interface Gstr2bBookEntry {
+  purchaseId: string;
+  vendorGstin: string | null;
+  vendorInvoiceNumber: string | null;
+  vendorInvoiceDate: Date | string | null;
+  taxableValue: number;
+  igstAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+}
+
+export interface Gstr2bMatch {
+  status: Gstr2bMatchStatus;
+  invoice?: Gstr2bInvoice;
+  purchaseId?: string;
+  differences: string[];
+}
+
+// Vendors and we rarely type an invoice number the same way: "INV/0042" in
+// their books is often "inv-42" in ours
+export function normalizeInvoiceNumber(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "").replace(/(^|\D)0+(?=\d)/g, "$1");
+}
+
+export function getGstr2bInvoiceKey(gstin: string, invoiceNumber: string) {
+  return `${gstin.toUpperCase()}|${normalizeInvoiceNumber(invoiceNumber)}`;
+}
+
+function toIsoDate(value: Date | string | null | undefined) {
+  if (!value) return "";
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10);
+}
+
+// The portal writes dates as dd-mm-yyyy
+function parsePortalDate(value: unknown): string {
+  if (value instanceof Date) return toIsoDate(value);
+  const match = /^(\d{2})[-/](\d{2})[-/](\d{4})$/.exec(String(value ?? "").trim());
+  if (!match) throw new Error(`Unrecognised invoice date "${String(value ?? "")}"`);
+  return `${match[3]}-${match[2]}-${match[1]}`;
+}
+
+function toAmount(value: unknown) {
+  const amount = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/,/g, ""));
+  return isNaN(amount) ? 0 : amount;
+}
+
+// Adds an item line to the invoice it belongs to; both the JSON and the Excel
+// download list one entry per tax rate
+function addInvoiceLine(invoices: Map<string, Gstr2bInvoice>, line: Gstr2bInvoice) {
+  const key = getGstr2bInvoiceKey(line.supplierGstin, line.invoiceNumber);
+  const existing = invoices.get(key);
+  if (!existing) {
+    invoices.set(key, { ...line });
+    return;
+  }
+  existing.taxableValue = round2(existing.taxableValue + line.taxableValue);
+  existing.igstAmount = round2(existing.igstAmount + line.igstAmount);
+  existing.cgstAmount = round2(existing.cgstAmount + line.cgstAmount);
+  existing.sgstAmount = round2(existing.sgstAmount + line.sgstAmount);
+  existing.itcAvailable = existing.itcAvailable && line.itcAvailable;
+}
+
+export function parseGstr2bJson(json: unknown): Gstr2bFile {
+  const root = (json ?? {}) as Record<string, any>;
+  const data = (root.data ?? root) as Record<string, any>;
+  const docdata = data.docdata as Record<string, any[]> | undefined;
+  if (!docdata || typeof docdata !== "object") {
+    throw new Error("This is not a GSTR-2B JSON file: no document data found");
+  }
+
+  const invoices = new Map<string, Gstr2bInvoice>();
+  for (const supplier of docdata.b2b ?? []) {
+    for (const invoice of supplier.inv ?? []) {
+      const lines: any[] = invoice.items?.length ? invoice.items : [{}];
+      lines.forEach((item, index) => addInvoiceLine(invoices, {
+        supplierGstin: String(supplier.ctin ?? "").toUpperCase(),
+        supplierName: String(supplier.trdnm ?? ""),
+        invoiceNumber: String(invoice.inum ?? ""),
+        invoiceDate: parsePortalDate(invoice.dt),
+        invoiceValue: index === 0 ? toAmount(invoice.val) : 0,
+        taxableValue: toAmount(item.txval),
+        igstAmount: toAmount(item.igst),
+        cgstAmount: toAmount(item.cgst),
+        sgstAmount: toAmount(item.sgst),
+        itcAvailable: invoice.itcavl !== "N",
+        reverseCharge: invoice.rev === "Y",
+      }));
+    }
+  }
+
+  const skipped = Object.entries(docdata)
+    .filter(([section]) => section !== "b2b")
+    .reduce((count, [, entries]) => count + (Array.isArray(entries) ? entries.length : 0), 0);
+
+  const rtnprd = String(data.rtnprd ?? "");
+  return {
+    gstin: data.gstin ? String(data.gstin).toUpperCase() : undefined,
+    period: /^\d{6}$/.test(rtnprd) ? `${rtnprd.slice(2)}-${rtnprd.slice(0, 2)}` : undefined,
+    invoices: Array.from(invoices.values()),
+    skipped,
+  };
+}
+
+// The "B2B" sheet of the Excel download. Its heading spans two rows, with
+// "Invoice details" and "Tax Amount" grouping the sub-headings below them.
+export function parseGstr2bSheet(rows: unknown[][]): Gstr2bFile {
+  const headingRow = rows.findIndex(row => row.some(cell => /gstin of supplier/i.test(String(cell ?? ""))));
+  if (headingRow === -1) {
+    throw new Error('No "GSTIN of supplier" heading found in the B2B sheet');
+  }
+  const heading = rows[headingRow];
+  const subHeading = rows[headingRow + 1] ?? [];
+  const labels = heading.map((cell, index) => String(subHeading[index] ?? cell ?? "").trim().toLowerCase());
+
+  const column = (pattern: RegExp, required = true) => {
+    const index = labels.findIndex(label => pattern.test(label));
+    if (index === -1 && required) {
+      throw new Error(`Column matching ${pattern.source} not found in the B2B sheet`);
+    }
+    return index;
+  };
+  const columns = {
+    gstin: column(/gstin of supplier/),
+    name: column(/trade\/legal name|legal name|trade name/, false),
+    number: column(/invoice number/),
+    date: column(/invoice date/),
+    value: column(/invoice value/, false),
+    reverseCharge: column(/reverse charge/, false),
+    taxable: column(/taxable value/),
+    igst: column(/integrated tax/),
+    cgst: column(/central tax/),
+    sgst: column(/state\/ut tax/),
+    itc: column(/itc availability/, false),
+  };
+  const cell = (row: unknown[], index: number) => (index === -1 ? undefined : row[index]);
+
+  const invoices = new Map<string, Gstr2bInvoice>();
+  const seen = new Set<string>();
+  for (const row of rows.slice(headingRow + 2)) {
+    const gstin = String(cell(row, columns.gstin) ?? "").trim().toUpperCase();
+    if (!isValidGstin(gstin)) continue; // blank and total rows
+    const invoiceNumber = String(cell(row, columns.number) ?? "").trim();
+    const key = getGstr2bInvoiceKey(gstin, invoiceNumber);
+    addInvoiceLine(invoices, {
+      supplierGstin: gstin,
+      supplierName: String(cell(row, columns.name) ?? "").trim(),
+      invoiceNumber,
+      invoiceDate: parsePortalDate(cell(row, columns.date)),
+      // The invoice value repeats on each rate row, so it is only counted once
+      invoiceValue: seen.has(key) ? 0 : toAmount(cell(row, columns.value)),
+      taxableValue: toAmount(cell(row, columns.taxable)),
+      igstAmount: toAmount(cell(row, columns.igst)),
+      cgstAmount: toAmount(cell(row, columns.cgst)),
+      sgstAmount: toAmount(cell(row, columns.sgst)),
+      itcAvailable: String(cell(row, columns.itc) ?? "Yes").trim().toLowerCase() !== "no",
+      reverseCharge: String(cell(row, columns.reverseCharge) ?? "No").trim().toLowerCase() === "yes",
+    });
+    seen.add(key);
+  }
+
+  return { invoices: Array.from(invoices.values()), skipped: 0 };
+}
+
+export function compareWithBooks(invoice: Gstr2bInvoice, book: Gstr2bBookEntry): string[] {
+  const differences: string[] = [];
+  const bookDate = toIsoDate(book.vendorInvoiceDate);
+  if (bookDate !== invoice.invoiceDate) {
+    differences.push(`Invoice date ${invoice.invoiceDate} in 2B, ${bookDate || "not recorded"} in books`);
+  }
+  const amounts: [string, number, number][] = [
+    ["Taxable value", invoice.taxableValue, book.taxableValue],
+    ["IGST", invoice.igstAmount, book.igstAmount],
+    ["CGST", invoice.cgstAmount, book.cgstAmount],
+    ["SGST", invoice.sgstAmount, book.sgstAmount],
+  ];
+  for (const [label, in2b, inBooks] of amounts) {
+    if (Math.abs(in2b - inBooks) > PURCHASE_TAX_TOLERANCE) {
+      differences.push(`${label} ₹${in2b.toFixed(2)} in 2B, ₹${inBooks.toFixed(2)} in books`);
+    }
+  }
+  return differences;
+}
+
+// Pairs 2B invoices with purchases. A pair is made on GSTIN and invoice
+// number, failing that on GSTIN, date and taxable value (the number was keyed
+// differently). `pinned` carries pairings a user made by hand, which win.
+// Purchases left over are reported missing in 2B only when their vendor
+// invoice falls inside the period; older ones may still turn up in a later 2B.
+export function reconcileGstr2b(
+  invoices: Gstr2bInvoice[],
+  books: Gstr2bBookEntry[],
+  range: { from: Date; to: Date },
+  pinned: Map<string, string> = new Map(),
+): Gstr2bMatch[] {
+  const unused = new Map(books.map(book => [book.purchaseId, book]));
+  const byKey = new Map<string, Gstr2bBookEntry>();
+  for (const book of books) {
+    if (book.vendorGstin && book.vendorInvoiceNumber) {
+      byKey.set(getGstr2bInvoiceKey(book.vendorGstin, book.vendorInvoiceNumber), book);
+    }
+  }
+
+  const pair = (invoice: Gstr2bInvoice, book: Gstr2bBookEntry, extra: string[] = []): Gstr2bMatch => {
+    unused.delete(book.purchaseId);
+    const differences = [...extra, ...compareWithBooks(invoice, book)];
+    return {
+      status: differences.length === 0 ? "matched" : "mismatched",
+      invoice,
+      purchaseId: book.purchaseId,
+      differences,
+    };
+  };
+
+  const results = new Map<Gstr2bInvoice, Gstr2bMatch>();
+  for (const invoice of invoices) {
+    const pinnedId = pinned.get(getGstr2bInvoiceKey(invoice.supplierGstin, invoice.invoiceNumber));
+    const book = pinnedId ? unused.get(pinnedId) : undefined;
+    if (book) results.set(invoice, pair(invoice, book));
+  }
+  for (const invoice of invoices) {
+    if (results.has(invoice)) continue;
+    const book = byKey.get(getGstr2bInvoiceKey(invoice.supplierGstin, invoice.invoiceNumber));
+    if (book && unused.has(book.purchaseId)) results.set(invoice, pair(invoice, book));
+  }
+  for (const invoice of invoices) {
+    if (results.has(invoice)) continue;
+    const book = Array.from(unused.values()).find(candidate =>
+      candidate.vendorGstin?.toUpperCase() === invoice.supplierGstin &&
+      toIsoDate(candidate.vendorInvoiceDate) === invoice.invoiceDate &&
+      Math.abs(candidate.taxableValue - invoice.taxableValue) <= PURCHASE_TAX_TOLERANCE);
+    results.set(invoice, book
+      ? pair(invoice, book, [`Invoice number ${invoice.invoiceNumber} in 2B, ${book.vendorInvoiceNumber || "not recorded"} in books`])
+      : { status: "missing_in_books", invoice, differences: [] });
+  }
+
+  const missingIn2b: Gstr2bMatch[] = Array.from(unused.values())
+    .filter(book => {
+      const date = book.vendorInvoiceDate ? new Date(book.vendorInvoiceDate) : undefined;
+      return date && date >= range.from && date <= range.to;
+    })
+    .map(book => ({ status: "missing_in_2b", purchaseId: book.purchaseId, differences: [] }));
+
+  return [...invoices.map(invoice => results.get(invoice)!), ...missingIn2b];
+}
@@ -0,0 +1,163 @@
+import { isValidGstin, round2 } from "./gst";
+import type { BillWithDetails, CreditNoteWithDetails, CompanySettings, InputTaxCreditSummary } from "./schema";
+
+// GSTR-3B: the monthly summary return on which tax is actually paid. Output
+// tax comes from bills net of credit notes, input tax credit from purchases.
+
+export type TaxHead = "igst" | "cgst" | "sgst";
+
+export const TAX_HEADS: Record<TaxHead, string> = {
+  igst: "Integrated Tax",
+  cgst: "Central Tax",
+  sgst: "State/UT Tax",
+};
+
+export type TaxAmounts = Record<TaxHead, number>;
+
+export interface SupplyTotals extends TaxAmounts {
+  taxableValue: number;
+}
+
+export interface Gstr3bPaymentRow {
+  head: TaxHead;
+  payable: number;
+  paidThroughCredit: TaxAmounts; // keyed by the credit used
+  paidInCash: number;
+}
+
+export interface Gstr3bPayment {
+  rows: Gstr3bPaymentRow[];
+  creditCarriedForward: TaxAmounts;
+  totalCash: number;
+}
+
+export interface Gstr3bReport {
+  period: string; // YYYY-MM
+  gstin: string;
+  outwardTaxable: SupplyTotals; // 3.1(a)
+  outwardNilRated: SupplyTotals; // 3.1(c)
+  interStateUnregistered: { placeOfSupply: string; taxableValue: number; igst: number }[]; // 3.2
+  itc: { purchases: number; taxableValue: number; available: TaxAmounts }; // 4
+  payment: Gstr3bPayment; // 6.1
+}
+
+const zero = (): TaxAmounts => ({ igst: 0, cgst: 0, sgst: 0 });
+
+// Section 49(5) and rule 88A. IGST credit goes first: against IGST, then
+// against CGST and SGST. CGST credit then covers CGST and IGST, SGST credit
+// covers SGST and IGST, and SGST credit may only touch IGST once CGST credit
+// is exhausted. CGST and SGST credit can never cross over to each other.
+export function utiliseCredit(liability: TaxAmounts, credit: TaxAmounts): Gstr3bPayment {
+  const due = { ...liability };
+  const left = { ...credit };
+  const paid: Record<TaxHead, TaxAmounts> = { igst: zero(), cgst: zero(), sgst: zero() };
+
+  const use = (from: TaxHead, against: TaxHead, limit = Infinity) => {
+    const amount = round2(Math.max(0, Math.min(left[from], due[against], limit)));
+    left[from] = round2(left[from] - amount);
+    due[against] = round2(due[against] - amount);
+    paid[against][from] = round2(paid[against][from] + amount);
+  };
+
+  use("igst", "igst");
+  // The split of leftover IGST credit between CGST and SGST is ours to choose:
+  // cover what each head's own credit cannot before touching the rest, so no
+  // cash is paid on one head while credit sits unused on the other
+  use("igst", "cgst", Math.max(0, due.cgst - left.cgst));
+  use("igst", "sgst", Math.max(0, due.sgst - left.sgst));
+  use("igst", "cgst");
+  use("igst", "sgst");
+  use("cgst", "cgst");
+  use("sgst", "sgst");
+  use("cgst", "igst");
+  use("sgst", "igst");
+
+  const heads = Object.keys(TAX_HEADS) as TaxHead[];
+  return {
+    rows: heads.map(head => ({
+      head,
+      payable: round2(liability[head]),
+      paidThroughCredit: paid[head],
+      paidInCash: due[head],
+    })),
+    creditCarriedForward: left,
+    totalCash: round2(heads.reduce((sum, head) => sum + due[head], 0)),
+  };
+}
+
+export function buildGstr3b(
+  period: string,
+  bills: BillWithDetails[],
+  creditNotes: CreditNoteWithDetails[],
+  inputTaxCredit: InputTaxCreditSummary,
+  company: CompanySettings | undefined,
+): Gstr3bReport {
+  const outwardTaxable: SupplyTotals = { taxableValue: 0, ...zero() };
+  const outwardNilRated: SupplyTotals = { taxableValue: 0, ...zero() };
+  const unregistered = new Map<string, { placeOfSupply: string; taxableValue: number; igst: number }>();
+
+  const add = (
+    lines: { gstRate: string; taxableValue: string; igstAmount: string; cgstAmount: string; sgstAmount: string }[],
+    customer: { gstin: string | null },
+    placeOfSupply: string | null,
+    sign: 1 | -1,
+  ) => {
+    for (const line of lines) {
+      const totals = Number(line.gstRate) > 0 ? outwardTaxable : outwardNilRated;
+      totals.taxableValue += sign * Number(line.taxableValue);
+      totals.igst += sign * Number(line.igstAmount);
+      totals.cgst += sign * Number(line.cgstAmount);
+      totals.sgst += sign * Number(line.sgstAmount);
+
+      if (Number(line.igstAmount) > 0 && placeOfSupply && !isValidGstin(customer.gstin)) {
+        const row = unregistered.get(placeOfSupply) ?? { placeOfSupply, taxableValue: 0, igst: 0 };
+        row.taxableValue += sign * Number(line.taxableValue);
+        row.igst += sign * Number(line.igstAmount);
+        unregistered.set(placeOfSupply, row);
+      }
+    }
+  };
+
+  bills
+    .filter(bill => bill.status !== "cancelled")
+    .forEach(bill => add(bill.billItems, bill.customer, bill.placeOfSupply, 1));
+  creditNotes.forEach(note =>
+    add(note.creditNoteItems, note.customer, note.placeOfSupply ?? note.bill.placeOfSupply, -1));
+
+  const roundSupply = (totals: SupplyTotals): SupplyTotals => ({
+    taxableValue: round2(totals.taxableValue),
+    igst: round2(totals.igst),
+    cgst: round2(totals.cgst),
+    sgst: round2(totals.sgst),
+  });
+
+  const available: TaxAmounts = {
+    igst: Number(inputTaxCredit.igstAmount),
+    cgst: Number(inputTaxCredit.cgstAmount),
+    sgst: Number(inputTaxCredit.sgstAmount),
+  };
+
+  // Credit notes can push a head below zero; that is carried as nil liability
+  const taxable = roundSupply(outwardTaxable);
+  const liability: TaxAmounts = {
+    igst: Math.max(0, taxable.igst),
+    cgst: Math.max(0, taxable.cgst),
+    sgst: Math.max(0, taxable.sgst),
+  };
+
+  return {
+    period,
+    gstin: company?.gstin ?? "",
+    outwardTaxable: taxable,
+    outwardNilRated: roundSupply(outwardNilRated),
+    interStateUnregistered: Array.from(unregistered.values())
+      .sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply))
+      .map(row => ({ ...row, taxableValue: round2(row.taxableValue), igst: round2(row.igst) })),
+    itc: {
+      purchases: inputTaxCredit.purchases,
+      taxableValue: Number(inputTaxCredit.taxableValue),
+      available,
+    },
+    payment: utiliseCredit(liability, available),
+  };
+}
@@ -0,0 +1,66 @@
+// HSN (goods) and SAC (services) codes. Notification 78/2020-CT sets how many
+// digits a tax invoice must carry based on the supplier's aggregate turnover in
+// the previous financial year.
+export const TURNOVER_BANDS = {
+  up_to_5_crore: { label: "Up to ₹5 crore", minimumHsnDigits: 4 },
+  above_5_crore: { label: "Above ₹5 crore", minimumHsnDigits: 6 },
+} as const;
+
+export type TurnoverBand = keyof typeof TURNOVER_BANDS;
+
+export const HSN_CODE_REGEX = /^(\d{4}|\d{6}|\d{8})$/;
+
+export function getMinimumHsnDigits(band?: string | null): number {
+  return TURNOVER_BANDS[band as TurnoverBand]?.minimumHsnDigits ?? TURNOVER_BANDS.up_to_5_crore.minimumHsnDigits;
+}
+
+// SAC codes all sit under chapter 99
+export function isServiceCode(code?: string | null): boolean {
+  return !!code && code.startsWith("99");
+}
+
+// Returns why a code is unacceptable on an invoice, or undefined when it is fine
+export function getHsnCodeError(code: string | null | undefined, band?: string | null): string | undefined {
+  if (!code) return "HSN/SAC code is required";
+  if (!HSN_CODE_REGEX.test(code)) return "HSN/SAC code must be 4, 6 or 8 digits";
+  const minimum = getMinimumHsnDigits(band);
+  if (code.length < minimum) {
+    return `HSN/SAC code must have at least ${minimum} digits for your turnover`;
+  }
+  return undefined;
+}
+
+export interface HsnLine {
+  hsnCode?: string | null;
+  gstRate: string;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+}
+
+export interface HsnTotals {
+  hsnCode: string;
+  gstRate: number;
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+// Invoice-foot summary: one row per HSN/SAC code and GST rate
+export function summariseByHsn(lines: HsnLine[]): HsnTotals[] {
+  const rows = new Map<string, HsnTotals>();
+  for (const line of lines) {
+    const hsnCode = line.hsnCode || "-";
+    const gstRate = Number(line.gstRate);
+    const key = `${hsnCode}|${gstRate}`;
+    const row = rows.get(key) ?? { hsnCode, gstRate, taxableValue: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+    row.taxableValue += Number(line.taxableValue);
+    row.cgstAmount += Number(line.cgstAmount);
+    row.sgstAmount += Number(line.sgstAmount);
+    row.igstAmount += Number(line.igstAmount);
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate);
+}
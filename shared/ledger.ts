@@ -0,0 +1,173 @@
+// Chart of accounts and journal rules for the general ledger. Account groups
+// follow the Schedule III headings the financial statements are drawn up under.
+
+import { round2 } from "./gst";
+
+export const ACCOUNT_TYPES = {
+  asset: "Asset",
+  liability: "Liability",
+  equity: "Equity",
+  income: "Income",
+  expense: "Expense",
+} as const;
+
+export type AccountType = keyof typeof ACCOUNT_TYPES;
+
+export const ACCOUNT_GROUPS = {
+  share_capital: { label: "Capital", type: "equity" },
+  reserves_and_surplus: { label: "Reserves and surplus", type: "equity" },
+  long_term_borrowings: { label: "Long-term borrowings", type: "liability" },
+  short_term_borrowings: { label: "Short-term borrowings", type: "liability" },
+  trade_payables: { label: "Trade payables", type: "liability" },
+  other_current_liabilities: { label: "Other current liabilities", type: "liability" },
+  short_term_provisions: { label: "Short-term provisions", type: "liability" },
+  property_plant_equipment: { label: "Property, plant and equipment", type: "asset" },
+  inventories: { label: "Inventories", type: "asset" },
+  trade_receivables: { label: "Trade receivables", type: "asset" },
+  cash_and_equivalents: { label: "Cash and cash equivalents", type: "asset" },
+  short_term_loans_advances: { label: "Short-term loans and advances", type: "asset" },
+  other_current_assets: { label: "Other current assets", type: "asset" },
+  revenue_from_operations: { label: "Revenue from operations", type: "income" },
+  other_income: { label: "Other income", type: "income" },
+  cost_of_goods_sold: { label: "Cost of goods sold", type: "expense" },
+  employee_benefits: { label: "Employee benefits expense", type: "expense" },
+  finance_costs: { label: "Finance costs", type: "expense" },
+  depreciation: { label: "Depreciation and amortisation", type: "expense" },
+  other_expenses: { label: "Other expenses", type: "expense" },
+} as const satisfies Record<string, { label: string; type: AccountType }>;
+
+export type AccountGroup = keyof typeof ACCOUNT_GROUPS;
+
+export function getAccountType(group: AccountGroup): AccountType {
+  return ACCOUNT_GROUPS[group].type;
+}
+
+// Assets and expenses normally carry a debit balance, the rest a credit balance
+export function isDebitNatured(type: AccountType | string): boolean {
+  return type === "asset" || type === "expense";
+}
+
+// Accounts the automatic postings are made to, looked up by key
+export const SYSTEM_ACCOUNT_KEYS = [
+  "cash",
+  "bank",
+  "receivables",
+  "inventory",
+  "input_cgst",
+  "input_sgst",
+  "input_igst",
+  "payables",
+  "output_cgst",
+  "output_sgst",
+  "output_igst",
+  "capital",
+  "retained_earnings",
+  "sales",
+  "sales_returns",
+  "cost_of_goods_sold",
+  "stock_write_off",
+  "round_off",
+] as const;
+
+export type SystemAccountKey = typeof SYSTEM_ACCOUNT_KEYS[number];
+
+export interface DefaultAccount {
+  code: string;
+  name: string;
+  group: AccountGroup;
+  systemKey?: SystemAccountKey;
+}
+
+// Created the first time the ledger is used
+export const DEFAULT_ACCOUNTS: DefaultAccount[] = [
+  { code: "1001", name: "Cash in Hand", group: "cash_and_equivalents", systemKey: "cash" },
+  { code: "1002", name: "Bank Account", group: "cash_and_equivalents", systemKey: "bank" },
+  { code: "1100", name: "Sundry Debtors", group: "trade_receivables", systemKey: "receivables" },
+  { code: "1200", name: "Stock in Trade", group: "inventories", systemKey: "inventory" },
+  { code: "1300", name: "Input CGST", group: "short_term_loans_advances", systemKey: "input_cgst" },
+  { code: "1301", name: "Input SGST", group: "short_term_loans_advances", systemKey: "input_sgst" },
+  { code: "1302", name: "Input IGST", group: "short_term_loans_advances", systemKey: "input_igst" },
+  { code: "1310", name: "TDS Receivable", group: "short_term_loans_advances" },
+  { code: "1400", name: "Security Deposits", group: "other_current_assets" },
+  { code: "1401", name: "Prepaid Expenses", group: "other_current_assets" },
+  { code: "1500", name: "Furniture & Fixtures", group: "property_plant_equipment" },
+  { code: "1501", name: "Computers & Office Equipment", group: "property_plant_equipment" },
+  { code: "1502", name: "Plant & Machinery", group: "property_plant_equipment" },
+  { code: "1503", name: "Vehicles", group: "property_plant_equipment" },
+  { code: "2001", name: "Sundry Creditors", group: "trade_payables", systemKey: "payables" },
+  { code: "2100", name: "Output CGST", group: "other_current_liabilities", systemKey: "output_cgst" },
+  { code: "2101", name: "Output SGST", group: "other_current_liabilities", systemKey: "output_sgst" },
+  { code: "2102", name: "Output IGST", group: "other_current_liabilities", systemKey: "output_igst" },
+  { code: "2110", name: "TDS Payable", group: "other_current_liabilities" },
+  { code: "2120", name: "Salaries Payable", group: "other_current_liabilities" },
+  { code: "2200", name: "Provision for Income Tax", group: "short_term_provisions" },
+  { code: "2300", name: "Bank Overdraft / Cash Credit", group: "short_term_borrowings" },
+  { code: "2400", name: "Term Loans", group: "long_term_borrowings" },
+  { code: "3001", name: "Capital Account", group: "share_capital", systemKey: "capital" },
+  { code: "3002", name: "Retained Earnings", group: "reserves_and_surplus", systemKey: "retained_earnings" },
+  { code: "4001", name: "Sales", group: "revenue_from_operations", systemKey: "sales" },
+  { code: "4002", name: "Sales Returns", group: "revenue_from_operations", systemKey: "sales_returns" },
+  { code: "4100", name: "Interest Income", group: "other_income" },
+  { code: "4101", name: "Discount Received", group: "other_income" },
+  { code: "5001", name: "Cost of Goods Sold", group: "cost_of_goods_sold", systemKey: "cost_of_goods_sold" },
+  { code: "5100", name: "Salaries & Wages", group: "employee_benefits" },
+  { code: "5101", name: "Staff Welfare", group: "employee_benefits" },
+  { code: "5200", name: "Interest on Loans", group: "finance_costs" },
+  { code: "5201", name: "Bank Charges", group: "finance_costs" },
+  { code: "5300", name: "Depreciation", group: "depreciation" },
+  { code: "5400", name: "Rent", group: "other_expenses" },
+  { code: "5401", name: "Electricity", group: "other_expenses" },
+  { code: "5402", name: "Telephone & Internet", group: "other_expenses" },
+  { code: "5403", name: "Freight & Cartage", group: "other_expenses" },
+  { code: "5404", name: "Printing & Stationery", group: "other_expenses" },
+  { code: "5405", name: "Professional Fees", group: "other_expenses" },
+  { code: "5406", name: "Repairs & Maintenance", group: "other_expenses" },
+  { code: "5407", name: "Stock Write-off", group: "other_expenses", systemKey: "stock_write_off" },
+  { code: "5408", name: "Round Off", group: "other_expenses", systemKey: "round_off" },
+];
+
+export const JOURNAL_SOURCES = {
+  manual: "Journal Voucher",
+  bill: "Sales Invoice",
+  bill_cancellation: "Invoice Cancellation",
+  delivery_challan: "Delivery Challan",
+  credit_note: "Credit Note",
+  payment: "Receipt",
+  purchase: "Purchase",
+  vendor_payment: "Vendor Payment",
+  stock_write_off: "Stock Write-off",
+} as const;
+
+export type JournalSource = keyof typeof JOURNAL_SOURCES;
+
+export interface JournalLineAmounts {
+  debit: number;
+  credit: number;
+}
+
+export function getJournalTotals(lines: JournalLineAmounts[]): JournalLineAmounts {
+  return {
+    debit: round2(lines.reduce((sum, line) => sum + line.debit, 0)),
+    credit: round2(lines.reduce((sum, line) => sum + line.credit, 0)),
+  };
+}
+
+// Why the lines can't be posted as a journal entry, or null when they can
+export function getJournalError(lines: JournalLineAmounts[]): string | null {
+  if (lines.length < 2) {
+    return "A journal entry needs at least two lines";
+  }
+  for (const line of lines) {
+    if (line.debit < 0 || line.credit < 0) {
+      return "Debit and credit amounts cannot be negative";
+    }
+    if ((line.debit > 0) === (line.credit > 0)) {
+      return "Each line must have either a debit or a credit amount";
+    }
+  }
+  const totals = getJournalTotals(lines);
+  if (totals.debit !== totals.credit) {
+    return `Debits of ₹${totals.debit.toFixed(2)} do not equal credits of ₹${totals.credit.toFixed(2)}`;
+  }
+  return null;
+}
@@ -0,0 +1,77 @@
+// Document numbering series. Prefix and suffix may contain tokens that are
+// expanded from the document date:
+//   {FY}   financial year label, e.g. 25-26
+//   {FYYY} financial year with the full start year, e.g. 2025-26
+//   {YYYY} / {YY} / {MM}  calendar year and month of the document date
+
+export const DOCUMENT_TYPES = {
+  bill: { label: "Tax Invoice", defaultPrefix: "INV/{FY}/" },
+  purchase: { label: "Purchase", defaultPrefix: "PUR/{FY}/" },
+  credit_note: { label: "Credit Note", defaultPrefix: "CN/{FY}/" },
+  payment: { label: "Payment Receipt", defaultPrefix: "RCT/{FY}/" },
+  vendor_payment: { label: "Vendor Payment", defaultPrefix: "VP/{FY}/" },
+  journal: { label: "Journal Voucher", defaultPrefix: "JV/{FY}/" },
+  system_journal: { label: "Automatic Posting", defaultPrefix: "AP/{FY}/" },
+  quotation: { label: "Quotation", defaultPrefix: "QT/{FY}/" },
+  sales_order: { label: "Sales Order", defaultPrefix: "SO/{FY}/" },
+  delivery_challan: { label: "Delivery Challan", defaultPrefix: "DC/{FY}/" },
+} as const;
+
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+
+export interface NumberingPattern {
+  prefix: string;
+  suffix: string;
+  padding: number;
+  resetEveryFinancialYear: boolean;
+}
+
+export function defaultNumberingPattern(documentType: DocumentType): NumberingPattern {
+  return {
+    prefix: DOCUMENT_TYPES[documentType].defaultPrefix,
+    suffix: "",
+    padding: 4,
+    resetEveryFinancialYear: true,
+  };
+}
+
+// Indian financial year runs 1 April to 31 March
+export function getFinancialYear(date: Date): { startYear: number; label: string } {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return {
+    startYear,
+    label: `${String(startYear % 100).padStart(2, "0")}-${String((startYear + 1) % 100).padStart(2, "0")}`,
+  };
+}
+
+export function getFinancialYearRange(startYear: number): { from: Date; to: Date } {
+  return {
+    from: new Date(startYear, 3, 1),
+    to: new Date(startYear + 1, 2, 31, 23, 59, 59, 999),
+  };
+}
+
+// A series that restarts every April needs the year in its numbers, or the
+// new year would issue last year's numbers again
+export function hasYearToken(pattern: Pick<NumberingPattern, "prefix" | "suffix">): boolean {
+  return /\{(FY|FYYY|YYYY)\}/.test(`${pattern.prefix}${pattern.suffix}`);
+}
+
+// Counters are kept per financial year unless the series never resets
+export function getCounterPeriod(pattern: NumberingPattern, date: Date): string {
+  return pattern.resetEveryFinancialYear ? getFinancialYear(date).label : "all";
+}
+
+function expandTokens(template: string, date: Date): string {
+  const fy = getFinancialYear(date);
+  return template
+    .replace(/\{FYYY\}/g, `${fy.startYear}-${fy.label.slice(3)}`)
+    .replace(/\{FY\}/g, fy.label)
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear() % 100).padStart(2, "0"))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, "0"));
+}
+
+export function formatDocumentNumber(pattern: NumberingPattern, sequence: number, date: Date): string {
+  return `${expandTokens(pattern.prefix, date)}${String(sequence).padStart(pattern.padding, "0")}${expandTokens(pattern.suffix, date)}`;
+}
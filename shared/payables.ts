@@ -0,0 +1,31 @@
+// What we owe vendors. A purchase falls due the vendor's credit days after
+// their invoice date and is settled by vendor payments allocated against it.
+
+import { isPastDue } from "./billStatus";
+
+export const PAYABLE_STATUSES = ["unpaid", "partially_paid", "overdue", "paid"] as const;
+
+export type PayableStatus = typeof PAYABLE_STATUSES[number];
+
+// Statuses that still have money owed on them
+export const OPEN_PAYABLE_STATUSES: readonly PayableStatus[] = ["unpaid", "partially_paid", "overdue"];
+
+export const DEFAULT_VENDOR_CREDIT_DAYS = 30;
+
+export function getPurchaseDueDate(vendorInvoiceDate: Date | string, creditDays: number): Date {
+  const due = new Date(vendorInvoiceDate);
+  due.setDate(due.getDate() + creditDays);
+  return due;
+}
+
+export function derivePayableStatus(total: number, amountPaid: number, dueDate?: Date | string | null, now = new Date()): PayableStatus {
+  if (amountPaid >= total - 0.005) return "paid";
+  if (isPastDue(dueDate, now)) return "overdue";
+  return amountPaid > 0 ? "partially_paid" : "unpaid";
+}
+
+export function getPayableStatusLabel(status: string): string {
+  return status === "partially_paid"
+    ? "Partially Paid"
+    : status.charAt(0).toUpperCase() + status.slice(1);
+}
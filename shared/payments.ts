@@ -0,0 +1,14 @@
+// Payment modes offered when recording a receipt, with their display labels
+export const PAYMENT_MODES = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  cheque: "Cheque",
+  bank_transfer: "Bank Transfer",
+} as const;
+
+export type PaymentMode = keyof typeof PAYMENT_MODES;
+
+export function getPaymentModeLabel(mode: string): string {
+  return PAYMENT_MODES[mode as PaymentMode] ?? mode;
+}
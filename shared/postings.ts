@@ -0,0 +1,112 @@
+// Journal lines posted automatically when documents are saved. Stock is kept
+// on a perpetual basis: purchases are debited to stock in trade, and goods
+// sold, returned or written off move out of it at cost.
+
+import { round2 } from "./gst";
+import type { SystemAccountKey } from "./ledger";
+
+export interface PostingLine {
+  account: SystemAccountKey;
+  debit: number;
+  credit: number;
+}
+
+interface TaxSplit {
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+}
+
+// A negative amount lands on the other side
+function debit(account: SystemAccountKey, amount: number): PostingLine {
+  const value = round2(amount);
+  return value >= 0 ? { account, debit: value, credit: 0 } : { account, debit: 0, credit: -value };
+}
+
+function credit(account: SystemAccountKey, amount: number): PostingLine {
+  return debit(account, -amount);
+}
+
+function nonZero(lines: PostingLine[]): PostingLine[] {
+  return lines.filter(line => line.debit !== 0 || line.credit !== 0);
+}
+
+// Receipts in cash go to the cash book, everything else through the bank
+export function getPaymentAccountKey(mode: string): SystemAccountKey {
+  return mode === "cash" ? "cash" : "bank";
+}
+
+export function getBillPostings(bill: TaxSplit & { taxableValue: number; roundOff: number; total: number }, costOfGoods: number): PostingLine[] {
+  return nonZero([
+    debit("receivables", bill.total),
+    credit("sales", bill.taxableValue),
+    credit("output_cgst", bill.cgstAmount),
+    credit("output_sgst", bill.sgstAmount),
+    credit("output_igst", bill.igstAmount),
+    credit("round_off", bill.roundOff),
+    debit("cost_of_goods_sold", costOfGoods),
+    credit("inventory", costOfGoods),
+  ]);
+}
+
+// Goods sent on a delivery challan leave stock when they are delivered, so the
+// invoice raised against the challan later posts no cost of goods
+export function getDeliveryPostings(costOfGoods: number): PostingLine[] {
+  return nonZero([debit("cost_of_goods_sold", costOfGoods), credit("inventory", costOfGoods)]);
+}
+
+export function getCreditNotePostings(creditNote: TaxSplit & { taxableValue: number; roundOff: number; total: number }, costOfGoods: number): PostingLine[] {
+  return nonZero([
+    debit("sales_returns", creditNote.taxableValue),
+    debit("output_cgst", creditNote.cgstAmount),
+    debit("output_sgst", creditNote.sgstAmount),
+    debit("output_igst", creditNote.igstAmount),
+    debit("round_off", creditNote.roundOff),
+    credit("receivables", creditNote.total),
+    debit("inventory", costOfGoods),
+    credit("cost_of_goods_sold", costOfGoods),
+  ]);
+}
+
+type PurchaseLine = TaxSplit & { taxableValue: number; itcEligible: boolean };
+
+// Tax on lines with blocked credit is part of what the goods cost us. Goods
+// leave stock on the same basis, so the inventory account clears to zero.
+export function getPurchaseLineCost(line: PurchaseLine): number {
+  return line.itcEligible ? line.taxableValue : line.taxableValue + line.cgstAmount + line.sgstAmount + line.igstAmount;
+}
+
+export function getPurchasePostings(lines: PurchaseLine[], total: number): PostingLine[] {
+  let stock = 0;
+  const credits = { cgstAmount: 0, sgstAmount: 0, igstAmount: 0 };
+  for (const line of lines) {
+    stock += getPurchaseLineCost(line);
+    if (line.itcEligible) {
+      credits.cgstAmount += line.cgstAmount;
+      credits.sgstAmount += line.sgstAmount;
+      credits.igstAmount += line.igstAmount;
+    }
+  }
+  const debited = round2(stock) + round2(credits.cgstAmount) + round2(credits.sgstAmount) + round2(credits.igstAmount);
+
+  return nonZero([
+    debit("inventory", stock),
+    debit("input_cgst", credits.cgstAmount),
+    debit("input_sgst", credits.sgstAmount),
+    debit("input_igst", credits.igstAmount),
+    debit("round_off", total - debited),
+    credit("payables", total),
+  ]);
+}
+
+export function getReceiptPostings(amount: number, mode: string): PostingLine[] {
+  return [debit(getPaymentAccountKey(mode), amount), credit("receivables", amount)];
+}
+
+export function getVendorPaymentPostings(amount: number, mode: string): PostingLine[] {
+  return [debit("payables", amount), credit(getPaymentAccountKey(mode), amount)];
+}
+
+export function getStockWriteOffPostings(value: number): PostingLine[] {
+  return nonZero([debit("stock_write_off", value), credit("inventory", value)]);
+}
@@ -0,0 +1,58 @@
+import { calculateLineTax, getPlaceOfSupply, getSupplyType, isValidGstin, round2, type SupplyType, type TaxLineResult } from "./gst";
+
+// Input tax on purchases is taken as the vendor charged it, since that is what
+// their GSTR-1 reports and what the credit can be matched against. The default
+// worked out from the item rate is only a starting point for data entry.
+
+// Rounding on a vendor's invoice may differ from ours by up to this much per line
+export const PURCHASE_TAX_TOLERANCE = 1;
+
+export interface PurchaseTaxInput {
+  taxableValue: number;
+  gstRate: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+}
+
+// Unregistered vendors cannot charge GST, so their bills carry no tax at all
+export function getVendorSupplyType(
+  vendor: { state?: string | null; gstin?: string | null },
+  companyStateCode?: string,
+): SupplyType | "unregistered" {
+  if (!isValidGstin(vendor.gstin)) return "unregistered";
+  return getSupplyType(companyStateCode, getPlaceOfSupply(vendor, companyStateCode));
+}
+
+export function getDefaultPurchaseTax(taxableValue: number, gstRate: number, supplyType: SupplyType | "unregistered"): TaxLineResult {
+  if (supplyType === "unregistered") {
+    return calculateLineTax({ taxableValue, gstRate: 0 }, "intra");
+  }
+  return calculateLineTax({ taxableValue, gstRate }, supplyType);
+}
+
+// Returns why the tax entered on a line cannot be right, or undefined when it is fine
+export function getPurchaseTaxError(line: PurchaseTaxInput, supplyType: SupplyType | "unregistered"): string | undefined {
+  const cgst = line.cgstAmount ?? 0;
+  const sgst = line.sgstAmount ?? 0;
+  const igst = line.igstAmount ?? 0;
+  const tax = cgst + sgst + igst;
+
+  if (supplyType === "unregistered") {
+    return tax > 0 ? "An unregistered vendor cannot charge GST" : undefined;
+  }
+  if (supplyType === "inter" && cgst + sgst > 0) {
+    return "An inter-state purchase is charged IGST, not CGST/SGST";
+  }
+  if (supplyType === "intra" && igst > 0) {
+    return "An intra-state purchase is charged CGST and SGST, not IGST";
+  }
+  if (Math.abs(cgst - sgst) > PURCHASE_TAX_TOLERANCE) {
+    return "CGST and SGST must be equal";
+  }
+  const expected = round2(line.taxableValue * line.gstRate / 100);
+  if (Math.abs(tax - expected) > PURCHASE_TAX_TOLERANCE) {
+    return `Tax of ₹${tax.toFixed(2)} does not match ${line.gstRate}% of ₹${line.taxableValue.toFixed(2)}`;
+  }
+  return undefined;
+}
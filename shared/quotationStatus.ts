@@ -0,0 +1,33 @@
+// Quotation lifecycle. A quotation becomes a bill at most once; converting it
+// also marks it accepted.
+
+export const QUOTATION_STATUSES = ["draft", "sent", "accepted", "expired"] as const;
+
+export type QuotationStatus = typeof QUOTATION_STATUSES[number];
+
+const QUOTATION_STATUS_TRANSITIONS: Record<QuotationStatus, readonly QuotationStatus[]> = {
+  draft: ["sent", "accepted", "expired"],
+  sent: ["accepted", "expired"],
+  accepted: [],
+  expired: [],
+};
+
+export function canTransitionQuotation(from: string, to: string): boolean {
+  return QUOTATION_STATUS_TRANSITIONS[from as QuotationStatus]?.includes(to as QuotationStatus) ?? false;
+}
+
+// Open quotations lapse at the end of their validity date
+export function isQuotationLapsed(quotation: { status: string; validUntil: Date | string | null }, now = new Date()): boolean {
+  if (!quotation.validUntil || (quotation.status !== "draft" && quotation.status !== "sent")) return false;
+  const validUntil = new Date(quotation.validUntil);
+  validUntil.setHours(23, 59, 59, 999);
+  return validUntil < now;
+}
+
+export function canConvertQuotation(quotation: { status: string; convertedBillId: string | null }): boolean {
+  return !quotation.convertedBillId && quotation.status !== "expired";
+}
+
+export function getQuotationStatusLabel(status: string): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
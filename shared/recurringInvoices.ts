@@ -0,0 +1,62 @@
+// Recurring invoice schedules. Each run raises an ordinary bill from the
+// template lines; run dates are counted from the start date so a schedule
+// starting on the 31st bills on the last day of shorter months without drifting.
+
+export const RECURRING_FREQUENCIES = ["monthly", "quarterly", "yearly"] as const;
+
+export type RecurringFrequency = typeof RECURRING_FREQUENCIES[number];
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export const RECURRING_INVOICE_STATUSES = ["active", "paused", "completed"] as const;
+
+export type RecurringInvoiceStatus = typeof RECURRING_INVOICE_STATUSES[number];
+
+export const RECURRING_RUN_STATUSES = ["generated", "failed"] as const;
+
+export type RecurringRunStatus = typeof RECURRING_RUN_STATUSES[number];
+
+export interface RecurringSchedule {
+  frequency: string;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+}
+
+// The nth run date after the start date, clamped to the end of short months
+export function getRecurringRunDate(startDate: Date | string, frequency: RecurringFrequency, index: number): Date {
+  const start = new Date(startDate);
+  const months = start.getMonth() + index * FREQUENCY_MONTHS[frequency];
+  const lastDay = new Date(start.getFullYear(), months + 1, 0).getDate();
+  const runDate = new Date(start);
+  runDate.setFullYear(start.getFullYear(), months, Math.min(start.getDate(), lastDay));
+  return runDate;
+}
+
+// The first run date strictly after `after`, or null once the schedule has ended
+export function getNextRunDate(schedule: RecurringSchedule, after: Date): Date | null {
+  const frequency = schedule.frequency as RecurringFrequency;
+  const endDate = schedule.endDate ? endOfDay(new Date(schedule.endDate)) : null;
+
+  for (let index = 0; ; index++) {
+    const runDate = getRecurringRunDate(schedule.startDate, frequency, index);
+    if (endDate && runDate > endDate) return null;
+    if (runDate > after) return runDate;
+  }
+}
+
+export function getRecurringFrequencyLabel(frequency: string): string {
+  return frequency.charAt(0).toUpperCase() + frequency.slice(1);
+}
+
+export function getRecurringInvoiceStatusLabel(status: string): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function endOfDay(date: Date): Date {
+  date.setHours(23, 59, 59, 999);
+  return date;
+}
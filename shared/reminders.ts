@@ -0,0 +1,69 @@
+// Payment reminders. A rule fires a set number of days before or after a bill's
+// due date, optionally repeating, and its subject and body are templates with
+// {{placeholders}} filled in from the bill.
+
+export const REMINDER_STATUSES = ["queued", "sent", "failed"] as const;
+
+export type ReminderStatus = typeof REMINDER_STATUSES[number];
+
+export const REMINDER_PLACEHOLDERS = {
+  customerName: "Customer name",
+  billNumber: "Bill number",
+  billDate: "Bill date",
+  dueDate: "Due date",
+  total: "Bill total",
+  amountDue: "Balance still owed",
+  daysOverdue: "Days past the due date (0 until then)",
+  companyName: "Your company's trade or legal name",
+} as const;
+
+export type ReminderValues = Record<keyof typeof REMINDER_PLACEHOLDERS, string>;
+
+// Offered when the first rules are set up
+export const DEFAULT_REMINDER_SUBJECT = "Payment reminder: {{billNumber}} due {{dueDate}}";
+
+export const DEFAULT_REMINDER_BODY = `Dear {{customerName}},
+
+This is a reminder that {{amountDue}} is outstanding on bill {{billNumber}} dated {{billDate}}, due on {{dueDate}}.
+
+If you have already paid, please ignore this message.
+
+Regards,
+{{companyName}}`;
+
+export interface ReminderTiming {
+  daysFromDue: number; // negative before the due date
+  repeatEveryDays?: number | null;
+}
+
+// Whole days from the due date to today; negative while the bill isn't due yet
+export function getDaysFromDue(dueDate: Date | string, today = new Date()): number {
+  const due = new Date(dueDate);
+  due.setHours(0, 0, 0, 0);
+  const start = new Date(today);
+  start.setHours(0, 0, 0, 0);
+  return Math.round((start.getTime() - due.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// Reminders are only sent on the day they fall due; a day missed while the
+// server was down is not made up later
+export function isReminderDue(rule: ReminderTiming, daysFromDue: number): boolean {
+  if (daysFromDue === rule.daysFromDue) return true;
+  const repeat = rule.repeatEveryDays ?? 0;
+  return repeat > 0 && daysFromDue > rule.daysFromDue && (daysFromDue - rule.daysFromDue) % repeat === 0;
+}
+
+export function describeReminderTiming(rule: ReminderTiming): string {
+  const days = Math.abs(rule.daysFromDue);
+  const when = rule.daysFromDue === 0
+    ? "On the due date"
+    : `${days} day${days === 1 ? "" : "s"} ${rule.daysFromDue < 0 ? "before" : "after"} the due date`;
+  return rule.repeatEveryDays ? `${when}, then every ${rule.repeatEveryDays} days` : when;
+}
+
+// Unknown placeholders are left as typed so a mistake shows up in the email
+export function renderReminderTemplate(template: string, values: ReminderValues): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    Object.hasOwn(values, key) ? values[key as keyof ReminderValues] : match
+  );
+}
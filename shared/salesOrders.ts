@@ -0,0 +1,25 @@
+// Sales order fulfilment. Undelivered quantities on open orders are reserved
+// against stock; delivery challans move the goods out and advance the status.
+
+export const SALES_ORDER_STATUSES = ["open", "partially_delivered", "delivered", "closed"] as const;
+
+export type SalesOrderStatus = typeof SALES_ORDER_STATUSES[number];
+
+// Statuses whose undelivered lines still hold a reservation
+export const RESERVING_SALES_ORDER_STATUSES: readonly SalesOrderStatus[] = ["open", "partially_delivered"];
+
+export function isSalesOrderOpen(order: { status: string }): boolean {
+  return RESERVING_SALES_ORDER_STATUSES.includes(order.status as SalesOrderStatus);
+}
+
+export function deriveSalesOrderStatus(lines: { quantity: number; deliveredQuantity: number }[]): SalesOrderStatus {
+  const delivered = lines.reduce((sum, line) => sum + line.deliveredQuantity, 0);
+  if (lines.every(line => line.deliveredQuantity >= line.quantity)) return "delivered";
+  return delivered > 0 ? "partially_delivered" : "open";
+}
+
+export function getSalesOrderStatusLabel(status: string): string {
+  return status === "partially_delivered"
+    ? "Partially Delivered"
+    : status.charAt(0).toUpperCase() + status.slice(1);
+}
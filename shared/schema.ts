@@ -10,9 +10,24 @@ import {
   decimal,
   integer,
   boolean,
+  primaryKey,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DISCOUNT_TYPES, GSTIN_REGEX, PAN_REGEX, getStateCode } from "./gst";
+import { DOCUMENT_TYPES, formatDocumentNumber, hasYearToken, type DocumentType } from "./numbering";
+import { PAYMENT_MODES, type PaymentMode } from "./payments";
+import { QUOTATION_STATUSES } from "./quotationStatus";
+import { HSN_CODE_REGEX, TURNOVER_BANDS } from "./hsn";
+import { GSTR1_PERIOD_REGEX } from "./gstr1";
+import type { Gstr2bAction, Gstr2bMatchStatus } from "./gstr2b";
+import { RECURRING_FREQUENCIES, type RecurringInvoiceStatus, type RecurringRunStatus } from "./recurringInvoices";
+import type { ReminderStatus } from "./reminders";
+import type { CustomerStatementSummary } from "./statement";
+import type { AgingDocumentInput, AgingReport } from "./aging";
+import type { PayableStatus } from "./payables";
+import { ACCOUNT_GROUPS, type AccountGroup, type AccountType, type JournalSource } from "./ledger";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -44,6 +59,7 @@ export const items = pgTable("items", {
   name: varchar("name").notNull(),
   description: text("description"),
   category: varchar("category").notNull(),
+  hsnCode: varchar("hsn_code", { length: 8 }), // HSN for goods, SAC for services
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("18.00"),
   unit: varchar("unit").notNull().default("pcs"),
@@ -63,6 +79,7 @@ export const customers = pgTable("customers", {
   city: varchar("city"),
   state: varchar("state"),
   pinCode: varchar("pin_code"),
+  creditDays: integer("credit_days").notNull().default(30), // due date of each bill to this customer
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -79,6 +96,9 @@ export const vendors = pgTable("vendors", {
   state: varchar("state"),
   pinCode: varchar("pin_code"),
   category: varchar("category"),
+  creditDays: integer("credit_days").notNull().default(30), // due date of each purchase from this vendor
+  flaggedAt: timestamp("flagged_at"), // set while the vendor's GST filings need following up
+  flagNote: text("flag_note"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -95,7 +115,7 @@ export const inventory = pgTable("inventory", {
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   itemId: varchar("item_id").notNull().references(() => items.id),
-  type: varchar("type").notNull(), // 'purchase', 'sale', 'adjustment'
+  type: varchar("type").notNull(), // 'purchase', 'sale', 'delivery', 'adjustment', 'cancellation', 'sales_return'
   quantity: integer("quantity").notNull(),
   reason: varchar("reason"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -108,10 +128,37 @@ export const bills = pgTable("bills", {
   customerId: varchar("customer_id").notNull().references(() => customers.id),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }), // GST state code of the recipient
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // bill-level, before tax
+  roundOff: decimal("round_off", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").notNull().default("pending"), // pending, paid, cancelled
+  status: varchar("status").notNull().default("pending"), // pending, partially_paid, overdue, paid, cancelled
   billDate: timestamp("bill_date").defaultNow(),
   dueDate: timestamp("due_date"),
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id),
+  cancellationReason: text("cancellation_reason"),
+  // Returned by the Invoice Registration Portal once the e-invoice is uploaded
+  irn: varchar("irn", { length: 64 }).unique(),
+  irnAckNumber: varchar("irn_ack_number"),
+  irnAckDate: timestamp("irn_ack_date"),
+  signedQrCode: text("signed_qr_code"),
+  // E-way bill Part B, and the EWB the portal generated from it
+  transportMode: varchar("transport_mode"), // road, rail, air, ship
+  transportDistance: integer("transport_distance"), // km
+  transporterId: varchar("transporter_id", { length: 15 }),
+  transporterName: varchar("transporter_name"),
+  vehicleNumber: varchar("vehicle_number"),
+  transportDocNumber: varchar("transport_doc_number"),
+  transportDocDate: timestamp("transport_doc_date"),
+  ewbNumber: varchar("ewb_number", { length: 12 }),
+  ewbDate: timestamp("ewb_date"),
+  ewbValidUpto: timestamp("ewb_valid_upto"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -121,9 +168,18 @@ export const billItems = pgTable("bill_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   billId: varchar("bill_id").notNull().references(() => bills.id),
   itemId: varchar("item_id").notNull().references(() => items.id),
+  hsnCode: varchar("hsn_code", { length: 8 }), // copied from the item when the document is saved
   quantity: integer("quantity").notNull(),
   rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
 });
 
 // Purchases table
@@ -131,8 +187,16 @@ export const purchases = pgTable("purchases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   purchaseNumber: varchar("purchase_number").notNull().unique(),
   vendorId: varchar("vendor_id").notNull().references(() => vendors.id),
+  vendorInvoiceNumber: varchar("vendor_invoice_number", { length: 16 }), // as printed on the vendor's tax invoice
+  vendorInvoiceDate: timestamp("vendor_invoice_date"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
   purchaseDate: timestamp("purchase_date").defaultNow(),
+  dueDate: timestamp("due_date"),
+  status: varchar("status").notNull().default("unpaid"), // unpaid, partially_paid, overdue, paid
   createdBy: varchar("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -145,8 +209,423 @@ export const purchaseItems = pgTable("purchase_items", {
   quantity: integer("quantity").notNull(),
   rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  itcEligible: boolean("itc_eligible").notNull().default(true), // false for blocked credits, e.g. section 17(5)
+});
+
+// Last GSTR-2B statement imported for each tax period. Importing again
+// replaces the period's entries.
+export const gstr2bImports = pgTable("gstr2b_imports", {
+  period: varchar("period", { length: 7 }).primaryKey(), // YYYY-MM
+  fileName: varchar("file_name").notNull(),
+  invoiceCount: integer("invoice_count").notNull(),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  importedBy: varchar("imported_by").notNull().references(() => users.id),
+  importedAt: timestamp("imported_at").defaultNow(),
+});
+
+// Reconciliation result per 2B invoice, plus one row per purchase the books
+// have but 2B does not (those carry no 2B figures)
+export const gstr2bEntries = pgTable("gstr2b_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  period: varchar("period", { length: 7 }).notNull().references(() => gstr2bImports.period),
+  supplierGstin: varchar("supplier_gstin", { length: 15 }).notNull(),
+  supplierName: varchar("supplier_name"),
+  invoiceNumber: varchar("invoice_number"),
+  invoiceDate: timestamp("invoice_date"),
+  invoiceValue: decimal("invoice_value", { precision: 12, scale: 2 }),
+  taxableValue: decimal("taxable_value", { precision: 12, scale: 2 }),
+  igstAmount: decimal("igst_amount", { precision: 12, scale: 2 }),
+  cgstAmount: decimal("cgst_amount", { precision: 12, scale: 2 }),
+  sgstAmount: decimal("sgst_amount", { precision: 12, scale: 2 }),
+  itcAvailable: boolean("itc_available"),
+  reverseCharge: boolean("reverse_charge"),
+  purchaseId: varchar("purchase_id").references(() => purchases.id),
+  status: varchar("status").notNull(), // see GSTR2B_MATCH_STATUSES
+  differences: text("differences").array().notNull().default(sql`'{}'::text[]`),
+  action: varchar("action"), // see GSTR2B_ACTIONS; what was last done about the row
+  actionBy: varchar("action_by").references(() => users.id),
+  actionAt: timestamp("action_at"),
+}, (table) => [index("IDX_gstr2b_entries_period").on(table.period)]);
+
+// Credit notes table. Issued against a bill for goods returned; the tax on each
+// line mirrors the original bill line so the GST liability is reversed exactly.
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteNumber: varchar("credit_note_number").notNull().unique(),
+  billId: varchar("bill_id").notNull().references(() => bills.id),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  creditNoteDate: timestamp("credit_note_date").defaultNow(),
+  reason: text("reason").notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }),
+  roundOff: decimal("round_off", { precision: 10, scale: 2 }).notNull().default("0"), // the bill's round-off, on the note that clears it
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Credit note items table
+export const creditNoteItems = pgTable("credit_note_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteId: varchar("credit_note_id").notNull().references(() => creditNotes.id),
+  billItemId: varchar("bill_item_id").notNull().references(() => billItems.id),
+  itemId: varchar("item_id").notNull().references(() => items.id),
+  hsnCode: varchar("hsn_code", { length: 8 }), // copied from the item when the document is saved
+  quantity: integer("quantity").notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// Payments table. A receipt from a customer, split across one or more of
+// their bills through payment allocations.
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentNumber: varchar("payment_number").notNull().unique(),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  paymentDate: timestamp("payment_date").defaultNow(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  mode: varchar("mode").notNull(), // cash, upi, card, cheque, bank_transfer
+  referenceNumber: varchar("reference_number"), // UPI ref, cheque no., UTR, ...
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payment allocations table
+export const paymentAllocations = pgTable("payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id),
+  billId: varchar("bill_id").notNull().references(() => bills.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+});
+
+// Vendor payments table. Like customer receipts, each payment is split across
+// the purchases it settles.
+export const vendorPayments = pgTable("vendor_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentNumber: varchar("payment_number").notNull().unique(),
+  vendorId: varchar("vendor_id").notNull().references(() => vendors.id),
+  paymentDate: timestamp("payment_date").defaultNow(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  mode: varchar("mode").notNull(), // cash, upi, card, cheque, bank_transfer
+  referenceNumber: varchar("reference_number"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const vendorPaymentAllocations = pgTable("vendor_payment_allocations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => vendorPayments.id),
+  purchaseId: varchar("purchase_id").notNull().references(() => purchases.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+});
+
+// Quotations table. A price quote with the same lines and tax split as a bill;
+// stock is only touched once it is converted into a bill.
+export const quotations = pgTable("quotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationNumber: varchar("quotation_number").notNull().unique(),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  quotationDate: timestamp("quotation_date").defaultNow(),
+  validUntil: timestamp("valid_until").notNull(),
+  terms: text("terms"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // bill-level, before tax
+  roundOff: decimal("round_off", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status").notNull().default("draft"), // draft, sent, accepted, expired
+  convertedBillId: varchar("converted_bill_id").references(() => bills.id),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Quotation items table
+export const quotationItems = pgTable("quotation_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationId: varchar("quotation_id").notNull().references(() => quotations.id),
+  itemId: varchar("item_id").notNull().references(() => items.id),
+  hsnCode: varchar("hsn_code", { length: 8 }), // copied from the item when the document is saved
+  quantity: integer("quantity").notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
 });
 
+// Sales orders table. Undelivered quantities on open orders are reserved
+// against stock until a delivery challan ships them or the order is closed.
+export const salesOrders = pgTable("sales_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderNumber: varchar("order_number").notNull().unique(),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  orderDate: timestamp("order_date").defaultNow(),
+  expectedDeliveryDate: timestamp("expected_delivery_date"),
+  notes: text("notes"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  gstAmount: decimal("gst_amount", { precision: 10, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // bill-level, before tax
+  roundOff: decimal("round_off", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status").notNull().default("open"), // open, partially_delivered, delivered, closed
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sales order items table
+export const salesOrderItems = pgTable("sales_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  salesOrderId: varchar("sales_order_id").notNull().references(() => salesOrders.id),
+  itemId: varchar("item_id").notNull().references(() => items.id),
+  hsnCode: varchar("hsn_code", { length: 8 }), // copied from the item when the document is saved
+  quantity: integer("quantity").notNull(),
+  deliveredQuantity: integer("delivered_quantity").notNull().default(0),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxableValue: decimal("taxable_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  cgstAmount: decimal("cgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  sgstAmount: decimal("sgst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  igstAmount: decimal("igst_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// Delivery challans table. Each challan ships part of one sales order and is
+// invoiced later, possibly together with other challans for the same customer.
+export const deliveryChallans = pgTable("delivery_challans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  challanNumber: varchar("challan_number").notNull().unique(),
+  salesOrderId: varchar("sales_order_id").notNull().references(() => salesOrders.id),
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  challanDate: timestamp("challan_date").defaultNow(),
+  vehicleNumber: varchar("vehicle_number"),
+  transportMode: varchar("transport_mode"), // road, rail, air, ship
+  transportDistance: integer("transport_distance"), // km
+  transporterId: varchar("transporter_id", { length: 15 }),
+  transporterName: varchar("transporter_name"),
+  transportDocNumber: varchar("transport_doc_number"),
+  transportDocDate: timestamp("transport_doc_date"),
+  ewbNumber: varchar("ewb_number", { length: 12 }),
+  ewbDate: timestamp("ewb_date"),
+  ewbValidUpto: timestamp("ewb_valid_upto"),
+  notes: text("notes"),
+  billId: varchar("bill_id").references(() => bills.id), // set once invoiced
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Delivery challan items table
+export const deliveryChallanItems = pgTable("delivery_challan_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  challanId: varchar("challan_id").notNull().references(() => deliveryChallans.id),
+  salesOrderItemId: varchar("sales_order_item_id").notNull().references(() => salesOrderItems.id),
+  itemId: varchar("item_id").notNull().references(() => items.id),
+  quantity: integer("quantity").notNull(),
+});
+
+// Recurring invoice templates. The scheduler raises a bill from the lines on
+// each run date and moves nextRunDate on; it is cleared once the schedule ends.
+export const recurringInvoices = pgTable("recurring_invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(), // e.g. "AMC - Block A lifts"
+  customerId: varchar("customer_id").notNull().references(() => customers.id),
+  frequency: varchar("frequency").notNull(), // monthly, quarterly, yearly
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  nextRunDate: timestamp("next_run_date"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(30), // due date of each bill
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+  status: varchar("status").notNull().default("active"), // active, paused, completed
+  pausedAt: timestamp("paused_at"),
+  lastError: text("last_error"), // why the last run failed; the schedule is paused until resumed
+  createdBy: varchar("created_by").notNull().references(() => users.id), // bills are raised in their name
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Recurring invoice lines, billed at the contracted rate on every run
+export const recurringInvoiceItems = pgTable("recurring_invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recurringInvoiceId: varchar("recurring_invoice_id").notNull().references(() => recurringInvoices.id),
+  itemId: varchar("item_id").notNull().references(() => items.id),
+  quantity: integer("quantity").notNull(),
+  rate: decimal("rate", { precision: 10, scale: 2 }).notNull(),
+  discountType: varchar("discount_type").notNull().default("percent"), // percent, flat
+  discountValue: decimal("discount_value", { precision: 10, scale: 2 }).notNull().default("0"),
+});
+
+// One row per scheduled run: the bill it raised, or why it failed
+export const recurringInvoiceRuns = pgTable("recurring_invoice_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recurringInvoiceId: varchar("recurring_invoice_id").notNull().references(() => recurringInvoices.id),
+  runDate: timestamp("run_date").notNull(), // the scheduled date, used as the bill date
+  status: varchar("status").notNull(), // generated, failed
+  billId: varchar("bill_id").references(() => bills.id),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_recurring_invoice_runs_template").on(table.recurringInvoiceId)]);
+
+// Payment reminder rules, each with its own email template
+export const reminderRules = pgTable("reminder_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  daysFromDue: integer("days_from_due").notNull(), // -3 is three days before the due date
+  repeatEveryDays: integer("repeat_every_days"), // keep reminding until paid
+  subject: varchar("subject").notNull(),
+  body: text("body").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Reminder history per bill. Scheduled reminders are claimed by inserting the
+// row first, so the unique index stops a rule firing twice for a bill in a day.
+export const billReminders = pgTable("bill_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  billId: varchar("bill_id").notNull().references(() => bills.id),
+  ruleId: varchar("rule_id").references(() => reminderRules.id, { onDelete: "set null" }),
+  scheduledFor: timestamp("scheduled_for").notNull(), // start of the day it fell due, or the send time when sent by hand
+  recipient: varchar("recipient"),
+  subject: varchar("subject").notNull(),
+  body: text("body").notNull(),
+  transport: varchar("transport").notNull(), // smtp, file, console
+  status: varchar("status").notNull().default("queued"), // queued, sent, failed
+  error: text("error"),
+  sentBy: varchar("sent_by").references(() => users.id), // set when sent by hand
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_bill_reminders_rule_day").on(table.billId, table.ruleId, table.scheduledFor)]);
+
+// Company settings table (single row keyed "default"), printed on every document
+export const companySettings = pgTable("company_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  legalName: varchar("legal_name").notNull(),
+  tradeName: varchar("trade_name"),
+  addressLine1: varchar("address_line1").notNull(),
+  addressLine2: varchar("address_line2"),
+  city: varchar("city").notNull(),
+  state: varchar("state").notNull(),
+  stateCode: varchar("state_code", { length: 2 }).notNull(),
+  pinCode: varchar("pin_code").notNull(),
+  gstin: varchar("gstin"),
+  pan: varchar("pan"),
+  turnoverBand: varchar("turnover_band").notNull().default("up_to_5_crore"), // decides the HSN digits required on invoices
+  phone: varchar("phone"),
+  email: varchar("email"),
+  logo: text("logo"), // data URL, so documents can embed it without a file store
+  bankName: varchar("bank_name"),
+  bankAccountName: varchar("bank_account_name"),
+  bankAccountNumber: varchar("bank_account_number"),
+  bankIfsc: varchar("bank_ifsc"),
+  bankBranch: varchar("bank_branch"),
+  invoiceTerms: text("invoice_terms"),
+  roundOffInvoices: boolean("round_off_invoices").notNull().default(true), // totals to the nearest rupee
+  signatoryName: varchar("signatory_name"),
+  signatoryDesignation: varchar("signatory_designation"),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Numbering series per document type (bill, purchase, ...)
+export const documentSeries = pgTable("document_series", {
+  documentType: varchar("document_type").primaryKey(),
+  prefix: varchar("prefix").notNull(),
+  suffix: varchar("suffix").notNull().default(""),
+  padding: integer("padding").notNull().default(4),
+  resetEveryFinancialYear: boolean("reset_every_financial_year").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last number handed out per series and period ("25-26", or "all" when the
+// series never resets). Incremented with an upsert inside the transaction that
+// saves the document, so numbers never collide and a failed save leaves no gap.
+export const documentSeriesCounters = pgTable(
+  "document_series_counters",
+  {
+    documentType: varchar("document_type").notNull(),
+    periodKey: varchar("period_key").notNull(),
+    lastNumber: integer("last_number").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.documentType, table.periodKey] })],
+);
+
+// Chart of accounts. System accounts carry the key automatic postings look
+// them up by, so they can be renamed but not regrouped or deactivated.
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 6 }).notNull().unique(),
+  name: varchar("name").notNull(),
+  type: varchar("type").notNull(), // asset, liability, equity, income, expense; follows the group
+  group: varchar("group").notNull(), // see ACCOUNT_GROUPS
+  systemKey: varchar("system_key").unique(), // see SYSTEM_ACCOUNT_KEYS
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Journal entries, entered by hand as journal vouchers or posted when a bill,
+// purchase, payment or stock write-off is saved (see JOURNAL_SOURCES)
+export const journalEntries = pgTable("journal_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryNumber: varchar("entry_number").notNull().unique(),
+  entryDate: timestamp("entry_date").notNull(),
+  narration: text("narration").notNull(),
+  sourceType: varchar("source_type").notNull().default("manual"),
+  sourceId: varchar("source_id"), // the document that posted it
+  sourceNumber: varchar("source_number"),
+  createdBy: varchar("created_by").references(() => users.id), // empty for postings made by the scheduler
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_journal_entries_date").on(table.entryDate),
+  index("IDX_journal_entries_source").on(table.sourceType, table.sourceId),
+]);
+
+// Each line is either a debit or a credit; an entry's lines always balance
+export const journalLines = pgTable("journal_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entryId: varchar("entry_id").notNull().references(() => journalEntries.id),
+  accountId: varchar("account_id").notNull().references(() => ledgerAccounts.id),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default("0"),
+}, (table) => [
+  index("IDX_journal_lines_entry").on(table.entryId),
+  index("IDX_journal_lines_account").on(table.accountId),
+]);
+
 // Relations
 export const itemsRelations = relations(items, ({ many }) => ({
   inventory: many(inventory),
@@ -164,10 +643,15 @@ export const inventoryRelations = relations(inventory, ({ one }) => ({
 
 export const customersRelations = relations(customers, ({ many }) => ({
   bills: many(bills),
+  creditNotes: many(creditNotes),
+  payments: many(payments),
+  quotations: many(quotations),
+  salesOrders: many(salesOrders),
 }));
 
 export const vendorsRelations = relations(vendors, ({ many }) => ({
   purchases: many(purchases),
+  payments: many(vendorPayments),
 }));
 
 export const billsRelations = relations(bills, ({ one, many }) => ({
@@ -180,6 +664,8 @@ export const billsRelations = relations(bills, ({ one, many }) => ({
     references: [users.id],
   }),
   billItems: many(billItems),
+  creditNotes: many(creditNotes),
+  paymentAllocations: many(paymentAllocations),
 }));
 
 export const billItemsRelations = relations(billItems, ({ one }) => ({
@@ -193,6 +679,145 @@ export const billItemsRelations = relations(billItems, ({ one }) => ({
   }),
 }));
 
+export const creditNotesRelations = relations(creditNotes, ({ one, many }) => ({
+  bill: one(bills, {
+    fields: [creditNotes.billId],
+    references: [bills.id],
+  }),
+  customer: one(customers, {
+    fields: [creditNotes.customerId],
+    references: [customers.id],
+  }),
+  creditNoteItems: many(creditNoteItems),
+}));
+
+export const creditNoteItemsRelations = relations(creditNoteItems, ({ one }) => ({
+  creditNote: one(creditNotes, {
+    fields: [creditNoteItems.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  billItem: one(billItems, {
+    fields: [creditNoteItems.billItemId],
+    references: [billItems.id],
+  }),
+  item: one(items, {
+    fields: [creditNoteItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [payments.customerId],
+    references: [customers.id],
+  }),
+  allocations: many(paymentAllocations),
+}));
+
+export const paymentAllocationsRelations = relations(paymentAllocations, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentAllocations.paymentId],
+    references: [payments.id],
+  }),
+  bill: one(bills, {
+    fields: [paymentAllocations.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const vendorPaymentsRelations = relations(vendorPayments, ({ one, many }) => ({
+  vendor: one(vendors, {
+    fields: [vendorPayments.vendorId],
+    references: [vendors.id],
+  }),
+  allocations: many(vendorPaymentAllocations),
+}));
+
+export const vendorPaymentAllocationsRelations = relations(vendorPaymentAllocations, ({ one }) => ({
+  payment: one(vendorPayments, {
+    fields: [vendorPaymentAllocations.paymentId],
+    references: [vendorPayments.id],
+  }),
+  purchase: one(purchases, {
+    fields: [vendorPaymentAllocations.purchaseId],
+    references: [purchases.id],
+  }),
+}));
+
+export const quotationsRelations = relations(quotations, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [quotations.customerId],
+    references: [customers.id],
+  }),
+  convertedBill: one(bills, {
+    fields: [quotations.convertedBillId],
+    references: [bills.id],
+  }),
+  quotationItems: many(quotationItems),
+}));
+
+export const quotationItemsRelations = relations(quotationItems, ({ one }) => ({
+  quotation: one(quotations, {
+    fields: [quotationItems.quotationId],
+    references: [quotations.id],
+  }),
+  item: one(items, {
+    fields: [quotationItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const salesOrdersRelations = relations(salesOrders, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [salesOrders.customerId],
+    references: [customers.id],
+  }),
+  salesOrderItems: many(salesOrderItems),
+  deliveryChallans: many(deliveryChallans),
+}));
+
+export const salesOrderItemsRelations = relations(salesOrderItems, ({ one }) => ({
+  salesOrder: one(salesOrders, {
+    fields: [salesOrderItems.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  item: one(items, {
+    fields: [salesOrderItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const deliveryChallansRelations = relations(deliveryChallans, ({ one, many }) => ({
+  salesOrder: one(salesOrders, {
+    fields: [deliveryChallans.salesOrderId],
+    references: [salesOrders.id],
+  }),
+  customer: one(customers, {
+    fields: [deliveryChallans.customerId],
+    references: [customers.id],
+  }),
+  bill: one(bills, {
+    fields: [deliveryChallans.billId],
+    references: [bills.id],
+  }),
+  challanItems: many(deliveryChallanItems),
+}));
+
+export const deliveryChallanItemsRelations = relations(deliveryChallanItems, ({ one }) => ({
+  challan: one(deliveryChallans, {
+    fields: [deliveryChallanItems.challanId],
+    references: [deliveryChallans.id],
+  }),
+  salesOrderItem: one(salesOrderItems, {
+    fields: [deliveryChallanItems.salesOrderItemId],
+    references: [salesOrderItems.id],
+  }),
+  item: one(items, {
+    fields: [deliveryChallanItems.itemId],
+    references: [items.id],
+  }),
+}));
+
 export const purchasesRelations = relations(purchases, ({ one, many }) => ({
   vendor: one(vendors, {
     fields: [purchases.vendorId],
@@ -203,6 +828,7 @@ export const purchasesRelations = relations(purchases, ({ one, many }) => ({
     references: [users.id],
   }),
   purchaseItems: many(purchaseItems),
+  paymentAllocations: many(vendorPaymentAllocations),
 }));
 
 export const purchaseItemsRelations = relations(purchaseItems, ({ one }) => ({
@@ -216,7 +842,96 @@ export const purchaseItemsRelations = relations(purchaseItems, ({ one }) => ({
   }),
 }));
 
+export const recurringInvoicesRelations = relations(recurringInvoices, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [recurringInvoices.customerId],
+    references: [customers.id],
+  }),
+  recurringInvoiceItems: many(recurringInvoiceItems),
+  runs: many(recurringInvoiceRuns),
+}));
+
+export const recurringInvoiceItemsRelations = relations(recurringInvoiceItems, ({ one }) => ({
+  recurringInvoice: one(recurringInvoices, {
+    fields: [recurringInvoiceItems.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  item: one(items, {
+    fields: [recurringInvoiceItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const recurringInvoiceRunsRelations = relations(recurringInvoiceRuns, ({ one }) => ({
+  recurringInvoice: one(recurringInvoices, {
+    fields: [recurringInvoiceRuns.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  bill: one(bills, {
+    fields: [recurringInvoiceRuns.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const billRemindersRelations = relations(billReminders, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billReminders.billId],
+    references: [bills.id],
+  }),
+  rule: one(reminderRules, {
+    fields: [billReminders.ruleId],
+    references: [reminderRules.id],
+  }),
+}));
+
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ many }) => ({
+  journalLines: many(journalLines),
+}));
+
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  createdByUser: one(users, {
+    fields: [journalEntries.createdBy],
+    references: [users.id],
+  }),
+  lines: many(journalLines),
+}));
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  entry: one(journalEntries, {
+    fields: [journalLines.entryId],
+    references: [journalEntries.id],
+  }),
+  account: one(ledgerAccounts, {
+    fields: [journalLines.accountId],
+    references: [ledgerAccounts.id],
+  }),
+}));
+
+export const gstr2bEntriesRelations = relations(gstr2bEntries, ({ one }) => ({
+  purchase: one(purchases, {
+    fields: [gstr2bEntries.purchaseId],
+    references: [purchases.id],
+  }),
+}));
+
 // Insert schemas
+const optionalText = z.preprocess(
+  v => typeof v === "string" && v.trim() === "" ? null : v,
+  z.string().trim().nullish(),
+);
+
+// Discount inputs for bills, quotations and sales orders and their lines. The
+// discount amounts themselves are worked out on the server.
+const discountFields = {
+  discountType: z.enum(DISCOUNT_TYPES).optional(),
+  discountValue: z.coerce.number().min(0, "Discount cannot be negative").optional(),
+};
+
+const isDiscountWithinLimit = (data: { discountType?: string; discountValue?: number }) =>
+  data.discountType === "flat" || (data.discountValue ?? 0) <= 100;
+
+const discountLimitIssue = { path: ["discountValue"], message: "Percentage discount cannot exceed 100" };
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -227,20 +942,30 @@ export const insertItemSchema = createInsertSchema(items, {
   price: z.coerce.number().min(0, "Price must be positive"),
   gstRate: z.coerce.number().min(0, "GST rate must be positive"),
   lowStockThreshold: z.coerce.number().int().min(0, "Low stock threshold must be a positive integer"),
+  hsnCode: z.preprocess(
+    v => typeof v === "string" ? (v.trim() || null) : v,
+    z.string().regex(HSN_CODE_REGEX, "HSN/SAC code must be 4, 6 or 8 digits").nullish(),
+  ),
 }).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertCustomerSchema = createInsertSchema(customers).omit({
+export const insertCustomerSchema = createInsertSchema(customers, {
+  creditDays: z.coerce.number().int().min(0, "Credit days cannot be negative").max(365),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertVendorSchema = createInsertSchema(vendors).omit({
+export const insertVendorSchema = createInsertSchema(vendors, {
+  creditDays: z.coerce.number().int().min(0, "Credit days cannot be negative").max(365),
+}).omit({
   id: true,
+  flaggedAt: true,
+  flagNote: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -255,10 +980,10 @@ export const insertStockMovementSchema = createInsertSchema(stockMovements).omit
   createdAt: true,
 });
 
+// Amounts and the tax split are computed on the server from the item GST
+// rates and the customer's place of supply, so they are not accepted here.
+// The bill number is allocated from the numbering series when the bill is saved.
 export const insertBillSchema = createInsertSchema(bills, {
-  subtotal: z.coerce.number().min(0, "Subtotal must be positive"),
-  gstAmount: z.coerce.number().min(0, "GST amount must be positive"),
-  total: z.coerce.number().min(0, "Total must be positive"),
   billDate: z.preprocess(
     v => v === "" || v == null ? undefined : v,
     z.coerce.date().optional()
@@ -267,27 +992,426 @@ export const insertBillSchema = createInsertSchema(bills, {
     v => v === "" ? null : v,
     z.union([z.coerce.date(), z.null()]).optional()
   ),
+  ...discountFields,
 }).omit({
   id: true,
+  billNumber: true,
+  subtotal: true,
+  discountAmount: true,
+  roundOff: true,
+  gstAmount: true,
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+  placeOfSupply: true,
+  total: true,
+  status: true, // follows payments and cancellation
+  cancelledAt: true,
+  cancelledBy: true,
+  cancellationReason: true,
+  irn: true, // recorded after upload to the IRP
+  irnAckNumber: true,
+  irnAckDate: true,
+  signedQrCode: true,
+  transportMode: true, // set with the e-way bill details
+  transportDistance: true,
+  transporterId: true,
+  transporterName: true,
+  vehicleNumber: true,
+  transportDocNumber: true,
+  transportDocDate: true,
+  ewbNumber: true,
+  ewbDate: true,
+  ewbValidUpto: true,
   createdAt: true,
+}).refine(isDiscountWithinLimit, discountLimitIssue);
+
+export const cancelBillSchema = z.object({
+  reason: z.string().trim().min(3, "Please give a reason for cancelling").max(500),
+});
+
+export const recordBillIrnSchema = z.object({
+  irn: z.string().trim().regex(/^[0-9a-fA-F]{64}$/, "IRN is the 64-character hash returned by the IRP").transform(irn => irn.toLowerCase()),
+  ackNumber: z.string().trim().regex(/^\d{1,20}$/, "Acknowledgement number must be digits"),
+  ackDate: z.coerce.date(),
+  signedQrCode: z.string().trim().min(1, "Signed QR code is required"),
 });
 
 export const insertBillItemSchema = createInsertSchema(billItems, {
   quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
   rate: z.coerce.number().min(0, "Rate must be positive"),
-  amount: z.coerce.number().min(0, "Amount must be positive"),
+  ...discountFields,
 }).omit({
   id: true,
   billId: true,  // billId is added by the server, not sent by client
+  amount: true,
+  discountAmount: true,
+  hsnCode: true,
+  gstRate: true,
+  taxableValue: true,
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+}).refine(isDiscountWithinLimit, discountLimitIssue);
+
+// Only the bill lines and quantities being returned are sent; rates and tax are
+// taken from the original bill lines on the server.
+export const insertCreditNoteSchema = createInsertSchema(creditNotes, {
+  reason: z.string().trim().min(3, "Please give a reason for the credit note").max(500),
+  creditNoteDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+}).pick({
+  billId: true,
+  creditNoteDate: true,
+  reason: true,
+  createdBy: true,
+});
+
+export const insertCreditNoteItemSchema = z.object({
+  billItemId: z.string().min(1),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  mode: z.enum(Object.keys(PAYMENT_MODES) as [PaymentMode]),
+  paymentDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+}).omit({
+  id: true,
+  paymentNumber: true,
+  createdAt: true,
+});
+
+export const insertPaymentAllocationSchema = z.object({
+  billId: z.string().min(1),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+});
+
+export const insertVendorPaymentSchema = createInsertSchema(vendorPayments, {
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+  mode: z.enum(Object.keys(PAYMENT_MODES) as [PaymentMode]),
+  paymentDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+}).omit({
+  id: true,
+  paymentNumber: true,
+  createdAt: true,
+});
+
+export const insertVendorPaymentAllocationSchema = z.object({
+  purchaseId: z.string().min(1),
+  amount: z.coerce.number().positive("Amount must be greater than zero"),
+});
+
+// Like bills, amounts and tax are worked out on the server. New quotations
+// always start as drafts.
+export const insertQuotationSchema = createInsertSchema(quotations, {
+  quotationDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+  validUntil: z.coerce.date({ message: "Validity date is required" }),
+  terms: optionalText,
+  ...discountFields,
+}).omit({
+  id: true,
+  quotationNumber: true,
+  subtotal: true,
+  discountAmount: true,
+  roundOff: true,
+  gstAmount: true,
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+  placeOfSupply: true,
+  total: true,
+  status: true,
+  convertedBillId: true,
+  createdAt: true,
+}).refine(isDiscountWithinLimit, discountLimitIssue).refine(
+  data => !data.quotationDate || data.validUntil >= new Date(data.quotationDate.toDateString()),
+  { path: ["validUntil"], message: "Validity date cannot be before the quotation date" },
+);
+
+export const insertQuotationItemSchema = insertBillItemSchema;
+
+export const updateQuotationStatusSchema = z.object({
+  status: z.enum(QUOTATION_STATUSES),
+});
+
+export const insertSalesOrderSchema = createInsertSchema(salesOrders, {
+  orderDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+  expectedDeliveryDate: z.preprocess(
+    v => v === "" ? null : v,
+    z.union([z.coerce.date(), z.null()]).optional()
+  ),
+  notes: optionalText,
+  ...discountFields,
+}).omit({
+  id: true,
+  orderNumber: true,
+  subtotal: true,
+  discountAmount: true,
+  roundOff: true,
+  gstAmount: true,
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+  placeOfSupply: true,
+  total: true,
+  status: true, // follows deliveries
+  createdAt: true,
+}).refine(isDiscountWithinLimit, discountLimitIssue);
+
+export const insertSalesOrderItemSchema = insertBillItemSchema;
+
+// Items and rates come from the sales order; only what ships is sent
+export const insertDeliveryChallanSchema = createInsertSchema(deliveryChallans, {
+  challanDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+  vehicleNumber: optionalText,
+  notes: optionalText,
+}).pick({
+  salesOrderId: true,
+  challanDate: true,
+  vehicleNumber: true,
+  notes: true,
+  createdBy: true,
+});
+
+export const insertDeliveryChallanItemSchema = z.object({
+  salesOrderItemId: z.string().min(1),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+});
+
+export const invoiceChallansSchema = z.object({
+  challanIds: z.array(z.string().min(1)).min(1, "Select at least one delivery challan"),
+});
+
+// Totals are summed from the lines on the server
+export const insertPurchaseSchema = createInsertSchema(purchases, {
+  vendorInvoiceNumber: z.string().trim().min(1, "Vendor invoice number is required")
+    .max(16, "Invoice numbers are at most 16 characters"),
+  vendorInvoiceDate: z.coerce.date({ errorMap: () => ({ message: "Vendor invoice date is required" }) }),
+  purchaseDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+  // Worked out from the vendor's credit days when left blank
+  dueDate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.date().optional()
+  ),
+}).pick({
+  vendorId: true,
+  vendorInvoiceNumber: true,
+  vendorInvoiceDate: true,
+  purchaseDate: true,
+  dueDate: true,
+  createdBy: true,
+});
+
+// Taxable value, rate and tax default from the item and vendor when left out;
+// when sent they are the vendor's figures and are checked, not recomputed
+const optionalAmount = z.preprocess(
+  v => v === "" || v == null ? undefined : v,
+  z.coerce.number().min(0, "Amount cannot be negative").optional()
+);
+
+export const insertPurchaseItemSchema = z.object({
+  itemId: z.string().min(1, "Item is required"),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+  rate: z.coerce.number().min(0, "Rate must be positive"),
+  taxableValue: optionalAmount,
+  gstRate: z.preprocess(
+    v => v === "" || v == null ? undefined : v,
+    z.coerce.number().min(0).max(100).optional()
+  ),
+  cgstAmount: optionalAmount,
+  sgstAmount: optionalAmount,
+  igstAmount: optionalAmount,
+  itcEligible: z.boolean().default(true),
+});
+
+// The statement is parsed in the browser, so only the B2B invoices are sent
+const gstr2bInvoiceSchema = z.object({
+  supplierGstin: z.string().regex(GSTIN_REGEX, "Invalid supplier GSTIN"),
+  supplierName: z.string().max(200),
+  invoiceNumber: z.string().trim().min(1, "Invoice number is required").max(16),
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invoice date must be YYYY-MM-DD"),
+  invoiceValue: z.number(),
+  taxableValue: z.number(),
+  igstAmount: z.number().min(0),
+  cgstAmount: z.number().min(0),
+  sgstAmount: z.number().min(0),
+  itcAvailable: z.boolean(),
+  reverseCharge: z.boolean(),
+});
+
+export const importGstr2bSchema = z.object({
+  period: z.string().regex(GSTR1_PERIOD_REGEX, "Period must be YYYY-MM"),
+  fileName: z.string().trim().min(1).max(200),
+  gstin: z.string().regex(GSTIN_REGEX).optional(),
+  invoices: z.array(gstr2bInvoiceSchema),
+  skipped: z.number().int().min(0).default(0),
+});
+
+export const linkGstr2bEntrySchema = z.object({
+  purchaseId: z.string().min(1, "Purchase is required"),
+  action: z.enum(["linked", "purchase_created"]).default("linked"),
 });
 
-export const insertPurchaseSchema = createInsertSchema(purchases).omit({
+export const flagVendorSchema = z.object({
+  note: z.string().trim().min(1, "Say why the vendor is flagged").max(500),
+});
+
+// The next run date starts at the start date and is moved on by the scheduler
+export const insertRecurringInvoiceSchema = createInsertSchema(recurringInvoices, {
+  name: z.string().trim().min(1, "Give the schedule a name").max(100),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  startDate: z.coerce.date({ message: "Start date is required" }),
+  endDate: z.preprocess(
+    v => v === "" ? null : v,
+    z.union([z.coerce.date(), z.null()]).optional()
+  ),
+  paymentTermsDays: z.coerce.number().int().min(0, "Payment terms cannot be negative").max(365),
+  ...discountFields,
+}).omit({
   id: true,
+  nextRunDate: true,
+  status: true,
+  pausedAt: true,
+  lastError: true,
   createdAt: true,
+  updatedAt: true,
+}).refine(isDiscountWithinLimit, discountLimitIssue).refine(
+  data => !data.endDate || data.endDate >= data.startDate,
+  { path: ["endDate"], message: "End date cannot be before the start date" },
+);
+
+export const insertRecurringInvoiceItemSchema = insertBillItemSchema;
+
+export const insertReminderRuleSchema = createInsertSchema(reminderRules, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  daysFromDue: z.coerce.number().int().min(-90, "At most 90 days before").max(365, "At most 365 days after"),
+  repeatEveryDays: z.preprocess(
+    v => v === "" || v === 0 ? null : v,
+    z.union([z.coerce.number().int().min(1, "Repeat interval must be at least a day").max(90), z.null()]).optional()
+  ),
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Message is required").max(5000),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export const insertPurchaseItemSchema = createInsertSchema(purchaseItems).omit({
+export const sendBillReminderSchema = z.object({
+  ruleId: z.string().min(1, "Choose which reminder to send"),
+});
+
+// The state code is derived from the state, so only the state is sent
+export const insertCompanySettingsSchema = createInsertSchema(companySettings, {
+  legalName: z.string().trim().min(1, "Legal name is required"),
+  addressLine1: z.string().trim().min(1, "Address is required"),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().refine(v => !!getStateCode(v), "Enter a valid Indian state"),
+  pinCode: z.string().trim().regex(/^\d{6}$/, "PIN code must be 6 digits"),
+  gstin: z.preprocess(
+    v => typeof v === "string" ? (v.trim().toUpperCase() || null) : v,
+    z.string().regex(GSTIN_REGEX, "Invalid GSTIN").nullish(),
+  ),
+  pan: z.preprocess(
+    v => typeof v === "string" ? (v.trim().toUpperCase() || null) : v,
+    z.string().regex(PAN_REGEX, "Invalid PAN").nullish(),
+  ),
+  bankIfsc: z.preprocess(
+    v => typeof v === "string" ? (v.trim().toUpperCase() || null) : v,
+    z.string().regex(/^[A-Z]{4}0[A-Z0-9]{6}$/, "Invalid IFSC code").nullish(),
+  ),
+  tradeName: optionalText,
+  addressLine2: optionalText,
+  phone: optionalText,
+  email: optionalText,
+  logo: optionalText,
+  bankName: optionalText,
+  bankAccountName: optionalText,
+  bankAccountNumber: optionalText,
+  bankBranch: optionalText,
+  invoiceTerms: optionalText,
+  turnoverBand: z.string().refine(v => v in TURNOVER_BANDS, "Choose a turnover band").optional(),
+  signatoryName: optionalText,
+  signatoryDesignation: optionalText,
+}).omit({
   id: true,
+  stateCode: true,
+  updatedBy: true,
+  updatedAt: true,
+}).superRefine((data, ctx) => {
+  if (data.gstin && data.gstin.slice(0, 2) !== getStateCode(data.state)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["gstin"], message: "GSTIN does not belong to the selected state" });
+  }
+  if (data.gstin && data.pan && data.gstin.slice(2, 12) !== data.pan) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pan"], message: "PAN does not match the GSTIN" });
+  }
+});
+
+// GST invoices allow at most 16 characters: letters, digits, "-" and "/"
+export const insertDocumentSeriesSchema = createInsertSchema(documentSeries, {
+  documentType: z.enum(Object.keys(DOCUMENT_TYPES) as [keyof typeof DOCUMENT_TYPES]),
+  prefix: z.string().trim().regex(/^[A-Za-z0-9\/\-{}]*$/, "Only letters, digits, -, / and {TOKENS} are allowed"),
+  suffix: z.string().trim().regex(/^[A-Za-z0-9\/\-{}]*$/, "Only letters, digits, -, / and {TOKENS} are allowed"),
+  padding: z.coerce.number().int().min(1).max(8),
+}).omit({
+  updatedAt: true,
+}).superRefine((data, ctx) => {
+  const sample = formatDocumentNumber({ ...data, suffix: data.suffix ?? "", padding: data.padding ?? 4, resetEveryFinancialYear: true }, 1, new Date());
+  if (/[{}]/.test(sample)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["prefix"], message: "Unknown token in pattern" });
+  } else if (sample.length > 16) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["prefix"], message: `Numbers would be ${sample.length} characters; GST allows 16` });
+  }
+  if ((data.resetEveryFinancialYear ?? true) && !hasYearToken({ prefix: data.prefix ?? "", suffix: data.suffix ?? "" })) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["prefix"], message: "Add {FY}, {FYYY} or {YYYY} when numbering resets every financial year" });
+  }
+});
+
+// The account type follows from the group, so only the group is sent
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts, {
+  code: z.string().trim().regex(/^\d{3,6}$/, "Account code must be 3 to 6 digits"),
+  name: z.string().trim().min(1, "Account name is required").max(100),
+  group: z.enum(Object.keys(ACCOUNT_GROUPS) as [AccountGroup]),
+}).omit({
+  id: true,
+  type: true,
+  systemKey: true,
+  createdAt: true,
+});
+
+export const updateLedgerAccountSchema = insertLedgerAccountSchema.partial();
+
+// Manual journal vouchers; automatic postings are made by the server
+export const insertJournalEntrySchema = z.object({
+  entryDate: z.coerce.date(),
+  narration: z.string().trim().min(1, "Narration is required").max(500),
+});
+
+export const insertJournalLineSchema = z.object({
+  accountId: z.string().min(1, "Choose an account"),
+  debit: z.coerce.number().min(0).default(0),
+  credit: z.coerce.number().min(0).default(0),
 });
 
 // Types
@@ -305,12 +1429,57 @@ export type StockMovement = typeof stockMovements.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type Bill = typeof bills.$inferSelect;
 export type InsertBill = z.infer<typeof insertBillSchema>;
+export type CancelBill = z.infer<typeof cancelBillSchema>;
+export type RecordBillIrn = z.infer<typeof recordBillIrnSchema>;
 export type BillItem = typeof billItems.$inferSelect;
 export type InsertBillItem = z.infer<typeof insertBillItemSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect;
+export type InsertCreditNoteItem = z.infer<typeof insertCreditNoteItemSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
+export type InsertPaymentAllocation = z.infer<typeof insertPaymentAllocationSchema>;
+export type VendorPayment = typeof vendorPayments.$inferSelect;
+export type InsertVendorPayment = z.infer<typeof insertVendorPaymentSchema>;
+export type VendorPaymentAllocation = typeof vendorPaymentAllocations.$inferSelect;
+export type InsertVendorPaymentAllocation = z.infer<typeof insertVendorPaymentAllocationSchema>;
+export type Quotation = typeof quotations.$inferSelect;
+export type InsertQuotation = z.infer<typeof insertQuotationSchema>;
+export type QuotationItem = typeof quotationItems.$inferSelect;
+export type InsertQuotationItem = z.infer<typeof insertQuotationItemSchema>;
+export type SalesOrder = typeof salesOrders.$inferSelect;
+export type InsertSalesOrder = z.infer<typeof insertSalesOrderSchema>;
+export type SalesOrderItem = typeof salesOrderItems.$inferSelect;
+export type InsertSalesOrderItem = z.infer<typeof insertSalesOrderItemSchema>;
+export type DeliveryChallan = typeof deliveryChallans.$inferSelect;
+export type InsertDeliveryChallan = z.infer<typeof insertDeliveryChallanSchema>;
+export type DeliveryChallanItem = typeof deliveryChallanItems.$inferSelect;
+export type InsertDeliveryChallanItem = z.infer<typeof insertDeliveryChallanItemSchema>;
 export type Purchase = typeof purchases.$inferSelect;
 export type InsertPurchase = z.infer<typeof insertPurchaseSchema>;
 export type PurchaseItem = typeof purchaseItems.$inferSelect;
 export type InsertPurchaseItem = z.infer<typeof insertPurchaseItemSchema>;
+export type RecurringInvoice = typeof recurringInvoices.$inferSelect;
+export type InsertRecurringInvoice = z.infer<typeof insertRecurringInvoiceSchema>;
+export type RecurringInvoiceItem = typeof recurringInvoiceItems.$inferSelect;
+export type InsertRecurringInvoiceItem = z.infer<typeof insertRecurringInvoiceItemSchema>;
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
+export type ReminderRule = typeof reminderRules.$inferSelect;
+export type InsertReminderRule = z.infer<typeof insertReminderRuleSchema>;
+export type BillReminder = typeof billReminders.$inferSelect;
+export type CompanySettings = typeof companySettings.$inferSelect;
+export type DocumentSeries = typeof documentSeries.$inferSelect;
+export type InsertDocumentSeries = z.infer<typeof insertDocumentSeriesSchema>;
+export type InsertCompanySettings = z.infer<typeof insertCompanySettingsSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type UpdateLedgerAccount = z.infer<typeof updateLedgerAccountSchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = z.infer<typeof insertJournalLineSchema>;
 
 // Extended types for API responses
 export type ItemWithInventory = Item & {
@@ -322,9 +1491,259 @@ export type ItemWithInventory = Item & {
 export type BillWithDetails = Bill & {
   customer: Customer;
   billItems: (BillItem & { item: Item })[];
+  cancelledByUser?: Pick<User, "firstName" | "lastName" | "email"> | null;
+  challanNumbers: string[]; // delivery challans this bill invoiced
+  amountCredited: string;
+  amountPaid: string;
+  balanceDue: string;
 };
 
-export type PurchaseWithDetails = Purchase & {
+export type CreditNoteWithDetails = CreditNote & {
+  customer: Customer;
+  bill: Bill;
+  creditNoteItems: (CreditNoteItem & { item: Item })[];
+};
+
+export type PaymentWithDetails = Payment & {
+  customer: Customer;
+  allocations: (PaymentAllocation & { billNumber: string })[];
+};
+
+export type VendorPaymentWithDetails = VendorPayment & {
+  vendor: Vendor;
+  allocations: (VendorPaymentAllocation & { purchaseNumber: string; vendorInvoiceNumber: string | null })[];
+};
+
+export type QuotationWithDetails = Quotation & {
+  customer: Customer;
+  quotationItems: (QuotationItem & { item: Item })[];
+  convertedBillNumber: string | null;
+};
+
+export type SalesOrderWithDetails = SalesOrder & {
+  customer: Customer;
+  salesOrderItems: (SalesOrderItem & { item: Item })[];
+};
+
+export type DeliveryChallanWithDetails = DeliveryChallan & {
+  customer: Customer;
+  orderNumber: string;
+  challanItems: (DeliveryChallanItem & { item: Item; orderLine: SalesOrderItem })[];
+  billNumber: string | null;
+};
+
+// On hand is physical stock; reserved is still owed on open sales orders
+export type InventoryWithReservation = Inventory & {
+  item: Item;
+  reserved: number;
+  available: number;
+};
+
+export type PaymentModeSummary = {
+  mode: string;
+  count: number;
+  total: string;
+};
+
+// HSN-wise outward supplies net of credit notes, as in GSTR-1 table 12
+export type HsnSummaryRow = {
+  hsnCode: string | null;
+  unit: string;
+  gstRate: string;
+  quantity: number;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  totalValue: string;
+};
+
+// Input tax credit available on purchases in a period, by tax head
+export type InputTaxCreditSummary = {
+  purchases: number;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+};
+
+// One purchase in the input tax credit register. Credit on lines marked
+// ineligible, or from unregistered vendors, is shown but not claimed.
+export type ItcRegisterRow = {
+  purchaseId: string;
+  purchaseNumber: string;
+  purchaseDate: Date | null;
+  vendorId: string;
+  vendorName: string;
+  vendorGstin: string | null;
+  vendorInvoiceNumber: string | null;
+  vendorInvoiceDate: Date | null;
+  taxableValue: string;
+  cgstAmount: string;
+  sgstAmount: string;
+  igstAmount: string;
+  eligibleCredit: string;
+  ineligibleCredit: string;
+};
+
+// Per-bill discount breakdown for the analytics export
+export type BillDiscountSummary = {
+  billNumber: string;
+  billDate: Date | null;
+  customerName: string;
+  grossAmount: string;
+  lineDiscountAmount: string;
+  discountAmount: string;
+  taxableValue: string;
+  gstAmount: string;
+  roundOff: string;
+  total: string;
+};
+
+// Outstanding is what is still due on unpaid bills after credit notes and payments
+export type CustomerBalance = {
+  customerId: string;
+  billCount: number;
+  billedTotal: string;
+  creditedTotal: string;
+  outstanding: string;
+};
+
+export type CustomerStatement = CustomerStatementSummary & {
+  customer: Customer;
+};
+
+// An open bill in the receivables aging report, with the salesperson who raised it
+export type ReceivableAgingBill = AgingDocumentInput & {
+  createdBy: string;
+  salespersonName: string | null;
+};
+
+// Salespeople are listed from every open bill so the filter keeps its choices
+export type ReceivablesAging = AgingReport<ReceivableAgingBill> & {
+  salespeople: { id: string; name: string }[];
+};
+
+export type ReceivablesAgingFilters = {
+  createdBy?: string;
+  city?: string;
+  state?: string;
+};
+
+export type DocumentSeriesWithPreview = Omit<DocumentSeries, "documentType" | "updatedAt"> & {
+  documentType: DocumentType;
+  updatedAt: Date | null;
+  nextNumber: string;
+};
+
+export type PurchaseWithDetails = Omit<Purchase, "status"> & {
+  status: PayableStatus;
   vendor: Vendor;
   purchaseItems: (PurchaseItem & { item: Item })[];
+  amountPaid: string;
+  balanceDue: string;
+};
+
+export type PayableAgingPurchase = AgingDocumentInput & {
+  vendorInvoiceNumber: string | null;
+};
+
+export type PayablesAging = AgingReport<PayableAgingPurchase>;
+
+// Open purchases falling due in the coming week, and those already overdue
+export type PayablesDueSummary = {
+  from: string;
+  to: string;
+  dueThisWeek: { count: number; total: number };
+  overdue: { count: number; total: number };
+  purchases: {
+    purchaseId: string;
+    purchaseNumber: string;
+    vendorName: string;
+    vendorInvoiceNumber: string | null;
+    dueDate: string;
+    balanceDue: number;
+  }[];
+};
+
+export type Gstr2bImport = typeof gstr2bImports.$inferSelect;
+export type ImportGstr2b = z.infer<typeof importGstr2bSchema>;
+export type LinkGstr2bEntry = z.infer<typeof linkGstr2bEntrySchema>;
+
+export type Gstr2bEntryWithPurchase = Omit<typeof gstr2bEntries.$inferSelect, "status" | "action"> & {
+  status: Gstr2bMatchStatus;
+  action: Gstr2bAction | null;
+  purchase: (Purchase & { vendor: Vendor }) | null;
+  vendor: Vendor | null; // the vendor holding the supplier GSTIN, if any
+};
+
+export type Gstr2bReconciliation = {
+  import: Gstr2bImport | null;
+  entries: Gstr2bEntryWithPurchase[];
+};
+
+export type RecurringInvoiceWithDetails = Omit<RecurringInvoice, "status"> & {
+  status: RecurringInvoiceStatus;
+  customer: Customer;
+  recurringInvoiceItems: (RecurringInvoiceItem & { item: Item })[];
+  generatedCount: number;
+  lastBillNumber: string | null;
+};
+
+export type RecurringInvoiceRunWithBill = Omit<RecurringInvoiceRun, "status"> & {
+  status: RecurringRunStatus;
+  billNumber: string | null;
+  billTotal: string | null;
+};
+
+export type BillReminderWithRule = Omit<BillReminder, "status"> & {
+  status: ReminderStatus;
+  ruleName: string | null;
+  sentByName: string | null;
+};
+
+// Balances are net debit (positive) or credit (negative) over every posting
+export type LedgerAccountWithBalance = Omit<LedgerAccount, "type" | "group"> & {
+  type: AccountType;
+  group: AccountGroup;
+  totalDebit: number;
+  totalCredit: number;
+  balance: number;
+};
+
+export type JournalEntryWithLines = Omit<JournalEntry, "sourceType"> & {
+  sourceType: JournalSource;
+  createdByName: string | null;
+  lines: (JournalLine & { accountCode: string; accountName: string })[];
+};
+
+export type JournalEntryFilters = {
+  from?: Date;
+  to?: Date;
+  sourceType?: JournalSource;
+  accountId?: string;
+};
+
+export type AccountLedgerLine = {
+  entryId: string;
+  entryNumber: string;
+  entryDate: Date;
+  sourceType: JournalSource;
+  sourceNumber: string | null;
+  narration: string;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+
+// One account's postings in a period, opening with everything posted before it
+export type AccountLedger = {
+  account: Omit<LedgerAccountWithBalance, "totalDebit" | "totalCredit" | "balance">;
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: AccountLedgerLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
 };
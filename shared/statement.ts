@@ -0,0 +1,88 @@
+// Customer statement of account. Bills are debits; receipts, credit notes and
+// the reversal of a cancelled bill are credits. The balance is what the
+// customer owes, so a negative balance is money held on their behalf.
+
+import { round2 } from "./gst";
+
+export const STATEMENT_ENTRY_TYPES = {
+  bill: "Invoice",
+  receipt: "Receipt",
+  credit_note: "Credit Note",
+  cancellation: "Cancellation",
+} as const;
+
+export type StatementEntryType = keyof typeof STATEMENT_ENTRY_TYPES;
+
+export interface StatementTransaction {
+  date: Date | string;
+  type: StatementEntryType;
+  documentNumber: string;
+  description: string;
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine extends Omit<StatementTransaction, "date"> {
+  date: string;
+  balance: number;
+}
+
+export interface CustomerStatementSummary {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+}
+
+// Same-day entries keep a stable order: the bill first, then what settles it
+const TYPE_ORDER: StatementEntryType[] = ["bill", "credit_note", "cancellation", "receipt"];
+
+// Everything before `from` is rolled into the opening balance and anything
+// after `to` is left out
+export function buildCustomerStatement(transactions: StatementTransaction[], from: Date, to: Date): CustomerStatementSummary {
+  const sorted = [...transactions].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+    || TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type)
+    || a.documentNumber.localeCompare(b.documentNumber)
+  );
+
+  let openingBalance = 0;
+  let balance = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const lines: StatementLine[] = [];
+
+  for (const transaction of sorted) {
+    const date = new Date(transaction.date);
+    if (date > to) continue;
+    if (date < from) {
+      openingBalance = round2(openingBalance + transaction.debit - transaction.credit);
+      balance = openingBalance;
+      continue;
+    }
+    balance = round2(balance + transaction.debit - transaction.credit);
+    totalDebits = round2(totalDebits + transaction.debit);
+    totalCredits = round2(totalCredits + transaction.credit);
+    lines.push({ ...transaction, date: date.toISOString(), balance });
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    openingBalance,
+    lines,
+    totalDebits,
+    totalCredits,
+    closingBalance: balance,
+  };
+}
+
+// Balances are shown with Dr/Cr rather than a minus sign
+export function formatBalanceSide(balance: number): "Dr" | "Cr" | "" {
+  if (balance > 0) return "Dr";
+  if (balance < 0) return "Cr";
+  return "";
+}